@@ -2,6 +2,24 @@ import { useState, useEffect, useCallback } from "react";
 import type {
   MemoryNode,
   ExtensionMessage,
+  BrowsingSession,
+  EmbeddingStatus,
+  EncryptionStatus,
+  ForgetFilter,
+  ForgetPreview,
+  LanguageFacet,
+  PageHistory,
+  ParsedQuery,
+  QuerySuggestions,
+  SavedSearch,
+  SavedSearchView,
+  SearchSort,
+  SessionRecord,
+  StorageBudgetReport,
+  StorageEngineKind,
+  StorageEngineStatus,
+  TrashEntry,
+  VisitEvent,
 } from "@shared/extension-types";
 
 type AutomationAction = {
@@ -276,37 +294,74 @@ export function useExtension() {
     }
   }, [sendMessage]);
 
-  const searchMemory = useCallback(async (query: string, userId?: string) => {
+  const searchMemory = useCallback(async (
+    query: string,
+    userId?: string,
+    language?: string,
+    sort?: SearchSort
+  ): Promise<{ memories: any[]; languages: LanguageFacet[]; parsed?: ParsedQuery }> => {
     try {
       const response = await sendMessage<any>({ 
         type: "SEARCH_MEMORY", 
-        payload: { query, limit: 20, userId } 
+        payload: { query, limit: 20, userId, language, sort } 
       });
       
       if (response.success && response.data) {
         const data = response.data;
         // Handle RecallResult from extension
         if (data.matches && Array.isArray(data.matches)) {
-          return data.matches.map((match: any) => ({
-            ...match.node,
-            similarity: match.similarity,
-            reason: match.reason // Preserve reason data for explain-why
-          }));
+          return {
+            memories: data.matches.map((match: any) => ({
+              ...match.node,
+              similarity: match.similarity,
+              reason: match.reason, // Preserve reason data for explain-why
+              passage: match.passage,
+              // Query-aware excerpt with the matched words marked
+              snippet: match.snippet?.text,
+              highlights: match.snippet?.highlights,
+              titleHighlights: match.snippet?.titleHighlights
+            })),
+            languages: data.languages || [],
+            parsed: data.parsed,
+          };
         }
         
         // Fallback if it's already an array of nodes
         if (Array.isArray(data)) {
-          return data;
+          return { memories: data, languages: [] };
         }
       }
       console.warn("useExtension: searchMemory returned no data or failed:", response);
-      return [];
+      return { memories: [], languages: [] };
     } catch (error) {
       console.error("useExtension: searchMemory error:", error);
-      return [];
+      return { memories: [], languages: [] };
     }
   }, [sendMessage]);
 
+  // Completions and page hits for the search box, cheap enough to ask on every keystroke
+  const suggestQuery = useCallback(async (input: string, limit?: number) => {
+    const response = await sendMessage<QuerySuggestions>({ type: "SUGGEST_QUERY", payload: { input, limit } });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const getSavedSearches = useCallback(async () => {
+    const response = await sendMessage<SavedSearchView[]>({ type: "GET_SAVED_SEARCHES", payload: {} });
+    return response.success ? response.data ?? [] : [];
+  }, [sendMessage]);
+
+  const saveSearch = useCallback(async (name: string, query: string, language?: string, notify?: boolean) => {
+    return await sendMessage<SavedSearch>({ type: "SAVE_SEARCH", payload: { name, query, language, notify } });
+  }, [sendMessage]);
+
+  const deleteSavedSearch = useCallback(async (id: string) => {
+    return await sendMessage({ type: "DELETE_SAVED_SEARCH", payload: { id } });
+  }, [sendMessage]);
+
+  const markSavedSearchSeen = useCallback(async (id: string, nodeId?: string) => {
+    return await sendMessage({ type: "MARK_SAVED_SEARCH_SEEN", payload: { id, nodeId } });
+  }, [sendMessage]);
+
   const getCaptureSettings = useCallback(async () => {
     const response = await sendMessage<any>({ type: "GET_CAPTURE_SETTINGS", payload: {} });
     if (response.success && response.data) {
@@ -319,6 +374,113 @@ export function useExtension() {
     return await sendMessage({ type: "UPDATE_CAPTURE_SETTINGS", payload: settings });
   }, [sendMessage]);
 
+  const getPageHistory = useCallback(async (nodeId: string, revisionId?: string) => {
+    const response = await sendMessage<PageHistory>({ type: "GET_PAGE_HISTORY", payload: { nodeId, revisionId } });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const getPageVisits = useCallback(async (nodeId: string, limit?: number) => {
+    const response = await sendMessage<VisitEvent[]>({ type: "GET_PAGE_VISITS", payload: { nodeId, limit } });
+    return response.success ? response.data ?? [] : [];
+  }, [sendMessage]);
+
+  const getSessions = useCallback(async (limit?: number, since?: number) => {
+    const response = await sendMessage<SessionRecord[]>({ type: "GET_SESSIONS", payload: { limit, since } });
+    return response.success ? response.data ?? [] : [];
+  }, [sendMessage]);
+
+  const getSession = useCallback(async (sessionId: string) => {
+    const response = await sendMessage<BrowsingSession>({ type: "GET_SESSION", payload: { sessionId } });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const getStorageReport = useCallback(async () => {
+    const response = await sendMessage<StorageBudgetReport | null>({ type: "GET_STORAGE_REPORT", payload: {} });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const runStorageBudget = useCallback(async () => {
+    const response = await sendMessage<StorageBudgetReport>({ type: "RUN_STORAGE_BUDGET", payload: {} });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const getStorageEngine = useCallback(async () => {
+    const response = await sendMessage<StorageEngineStatus>({ type: "GET_STORAGE_ENGINE", payload: {} });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const setStorageEngine = useCallback(async (engine: StorageEngineKind) => {
+    return await sendMessage<StorageEngineStatus>({ type: "SET_STORAGE_ENGINE", payload: { engine } });
+  }, [sendMessage]);
+
+  const getEmbeddingStatus = useCallback(async () => {
+    const response = await sendMessage<EmbeddingStatus>({ type: "GET_EMBEDDING_STATUS", payload: {} });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const setEmbeddingModel = useCallback(async (modelId: string) => {
+    return await sendMessage<EmbeddingStatus>({ type: "SET_EMBEDDING_MODEL", payload: { modelId } });
+  }, [sendMessage]);
+
+  const reindexEmbeddings = useCallback(async () => {
+    return await sendMessage<EmbeddingStatus>({ type: "REINDEX_EMBEDDINGS", payload: {} });
+  }, [sendMessage]);
+
+  const getEncryptionStatus = useCallback(async () => {
+    const response = await sendMessage<EncryptionStatus>({ type: "GET_ENCRYPTION_STATUS", payload: {} });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const enableEncryption = useCallback(async (passphrase: string) => {
+    return await sendMessage<{ recoveryKey: string }>({ type: "ENABLE_ENCRYPTION", payload: { passphrase } });
+  }, [sendMessage]);
+
+  const disableEncryption = useCallback(async (passphrase: string) => {
+    return await sendMessage({ type: "DISABLE_ENCRYPTION", payload: { passphrase } });
+  }, [sendMessage]);
+
+  const unlockMemory = useCallback(async (passphrase: string) => {
+    return await sendMessage({ type: "UNLOCK_MEMORY", payload: { passphrase } });
+  }, [sendMessage]);
+
+  const lockMemory = useCallback(async () => {
+    return await sendMessage({ type: "LOCK_MEMORY", payload: {} });
+  }, [sendMessage]);
+
+  const changePassphrase = useCallback(async (currentPassphrase: string, newPassphrase: string) => {
+    return await sendMessage({ type: "CHANGE_PASSPHRASE", payload: { currentPassphrase, newPassphrase } });
+  }, [sendMessage]);
+
+  const rotateEncryptionKey = useCallback(async (passphrase: string) => {
+    return await sendMessage<{ recoveryKey: string }>({ type: "ROTATE_ENCRYPTION_KEY", payload: { passphrase } });
+  }, [sendMessage]);
+
+  const recoverEncryption = useCallback(async (recoveryKey: string, newPassphrase: string) => {
+    return await sendMessage({ type: "RECOVER_ENCRYPTION", payload: { recoveryKey, newPassphrase } });
+  }, [sendMessage]);
+
+  const previewForget = useCallback(async (filter: ForgetFilter) => {
+    const response = await sendMessage<ForgetPreview>({ type: "PREVIEW_FORGET", payload: filter });
+    return response.success ? response.data ?? null : null;
+  }, [sendMessage]);
+
+  const forgetData = useCallback(async (filter: ForgetFilter) => {
+    return await sendMessage<TrashEntry | null>({ type: "FORGET_DATA", payload: filter });
+  }, [sendMessage]);
+
+  const getTrash = useCallback(async () => {
+    const response = await sendMessage<TrashEntry[]>({ type: "GET_TRASH", payload: {} });
+    return response.success ? response.data ?? [] : [];
+  }, [sendMessage]);
+
+  const restoreData = useCallback(async (trashId: string) => {
+    return await sendMessage({ type: "RESTORE_DATA", payload: { trashId } });
+  }, [sendMessage]);
+
+  const emptyTrash = useCallback(async (trashId?: string) => {
+    return await sendMessage({ type: "EMPTY_TRASH", payload: { trashId } });
+  }, [sendMessage]);
+
   return {
     isAvailable,
     isChecking,
@@ -327,8 +489,37 @@ export function useExtension() {
     getStats,
     getAllPages,
     searchMemory,
+    suggestQuery,
+    getSavedSearches,
+    saveSearch,
+    deleteSavedSearch,
+    markSavedSearchSeen,
     getCaptureSettings,
     updateCaptureSettings,
+    getPageHistory,
+    getPageVisits,
+    getSessions,
+    getSession,
+    getStorageReport,
+    runStorageBudget,
+    getStorageEngine,
+    setStorageEngine,
+    getEmbeddingStatus,
+    setEmbeddingModel,
+    reindexEmbeddings,
+    getEncryptionStatus,
+    enableEncryption,
+    disableEncryption,
+    unlockMemory,
+    lockMemory,
+    changePassphrase,
+    rotateEncryptionKey,
+    recoverEncryption,
+    previewForget,
+    forgetData,
+    getTrash,
+    restoreData,
+    emptyTrash,
     getAnalytics,
   };
 }
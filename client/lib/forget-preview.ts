@@ -0,0 +1,53 @@
+/**
+ * Forget Preview
+ * Turns a ForgetPreview into the text shown before the user confirms a delete
+ */
+
+import type { ForgetPreview } from "@shared/extension-types";
+
+const MAX_LISTED_DOMAINS = 3;
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+export function forgetConfirmMessage(preview: ForgetPreview): string {
+  const lines: string[] = [];
+  const domains = preview.domains
+    .slice(0, MAX_LISTED_DOMAINS)
+    .map(({ domain, count }) => `${domain} (${count})`)
+    .join(", ");
+  const moreDomains = preview.domains.length - MAX_LISTED_DOMAINS;
+  lines.push(
+    `Forget ${plural(preview.pageCount, "page")}` +
+      (domains ? ` from ${domains}${moreDomains > 0 ? ` and ${plural(moreDomains, "other site")}` : ""}` : "") +
+      "?"
+  );
+
+  if (preview.oldest && preview.newest) {
+    const from = new Date(preview.oldest).toLocaleDateString();
+    const to = new Date(preview.newest).toLocaleDateString();
+    lines.push(from === to ? `Saved on ${from}.` : `Saved between ${from} and ${to}.`);
+  }
+  preview.samples.forEach((sample) => lines.push(`  • ${sample.title || sample.url}`));
+
+  const { embeddings, revisions, visits, edges, clusters } = preview.related;
+  const related = [
+    embeddings && plural(embeddings, "embedding"),
+    revisions && plural(revisions, "earlier version"),
+    visits && plural(visits, "visit"),
+    edges && plural(edges, "link"),
+    clusters && plural(clusters, "topic cluster"),
+  ].filter(Boolean);
+  if (related.length > 0) lines.push(`Also removed: ${related.join(", ")}.`);
+
+  lines.push("");
+  if (preview.restorable) {
+    lines.push("They move to the trash and can be restored for 30 days.");
+  } else {
+    const entries = preview.trashEntries === 1 ? "1 trash entry" : `${preview.trashEntries} trash entries`;
+    const trash = preview.trashEntries > 0 ? `, including ${entries},` : "";
+    lines.push(`This permanently deletes everything${trash} and cannot be undone.`);
+  }
+  return lines.join("\n");
+}
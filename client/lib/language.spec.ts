@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import { analyzeText, detectLanguage, languageName, segmentWords, stem } from "./language";
+import { extractKeywords } from "./text-utils";
+
+describe("detectLanguage", () => {
+  it("tells languages apart by script and by function words", () => {
+    expect(detectLanguage("Sea otters float on their backs and crack open clams with a rock")).toBe("en");
+    expect(detectLanguage("Les loutres de mer flottent sur le dos et cassent les coquillages avec une pierre")).toBe("fr");
+    expect(detectLanguage("Seeotter treiben auf dem Rücken und knacken Muscheln mit einem Stein")).toBe("de");
+    expect(detectLanguage("Las nutrias marinas flotan de espaldas y abren las almejas con una piedra")).toBe("es");
+    expect(detectLanguage("Морские выдры плавают на спине и разбивают раковины камнем")).toBe("ru");
+    expect(detectLanguage("Морські видри плавають на спині і розбивають мушлі каменем")).toBe("uk");
+    expect(detectLanguage("ラッコは石を使って貝を割ります。")).toBe("ja");
+    expect(detectLanguage("海獭仰面漂浮在水面上，用石头敲开贝壳。")).toBe("zh");
+    expect(detectLanguage("해달은 등을 대고 떠서 돌로 조개를 깹니다")).toBe("ko");
+  });
+
+  it("leaves text without enough to go on undetermined", () => {
+    expect(detectLanguage("otters")).toBe("und");
+    expect(detectLanguage("")).toBe("und");
+    expect(detectLanguage("404 - 2025")).toBe("und");
+    expect(languageName("und")).toBe("Unknown");
+    expect(languageName("ja")).toBe("Japanese");
+  });
+});
+
+describe("analyzeText", () => {
+  it("segments Chinese and Japanese text that has no spaces", () => {
+    expect(segmentWords("东京是日本的首都", "zh").length).toBeGreaterThan(2);
+    const terms = analyzeText("東京都に住んでいます", "ja");
+    expect(terms).toContain("東京");
+    // Particles and verb endings are dropped
+    expect(terms).not.toContain("に");
+  });
+
+  it("drops stopwords and folds plurals so pages and queries meet", () => {
+    expect(analyzeText("The otters and their rocks", "en")).toEqual(["otter", "rock"]);
+    expect(analyzeText("Les journaux et les maisons", "fr")).toEqual(["journal", "maison"]);
+    expect(stem("выдры", "ru")).toBe(stem("выдра", "ru"));
+    // An undetermined query stems by its script
+    expect(analyzeText("otters")).toEqual(analyzeText("otter", "en"));
+  });
+});
+
+describe("extractKeywords", () => {
+  it("finds keywords in non-English text", () => {
+    const russian = extractKeywords("Морские выдры плавают на спине. Выдры разбивают раковины камнем.", "Морские выдры");
+    expect(russian[0]).toBe("выдры");
+
+    const japanese = extractKeywords("ラッコは石を使って貝を割ります。ラッコは海に住んでいます。", "ラッコ");
+    expect(japanese[0]).toBe("ラッコ");
+
+    const french = extractKeywords("Les élèves étudient la géométrie. La géométrie plaît aux élèves.", "Géométrie");
+    expect(french.slice(0, 2).sort()).toEqual(["géométrie", "élèves"].sort());
+  });
+
+  it("counts word forms together and shows the most common one", () => {
+    const keywords = extractKeywords("Otters float. Otters crack clams. An otter sleeps.", "Sea otters");
+    expect(keywords[0]).toBe("otters");
+    expect(keywords).not.toContain("otter");
+    expect(keywords).not.toContain("the");
+  });
+});
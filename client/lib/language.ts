@@ -0,0 +1,410 @@
+/**
+ * Language
+ * Language detection, word segmentation, stopwords and light stemming for page text
+ *
+ * Shared by keyword extraction, the full-text index and the lexical fallback
+ * embeddings, so a page and a query written in the same language reduce to the same
+ * terms. Detection looks at the script first (kana means Japanese, Hangul Korean...)
+ * and, for Latin and Cyrillic text, at which language's function words show up most.
+ * Words come from `Intl.Segmenter`, which splits Chinese and Japanese without spaces;
+ * where it is missing, CJK runs fall back to overlapping character pairs.
+ * Stemming only folds the common inflections (mostly plurals) so "otters" finds
+ * "otter"; it never has to be exact because prefix matching covers the rest.
+ */
+
+// BCP 47 primary language subtag, or "und" when the language can't be told
+export type LanguageCode = string;
+
+export const UNDETERMINED = "und";
+
+// Text sampled for detection; the opening of a page is enough and keeps capture cheap
+const DETECTION_CHARS = 2000;
+// Latin and Cyrillic text needs this many function words before we name its language
+const MIN_STOPWORD_HITS = 2;
+// Share of letters a script needs to decide the page's language on its own
+const SCRIPT_SHARE = 0.3;
+
+const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: "English",
+  fr: "French",
+  de: "German",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  nl: "Dutch",
+  ru: "Russian",
+  uk: "Ukrainian",
+  ja: "Japanese",
+  zh: "Chinese",
+  ko: "Korean",
+  ar: "Arabic",
+  el: "Greek",
+  he: "Hebrew",
+  hi: "Hindi",
+  th: "Thai",
+  [UNDETERMINED]: "Unknown",
+};
+
+function words(list: string): Set<string> {
+  return new Set(list.split(/\s+/).filter(Boolean));
+}
+
+const STOPWORDS: Record<LanguageCode, Set<string>> = {
+  en: words(`
+    a an and are as at be been being but by can could did do does for from had has have he her his how i if in
+    into is it its may might more most must no nor not of on only or other our same she should so some such than
+    that the their them then there these they this those to too very was we were what when where which who why
+    will with would you your all each every both few about also just over after before
+  `),
+  fr: words(`
+    le la les un une des du de et ou mais donc or ni car en dans sur sous par pour avec sans est sont été être
+    avoir ont il elle ils elles nous vous je tu on ce cet cette ces qui que quoi dont où au aux se sa son ses
+    leur leurs ne pas plus très aussi comme tout tous toute toutes même
+  `),
+  de: words(`
+    der die das den dem des ein eine einer eines einem einen und oder aber doch in im ist sind war waren sein
+    hat haben wird werden mit von zu zum zur auf für an am aus bei nach über unter nicht auch als wie es er sie
+    wir ihr ich du sich dass noch nur so schon sehr
+  `),
+  es: words(`
+    el la los las un una unos unas y o pero de del al en con por para sin sobre es son fue ser está están estar
+    ha han haber que quien cual como cuando donde se su sus le les lo no más muy ya también este esta estos
+    estas ese esa eso
+  `),
+  it: words(`
+    il lo la i gli le un uno una e o ma di del della dei delle degli da dal dalla in nel nella con per su sul
+    tra fra è sono era essere ha hanno avere che chi come quando dove si non più molto anche questo questa
+    questi queste quello quella
+  `),
+  pt: words(`
+    o a os as um uma uns umas e ou mas de do da dos das em no na nos nas com por para sem sobre é são foi ser
+    está estão estar tem têm ter que quem qual como quando onde se seu sua seus suas não mais muito também
+    este esta isto esse essa isso ao aos
+  `),
+  nl: words(`
+    de het een en of maar in op aan van voor met door naar bij uit over onder is zijn was waren heeft hebben
+    wordt worden dat die dit deze wat wie hoe waar niet ook als dan nog al er hij zij wij ik je we ze
+  `),
+  ru: words(`
+    и в во не что он она оно они на я с со как а то все всё так его её их но да ты к у же вы за бы по только
+    ее мне было был была были вот от меня еще ещё нет о из ему теперь когда даже ну ли если уже или ни быть
+    для это этот эта эти при под над до же который которая которые
+  `),
+  uk: words(`
+    і й та в у на з із зі до від не що як це цей ця ці той ті він вона воно вони я ти ми ви але або чи
+    для по при над під за про же ж бо якщо коли вже ще який яка які є був була були бути
+  `),
+  ja: words(`
+    の に は を た が で て と し れ さ ある いる する なる こと もの ため よう これ それ あれ この その あの
+    です ます でし まし ない から まで など また および
+  `),
+  zh: words(`
+    的 了 是 在 和 有 我 他 她 它 这 那 也 就 都 而 及 与 着 或 一个 没有 我们 你们 他们 之 以 为 于 被 把
+    对 中 上 下 个 等 但 并 又 很 所以 因为 如果
+  `),
+  ko: words(`
+    이 그 저 것 수 등 및 또는 그리고 하지만 그러나 에서 으로 에게 하는 있다 없다 했다 한다 이다
+  `),
+};
+
+// Letters characteristic enough of one Latin-script language to break a tie
+const LATIN_HINTS: Array<[LanguageCode, RegExp]> = [
+  ["de", /[äöüß]/],
+  ["fr", /[çèêëîôœù]/],
+  ["es", /[ñ¿¡]/],
+  ["pt", /[ãõ]/],
+  ["it", /[ìò]/],
+];
+
+const SCRIPTS: Array<[string, RegExp]> = [
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ["han", /\p{Script=Han}/u],
+  ["hangul", /\p{Script=Hangul}/u],
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["greek", /\p{Script=Greek}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+  ["devanagari", /\p{Script=Devanagari}/u],
+  ["thai", /\p{Script=Thai}/u],
+  ["latin", /\p{Script=Latin}/u],
+];
+
+// Scripts that name their language outright
+const SCRIPT_LANGUAGES: Record<string, LanguageCode> = {
+  hangul: "ko",
+  arabic: "ar",
+  greek: "el",
+  hebrew: "he",
+  devanagari: "hi",
+  thai: "th",
+};
+
+function scriptCounts(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const char of text) {
+    const script = SCRIPTS.find(([, pattern]) => pattern.test(char));
+    if (script) counts.set(script[0], (counts.get(script[0]) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * The language whose function words `tokens` contain most, if it clearly leads
+ */
+function languageByStopwords(tokens: string[], candidates: LanguageCode[], text: string): LanguageCode {
+  const hits = candidates
+    .map((language) => ({ language, hits: tokens.filter((token) => STOPWORDS[language].has(token)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, second] = hits;
+  if (!best || best.hits < MIN_STOPWORD_HITS) return UNDETERMINED;
+  if (second && best.hits === second.hits) {
+    const tied = new Set(hits.filter((h) => h.hits === best.hits).map((h) => h.language));
+    const hinted = LATIN_HINTS.find(([language, pattern]) => tied.has(language) && pattern.test(text));
+    return hinted ? hinted[0] : UNDETERMINED;
+  }
+  return best.language;
+}
+
+/**
+ * Detect the main language of `text`, or "und" when there's too little to go on
+ */
+export function detectLanguage(text: string): LanguageCode {
+  const sample = (text || "").slice(0, DETECTION_CHARS).toLowerCase();
+  const counts = scriptCounts(sample);
+  const letters = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  if (letters === 0) return UNDETERMINED;
+  const share = (script: string) => (counts.get(script) || 0) / letters;
+
+  // Japanese mixes kanji and kana; kanji without any kana is Chinese
+  if (share("kana") + share("han") >= SCRIPT_SHARE) {
+    return share("kana") > 0.05 ? "ja" : "zh";
+  }
+  for (const [script, language] of Object.entries(SCRIPT_LANGUAGES)) {
+    if (share(script) >= SCRIPT_SHARE) return language;
+  }
+
+  const tokens = sample.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  if (share("cyrillic") >= SCRIPT_SHARE) {
+    // Ukrainian has letters Russian doesn't
+    if (/[іїєґ]/.test(sample)) return "uk";
+    const language = languageByStopwords(tokens, ["ru", "uk"], sample);
+    return language === UNDETERMINED ? "ru" : language;
+  }
+  if (share("latin") >= SCRIPT_SHARE) {
+    return languageByStopwords(tokens, ["en", "fr", "de", "es", "it", "pt", "nl"], sample);
+  }
+  return UNDETERMINED;
+}
+
+/**
+ * Display name for a language code
+ */
+export function languageName(language: LanguageCode | undefined): string {
+  return LANGUAGE_NAMES[language || UNDETERMINED] || language!.toUpperCase();
+}
+
+/**
+ * Language code for a code or English name ("ja", "Japanese"), as written by a user
+ */
+export function languageCode(value: string): LanguageCode {
+  const lower = value.trim().toLowerCase();
+  const named = Object.entries(LANGUAGE_NAMES).find(([, name]) => name.toLowerCase() === lower);
+  return named ? named[0] : lower.split(/[-_]/)[0];
+}
+
+// `Intl.Segmenter` is newer than the ES2020 lib this project compiles against
+interface Segment {
+  segment: string;
+  index: number;
+  isWordLike?: boolean;
+}
+interface TextSegmenter {
+  segment(text: string): Iterable<Segment>;
+}
+type Granularity = "word" | "sentence";
+type SegmenterConstructor = new (locale: string | undefined, options: { granularity: Granularity }) => TextSegmenter;
+
+const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+const segmenters = new Map<string, TextSegmenter>();
+
+function segmenterFor(language: LanguageCode, granularity: Granularity = "word"): TextSegmenter {
+  const key = `${granularity}:${language}`;
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Segmenter!(language === UNDETERMINED ? undefined : language, { granularity });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+}
+
+/**
+ * A word or sentence of a text and where it sits (`end` exclusive)
+ */
+export interface TextSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const LETTER_RUN = /[\p{L}\p{N}\p{M}]+/gu;
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]+/gu;
+
+function span(text: string, start: number): TextSpan {
+  return { text, start, end: start + text.length };
+}
+
+/**
+ * Overlapping character pairs of a run of CJK text, the usual stand-in for words without a dictionary
+ */
+function bigrams(run: TextSpan): TextSpan[] {
+  const chars = Array.from(run.text);
+  if (chars.length <= 2) return [run];
+  const spans: TextSpan[] = [];
+  let offset = run.start;
+  for (let i = 0; i + 1 < chars.length; i++) {
+    spans.push(span(chars[i] + chars[i + 1], offset));
+    offset += chars[i].length;
+  }
+  return spans;
+}
+
+/**
+ * Split a run of letters into CJK runs (as bigrams) and the text between them
+ */
+function splitCjk(run: TextSpan): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let last = 0;
+  for (const match of run.text.matchAll(CJK_RUN)) {
+    if (match.index! > last) spans.push(span(run.text.slice(last, match.index), run.start + last));
+    spans.push(...bigrams(span(match[0], run.start + match.index!)));
+    last = match.index! + match[0].length;
+  }
+  if (last < run.text.length) spans.push(span(run.text.slice(last), run.start + last));
+  return spans;
+}
+
+/**
+ * Words of a text (as written, not yet lowercased or filtered) with their offsets
+ */
+export function wordSpans(text: string, language: LanguageCode = UNDETERMINED): TextSpan[] {
+  if (!text) return [];
+  if (Segmenter) {
+    const spans: TextSpan[] = [];
+    for (const { segment, index, isWordLike } of segmenterFor(language).segment(text)) {
+      if (isWordLike) spans.push(span(segment, index));
+    }
+    return spans;
+  }
+  // Without a segmenter: runs of letters, with CJK runs paired up
+  return Array.from(text.matchAll(LETTER_RUN)).flatMap((match) => splitCjk(span(match[0], match.index!)));
+}
+
+/**
+ * Split text into words (as written, not yet lowercased or filtered)
+ */
+export function segmentWords(text: string, language: LanguageCode = UNDETERMINED): string[] {
+  return wordSpans(text, language).map((word) => word.text);
+}
+
+/**
+ * Sentences of a text with their offsets, trailing whitespace excluded
+ */
+export function sentenceSpans(text: string, language: LanguageCode = UNDETERMINED): TextSpan[] {
+  if (!text) return [];
+  const segments = Segmenter
+    ? Array.from(segmenterFor(language, "sentence").segment(text), ({ segment, index }) => span(segment, index))
+    : Array.from(text.matchAll(/[^.!?。！？]+(?:[.!?。！？]+|$)\s*/gu), (match) => span(match[0], match.index!));
+  return segments
+    .map((sentence) => span(sentence.text.trimEnd(), sentence.start))
+    .filter((sentence) => sentence.text.trim().length > 0);
+}
+
+function stripSuffix(word: string, suffixes: string[], minStem: number): string {
+  for (const suffix of suffixes) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= minStem) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+const STEMMERS: Record<LanguageCode, (word: string) => string> = {
+  en: (word) => {
+    if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+    if (word.endsWith("ies") && word.length > 4) return word.slice(0, -3) + "y";
+    if (/(sses|xes|ches|shes)$/.test(word)) return word.slice(0, -2);
+    if (word.endsWith("'s")) return word.slice(0, -2);
+    return word.endsWith("s") ? word.slice(0, -1) : word;
+  },
+  fr: (word) => {
+    if (word.endsWith("aux") && word.length > 4) return word.slice(0, -3) + "al";
+    return word.length > 3 ? stripSuffix(word, ["s", "x"], 3) : word;
+  },
+  es: (word) => {
+    if (word.endsWith("ces") && word.length > 4) return word.slice(0, -3) + "z";
+    if (/[^aeiouáéíóú]es$/.test(word) && word.length > 4) return word.slice(0, -2);
+    return word.length > 3 ? stripSuffix(word, ["s"], 3) : word;
+  },
+  pt: (word) => {
+    if (/(ões|ães)$/.test(word)) return word.slice(0, -3) + "ão";
+    if (word.endsWith("ns") && word.length > 4) return word.slice(0, -2) + "m";
+    return word.length > 3 ? stripSuffix(word, ["s"], 3) : word;
+  },
+  // Italian plurals swap the final vowel, so drop it
+  it: (word) => stripSuffix(word, ["i", "e", "o", "a"], 4),
+  de: (word) => (word.endsWith("eln") ? word.slice(0, -1) : stripSuffix(word, ["ern", "em", "en", "er", "es", "e", "s"], 3)),
+  nl: (word) => stripSuffix(word, ["en", "s"], 3),
+  ru: (word) =>
+    stripSuffix(word, ["ами", "ями", "ого", "его", "ому", "ему", "ов", "ев", "ей", "ой", "ый", "ий", "ая", "яя", "ое", "ее", "ые", "ие", "ам", "ям", "ах", "ях", "ом", "ем", "а", "я", "о", "е", "ы", "и", "у", "ю", "ь", "й"], 3),
+  // Korean attaches particles to the noun ("조개를"); strip the common ones
+  ko: (word) => stripSuffix(word, ["에서", "으로", "은", "는", "이", "가", "을", "를", "로", "에", "의", "와", "과", "도"], 1),
+  uk: (word) =>
+    stripSuffix(word, ["ами", "ями", "ого", "ому", "ів", "їв", "ей", "ой", "ий", "ій", "ая", "ої", "ою", "ам", "ям", "ах", "ях", "ом", "ем", "а", "я", "о", "е", "и", "і", "ї", "у", "ю", "ь", "й"], 3),
+};
+
+/**
+ * Fold a lowercased word's inflections; words of an unknown language go by their script
+ */
+export function stem(word: string, language: LanguageCode = UNDETERMINED): string {
+  let stemmer = STEMMERS[language];
+  if (!stemmer && language === UNDETERMINED) {
+    if (/^\p{Script=Latin}+$/u.test(word)) stemmer = STEMMERS.en;
+    else if (/^\p{Script=Cyrillic}+$/u.test(word)) stemmer = STEMMERS.ru;
+  }
+  return stemmer ? stemmer(word) : word;
+}
+
+/**
+ * Whether `word` (lowercased) is a function word, in `language` or, when unknown, in English
+ */
+export function isStopword(word: string, language: LanguageCode = UNDETERMINED): boolean {
+  const list = STOPWORDS[language] || (language === UNDETERMINED ? STOPWORDS.en : undefined);
+  return !!list && list.has(word);
+}
+
+// Short runs of hiragana are particles and verb endings once kanji words are split off
+const HIRAGANA_ONLY = /^\p{Script=Hiragana}{1,2}$/u;
+
+/**
+ * Words worth indexing: lowercased, with function words and single characters dropped
+ * (a single Han character is a word in its own right, so it stays)
+ */
+export function contentWords(text: string, language: LanguageCode = UNDETERMINED): string[] {
+  return segmentWords(text, language)
+    // Segments keep inner apostrophes and dots ("don't", "e.g"); terms are letters and digits only
+    .flatMap((word) => word.split(/[^\p{L}\p{N}\p{M}]+/u))
+    .map((word) => word.normalize("NFC").toLowerCase())
+    .filter(
+      (word) =>
+        (word.length > 1 || /\p{Script=Han}/u.test(word)) &&
+        !isStopword(word, language) &&
+        !(language === "ja" && HIRAGANA_ONLY.test(word))
+    );
+}
+
+/**
+ * Index terms of `text`: content words, stemmed
+ */
+export function analyzeText(text: string, language: LanguageCode = detectLanguage(text)): string[] {
+  return contentWords(text, language).map((word) => stem(word, language));
+}
@@ -3,6 +3,8 @@
  * and generating keywords for semantic search
  */
 
+import { contentWords, detectLanguage, stem, type LanguageCode } from "./language";
+
 /**
  * Extract readable text from HTML content
  * Removes scripts, styles, and unnecessary markup
@@ -31,113 +33,35 @@ export function extractReadableText(html: string): string {
 
 /**
  * Extract keywords from text using simple frequency analysis
- * In production, this would use NLP or ML models
+ * Words are segmented, filtered and stemmed for the page's language (see language.ts);
+ * each keyword is shown in its most frequent written form
  */
 export function extractKeywords(
   text: string,
   title: string = "",
-  limit: number = 10
+  limit: number = 10,
+  language: LanguageCode = detectLanguage(`${title} ${text}`)
 ): string[] {
-  const stopWords = new Set([
-    "the",
-    "a",
-    "an",
-    "and",
-    "or",
-    "but",
-    "in",
-    "on",
-    "at",
-    "to",
-    "for",
-    "of",
-    "with",
-    "by",
-    "from",
-    "is",
-    "are",
-    "was",
-    "were",
-    "be",
-    "been",
-    "being",
-    "have",
-    "has",
-    "had",
-    "do",
-    "does",
-    "did",
-    "will",
-    "would",
-    "should",
-    "could",
-    "may",
-    "might",
-    "must",
-    "can",
-    "this",
-    "that",
-    "these",
-    "those",
-    "i",
-    "you",
-    "he",
-    "she",
-    "it",
-    "we",
-    "they",
-    "what",
-    "which",
-    "who",
-    "when",
-    "where",
-    "why",
-    "how",
-    "all",
-    "each",
-    "every",
-    "both",
-    "few",
-    "more",
-    "most",
-    "other",
-    "some",
-    "such",
-    "no",
-    "nor",
-    "not",
-    "only",
-    "same",
-    "so",
-    "than",
-    "too",
-    "very",
-  ]);
-
-  // Tokenize and filter - handle null from match() when no matches found
-  const textMatches = text.toLowerCase().match(/\b\w+\b/g) || [];
-  const titleMatches = title.toLowerCase().match(/\b\w+\b/g) || [];
-  const words = [
-    ...textMatches,
-    ...titleMatches,
-  ].filter(
-    (word) =>
-      word.length > 3 &&
-      !stopWords.has(word) &&
-      !/^\d+$/.test(word)
-  );
-
-  // Count frequency
   const frequency = new Map<string, number>();
-  words.forEach((word) => {
-    frequency.set(word, (frequency.get(word) || 0) + 1);
-  });
+  const forms = new Map<string, Map<string, number>>();
+
+  for (const word of [...contentWords(text, language), ...contentWords(title, language)]) {
+    // Numbers make poor keywords; so do the shortest Latin/Cyrillic words, but not CJK ones
+    if (/^\p{N}+$/u.test(word)) continue;
+    if (word.length <= 3 && /^[\p{Script=Latin}\p{Script=Cyrillic}\p{N}]+$/u.test(word)) continue;
+
+    const term = stem(word, language);
+    frequency.set(term, (frequency.get(term) || 0) + 1);
+    const termForms = forms.get(term) || new Map<string, number>();
+    termForms.set(word, (termForms.get(word) || 0) + 1);
+    forms.set(term, termForms);
+  }
 
   // Sort by frequency
   return Array.from(frequency.entries())
     .sort((a, b) => b[1] - a[1])
     .slice(0, limit)
-    .map(([word]) => word);
+    .map(([term]) => Array.from(forms.get(term)!.entries()).sort((a, b) => b[1] - a[1])[0][0]);
 }
 
 /**
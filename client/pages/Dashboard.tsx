@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback, useMemo, useRef } from "react";
+import { useEffect, useState, useCallback, useMemo, useRef, type KeyboardEvent, type ReactNode } from "react";
 import {
   Search,
   Sidebar,
@@ -17,13 +17,30 @@ import {
   Globe,
   Info,
   BarChart3,
-  LogOut
+  LogOut,
+  Languages,
+  Bell,
+  BookmarkPlus,
+  CheckCheck
 } from "lucide-react";
 import Header from "@/components/Header";
 import { useExtension } from "@/hooks/useExtension";
+import { forgetConfirmMessage } from "@/lib/forget-preview";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/context/AuthContext";
 import { useNavigate } from "react-router-dom";
+import { languageName } from "@/lib/language";
+import type {
+  LanguageFacet,
+  PageSuggestion,
+  PassageHit,
+  QueryCompletion,
+  QuerySuggestions,
+  SavedSearchView,
+  SearchFilter,
+  SearchSort,
+  TextRange
+} from "@shared/extension-types";
 
 interface PageMemory {
   id: string;
@@ -40,6 +57,11 @@ interface PageMemory {
     contextMatch: string;
     semanticSimilarity: number;
   };
+  // Best-matching passage of a long page, from search
+  passage?: PassageHit;
+  // Matched words in `snippet` and `title`, from search
+  highlights?: TextRange[];
+  titleHighlights?: TextRange[];
 }
 
 interface Cluster {
@@ -255,12 +277,103 @@ function categorizeUrl(url: string): string {
   return "miscellaneous";
 }
 
+type SuggestionItem =
+  | { type: "completion"; completion: QueryCompletion }
+  | { type: "page"; page: PageSuggestion };
+
+function CompletionRow({ completion }: { completion: QueryCompletion }) {
+  const Icon = completion.kind === "query" ? Clock : completion.kind === "domain" ? Globe : Search;
+  return (
+    <>
+      <Icon className="w-4 h-4 text-slate-400 shrink-0" />
+      <span className="truncate text-slate-700 dark:text-slate-200">{completion.text}</span>
+    </>
+  );
+}
+
+function PageSuggestionRow({ page }: { page: PageSuggestion }) {
+  return (
+    <>
+      {page.favicon ? (
+        <img src={page.favicon} alt="" className="w-4 h-4 rounded shrink-0" />
+      ) : (
+        <Globe className="w-4 h-4 text-slate-400 shrink-0" />
+      )}
+      <span className="truncate font-medium text-slate-800 dark:text-slate-100">{page.title || page.url}</span>
+      <span className="ml-auto pl-3 text-xs text-slate-400 truncate">{page.domain}</span>
+      <ExternalLink className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+    </>
+  );
+}
+
+const SEARCH_SORTS: Array<{ value: SearchSort; label: string }> = [
+  { value: "relevance", label: "Best match" },
+  { value: "recent", label: "Newest" },
+  { value: "frecency", label: "Most visited" },
+];
+
+/**
+ * Text with the ranges a search matched marked
+ */
+function HighlightedText({ text, highlights }: { text: string; highlights?: TextRange[] }) {
+  if (!highlights?.length) return <>{text}</>;
+  const parts: ReactNode[] = [];
+  let last = 0;
+  highlights.forEach(({ start, end }, i) => {
+    if (start > last) parts.push(<span key={`t${i}`}>{text.slice(last, start)}</span>);
+    parts.push(
+      <mark key={`m${i}`} className="bg-primary/15 text-inherit rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < text.length) parts.push(<span key="rest">{text.slice(last)}</span>);
+  return <>{parts}</>;
+}
+
+/**
+ * Chip text for a search operator
+ */
+function filterChipLabel(filter: SearchFilter): string {
+  const not = filter.negated ? "not " : "";
+  switch (filter.kind) {
+    case "site":
+      return `${not}on ${filter.value}`;
+    case "after":
+    case "before":
+      return `${filter.kind} ${filter.time ? new Date(filter.time).toLocaleDateString() : filter.value}`;
+    case "phrase":
+      return `${not}"${filter.value}"`;
+    case "term":
+      return `without ${filter.value}`;
+    case "cluster":
+      return `${not}in ${filter.value}`;
+    case "tag":
+      return `${not}#${filter.value}`;
+    case "lang":
+      return `${not}${languageName(filter.value)}`;
+  }
+}
+
 export default function Dashboard() {
   console.log("Dashboard rendering, Globe is:", Globe);
   const { user, logout } = useAuth();
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const [debouncedQuery, setDebouncedQuery] = useState("");
+  // Language facet of the current search: the languages of its matches, and the one picked
+  const [languageFacets, setLanguageFacets] = useState<LanguageFacet[]>([]);
+  const [languageFilter, setLanguageFilter] = useState<string | null>(null);
+  // Operators parsed out of the current search (site:, after:, "phrase"...), shown as chips
+  const [queryFilters, setQueryFilters] = useState<SearchFilter[]>([]);
+  const [searchSort, setSearchSort] = useState<SearchSort>("relevance");
+  // Search-as-you-type dropdown: what the extension suggests for the current input, and the highlighted row
+  const [suggestions, setSuggestions] = useState<QuerySuggestions | null>(null);
+  const [suggestionsOpen, setSuggestionsOpen] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const suggestSeq = useRef(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearchView[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [activeTab, setActiveTab] = useState("search");
   const [selectedCategoryFilter, setSelectedCategoryFilter] = useState<string | null>(null);
@@ -288,11 +401,18 @@ export default function Dashboard() {
     getAllPages,
     getStats,
     searchMemory,
+    suggestQuery,
+    getSavedSearches,
+    saveSearch,
+    deleteSavedSearch,
+    markSavedSearchSeen,
     getCaptureSettings,
     updateCaptureSettings,
     getAnalytics,
     sendMessage,
     executeAction,
+    previewForget,
+    forgetData,
   } = useExtension();
 
   const pushAgentLog = useCallback((message: string) => {
@@ -415,6 +535,95 @@ export default function Dashboard() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  // Suggestions are cheap, so they follow every keystroke; only the latest answer is shown
+  useEffect(() => {
+    if (!isAvailable) return;
+    const seq = ++suggestSeq.current;
+    suggestQuery(searchQuery)
+      .then((result) => {
+        if (seq !== suggestSeq.current) return;
+        setSuggestions(result);
+        setActiveSuggestion(-1);
+      })
+      .catch((err) => console.warn("Dashboard: suggestions failed", err));
+  }, [searchQuery, isAvailable, suggestQuery]);
+
+  const suggestionItems = useMemo<SuggestionItem[]>(
+    () => [
+      ...(suggestions?.completions || []).map((completion) => ({ type: "completion" as const, completion })),
+      ...(suggestions?.pages || []).map((page) => ({ type: "page" as const, page })),
+    ],
+    [suggestions]
+  );
+
+  const chooseSuggestion = useCallback((item: SuggestionItem) => {
+    if (item.type === "page") {
+      window.open(item.page.url, "_blank");
+    } else {
+      setSearchQuery(item.completion.text);
+    }
+    setSuggestionsOpen(false);
+    setActiveSuggestion(-1);
+  }, []);
+
+  const onSearchKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setSuggestionsOpen(false);
+      return;
+    }
+    if (suggestionItems.length === 0) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setSuggestionsOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // Past either end goes back to the input (-1)
+      setActiveSuggestion((current) => {
+        const next = current + step;
+        return next < -1 ? suggestionItems.length - 1 : next >= suggestionItems.length ? -1 : next;
+      });
+    } else if (e.key === "Enter" && suggestionsOpen && activeSuggestion >= 0) {
+      e.preventDefault();
+      chooseSuggestion(suggestionItems[activeSuggestion]);
+    }
+  }, [suggestionItems, suggestionsOpen, activeSuggestion, chooseSuggestion]);
+
+  const loadSavedSearches = useCallback(async () => {
+    if (!isAvailable) return;
+    setSavedSearches(await getSavedSearches());
+  }, [isAvailable, getSavedSearches]);
+
+  // Unseen counts show in the sidebar, so load on connect and again whenever the tab is opened
+  useEffect(() => {
+    if (activeTab === "search" || activeTab === "saved") loadSavedSearches();
+  }, [activeTab, loadSavedSearches]);
+
+  const handleSaveSearch = useCallback(async () => {
+    const query = searchQuery.trim();
+    if (!query) return;
+    const name = window.prompt("Name this saved search. Cortex will flag new pages that match it.", query);
+    if (name === null) return;
+    const response = await saveSearch(name, query, languageFilter ?? undefined);
+    if (!response.success) {
+      alert(`Could not save the search: ${response.error || "unknown error"}`);
+      return;
+    }
+    await loadSavedSearches();
+  }, [searchQuery, languageFilter, saveSearch, loadSavedSearches]);
+
+  const runSavedSearch = useCallback((search: SavedSearchView) => {
+    setSearchQuery(search.query);
+    setLanguageFilter(search.language ?? null);
+    setActiveTab("search");
+  }, []);
+
+  const openSavedSearchMatch = useCallback(async (search: SavedSearchView, nodeId: string, url: string) => {
+    window.open(url, "_blank");
+    await markSavedSearchSeen(search.id, nodeId);
+    await loadSavedSearches();
+  }, [markSavedSearchSeen, loadSavedSearches]);
+
+  const unseenSavedMatches = savedSearches.reduce((sum, search) => sum + search.unseenCount, 0);
+
   // Load data from Extension
   const loadData = useCallback(async () => {
     if (!isAvailable) return;
@@ -426,14 +635,21 @@ export default function Dashboard() {
         return [];
       });
 
+      if (!debouncedQuery.trim()) {
+        setLanguageFacets([]);
+        setQueryFilters([]);
+      }
       const nodesPromise = debouncedQuery.trim()
-        ? searchMemory(debouncedQuery, user?.uid)
+        ? searchMemory(debouncedQuery, user?.uid, languageFilter ?? undefined, searchSort)
             .catch((err) => {
               console.error("Search fail:", err);
-              return [];
+              return { memories: [], languages: [], parsed: undefined };
             })
-            .then(async (results) => {
-              if (Array.isArray(results) && results.length > 0) return results;
+            .then(async ({ memories: results, languages, parsed }) => {
+              setLanguageFacets(languages);
+              setQueryFilters(parsed?.filters || []);
+              // Filters with no matches should show nothing, not every page
+              if (results.length > 0 || languageFilter || parsed?.filters.length) return results;
               // Fallback: if semantic search returns nothing (e.g., index not ready yet), show all pages.
               return await pagesPromise;
             })
@@ -511,14 +727,17 @@ export default function Dashboard() {
             id: node.id,
             url: node.url,
             title: node.title,
-            // Use snippet if available (from GET_ALL_PAGES), fallback to readableText (from SEARCH_MEMORY)
-            snippet: node.snippet || (node.readableText ? node.readableText.slice(0, 200) : ""),
+            // Search snippet or the opening of the page (from GET_ALL_PAGES), then the matched passage
+            snippet: node.snippet || node.passage?.text.slice(0, 200) || (node.readableText ? node.readableText.slice(0, 200) : ""),
+            highlights: node.highlights,
+            titleHighlights: node.titleHighlights,
             timestamp: new Date(node.timestamp).toLocaleString(),
             similarity: node.similarity || 1.0,
             keywords: node.keywords || [],
             domain: node.metadata?.domain || "",
             category: categorizeUrl(node.url),
-            reason: reason
+            reason: reason,
+            passage: node.passage
           };
         });
 
@@ -529,7 +748,7 @@ export default function Dashboard() {
     } catch (err) {
       console.error("Dashboard: Critical failure loading data:", err);
     }
-  }, [getAllPages, getStats, searchMemory, getCaptureSettings, debouncedQuery, isAvailable, sendMessage]);
+  }, [getAllPages, getStats, searchMemory, getCaptureSettings, debouncedQuery, languageFilter, searchSort, isAvailable, sendMessage]);
 
   // Initial load and reload when query changes - prevent infinite loop
   const [lastQuery, setLastQuery] = useState<string | null>(null);
@@ -541,10 +760,11 @@ export default function Dashboard() {
       return;
     }
     
-    // Always load on initial mount (lastQuery is null) or when query actually changed
-    if (lastQuery === null || debouncedQuery !== lastQuery) {
+    // Always load on initial mount (lastQuery is null) or when query, language filter or sort actually changed
+    const searchKey = `${debouncedQuery}\u0000${languageFilter ?? ""}\u0000${searchSort}`;
+    if (lastQuery === null || searchKey !== lastQuery) {
       setIsLoading(true);
-      setLastQuery(debouncedQuery);
+      setLastQuery(searchKey);
       
       // Add a small delay on initial load to let the extension's seedAlways() complete
       const delayMs = !initialLoadDone && debouncedQuery === "" ? 500 : 0;
@@ -557,7 +777,7 @@ export default function Dashboard() {
       
       return () => clearTimeout(timer);
     }
-  }, [debouncedQuery, isAvailable, loadData, lastQuery, initialLoadDone]);
+  }, [debouncedQuery, languageFilter, searchSort, isAvailable, loadData, lastQuery, initialLoadDone]);
 
   // Load analytics when analytics tab is active - prevent infinite loop
   const [analyticsLoaded, setAnalyticsLoaded] = useState(false);
@@ -753,6 +973,15 @@ export default function Dashboard() {
                     <Search className="w-4 h-4 mr-3" />
                     Smart Search
                   </button>
+                  <button onClick={() => { setActiveTab("saved"); setSelectedCategoryFilter(null); }} className={`w-full flex items-center px-4 py-3 rounded-xl text-sm font-medium transition-all ${activeTab === "saved" ? "bg-primary text-primary-foreground shadow-sm" : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"}`}>
+                    <Bell className="w-4 h-4 mr-3" />
+                    Saved Searches
+                    {unseenSavedMatches > 0 && (
+                      <span className={`ml-auto px-2 py-0.5 rounded-full text-[10px] font-bold ${activeTab === "saved" ? "bg-white/20" : "bg-primary text-white"}`}>
+                        {unseenSavedMatches}
+                      </span>
+                    )}
+                  </button>
                   <button onClick={() => { setActiveTab("clusters"); setSelectedCategoryFilter(null); }} className={`w-full flex items-center px-4 py-3 rounded-xl text-sm font-medium transition-all ${activeTab === "clusters" ? "bg-primary text-primary-foreground shadow-sm" : "text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800"}`}>
                     <Sidebar className="w-4 h-4 mr-3" />
                     Auto Groups ({clusters.length})
@@ -838,18 +1067,118 @@ export default function Dashboard() {
                   </div>
                   <input
                     type="text"
-                    placeholder="Search by keyword, topic, or semantic meaning..."
+                    placeholder="Search by keyword, topic, or meaning. Try site:github.com after:last-week"
                     className="w-full pl-14 pr-6 py-5 bg-white dark:bg-slate-900 border-2 border-slate-100 dark:border-slate-800 rounded-2xl text-lg font-medium shadow-sm focus:outline-none focus:border-primary transition-all placeholder:text-slate-400"
                     value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    onChange={(e) => {
+                      setSearchQuery(e.target.value);
+                      setSuggestionsOpen(true);
+                    }}
+                    onFocus={() => setSuggestionsOpen(true)}
+                    onBlur={() => setSuggestionsOpen(false)}
+                    onKeyDown={onSearchKeyDown}
+                    role="combobox"
+                    aria-expanded={suggestionsOpen && suggestionItems.length > 0}
+                    aria-controls="search-suggestions"
+                    aria-activedescendant={activeSuggestion >= 0 ? `search-suggestion-${activeSuggestion}` : undefined}
                   />
                   {debouncedQuery && (
                     <div className="absolute right-5 top-1/2 -translate-y-1/2 px-3 py-1 bg-primary/10 text-primary rounded-lg text-[10px] font-bold uppercase tracking-wider">
                       Semantic Search Active
                     </div>
                   )}
+                  {suggestionsOpen && suggestionItems.length > 0 && (
+                    <ul
+                      id="search-suggestions"
+                      role="listbox"
+                      className="absolute left-0 right-0 top-full mt-2 z-50 py-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-xl overflow-hidden"
+                    >
+                      {suggestionItems.map((item, i) => (
+                        <li
+                          key={item.type === "page" ? `page:${item.page.id}` : `completion:${item.completion.text}`}
+                          id={`search-suggestion-${i}`}
+                          role="option"
+                          aria-selected={i === activeSuggestion}
+                          // Keep focus in the input so the blur doesn't close the list before the click lands
+                          onMouseDown={(e) => e.preventDefault()}
+                          onClick={() => chooseSuggestion(item)}
+                          onMouseEnter={() => setActiveSuggestion(i)}
+                          className={`flex items-center gap-3 px-5 py-2 cursor-pointer text-sm ${i === activeSuggestion ? "bg-primary/10" : ""} ${item.type === "page" && (i === 0 || suggestionItems[i - 1].type !== "page") ? "border-t border-slate-100 dark:border-slate-800 mt-1 pt-3" : ""}`}
+                        >
+                          {item.type === "page" ? (
+                            <PageSuggestionRow page={item.page} />
+                          ) : (
+                            <CompletionRow completion={item.completion} />
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
+                {queryFilters.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 max-w-3xl">
+                    {queryFilters.map((filter) => (
+                      <span
+                        key={filter.raw}
+                        className={`inline-flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-lg text-xs font-bold ${filter.negated ? "bg-red-50 dark:bg-red-950/40 text-red-600 dark:text-red-400" : "bg-primary/10 text-primary"}`}
+                      >
+                        {filterChipLabel(filter)}
+                        <button
+                          onClick={() => setSearchQuery((query) => query.replace(filter.raw, "").replace(/\s+/g, " ").trim())}
+                          className="p-0.5 rounded hover:bg-black/10"
+                          aria-label={`Remove ${filter.raw}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+
+                {debouncedQuery && (languageFacets.length > 1 || languageFilter) && (
+                  <div className="flex flex-wrap items-center gap-2 max-w-3xl">
+                    <Languages className="w-4 h-4 text-slate-400" />
+                    <button
+                      onClick={() => setLanguageFilter(null)}
+                      className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${!languageFilter ? "bg-primary text-white" : "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-primary/50"}`}
+                    >
+                      All languages
+                    </button>
+                    {languageFacets.map(({ language, count }) => (
+                      <button
+                        key={language}
+                        onClick={() => setLanguageFilter(language === languageFilter ? null : language)}
+                        className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${language === languageFilter ? "bg-primary text-white" : "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-primary/50"}`}
+                      >
+                        {languageName(language)} ({count})
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {debouncedQuery && (
+                  <div className="flex flex-wrap items-center gap-2 max-w-3xl">
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Sort</span>
+                    {SEARCH_SORTS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setSearchSort(value)}
+                        className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${value === searchSort ? "bg-primary text-white" : "bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-primary/50"}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <button
+                      onClick={handleSaveSearch}
+                      className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded-lg text-xs font-bold bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 text-slate-600 dark:text-slate-300 hover:border-primary/50 transition-all"
+                    >
+                      <BookmarkPlus className="w-3.5 h-3.5" />
+                      Save search
+                    </button>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 pb-20">
                   {isLoading && memories.length === 0 ? (
                     <div className="col-span-full py-20 flex flex-col items-center justify-center space-y-4">
@@ -881,7 +1210,7 @@ export default function Dashboard() {
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2">
                               <h3 className="font-bold text-slate-900 dark:text-white truncate group-hover:text-primary transition-colors flex-1">
-                                {memory.title}
+                                <HighlightedText text={memory.title} highlights={memory.titleHighlights} />
                               </h3>
                               {/* Always show info button, generate reason if missing */}
                               {(() => {
@@ -937,7 +1266,7 @@ export default function Dashboard() {
                           </div>
                         </div>
                         <p className="text-sm text-slate-500 line-clamp-2 mb-6 leading-relaxed">
-                          {memory.snippet}
+                          <HighlightedText text={memory.snippet} highlights={memory.highlights} />
                         </p>
                         <div className="flex items-center justify-between pt-4 border-t border-slate-50 dark:border-slate-800">
                           <div className="flex gap-1.5">
@@ -957,6 +1286,107 @@ export default function Dashboard() {
                   )}
                 </div>
               </div>
+            ) : activeTab === "saved" ? (
+              <div className="space-y-10 animate-in fade-in duration-500">
+                <div className="space-y-3">
+                  <h1 className="text-4xl lg:text-5xl font-extrabold tracking-tight text-slate-900 dark:text-white">
+                    Saved <span className="text-primary">Searches.</span>
+                  </h1>
+                  <p className="text-lg text-slate-500 max-w-2xl leading-relaxed">
+                    Cortex checks every page you visit against these searches and flags the new ones that match.
+                  </p>
+                </div>
+
+                {savedSearches.length === 0 ? (
+                  <div className="py-20 text-center space-y-4">
+                    <div className="w-16 h-16 bg-slate-100 dark:bg-slate-800 rounded-full flex items-center justify-center mx-auto text-slate-400">
+                      <Bell className="w-8 h-8" />
+                    </div>
+                    <p className="text-slate-500 font-medium">No saved searches yet</p>
+                    <p className="text-sm text-slate-400">Run a search, then use "Save search" to keep an eye on it.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-6 pb-20 max-w-4xl">
+                    {savedSearches.map((search) => {
+                      const unseen = search.matches.filter((match) => !match.seen);
+                      return (
+                        <div key={search.id} className="p-6 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 space-y-4">
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <h3 className="font-bold text-slate-900 dark:text-white truncate flex items-center gap-2">
+                                {search.name}
+                                {search.unseenCount > 0 && (
+                                  <span className="px-2 py-0.5 rounded-full bg-primary text-white text-[10px] font-bold">
+                                    {search.unseenCount} new
+                                  </span>
+                                )}
+                              </h3>
+                              <p className="text-xs text-slate-400 font-mono truncate mt-1">
+                                {search.query}
+                                {search.language ? ` · ${languageName(search.language)}` : ""}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <button
+                                onClick={() => runSavedSearch(search)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-primary/10 text-primary hover:bg-primary/20 transition-all"
+                              >
+                                <Search className="w-3.5 h-3.5" />
+                                Run
+                              </button>
+                              {search.unseenCount > 0 && (
+                                <button
+                                  onClick={async () => {
+                                    await markSavedSearchSeen(search.id);
+                                    await loadSavedSearches();
+                                  }}
+                                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 transition-all"
+                                >
+                                  <CheckCheck className="w-3.5 h-3.5" />
+                                  Mark seen
+                                </button>
+                              )}
+                              <button
+                                onClick={async () => {
+                                  if (!confirm(`Delete the saved search "${search.name}"?`)) return;
+                                  await deleteSavedSearch(search.id);
+                                  await loadSavedSearches();
+                                }}
+                                className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/40 transition-all"
+                                aria-label={`Delete ${search.name}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+
+                          {unseen.length > 0 ? (
+                            <ul className="divide-y divide-slate-100 dark:divide-slate-800 border-t border-slate-100 dark:border-slate-800">
+                              {unseen.map((match) => (
+                                <li
+                                  key={match.id}
+                                  onClick={() => openSavedSearchMatch(search, match.id, match.url)}
+                                  className="flex items-center gap-3 py-2.5 text-sm cursor-pointer hover:text-primary"
+                                >
+                                  <PageSuggestionRow page={match} />
+                                  <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider shrink-0">
+                                    {new Date(match.matchedAt).toLocaleDateString()}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-sm text-slate-400">
+                              No new matches
+                              {search.matches.length > 0 ? ` · ${search.matches.length} earlier ${search.matches.length === 1 ? "match" : "matches"}` : ""}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
             ) : activeTab === "clusters" ? (
               <div className="space-y-10 animate-in fade-in duration-500">
                 <div className="space-y-3">
@@ -1012,7 +1442,7 @@ export default function Dashboard() {
                             </div>
                             <div className="flex-1 min-w-0">
                               <h3 className="font-bold text-slate-900 dark:text-white truncate group-hover:text-primary transition-colors">
-                                {memory.title}
+                                <HighlightedText text={memory.title} highlights={memory.titleHighlights} />
                               </h3>
                               <p className="text-xs text-slate-400 truncate font-medium">
                                 {memory.domain}
@@ -1020,7 +1450,7 @@ export default function Dashboard() {
                             </div>
                           </div>
                           <p className="text-sm text-slate-500 line-clamp-2 mb-6 leading-relaxed">
-                            {memory.snippet}
+                            <HighlightedText text={memory.snippet} highlights={memory.highlights} />
                           </p>
                           <div className="flex items-center justify-between pt-4 border-t border-slate-50 dark:border-slate-800">
                             <div className="flex gap-1.5">
@@ -1447,8 +1877,9 @@ export default function Dashboard() {
                     </div>
                     <button 
                       onClick={async () => {
-                        if (confirm("Are you sure you want to clear all your data? This cannot be undone.")) {
-                          const response = await sendMessage({ type: "FORGET_DATA", payload: {} });
+                        const preview = await previewForget({});
+                        if (preview && confirm(forgetConfirmMessage(preview))) {
+                          const response = await forgetData({});
                           if (response.success) {
                             alert("All data has been cleared.");
                             window.location.reload();
@@ -1489,9 +1920,11 @@ export default function Dashboard() {
             </div>
             <div className="p-8 overflow-y-auto space-y-8">
               <div className="space-y-3">
-                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">About this page</h4>
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  {selectedMemory.passage ? "Matching passage" : "About this page"}
+                </h4>
                 <p className="text-slate-600 dark:text-slate-300 leading-relaxed italic border-l-4 border-primary/20 pl-4 py-1">
-                  "{selectedMemory.snippet}..."
+                  "{selectedMemory.passage?.text ?? selectedMemory.snippet}..."
                 </p>
               </div>
               <div className="grid grid-cols-2 gap-6">
@@ -1517,16 +1950,18 @@ export default function Dashboard() {
             </div>
             <div className="p-6 bg-slate-50 dark:bg-slate-800/50 border-t border-slate-100 dark:border-slate-800 flex gap-3">
               <button 
-                onClick={() => window.open(selectedMemory.url, '_blank')}
+                onClick={() => window.open(selectedMemory.passage?.url ?? selectedMemory.url, '_blank')}
                 className="flex-1 py-4 bg-primary text-primary-foreground rounded-xl font-bold text-sm shadow-lg hover:opacity-90 transition-all flex items-center justify-center gap-2"
               >
                 <ExternalLink className="w-4 h-4" />
-                Visit Website
+                {selectedMemory.passage ? "Jump to Passage" : "Visit Website"}
               </button>
               <button 
                 onClick={async () => {
-                  if (confirm("Remove this memory forever?")) {
-                    const response = await sendMessage({ type: "FORGET_DATA", payload: { domain: selectedMemory.domain } });
+                  const filter = { nodeIds: [selectedMemory.id] };
+                  const preview = await previewForget(filter);
+                  if (preview && confirm(forgetConfirmMessage(preview))) {
+                    const response = await forgetData(filter);
                     if (response.success) {
                       setMemories(prev => prev.filter(m => m.id !== selectedMemory.id));
                       setSelectedMemory(null);
@@ -6,10 +6,27 @@ import {
   ToggleRight,
   Loader,
   HelpCircle,
+  HardDrive,
+  Database,
+  Sparkles,
+  Lock,
+  Unlock,
+  RotateCcw,
 } from "lucide-react";
 import Header from "@/components/Header";
 import { useExtension } from "@/hooks/useExtension";
-import type { PrivacyRule } from "@shared/extension-types";
+import { forgetConfirmMessage } from "@/lib/forget-preview";
+import type {
+  PrivacyRule,
+  EvictionPolicy,
+  StorageBudgetReport,
+  StorageEngineKind,
+  StorageEngineStatus,
+  EmbeddingStatus,
+  EncryptionStatus,
+  ForgetFilter,
+  TrashEntry,
+} from "@shared/extension-types";
 
 export default function Privacy() {
   const [rules, setRules] = useState<PrivacyRule[]>([]);
@@ -21,6 +38,24 @@ export default function Privacy() {
   const [isLoading, setIsLoading] = useState(true);
   const [pageCount, setPageCount] = useState(0);
   const [storageSize, setStorageSize] = useState(0);
+  const [storageReport, setStorageReport] = useState<StorageBudgetReport | null>(null);
+  const [maxStorageSize, setMaxStorageSize] = useState(0);
+  const [evictionPolicy, setEvictionPolicy] = useState<EvictionPolicy>("oldest");
+  const [keepPinnedPages, setKeepPinnedPages] = useState(true);
+  const [isRunningBudget, setIsRunningBudget] = useState(false);
+  const [engine, setEngine] = useState<StorageEngineStatus | null>(null);
+  const [engineError, setEngineError] = useState<string | null>(null);
+  const [isSwitchingEngine, setIsSwitchingEngine] = useState(false);
+  const [embedding, setEmbedding] = useState<EmbeddingStatus | null>(null);
+  const [embeddingError, setEmbeddingError] = useState<string | null>(null);
+  const [encryption, setEncryption] = useState<EncryptionStatus | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState("");
+  const [shownRecoveryKey, setShownRecoveryKey] = useState<string | null>(null);
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
+  const [isEncryptionBusy, setIsEncryptionBusy] = useState(false);
+  const [trash, setTrash] = useState<TrashEntry[]>([]);
 
   const {
     isAvailable,
@@ -29,6 +64,26 @@ export default function Privacy() {
     getStats,
     getCaptureSettings,
     updateCaptureSettings,
+    getStorageReport,
+    runStorageBudget,
+    getStorageEngine,
+    setStorageEngine,
+    getEmbeddingStatus,
+    setEmbeddingModel,
+    reindexEmbeddings,
+    getEncryptionStatus,
+    enableEncryption,
+    disableEncryption,
+    unlockMemory,
+    lockMemory,
+    changePassphrase,
+    rotateEncryptionKey,
+    recoverEncryption,
+    previewForget,
+    forgetData,
+    getTrash,
+    restoreData,
+    emptyTrash,
   } = useExtension();
 
   // Load data from Extension
@@ -39,13 +94,18 @@ export default function Privacy() {
     }
     
     try {
-      const [stats, settings, rulesResponse] = await Promise.all([
+      const [stats, settings, rulesResponse, report, engineStatus, embeddingStatus, encryptionStatus, trashEntries] = await Promise.all([
         getStats().catch(() => ({ pageCount: 0, storageSize: 0 })),
         getCaptureSettings().catch(() => ({ enabled: true, excludeDomains: [], excludeKeywords: [], maxStorageSize: 0 })),
         sendMessage<PrivacyRule[]>({
           type: "GET_PRIVACY_RULES",
           payload: {}
-        }).catch(() => ({ success: false, data: [] }))
+        }).catch(() => ({ success: false, data: [] })),
+        getStorageReport().catch(() => null),
+        getStorageEngine().catch(() => null),
+        getEmbeddingStatus().catch(() => null),
+        getEncryptionStatus().catch(() => null),
+        getTrash().catch(() => []),
       ]);
 
       if (stats) {
@@ -55,8 +115,17 @@ export default function Privacy() {
 
       if (settings) {
         setCaptureActive(settings.enabled);
+        setMaxStorageSize(settings.maxStorageSize);
+        setEvictionPolicy(settings.evictionPolicy || "oldest");
+        setKeepPinnedPages(settings.keepPinnedPages !== false);
       }
 
+      setStorageReport(report);
+      setEngine(engineStatus);
+      setEmbedding(embeddingStatus);
+      setEncryption(encryptionStatus);
+      setTrash(trashEntries);
+
       if (rulesResponse.success && rulesResponse.data) {
         setRules(rulesResponse.data);
       }
@@ -65,7 +134,7 @@ export default function Privacy() {
     } finally {
       setIsLoading(false);
     }
-  }, [getStats, getCaptureSettings, sendMessage, isAvailable, isChecking]);
+  }, [getStats, getCaptureSettings, getStorageReport, getStorageEngine, getEmbeddingStatus, getEncryptionStatus, getTrash, sendMessage, isAvailable, isChecking]);
 
   useEffect(() => {
     if (isAvailable) {
@@ -82,6 +151,98 @@ export default function Privacy() {
     await updateCaptureSettings({ enabled: newState });
   };
 
+  const handlePolicyChange = async (policy: EvictionPolicy) => {
+    setEvictionPolicy(policy);
+    await updateCaptureSettings({ evictionPolicy: policy });
+  };
+
+  const handleToggleKeepPinned = async () => {
+    const next = !keepPinnedPages;
+    setKeepPinnedPages(next);
+    await updateCaptureSettings({ keepPinnedPages: next });
+  };
+
+  const handleRunBudget = async () => {
+    setIsRunningBudget(true);
+    try {
+      const report = await runStorageBudget();
+      if (report) setStorageReport(report);
+    } catch (err) {
+      console.error("Storage cleanup failed:", err);
+    } finally {
+      setIsRunningBudget(false);
+    }
+  };
+
+  const handleSwitchEngine = async (target: StorageEngineKind) => {
+    setIsSwitchingEngine(true);
+    setEngineError(null);
+    try {
+      const response = await setStorageEngine(target);
+      if (!response.success) setEngineError(response.error || "Could not switch storage engine");
+      setEngine((await getStorageEngine()) ?? engine);
+    } catch (err) {
+      console.error("Storage engine switch failed:", err);
+      setEngineError(String(err));
+    } finally {
+      setIsSwitchingEngine(false);
+    }
+  };
+
+  // Poll while a re-index runs so the progress bar moves
+  const reindexRunning = embedding?.reindex?.status === "running";
+  useEffect(() => {
+    if (!reindexRunning) return;
+    const timer = setInterval(async () => {
+      const status = await getEmbeddingStatus().catch(() => null);
+      if (status) setEmbedding(status);
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [reindexRunning, getEmbeddingStatus]);
+
+  const runEmbeddingAction = async (action: () => Promise<{ success: boolean; data?: EmbeddingStatus; error?: string }>) => {
+    setEmbeddingError(null);
+    try {
+      const response = await action();
+      if (!response.success) setEmbeddingError(response.error || "Could not update the search model");
+      if (response.data) setEmbedding(response.data);
+    } catch (err) {
+      console.error("Search model update failed:", err);
+      setEmbeddingError(String(err));
+    }
+  };
+
+  // Runs one encryption action, shows its error (e.g. a wrong passphrase) and refreshes the status
+  const runEncryptionAction = async (
+    action: () => Promise<{ success: boolean; data?: unknown; error?: string }>
+  ) => {
+    setIsEncryptionBusy(true);
+    setEncryptionError(null);
+    try {
+      const response = await action();
+      if (!response.success) {
+        setEncryptionError(response.error?.replace(/^Error: /, "") || "Something went wrong");
+        return;
+      }
+      const recoveryKey = (response.data as { recoveryKey?: string } | undefined)?.recoveryKey;
+      if (recoveryKey) setShownRecoveryKey(recoveryKey);
+      setPassphrase("");
+      setNewPassphrase("");
+      setRecoveryKeyInput("");
+      setEncryption(await getEncryptionStatus());
+    } catch (err) {
+      console.error("Encryption action failed:", err);
+    } finally {
+      setIsEncryptionBusy(false);
+    }
+  };
+
+  const handleDisableEncryption = () => {
+    if (confirm("Turn off encryption? Saved pages will be decrypted and stored as plain text again.")) {
+      runEncryptionAction(() => disableEncryption(passphrase));
+    }
+  };
+
   const handleAddRule = async () => {
     if (!newRule.trim()) return;
 
@@ -158,23 +319,49 @@ export default function Privacy() {
     }
   };
 
-  const handleClearAll = async () => {
-    if (confirm("Are you sure you want to clear all your data? This cannot be undone.")) {
-      try {
-        const response = await sendMessage({
-          type: "FORGET_DATA",
-          payload: {}
-        });
-        if (response.success) {
-          alert("All data has been cleared.");
-          window.location.reload();
-        }
-      } catch (err) {
-        console.error("Clear failed:", err);
+  // Shows what a forget request covers and only sends it once the user confirms
+  const handleForget = async (filter: ForgetFilter) => {
+    try {
+      const preview = await previewForget(filter);
+      if (!preview) return;
+      if (preview.restorable && preview.pageCount === 0) {
+        alert("Nothing saved matches, so there is nothing to forget.");
+        return;
       }
+      if (!confirm(forgetConfirmMessage(preview))) return;
+
+      const response = await forgetData(filter);
+      if (!response.success) {
+        alert("Failed to forget data: " + response.error);
+      } else if (preview.restorable) {
+        await loadData();
+      } else {
+        alert("All data has been cleared.");
+        window.location.reload();
+      }
+    } catch (err) {
+      console.error("Forget failed:", err);
     }
   };
 
+  const handleClearAll = () => handleForget({});
+
+  const handleRestore = async (entry: TrashEntry) => {
+    const response = await restoreData(entry.id);
+    if (response.success) {
+      await loadData();
+    } else {
+      alert("Failed to restore: " + response.error);
+    }
+  };
+
+  const handleEmptyTrash = async (entry?: TrashEntry) => {
+    const what = entry ? `"${entry.label}"` : "everything in the trash";
+    if (!confirm(`Permanently delete ${what}? This cannot be undone.`)) return;
+    await emptyTrash(entry?.id);
+    setTrash(entry ? trash.filter((t) => t.id !== entry.id) : []);
+  };
+
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950">
       <Header />
@@ -264,6 +451,382 @@ export default function Privacy() {
           </div>
         </div>
 
+        {/* Storage Budget */}
+        <div className="mb-16">
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Storage Limit</h2>
+          <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+            <div className="flex items-start justify-between gap-6 mb-8">
+              <div className="max-w-md">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">Keep Cortex under {formatStorageSize(maxStorageSize)}</h3>
+                <p className="text-slate-500 text-sm leading-relaxed">
+                  When the limit is reached, Cortex first shortens old pages to a summary, then removes pages in the order you choose.
+                </p>
+              </div>
+              <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-100 dark:border-blue-800 text-blue-600">
+                <HardDrive className="w-6 h-6" />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mb-8">
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Remove first</p>
+                <select
+                  value={evictionPolicy}
+                  onChange={(e) => handlePolicyChange(e.target.value as EvictionPolicy)}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                >
+                  <option value="oldest">Oldest pages</option>
+                  <option value="least-visited">Least visited pages</option>
+                  <option value="largest">Largest pages</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Pinned pages</p>
+                  <p className="text-sm text-slate-500">{keepPinnedPages ? "Never removed" : "Can be removed"}</p>
+                </div>
+                <button
+                  onClick={handleToggleKeepPinned}
+                  className={`relative w-14 h-7 rounded-full transition-colors ${
+                    keepPinnedPages ? "bg-primary" : "bg-slate-200 dark:bg-slate-700"
+                  }`}
+                >
+                  <div
+                    className={`absolute top-1 w-5 h-5 bg-white rounded-full transition-transform ${
+                      keepPinnedPages ? "translate-x-8" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+            </div>
+
+            <div className="pt-8 border-t border-slate-100 dark:border-slate-800">
+              <div className="flex items-center justify-between mb-4">
+                <h4 className="font-bold text-slate-900 dark:text-white">Last cleanup</h4>
+                <button
+                  onClick={handleRunBudget}
+                  disabled={isRunningBudget}
+                  className="px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50 flex items-center gap-2"
+                >
+                  {isRunningBudget && <Loader className="w-3 h-3 animate-spin" />}
+                  Run now
+                </button>
+              </div>
+              {storageReport ? (
+                <div className="space-y-3 text-sm">
+                  <p className="text-slate-500">
+                    {new Date(storageReport.timestamp).toLocaleString()} &middot;{" "}
+                    {formatStorageSize(storageReport.bytesBefore)} &rarr; {formatStorageSize(storageReport.bytesAfter)}
+                    {!storageReport.withinBudget && (
+                      <span className="ml-2 text-amber-600 font-bold">Still over the limit</span>
+                    )}
+                  </p>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Shortened</p>
+                      <p className="font-bold text-slate-900 dark:text-white">{storageReport.compacted} Pages</p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Removed</p>
+                      <p className="font-bold text-slate-900 dark:text-white">{storageReport.evicted.length} Pages</p>
+                    </div>
+                    <div>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">Leftovers cleaned</p>
+                      <p className="font-bold text-slate-900 dark:text-white">
+                        {storageReport.orphans.embeddings + storageReport.orphans.edges + storageReport.orphans.revisions}
+                      </p>
+                    </div>
+                  </div>
+                  {storageReport.evicted.length > 0 && (
+                    <ul className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                      {storageReport.evicted.map((page) => (
+                        <li key={page.id} className="text-xs text-slate-500 truncate">
+                          {page.title || page.url}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ) : (
+                <p className="text-slate-400 text-sm">No cleanup has run yet.</p>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Storage Engine */}
+        <div className="mb-16">
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Storage Engine</h2>
+          <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+            <div className="flex items-start justify-between gap-6 mb-8">
+              <div className="max-w-md">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">
+                  {engine?.active === "sqlite" ? "Stored in SQLite" : "Stored in IndexedDB"}
+                </h3>
+                <p className="text-slate-500 text-sm leading-relaxed">
+                  SQLite keeps memories in a private database file and makes search and analytics faster on large collections.
+                  Switching copies every page to the new engine before removing the old copy.
+                </p>
+              </div>
+              <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-100 dark:border-blue-800 text-blue-600">
+                <Database className="w-6 h-6" />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-6">
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Engine</p>
+                <select
+                  value={engine?.active ?? "indexeddb"}
+                  onChange={(e) => handleSwitchEngine(e.target.value as StorageEngineKind)}
+                  disabled={!engine || isSwitchingEngine || encryption?.locked}
+                  className="px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary disabled:opacity-50"
+                >
+                  <option value="indexeddb">IndexedDB</option>
+                  <option value="sqlite">SQLite (OPFS)</option>
+                </select>
+              </div>
+              {isSwitchingEngine && (
+                <p className="text-sm text-slate-500 flex items-center gap-2">
+                  <Loader className="w-4 h-4 animate-spin" />
+                  Moving memories…
+                </p>
+              )}
+            </div>
+
+            {encryption?.locked && (
+              <p className="mt-4 text-sm text-slate-500">Unlock Cortex to switch storage engines.</p>
+            )}
+            {engine?.fallbackReason && (
+              <p className="mt-4 text-sm text-amber-600 font-medium">
+                SQLite could not be opened ({engine.fallbackReason}), so Cortex is using IndexedDB.
+              </p>
+            )}
+            {engineError && <p className="mt-4 text-sm text-red-600 font-medium">{engineError}</p>}
+          </div>
+        </div>
+
+        {/* Search Model */}
+        <div className="mb-16">
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Search Model</h2>
+          <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+            <div className="flex items-start justify-between gap-6 mb-8">
+              <div className="max-w-md">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">{embedding?.active.label ?? "Search model"}</h3>
+                <p className="text-slate-500 text-sm leading-relaxed">
+                  Pages are matched by meaning using this model. Changing it re-processes saved pages in the background; capture keeps working meanwhile.
+                </p>
+              </div>
+              <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-100 dark:border-blue-800 text-blue-600">
+                <Sparkles className="w-6 h-6" />
+              </div>
+            </div>
+
+            <div className="flex items-end justify-between gap-6">
+              <div>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Model</p>
+                <select
+                  value={embedding?.active.id ?? ""}
+                  onChange={(e) => runEmbeddingAction(() => setEmbeddingModel(e.target.value))}
+                  disabled={!embedding}
+                  className="px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary disabled:opacity-50"
+                >
+                  {embedding?.models.map((model) => (
+                    <option key={model.id} value={model.id}>
+                      {model.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={() => runEmbeddingAction(reindexEmbeddings)}
+                disabled={!embedding || reindexRunning}
+                className="px-4 py-2 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50 flex items-center gap-2"
+              >
+                {reindexRunning && <Loader className="w-3 h-3 animate-spin" />}
+                Re-index now
+              </button>
+            </div>
+
+            {embedding?.reindex && embedding.reindex.total > 0 && (
+              <div className="mt-8 pt-8 border-t border-slate-100 dark:border-slate-800">
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="font-bold text-slate-900 dark:text-white">
+                    {embedding.reindex.status === "done" ? "Re-index complete" : embedding.reindex.status === "paused" ? "Re-index paused" : "Re-indexing"}
+                  </span>
+                  <span className="text-slate-500">
+                    {embedding.reindex.done} / {embedding.reindex.total} pages
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-800 overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${Math.round((embedding.reindex.done / embedding.reindex.total) * 100)}%` }}
+                  />
+                </div>
+                {embedding.reindex.error && <p className="mt-2 text-xs text-amber-600 font-medium">{embedding.reindex.error}</p>}
+              </div>
+            )}
+            {embeddingError && <p className="mt-4 text-sm text-red-600 font-medium">{embeddingError}</p>}
+          </div>
+        </div>
+
+        {/* Encryption */}
+        <div className="mb-16">
+          <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Encryption</h2>
+          <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+            <div className="flex items-start justify-between gap-6 mb-8">
+              <div className="max-w-md">
+                <h3 className="text-lg font-bold text-slate-900 dark:text-white mb-2">
+                  {!encryption?.enabled ? "Protect saved pages with a passphrase" : encryption.locked ? "Cortex is locked" : "Encryption is on"}
+                </h3>
+                <p className="text-slate-500 text-sm leading-relaxed">
+                  Page titles, text and earlier versions are encrypted on this computer. So that search keeps working, even while locked, anyone who can open this browser profile can still read:
+                </p>
+                <ul className="mt-2 list-disc pl-5 text-slate-500 text-sm leading-relaxed">
+                  <li>page addresses, sites, keywords, visits and sessions</li>
+                  <li>the search index: the words each page contains and how often, enough to piece together much of a page's title and text</li>
+                  <li>the embeddings that semantic search compares</li>
+                </ul>
+              </div>
+              <div className="p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-100 dark:border-blue-800 text-blue-600">
+                {encryption?.enabled && !encryption.locked ? <Unlock className="w-6 h-6" /> : <Lock className="w-6 h-6" />}
+              </div>
+            </div>
+
+            {shownRecoveryKey && (
+              <div className="mb-8 p-6 rounded-2xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20">
+                <h4 className="font-bold text-amber-900 dark:text-amber-100 mb-2">Write down your recovery key</h4>
+                <p className="font-mono text-sm text-slate-900 dark:text-white break-all mb-3">{shownRecoveryKey}</p>
+                <p className="text-xs text-amber-800 dark:text-amber-200 leading-relaxed mb-4">
+                  This is the only time it is shown. It unlocks Cortex if you forget your passphrase. If you lose both, your saved pages cannot be recovered by anyone, but you can still delete them.
+                </p>
+                <button onClick={() => setShownRecoveryKey(null)} className="px-4 py-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50">
+                  I saved it
+                </button>
+              </div>
+            )}
+
+            {encryptionError && <p className="mb-4 text-sm font-medium text-red-600">{encryptionError}</p>}
+
+            {!encryption?.enabled ? (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="password"
+                  placeholder="Choose a passphrase (at least 8 characters)"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                />
+                <button
+                  onClick={() => runEncryptionAction(() => enableEncryption(passphrase))}
+                  disabled={isEncryptionBusy || !isAvailable}
+                  className="px-4 py-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50 whitespace-nowrap"
+                >
+                  Turn on
+                </button>
+              </div>
+            ) : encryption.locked ? (
+              <div className="space-y-6">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="password"
+                    placeholder="Passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyPress={(e) => {
+                      if (e.key === "Enter") runEncryptionAction(() => unlockMemory(passphrase));
+                    }}
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                  />
+                  <button
+                    onClick={() => runEncryptionAction(() => unlockMemory(passphrase))}
+                    disabled={isEncryptionBusy}
+                    className="px-4 py-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50"
+                  >
+                    Unlock
+                  </button>
+                </div>
+                <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
+                  <h4 className="font-bold text-slate-900 dark:text-white mb-4">Forgot your passphrase?</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+                    <input
+                      type="text"
+                      placeholder="Recovery key"
+                      value={recoveryKeyInput}
+                      onChange={(e) => setRecoveryKeyInput(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary font-mono"
+                    />
+                    <input
+                      type="password"
+                      placeholder="New passphrase"
+                      value={newPassphrase}
+                      onChange={(e) => setNewPassphrase(e.target.value)}
+                      className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                    />
+                  </div>
+                  <button
+                    onClick={() => runEncryptionAction(() => recoverEncryption(recoveryKeyInput, newPassphrase))}
+                    disabled={isEncryptionBusy}
+                    className="px-4 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold hover:bg-slate-50 transition-all disabled:opacity-50"
+                  >
+                    Recover
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="password"
+                    placeholder="Current passphrase"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                  />
+                  <input
+                    type="password"
+                    placeholder="New passphrase"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    className="w-full px-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm font-medium focus:outline-none focus:border-primary"
+                  />
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button onClick={() => runEncryptionAction(lockMemory)} disabled={isEncryptionBusy} className="px-4 py-3 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-xl text-xs font-bold hover:opacity-90 transition-all disabled:opacity-50">
+                    Lock now
+                  </button>
+                  <button
+                    onClick={() => runEncryptionAction(() => changePassphrase(passphrase, newPassphrase))}
+                    disabled={isEncryptionBusy}
+                    className="px-4 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold hover:bg-slate-50 transition-all disabled:opacity-50"
+                  >
+                    Change passphrase
+                  </button>
+                  <button
+                    onClick={() => runEncryptionAction(() => rotateEncryptionKey(passphrase))}
+                    disabled={isEncryptionBusy}
+                    className="px-4 py-3 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold hover:bg-slate-50 transition-all disabled:opacity-50"
+                  >
+                    New encryption key
+                  </button>
+                  <button
+                    onClick={handleDisableEncryption}
+                    disabled={isEncryptionBusy}
+                    className="px-4 py-3 bg-white dark:bg-slate-800 text-red-600 border border-red-100 dark:border-red-900/30 rounded-xl text-xs font-bold hover:bg-red-50 transition-all disabled:opacity-50"
+                  >
+                    Turn off
+                  </button>
+                </div>
+                <p className="text-xs text-slate-400">
+                  Enter your current passphrase to change it, replace the encryption key or turn encryption off.
+                  {encryption.rotatedAt && ` Key last replaced ${new Date(encryption.rotatedAt).toLocaleDateString()}.`}
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Selective Forget */}
         <div className="mb-16">
           <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Choose what to forget</h2>
@@ -351,6 +914,14 @@ export default function Privacy() {
                         </div>
                       </div>
                       <div className="flex gap-1">
+                        {rule.type === "domain" && (
+                          <button
+                            onClick={() => handleForget({ domain: rule.value })}
+                            className="px-3 py-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors text-xs font-bold text-slate-400 hover:text-red-600"
+                          >
+                            Forget saved pages
+                          </button>
+                        )}
                         <button
                           onClick={() => toggleRule(rule.id)}
                           className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors text-slate-400"
@@ -372,6 +943,65 @@ export default function Privacy() {
           </div>
         </div>
 
+        {/* Trash */}
+        <div className="mb-16">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Recently Forgotten</h2>
+            {trash.length > 0 && (
+              <button
+                onClick={() => handleEmptyTrash()}
+                className="text-xs font-bold uppercase tracking-wider text-red-600 hover:opacity-80"
+              >
+                Empty trash
+              </button>
+            )}
+          </div>
+          <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm">
+            <p className="text-slate-500 text-sm leading-relaxed mb-6">
+              Forgotten pages stay here for 30 days, together with their history and links, in case you change your mind.
+            </p>
+            {trash.length === 0 ? (
+              <div className="text-center py-10 border-2 border-dashed border-slate-100 dark:border-slate-800 rounded-2xl">
+                <p className="text-slate-400 text-sm">The trash is empty.</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {trash.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-center justify-between p-4 bg-slate-50 dark:bg-slate-800/30 rounded-xl border border-slate-100 dark:border-slate-800"
+                  >
+                    <div>
+                      <p className="font-bold text-slate-900 dark:text-white text-sm">
+                        {entry.label} · {entry.pageCount} {entry.pageCount === 1 ? "page" : "pages"}
+                      </p>
+                      <p className="text-xs text-slate-400">
+                        Forgotten {new Date(entry.deletedAt).toLocaleDateString()}, kept until{" "}
+                        {new Date(entry.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() => handleRestore(entry)}
+                        className="px-3 py-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-lg transition-colors text-xs font-bold text-slate-500 flex items-center gap-1"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handleEmptyTrash(entry)}
+                        className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors text-slate-400 hover:text-red-600"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Data Management */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-16">
           <div className="p-8 rounded-2xl bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 shadow-sm space-y-6">
@@ -9,11 +9,24 @@ const filesToCopy = [
   'manifest.json',
   'popup.html',
   'popup.js',
+  'offscreen.html',
 ];
 
+// ONNX Runtime binaries for the embedding worker (single-threaded builds only)
+const ortWasmDir = path.resolve('node_modules/@xenova/transformers/dist');
+const ortWasmFiles = [
+  'ort-wasm.wasm',
+  'ort-wasm-simd.wasm',
+];
+
+// Sentence model fetched by `pnpm fetch:model`
+const modelsDir = path.join(srcDir, 'models');
+
 const assetsToCopy = [
   'favicon.svg',
   'placeholder.svg',
+  // Notification icon (chrome.notifications takes raster images only)
+  'icon-128.png',
 ];
 
 if (!fs.existsSync(destDir)) {
@@ -47,3 +60,20 @@ assetsToCopy.forEach(file => {
     console.warn(`Warning: ${file} not found in public/`);
   }
 });
+
+ortWasmFiles.forEach(file => {
+  const src = path.join(ortWasmDir, file);
+  if (fs.existsSync(src)) {
+    fs.copyFileSync(src, path.join(destDir, file));
+    console.log(`Copied ${file} from @xenova/transformers to dist/extension`);
+  } else {
+    console.warn(`Warning: ${file} not found in @xenova/transformers/dist`);
+  }
+});
+
+if (fs.existsSync(modelsDir)) {
+  fs.cpSync(modelsDir, path.join(destDir, 'models'), { recursive: true });
+  console.log('Copied models/ to dist/extension');
+} else {
+  console.warn('Warning: extension/models not found; run `pnpm fetch:model` or embeddings will use the fallback');
+}
@@ -0,0 +1,131 @@
+/**
+ * Vector index benchmark
+ * Measures recall@k and latency of the approximate indexes against BruteForceIndex
+ *
+ * Usage:
+ *   pnpm bench:vectors
+ *   pnpm bench:vectors --sizes=10000,100000 --queries=200 --k=10 --ef=32,64,128
+ *
+ * Corpora are synthetic: gaussian clusters around random centers, which is closer
+ * to real page embeddings (topics) than uniform noise.
+ */
+
+import { BruteForceIndex, ANNIndex, createSeededRandom, type VectorIndex } from "../src/utils/vector-search";
+import { HNSWIndex } from "../src/utils/hnsw-index";
+
+interface BenchmarkOptions {
+  sizes: number[];
+  queries: number;
+  k: number;
+  dim: number;
+  clusters: number;
+  efSearch: number[];
+  M: number;
+  efConstruction: number;
+}
+
+function parseArgs(argv: string[]): BenchmarkOptions {
+  const args = new Map(
+    argv
+      .filter((a) => a.startsWith("--"))
+      .map((a) => {
+        const [key, value = ""] = a.slice(2).split("=");
+        return [key, value] as const;
+      })
+  );
+  const list = (key: string, fallback: number[]) =>
+    args.has(key) ? args.get(key)!.split(",").map(Number) : fallback;
+  const num = (key: string, fallback: number) => (args.has(key) ? Number(args.get(key)) : fallback);
+
+  return {
+    sizes: list("sizes", [10000, 100000]),
+    queries: num("queries", 200),
+    k: num("k", 10),
+    dim: num("dim", 384),
+    clusters: num("clusters", 50),
+    efSearch: list("ef", [32, 64, 128]),
+    M: num("M", 16),
+    efConstruction: num("efConstruction", 200),
+  };
+}
+
+function createCorpus(size: number, dim: number, clusters: number, seed: number) {
+  const random = createSeededRandom(seed);
+  const gaussian = () => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+  const centers = Array.from({ length: clusters }, () => Array.from({ length: dim }, gaussian));
+  const sample = () => {
+    const center = centers[Math.floor(random() * clusters)];
+    return center.map((c) => c + gaussian() * 0.6);
+  };
+  return { sample };
+}
+
+function measureRecall(
+  index: VectorIndex,
+  truth: Array<Set<string>>,
+  queries: number[][],
+  k: number
+): { recall: number; avgMs: number } {
+  let hits = 0;
+  const start = performance.now();
+  queries.forEach((query, i) => {
+    const results = index.search(query, k, -1);
+    hits += results.filter((r) => truth[i].has(r.nodeId)).length;
+  });
+  const elapsed = performance.now() - start;
+  return { recall: hits / (queries.length * k), avgMs: elapsed / queries.length };
+}
+
+function run(options: BenchmarkOptions) {
+  console.log(
+    `Vector index benchmark: dim=${options.dim}, k=${options.k}, queries=${options.queries}, ` +
+      `M=${options.M}, efConstruction=${options.efConstruction}`
+  );
+
+  for (const size of options.sizes) {
+    const corpus = createCorpus(size, options.dim, options.clusters, size);
+    const bruteForce = new BruteForceIndex();
+    const lsh = new ANNIndex({ dim: options.dim });
+    const hnsw = new HNSWIndex({ M: options.M, efConstruction: options.efConstruction });
+
+    let start = performance.now();
+    const vectors: number[][] = [];
+    for (let i = 0; i < size; i++) {
+      const vector = corpus.sample();
+      vectors.push(vector);
+      bruteForce.add(`n${i}`, vector);
+      lsh.add(`n${i}`, vector);
+    }
+    const loadMs = performance.now() - start;
+
+    start = performance.now();
+    vectors.forEach((vector, i) => hnsw.add(`n${i}`, vector));
+    const hnswBuildMs = performance.now() - start;
+
+    const queries = Array.from({ length: options.queries }, () => corpus.sample());
+    const truth = queries.map((q) => new Set(bruteForce.search(q, options.k, -1).map((r) => r.nodeId)));
+
+    console.log(`\n== ${size.toLocaleString()} vectors ==`);
+    console.log(`  load (brute force + LSH): ${loadMs.toFixed(0)} ms, HNSW build: ${hnswBuildMs.toFixed(0)} ms`);
+
+    const rows: Array<{ index: string; recall: string; "ms/query": string }> = [];
+    const report = (label: string, index: VectorIndex) => {
+      const { recall, avgMs } = measureRecall(index, truth, queries, options.k);
+      rows.push({ index: label, recall: recall.toFixed(3), "ms/query": avgMs.toFixed(2) });
+    };
+
+    report("brute-force", bruteForce);
+    report("lsh-16bit", lsh);
+    for (const ef of options.efSearch) {
+      hnsw.setEfSearch(ef);
+      report(`hnsw ef=${ef}`, hnsw);
+    }
+    console.table(rows);
+  }
+}
+
+run(parseArgs(process.argv.slice(2)));
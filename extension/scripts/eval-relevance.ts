@@ -0,0 +1,98 @@
+/**
+ * Relevance evaluation
+ * Scores ranking configurations of RecallService on the labeled queries, side by side
+ *
+ * Usage:
+ *   pnpm eval:relevance
+ *   pnpm eval:relevance --configs=default,no-boosts --k=5 --queries
+ *   pnpm eval:relevance --config=./my-ranking.json
+ *
+ * `--configs` picks from RANKING_VARIANTS (testing/relevance-eval.ts). `--config` adds a
+ * JSON file holding part of a RankingConfig, applied over the default and named after the
+ * file. `--queries` also prints nDCG@k per query for every configuration.
+ */
+
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import { DEFAULT_RANKING, type RankingConfig } from "../src/services/recall-service";
+import {
+  RANKING_VARIANTS,
+  buildRelevanceIndex,
+  evaluateRanking,
+  type RankingEvaluation,
+} from "../src/testing/relevance-eval";
+
+interface EvalOptions {
+  configs: Array<[string, RankingConfig]>;
+  k: number;
+  perQuery: boolean;
+}
+
+function parseArgs(argv: string[]): EvalOptions {
+  const args = new Map(
+    argv
+      .filter((a) => a.startsWith("--"))
+      .map((a) => {
+        const [key, value = ""] = a.slice(2).split("=");
+        return [key, value] as const;
+      })
+  );
+
+  const names = args.has("configs") ? args.get("configs")!.split(",") : Object.keys(RANKING_VARIANTS);
+  const configs = names.map((name): [string, RankingConfig] => {
+    const config = RANKING_VARIANTS[name];
+    if (!config) {
+      throw new Error(`Unknown ranking configuration "${name}" (known: ${Object.keys(RANKING_VARIANTS).join(", ")})`);
+    }
+    return [name, config];
+  });
+  if (args.get("config")) {
+    const path = args.get("config")!;
+    const overrides = JSON.parse(readFileSync(path, "utf8")) as Partial<RankingConfig>;
+    configs.push([
+      basename(path, ".json"),
+      { ...DEFAULT_RANKING, ...overrides, boosts: { ...DEFAULT_RANKING.boosts, ...overrides.boosts } },
+    ]);
+  }
+
+  return { configs, k: args.has("k") ? Number(args.get("k")) : 10, perQuery: args.has("queries") };
+}
+
+async function run(options: EvalOptions) {
+  // RecallService logs every search, and the fallback embeddings warn once; keep the report readable
+  const { log, warn } = console;
+  console.log = console.warn = () => {};
+  const index = await buildRelevanceIndex();
+  const results: Array<[string, RankingEvaluation]> = [];
+  for (const [name, config] of options.configs) {
+    results.push([name, await evaluateRanking(index, config, { k: options.k })]);
+  }
+  Object.assign(console, { log, warn });
+
+  console.log(
+    `Relevance evaluation: ${index.fixtureIds.size} pages, ${results[0]?.[1].queries.length ?? 0} queries, k=${options.k}`
+  );
+  console.table(
+    results.map(([name, evaluation]) => ({
+      config: name,
+      [`nDCG@${options.k}`]: evaluation.ndcg.toFixed(3),
+      MRR: evaluation.mrr.toFixed(3),
+      [`recall@${options.k}`]: evaluation.recall.toFixed(3),
+    }))
+  );
+
+  if (options.perQuery && results.length > 0) {
+    console.log(`\nnDCG@${options.k} per query`);
+    console.table(
+      results[0][1].queries.map((query, i) => ({
+        query: query.query,
+        ...Object.fromEntries(results.map(([name, evaluation]) => [name, evaluation.queries[i].ndcg.toFixed(3)])),
+      }))
+    );
+  }
+}
+
+run(parseArgs(process.argv.slice(2))).catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,40 @@
+/**
+ * Embedding model download
+ * Fetches the quantized all-MiniLM-L6-v2 files the extension packages under models/
+ *
+ * Usage:
+ *   pnpm fetch:model
+ *
+ * Run once before `build:extension`; copy-assets.js copies extension/models into the
+ * build. The files are large, so they are downloaded here rather than committed.
+ */
+
+import fs from "fs";
+import path from "path";
+import { SENTENCE_MODEL_ID } from "../src/utils/embedding-client";
+
+const HUB_URL = "https://huggingface.co";
+const FILES = ["config.json", "tokenizer.json", "tokenizer_config.json", "onnx/model_quantized.onnx"];
+
+async function main() {
+  const target = path.resolve("extension/models", SENTENCE_MODEL_ID);
+
+  for (const file of FILES) {
+    const dest = path.join(target, file);
+    if (fs.existsSync(dest)) {
+      console.log(`Already present: ${file}`);
+      continue;
+    }
+    const response = await fetch(`${HUB_URL}/${SENTENCE_MODEL_ID}/resolve/main/${file}`);
+    if (!response.ok) throw new Error(`Failed to download ${file}: HTTP ${response.status}`);
+    fs.mkdirSync(path.dirname(dest), { recursive: true });
+    fs.writeFileSync(dest, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded ${file}`);
+  }
+  console.log(`Model ready in ${path.relative(process.cwd(), target)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
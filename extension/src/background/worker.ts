@@ -5,21 +5,34 @@
  * Prevents duplicate captures within same browsing session.
  */
 
-import { cortexStorage } from "../utils/storage";
+import { activeStorage, storageEngines } from "../utils/storage-engine";
+import { isForgetAll } from "../utils/storage-backend";
 import { recallService } from "../services/recall-service";
 import { proactivityEngine } from "../services/proactivity-engine";
 import { activityInsightsService } from "../services/activity-insights";
 import { analyticsService } from "../services/analytics-service";
 import { shortcutGenerator } from "../services/shortcut-generator";
 import { actionExecutor } from "../services/action-executor";
+import { pageHistoryService } from "../services/page-history-service";
+import { storageBudgetService, STORAGE_BUDGET_ALARM, BUDGET_PERIOD_MINUTES } from "../services/storage-budget";
+import { encryptionService } from "../services/encryption-service";
+import { visitTracker } from "../services/visit-tracker";
+import { sessionService } from "../services/session-service";
+import { captureService } from "../services/capture-service";
+import { embeddingService, TERMS_SAVE_ALARM, TERMS_SAVE_PERIOD_MINUTES } from "../services/embedding-service";
+import { reindexService } from "../services/reindex-service";
+import { suggestService } from "../services/suggest-service";
+import { savedSearchService } from "../services/saved-search-service";
 import { semanticGraphBuilder } from "../utils/semantic-graph";
-import { generateEmbedding } from "../utils/embedding";
+import { pageIdForCanonicalUrl } from "../utils/page-id";
+import { canonicalizeUrl } from "../utils/url-canonical";
 import { extractKeywords } from "@/lib/text-utils";
+import { detectLanguage } from "@/lib/language";
 import type { ExtensionMessage, MemoryNode, CaptureSettings } from "@shared/extension-types";
 import seedMemories from "../data/seed-memories.json";
 
 // Track captured URLs in current session to prevent duplicates
-const sessionCaptured = new Map<string, number>(); // URL -> timestamp
+const sessionCaptured = new Map<string, number>(); // Canonical URL -> timestamp
 
 // Ensure storage is ready before handling messages
 let storageReady = false;
@@ -27,9 +40,32 @@ let seedingComplete = false;
 // Active user id for scoping captures and queries when dashboard sets it
 let activeUserId: string | null = null;
 
-cortexStorage.ready().then(async () => {
+// Messages that return page content; refused while encrypted memory is locked
+const LOCKED_MESSAGE_TYPES = new Set<ExtensionMessage["type"]>([
+  "GET_ALL_PAGES",
+  "SEARCH_MEMORY",
+  "SUGGEST_QUERY",
+  "GET_SAVED_SEARCHES",
+  "GET_PAGE_HISTORY",
+  "GET_SESSION",
+  "GET_SUGGESTIONS",
+  "EXPORT_MEMORY",
+]);
+
+activeStorage.ready().then(async () => {
   storageReady = true;
   console.log("Cortex: Storage initialized and ready");
+  // A key unlocked earlier in this browser session survives worker restarts
+  await encryptionService.restoreSession().catch((e) => console.warn("Cortex: Failed to restore unlock", e));
+  await embeddingService.loadTermStatistics().catch((e) => console.warn("Cortex: Failed to load term statistics", e));
+  // Picks the chosen embedding model and resumes an unfinished re-index in the background
+  await reindexService.restore().catch((e) => console.warn("Cortex: Failed to restore embedding model", e));
+  refreshSavedSearchBadge();
+  if (activeStorage.isLocked()) {
+    seedingComplete = true;
+    console.log("Cortex: Memory is locked, skipping seed memories");
+    return;
+  }
   // Always upsert seed memories on startup (best-effort). This keeps a baseline dataset visible.
   try {
     await seedAlways();
@@ -59,13 +95,17 @@ async function seedAlways(): Promise<void> {
     for (let i = 0; i < items.length; i++) {
       const raw = items[i];
       try {
+        const title = String(raw.title);
+        const readableText = String(raw.readableText || "");
+        const language = detectLanguage(`${title} ${readableText}`);
         const node: MemoryNode = {
           id: String(raw.id),
           url: String(raw.url),
-          title: String(raw.title),
-          readableText: String(raw.readableText || ""),
+          title,
+          readableText,
           timestamp: baseNow - (items.length - i) * 1000,
-          keywords: Array.isArray(raw.keywords) ? raw.keywords.map(String) : extractKeywords(String(raw.readableText || ""), String(raw.title || "")),
+          keywords: Array.isArray(raw.keywords) ? raw.keywords.map(String) : extractKeywords(readableText, title, undefined, language),
+          language,
           metadata: {
             domain: String(raw.metadata?.domain || ""),
             favicon: String(raw.metadata?.favicon || ""),
@@ -73,18 +113,18 @@ async function seedAlways(): Promise<void> {
           },
         };
 
-        const embeddingResult = generateEmbedding(node.readableText, node.title, node.keywords);
-        node.embedding = { vector: embeddingResult.vector, model: embeddingResult.model, timestamp: baseNow };
+        const embeddingResult = await embeddingService.embedDocument(node.readableText, node.title, node.keywords);
+        const embedding = { ...embeddingResult, timestamp: baseNow };
 
-        await Promise.all([cortexStorage.addMemoryNode(node), cortexStorage.storeEmbedding(node.id, node.embedding)]);
-        semanticGraphBuilder.addNode(node, node.embedding).catch(console.error);
+        await Promise.all([activeStorage.addMemoryNode(node), activeStorage.storeEmbedding(node.id, embedding)]);
+        semanticGraphBuilder.addNode(node, embedding).catch(console.error);
         console.log(`Cortex: Seeded memory ${i + 1}/${items.length}: ${node.title}`);
       } catch (nodeError) {
         console.error(`Cortex: Failed to seed memory ${i + 1}/${items.length}:`, nodeError);
       }
     }
 
-    const stats = await cortexStorage.getStats();
+    const stats = await activeStorage.getStats();
     console.log(`Cortex: Seed memories loaded. Total pages: ${stats.pageCount}`);
   } catch (e) {
     // Log full error for debugging
@@ -98,6 +138,13 @@ async function seedAlways(): Promise<void> {
 // Log initialization
 console.log("Cortex: Background worker script loaded");
 
+/**
+ * Recount unseen saved search hits, e.g. after pages they point to were forgotten or restored
+ */
+function refreshSavedSearchBadge(): void {
+  savedSearchService.refreshBadge().catch((e) => console.warn("Cortex: Failed to show saved search hits", e));
+}
+
 /**
  * Clear old session entries (older than 30 minutes)
  */
@@ -115,6 +162,68 @@ function cleanSessionCache() {
 // Clean cache every 5 minutes
 setInterval(cleanSessionCache, 5 * 60 * 1000);
 
+const TRASH_PURGE_ALARM = "trash-purge";
+
+// Purge trash entries past their restore window, at startup and then hourly
+async function purgeExpiredTrash() {
+  try {
+    const count = await activeStorage.purgeExpiredTrash();
+    if (count > 0) console.log(`Cortex: Purged ${count} expired trash entries`);
+  } catch (err) {
+    console.error("Cortex: Trash purge failed", err);
+  }
+}
+purgeExpiredTrash();
+
+const ANN_VERIFY_ALARM = "ann-verify";
+
+// Check every embedding against its ANN bucket; startup only compares counts and a checksum
+async function verifyAnnIndex() {
+  try {
+    const { consistent, embeddings } = await activeStorage.verifyAnnIndex();
+    if (!consistent) console.warn(`Cortex: Rebuilt the ANN index over ${embeddings} embeddings`);
+  } catch (err) {
+    console.error("Cortex: ANN index check failed", err);
+  }
+}
+
+/**
+ * Keep a repeating alarm; timers die with the suspended worker, alarms wake it back up.
+ * An alarm that already exists is left alone so a worker restart doesn't push it back.
+ */
+async function ensurePeriodicAlarm(name: string, periodInMinutes: number): Promise<void> {
+  if (!chrome.alarms) return;
+  const existing = await chrome.alarms.get(name);
+  if (existing?.periodInMinutes === periodInMinutes) return;
+  await chrome.alarms.create(name, { periodInMinutes });
+}
+
+// Purge expired trash hourly
+ensurePeriodicAlarm(TRASH_PURGE_ALARM, 60).catch((err) => console.error("Cortex: Failed to schedule trash purge", err));
+// Verify the ANN buckets in full once a day
+ensurePeriodicAlarm(ANN_VERIFY_ALARM, 24 * 60).catch((err) => console.error("Cortex: Failed to schedule ANN index check", err));
+// Enforce the storage budget every 30 minutes (captures also schedule a pass)
+ensurePeriodicAlarm(STORAGE_BUDGET_ALARM, BUDGET_PERIOD_MINUTES).catch((err) =>
+  console.error("Cortex: Failed to schedule storage budget", err)
+);
+// Save the term statistics new captures taught since the last save
+ensurePeriodicAlarm(TERMS_SAVE_ALARM, TERMS_SAVE_PERIOD_MINUTES).catch((err) =>
+  console.error("Cortex: Failed to schedule term statistics save", err)
+);
+
+chrome.alarms?.onAlarm.addListener((alarm) => {
+  if (alarm.name === TRASH_PURGE_ALARM) {
+    purgeExpiredTrash();
+    return;
+  }
+  if (alarm.name === ANN_VERIFY_ALARM) {
+    verifyAnnIndex();
+    return;
+  }
+  if (embeddingService.handleAlarm(alarm.name)) return;
+  storageBudgetService.handleAlarm(alarm.name);
+});
+
 /**
  * Handle messages from content scripts and dashboard
  */
@@ -125,7 +234,7 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
     // Ensure storage is ready for all operations - wait if necessary
     if (!storageReady) {
       try {
-        await cortexStorage.ready();
+        await activeStorage.ready();
         storageReady = true;
         console.log("Cortex: Storage ready, processing message");
       } catch (err) {
@@ -134,6 +243,10 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
       }
     }
 
+    if (activeStorage.isLocked() && LOCKED_MESSAGE_TYPES.has(message.type)) {
+      return { success: false, error: "Cortex is locked", locked: true };
+    }
+
     try {
       switch (message.type) {
         case "SET_ACTIVE_USER": {
@@ -143,18 +256,19 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
           // (non-seed pages without a userId) to this user so they appear in their dashboard.
           if (activeUserId) {
             try {
-              const all = await cortexStorage.getAllMemoryNodes();
+              const all = await activeStorage.getAllMemoryNodes();
               let updated = 0;
               for (const page of all) {
                 const meta = page.metadata || {};
                 if (meta.sessionId && meta.sessionId !== "seed" && !meta.userId) {
                   meta.userId = activeUserId;
                   page.metadata = meta;
-                  await cortexStorage.addMemoryNode(page);
+                  await activeStorage.addMemoryNode(page);
                   updated++;
                 }
               }
               console.log(`Cortex: Assigned ${updated} existing pages to user ${activeUserId}`);
+              if (updated > 0) suggestService.invalidate();
             } catch (e) {
               console.error("Cortex: Failed to assign existing pages to active user:", e);
             }
@@ -164,7 +278,8 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
 
         case "SEED_MEMORIES": {
           await seedAlways();
-          const stats = await cortexStorage.getStats();
+          suggestService.invalidate();
+          const stats = await activeStorage.getStats();
           return { success: true, data: { pageCount: stats.pageCount } };
         }
 
@@ -174,8 +289,8 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
 
         case "PAGE_CAPTURED": {
           const [settings, privacyRules] = await Promise.all([
-            cortexStorage.getSettings(),
-            cortexStorage.getPrivacyRules()
+            activeStorage.getSettings(),
+            activeStorage.getPrivacyRules()
           ]);
 
           if (!settings.enabled) {
@@ -183,6 +298,11 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
             return { success: true, skipped: true, reason: "disabled" };
           }
 
+          if (activeStorage.isLocked()) {
+            console.log("Cortex: Capture skipped (memory is locked)");
+            return { success: true, skipped: true, reason: "locked" };
+          }
+
           const { payload } = message;
           const url = payload.url;
 
@@ -214,14 +334,20 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
 
             const isRefresh = (payload as any).isRefresh || false;
             
-            // Generate URL-based ID
-            const urlHash = url.split('').reduce((hash, char) => {
-              return ((hash << 5) - hash) + char.charCodeAt(0);
-            }, 0);
-            const nodeId = `page_${Math.abs(urlHash).toString(36)}`;
+            // Variants of the same URL (tracking params, fragments, http/https...) share one memory
+            const canonicalUrl = canonicalizeUrl(url, payload.canonicalUrl);
+            const nodeId = pageIdForCanonicalUrl(canonicalUrl);
+
+            // Every visit is logged, even when the capture itself is deduplicated below
+            visitTracker
+              .startVisit(payload, nodeId, sender.tab?.id)
+              .catch((err) => console.error("Cortex: Failed to record visit", err));
+            // Activity in any tab keeps the browsing session open; an idle gap starts a new one
+            const activity = sessionService.recordActivity(Date.now(), sender.tab?.id);
+            activity.catch((err) => console.error("Cortex: Failed to record session activity", err));
             
             // Check if already captured in this session (unless it's a refresh)
-            const lastCaptured = sessionCaptured.get(url);
+            const lastCaptured = sessionCaptured.get(canonicalUrl);
             const now = Date.now();
             
             if (!isRefresh && lastCaptured && (now - lastCaptured < 30000)) {
@@ -231,38 +357,18 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
             // Start processing but don't wait for everything to respond
             // This makes the UI feel much faster
             const processCapture = async () => {
-              const keywords = extractKeywords(payload.readableText, payload.title);
-              const embeddingResult = generateEmbedding(payload.readableText, payload.title, keywords);
-
-              const node: MemoryNode = {
-                id: nodeId,
-                url: payload.url,
-                title: payload.title,
-                readableText: payload.readableText,
-                timestamp: now,
-                keywords: keywords,
-                embedding: {
-                  vector: embeddingResult.vector,
-                  model: "fallback",
-                  timestamp: now
-                },
-                metadata: {
-                  domain: hostname,
-                  favicon: payload.favicon,
-                  tabId: sender.tab?.id,
-                  sessionId: (payload as any).sessionId,
-                  // Prefer explicit userId from payload, fall back to activeUserId if set
-                  userId: (payload as any).userId || activeUserId || undefined,
-                },
-              };
-
-              await Promise.all([
-                cortexStorage.addMemoryNode(node),
-                cortexStorage.storeEmbedding(nodeId, node.embedding!)
-              ]);
-              
-              sessionCaptured.set(url, now);
-              semanticGraphBuilder.addNode(node, node.embedding!).catch(console.error);
+              const session = await activity.catch(() => null);
+              const node = await captureService.capture(payload, {
+                tabId: sender.tab?.id,
+                sessionId: session?.id,
+                // Prefer explicit userId from payload, fall back to activeUserId if set
+                userId: (payload as any).userId || activeUserId || undefined,
+                now,
+              });
+              sessionCaptured.set(canonicalUrl, now);
+              suggestService.addPage(node);
+              storageBudgetService.scheduleAfterCapture();
+              savedSearchService.checkPage(node).catch((err) => console.error("Cortex: Failed to check saved searches", err));
               console.log("Cortex: Capture complete for", url);
             };
 
@@ -291,7 +397,7 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
             }
           }
           
-          const pages = await cortexStorage.getAllMemoryNodes(message.payload.limit);
+          const pages = await activeStorage.getAllMemoryNodes(message.payload.limit);
           // If dashboard requested a specific user (or activeUserId is set), filter pages
           const requestedUser = message.payload?.userId || activeUserId;
           let filtered = pages;
@@ -332,7 +438,7 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
           const requestedUser = message.payload?.userId || activeUserId;
           if (requestedUser) {
             // Compute stats scoped to user + seeds
-            const all = await cortexStorage.getAllMemoryNodes();
+            const all = await activeStorage.getAllMemoryNodes();
             const filtered = all.filter((page) => {
               if (page.metadata?.sessionId === "seed") return true;
               return page.metadata?.userId === requestedUser;
@@ -352,7 +458,7 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
             return { success: true, data: stats };
           }
 
-          const stats = await cortexStorage.getStats();
+          const stats = await activeStorage.getStats();
           console.log("Cortex: GET_STATS returning", stats);
           return { success: true, data: stats };
         }
@@ -360,19 +466,28 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
         case "SEARCH_MEMORY": {
           try {
             console.log("Cortex: Starting SEARCH_MEMORY for query:", message.payload.query);
-            const results = await recallService.search(message.payload.query, message.payload.limit || 20);
+            const results = await recallService.search(message.payload.query, message.payload.limit || 20, undefined, {
+              language: message.payload.language,
+              sort: message.payload.sort,
+            });
             console.log("Cortex: SEARCH_MEMORY completed, returning", results.totalResults, "results");
+            // Queries that found something come back as completions
+            if (results.totalResults > 0) {
+              suggestService.recordQuery(message.payload.query).catch((err) => console.warn("Cortex: Failed to record query", err));
+            }
+            // Snippets carry the text a result shows, so the full page text stays in the extension
+            const matches = results.matches.map(({ node: { readableText: _text, ...node }, ...match }) => ({ ...match, node }));
             // If scoped to a user, filter matches
             const requestedUser = message.payload?.userId || activeUserId;
-            if (requestedUser && results && Array.isArray((results as any).matches)) {
-              const filteredMatches = (results as any).matches.filter((m: any) => {
+            if (requestedUser) {
+              const filteredMatches = matches.filter((m: any) => {
                 const pageUser = m.node?.metadata?.userId;
                 if (m.node?.metadata?.sessionId === "seed") return true;
                 return pageUser === requestedUser;
               });
-              return { success: true, data: { ...(results as any), matches: filteredMatches, totalResults: filteredMatches.length } };
+              return { success: true, data: { ...results, matches: filteredMatches, totalResults: filteredMatches.length } };
             }
-            return { success: true, data: results };
+            return { success: true, data: { ...results, matches } };
           } catch (error) {
             console.error("Cortex: SEARCH_MEMORY error:", error);
             return { 
@@ -388,40 +503,178 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
           }
         }
 
+        case "SUGGEST_QUERY": {
+          const suggestions = await suggestService.suggest(
+            message.payload.input,
+            message.payload.limit,
+            activeUserId || undefined
+          );
+          return { success: true, data: suggestions };
+        }
+
+        case "GET_SAVED_SEARCHES": {
+          return { success: true, data: await savedSearchService.list() };
+        }
+
+        case "SAVE_SEARCH": {
+          const { name, query, language, notify } = message.payload;
+          const search = await savedSearchService.save(name, query, { language, notify });
+          return { success: true, data: search };
+        }
+
+        case "DELETE_SAVED_SEARCH": {
+          const deleted = await savedSearchService.delete(message.payload.id);
+          return { success: deleted, error: deleted ? undefined : "Saved search not found" };
+        }
+
+        case "MARK_SAVED_SEARCH_SEEN": {
+          await savedSearchService.markSeen(message.payload.id, message.payload.nodeId);
+          return { success: true };
+        }
+
+        case "GET_PAGE_HISTORY": {
+          const history = await pageHistoryService.getHistory(message.payload.nodeId, message.payload.revisionId);
+          if (!history) {
+            return { success: false, error: "Page not found" };
+          }
+          return { success: true, data: history };
+        }
+
+        case "GET_STORAGE_REPORT": {
+          const report = await storageBudgetService.getLastReport();
+          return { success: true, data: report };
+        }
+
+        case "RUN_STORAGE_BUDGET": {
+          const report = await storageBudgetService.enforce("manual");
+          suggestService.invalidate();
+          return { success: true, data: report };
+        }
+
+        case "VISIT_ENDED": {
+          if (sender.tab?.id !== undefined) {
+            await visitTracker.endVisit(sender.tab.id);
+          }
+          return { success: true };
+        }
+
+        case "GET_PAGE_VISITS": {
+          const visits = await visitTracker.getVisits(message.payload.nodeId, message.payload.limit);
+          return { success: true, data: visits };
+        }
+
+        case "GET_SESSIONS": {
+          const sessions = await sessionService.getSessions(message.payload || {});
+          return { success: true, data: sessions };
+        }
+
+        case "GET_SESSION": {
+          const session = await sessionService.getSession(message.payload.sessionId);
+          if (!session) {
+            return { success: false, error: `Unknown session: ${message.payload.sessionId}` };
+          }
+          return { success: true, data: session };
+        }
+
+        case "PIN_PAGE": {
+          const found = await activeStorage.setPinned(message.payload.nodeId, message.payload.pinned);
+          return found ? { success: true } : { success: false, error: "Page not found" };
+        }
+
+        case "GET_ENCRYPTION_STATUS": {
+          const status = await encryptionService.getStatus();
+          return { success: true, data: status };
+        }
+
+        case "ENABLE_ENCRYPTION": {
+          const result = await encryptionService.enable(message.payload.passphrase);
+          // Recent queries and term statistics live in plain settings and aren't sealed with the pages
+          await Promise.all([suggestService.forgetQueries(), embeddingService.saveTermStatistics()]);
+          return { success: true, data: result };
+        }
+
+        case "DISABLE_ENCRYPTION": {
+          await encryptionService.disable(message.payload.passphrase);
+          return { success: true };
+        }
+
+        case "UNLOCK_MEMORY": {
+          await encryptionService.unlock(message.payload.passphrase);
+          // Titles of sealed pages can be suggested again
+          suggestService.invalidate();
+          // Term statistics can't be learned from sealed pages, so a locked startup leaves them empty
+          if (embeddingService.getTermStatistics().documentCount === 0) {
+            embeddingService.loadTermStatistics().catch((e) => console.warn("Cortex: Failed to load term statistics", e));
+          }
+          // A re-index paused by the lock can read pages again
+          if (reindexService.getStatus().reindex?.status === "paused") {
+            reindexService.start().catch((e) => console.warn("Cortex: Failed to resume re-embedding", e));
+          }
+          return { success: true };
+        }
+
+        case "LOCK_MEMORY": {
+          await encryptionService.lock();
+          suggestService.invalidate();
+          return { success: true };
+        }
+
+        case "CHANGE_PASSPHRASE": {
+          await encryptionService.changePassphrase(message.payload.currentPassphrase, message.payload.newPassphrase);
+          return { success: true };
+        }
+
+        case "ROTATE_ENCRYPTION_KEY": {
+          const result = await encryptionService.rotateKey(message.payload.passphrase);
+          return { success: true, data: result };
+        }
+
+        case "RECOVER_ENCRYPTION": {
+          await encryptionService.recover(message.payload.recoveryKey, message.payload.newPassphrase);
+          return { success: true };
+        }
+
         case "GET_SUGGESTIONS": {
           const suggestions = await proactivityEngine.generateSuggestions(message.payload.currentUrl, message.payload.limit);
           return { success: true, data: suggestions };
         }
 
         case "FORGET_DATA": {
-          const { domain, startDate, endDate, userId } = message.payload || {};
-          let count = 0;
-          if (userId) {
-            // Delete only data belonging to the given userId
-            try {
-              const all = await cortexStorage.getAllMemoryNodes();
-              const toDelete = all.filter((p) => p.metadata?.userId === userId).map((p) => p.id);
-              for (const id of toDelete) {
-                await cortexStorage.deleteMemoryNode(id);
-                count++;
-              }
-              return { success: true, count };
-            } catch (e) {
-              console.error("Cortex: FORGET_DATA by userId failed", e);
-              return { success: false, error: String(e) };
-            }
-          }
-
-          if (domain) {
-            count = await cortexStorage.deleteByDomain(domain);
-          } else if (startDate && endDate) {
-            count = await cortexStorage.deleteByDateRange(startDate, endDate);
-          } else {
-            // If no parameters, clear everything
-            await cortexStorage.clearAllData();
+          const { ruleId: _ruleId, ...filter } = message.payload || {};
+          if (isForgetAll(filter)) {
+            // Clearing everything skips the trash (and empties it)
+            await activeStorage.clearAllData();
+            await encryptionService.lock();
             sessionCaptured.clear();
+            suggestService.invalidate();
+            refreshSavedSearchBadge();
             return { success: true, count: -1 }; // -1 indicates all cleared
           }
+          const entry = await activeStorage.forget(filter);
+          suggestService.invalidate();
+          refreshSavedSearchBadge();
+          return { success: true, count: entry?.pageCount ?? 0, data: entry };
+        }
+
+        case "PREVIEW_FORGET": {
+          const preview = await activeStorage.previewForget(message.payload || {});
+          return { success: true, data: preview };
+        }
+
+        case "GET_TRASH": {
+          const trash = await activeStorage.getTrash();
+          return { success: true, data: trash };
+        }
+
+        case "RESTORE_DATA": {
+          const count = await activeStorage.restoreFromTrash(message.payload.trashId);
+          suggestService.invalidate();
+          refreshSavedSearchBadge();
+          return { success: true, count };
+        }
+
+        case "EMPTY_TRASH": {
+          const count = await activeStorage.emptyTrash(message.payload?.trashId);
           return { success: true, count };
         }
 
@@ -456,30 +709,55 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
         }
 
         case "GET_PRIVACY_RULES": {
-          const rules = await cortexStorage.getPrivacyRules();
+          const rules = await activeStorage.getPrivacyRules();
           return { success: true, data: rules };
         }
 
         case "ADD_PRIVACY_RULE": {
-          await cortexStorage.addPrivacyRule(message.payload);
+          await activeStorage.addPrivacyRule(message.payload);
           return { success: true };
         }
 
         case "DELETE_PRIVACY_RULE": {
-          await cortexStorage.deletePrivacyRule(message.payload.id);
+          await activeStorage.deletePrivacyRule(message.payload.id);
           return { success: true };
         }
 
         case "UPDATE_CAPTURE_SETTINGS": {
-          await cortexStorage.updateSettings(message.payload);
+          await activeStorage.updateSettings(message.payload);
           return { success: true };
         }
 
         case "GET_CAPTURE_SETTINGS": {
-          const settings = await cortexStorage.getSettings();
+          const settings = await activeStorage.getSettings();
           return { success: true, data: settings };
         }
 
+        case "GET_STORAGE_ENGINE": {
+          return { success: true, data: storageEngines.getStatus() };
+        }
+
+        case "SET_STORAGE_ENGINE": {
+          const status = await storageEngines.switchTo(message.payload.engine);
+          suggestService.invalidate();
+          refreshSavedSearchBadge();
+          return { success: true, data: status };
+        }
+
+        case "GET_EMBEDDING_STATUS": {
+          return { success: true, data: reindexService.getStatus() };
+        }
+
+        case "SET_EMBEDDING_MODEL": {
+          const status = await reindexService.setModel(message.payload.modelId);
+          return { success: true, data: status };
+        }
+
+        case "REINDEX_EMBEDDINGS": {
+          await reindexService.start();
+          return { success: true, data: reindexService.getStatus() };
+        }
+
         case "GET_SHORTCUTS": {
           const shortcuts = await shortcutGenerator.generateShortcuts();
           return { success: true, data: shortcuts };
@@ -506,6 +784,27 @@ const messageHandler = (message: ExtensionMessage, sender: chrome.runtime.Messag
   return true; // Keep channel open for async response
 };
 
+// Remember how each top-level navigation happened so the visit it starts gets the right transition
+chrome.webNavigation?.onCommitted.addListener((details) => {
+  if (details.frameId !== 0) return;
+  visitTracker.noteCommitted(details.tabId, details.url, details.transitionType, details.transitionQualifiers);
+});
+
+// A saved search notification opens the page it was about
+chrome.notifications?.onClicked.addListener((notificationId) => {
+  savedSearchService
+    .openNotification(notificationId)
+    .then((node) => {
+      if (node) chrome.tabs.create({ url: node.url });
+      chrome.notifications.clear(notificationId);
+    })
+    .catch((err) => console.error("Cortex: Failed to open saved search hit", err));
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  visitTracker.endVisit(tabId).catch((err) => console.error("Cortex: Failed to end visit", err));
+});
+
 // Listen for internal messages (popup, content scripts)
 chrome.runtime.onMessage.addListener(messageHandler);
 
@@ -49,6 +49,25 @@ function shouldCapturePage(): boolean {
   return true;
 }
 
+/**
+ * How this page was reached, for the visit log
+ */
+function getNavigationInfo(): PageContext["navigation"] {
+  const perfEntries = performance.getEntriesByType("navigation") as PerformanceNavigationTiming[];
+  return {
+    type: perfEntries[0]?.type || (isPageRefresh() ? "reload" : "navigate"),
+    referrer: document.referrer || undefined,
+  };
+}
+
+/**
+ * The page's declared canonical URL (the worker only honours same-host ones)
+ */
+function getCanonicalUrl(): string | undefined {
+  const link = document.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  return link?.href || undefined;
+}
+
 /**
  * Extract relevant page information
  */
@@ -64,9 +83,11 @@ function capturePageContext(): PageContext {
       readableText: readableText || "",
       timestamp: Date.now(),
       favicon: getFaviconUrl(window.location.href),
+      canonicalUrl: getCanonicalUrl(),
       metadata: {
         domain: getDomain(window.location.href),
       },
+      navigation: getNavigationInfo(),
     };
   } catch (err) {
     console.error("Cortex: Error extracting page context", err);
@@ -77,9 +98,11 @@ function capturePageContext(): PageContext {
       readableText: "",
       timestamp: Date.now(),
       favicon: getFaviconUrl(window.location.href),
+      canonicalUrl: getCanonicalUrl(),
       metadata: {
         domain: getDomain(window.location.href),
       },
+      navigation: getNavigationInfo(),
     };
   }
 }
@@ -159,12 +182,14 @@ function init() {
     return;
   }
 
-  // Generate session ID (persist across page navigations)
-  let sessionId = sessionStorage.getItem("cortex_session_id");
-  if (!sessionId) {
-    sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    sessionStorage.setItem("cortex_session_id", sessionId);
-  }
+  // End this page's visit when the user leaves it (the worker also ends it on the next page or tab close)
+  window.addEventListener("pagehide", () => {
+    try {
+      chrome.runtime.sendMessage({ type: "VISIT_ENDED", payload: {} });
+    } catch {
+      // Extension was reloaded; the context is gone
+    }
+  });
 
   // Determine if this is a refresh or new visit
   const isRefresh = isPageRefresh();
@@ -179,8 +204,6 @@ function init() {
       setTimeout(() => {
         try {
           const pageContext = capturePageContext();
-          // Add session ID to context
-          (pageContext as any).sessionId = sessionId;
           sendPageCapture(pageContext, isRefresh);
         } catch (err) {
           console.error("Cortex: Error capturing page", err);
@@ -192,8 +215,6 @@ function init() {
     setTimeout(() => {
       try {
         const pageContext = capturePageContext();
-        // Add session ID to context
-        (pageContext as any).sessionId = sessionId;
         sendPageCapture(pageContext, isRefresh);
       } catch (err) {
         console.error("Cortex: Error capturing page", err);
@@ -0,0 +1,27 @@
+/**
+ * Cortex Offscreen Document
+ * Hosts the SQLite and embedding workers on behalf of the service worker
+ *
+ * Service workers cannot start workers themselves, so this page spawns each one
+ * the first time something is posted on its channel. The client keeps resending
+ * its `open` request until the new worker answers, so that first message isn't lost.
+ */
+
+import { SQLITE_CHANNEL } from "../utils/sqlite-client";
+import { EMBEDDING_CHANNEL } from "../utils/embedding-client";
+
+const WORKERS: Record<string, string> = {
+  [SQLITE_CHANNEL]: "sqlite.js",
+  [EMBEDDING_CHANNEL]: "embedding.js",
+};
+
+for (const [channelName, script] of Object.entries(WORKERS)) {
+  const channel = new BroadcastChannel(channelName);
+  channel.onmessage = () => {
+    channel.close();
+    const worker = new Worker(chrome.runtime.getURL(script), { type: "module" });
+    worker.onerror = (event) => {
+      console.error(`Cortex: ${script} worker failed`, event.message);
+    };
+  };
+}
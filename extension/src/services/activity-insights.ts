@@ -3,8 +3,9 @@
  * Analyzes browsing patterns and generates insights
  */
 
-import type { MemoryNode } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
+import type { MemoryNode, VisitEvent } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
 import { recallService } from "./recall-service";
 
 export interface ActivityInsight {
@@ -19,7 +20,7 @@ export interface ActivityInsight {
 
 export interface ActivityStats {
   totalPages: number;
-  totalTime: number; // Estimated in milliseconds
+  totalTime: number; // Milliseconds, from the visit log (estimated before visits were logged)
   uniqueDomains: number;
   topDomains: Array<{ domain: string; count: number; timeSpent: number }>;
   topKeywords: Array<{ keyword: string; count: number }>;
@@ -27,24 +28,50 @@ export interface ActivityStats {
   dailyDistribution: number[]; // 7 days
 }
 
+// Used for pages captured before visits were logged and for visits that never ended
+const ESTIMATED_VISIT_MS = 30 * 1000;
+// A tab left open in the background should not count as hours of reading
+const MAX_VISIT_MS = 30 * 60 * 1000;
+
+/**
+ * Time spent on one visit, from the visit log
+ */
+export function visitDuration(visit: VisitEvent): number {
+  if (visit.endTimestamp === undefined) return ESTIMATED_VISIT_MS;
+  return Math.min(visit.endTimestamp - visit.timestamp, MAX_VISIT_MS);
+}
+
+function visitDomain(visit: VisitEvent): string {
+  try {
+    return new URL(visit.url).hostname;
+  } catch {
+    return "";
+  }
+}
+
 export class ActivityInsightsService {
+  constructor(private storage: StorageBackend = activeStorage) {}
+
   /**
    * Generate comprehensive activity insights
    */
   async generateInsights(days: number = 7): Promise<ActivityInsight[]> {
     const insights: ActivityInsight[] = [];
     const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
-    const allNodes = await cortexStorage.getAllMemoryNodes();
+    const [allNodes, visits] = await Promise.all([
+      this.storage.getAllMemoryNodes(),
+      this.storage.getVisitEvents({ since: cutoff }),
+    ]);
     const recentNodes = allNodes.filter((node) => node.timestamp >= cutoff);
 
     // 1. Time spent analysis
-    const timeSpent = this.calculateTimeSpent(recentNodes);
+    const timeSpent = this.calculateTimeSpent(recentNodes, visits);
     insights.push({
       id: "time_spent",
       type: "time_spent",
       title: "Time Spent Browsing",
-      description: `You've browsed approximately ${Math.round(timeSpent / 60 / 60)} hours in the last ${days} days`,
-      data: { hours: timeSpent / 60 / 60, days },
+      description: `You've browsed approximately ${Math.round(timeSpent / 1000 / 60 / 60)} hours in the last ${days} days`,
+      data: { hours: timeSpent / 1000 / 60 / 60, days },
       timestamp: Date.now(),
       confidence: 0.8,
     });
@@ -111,27 +138,37 @@ export class ActivityInsightsService {
    */
   async getActivityStats(days: number = 30): Promise<ActivityStats> {
     const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
-    const allNodes = await cortexStorage.getAllMemoryNodes();
+    const [allNodes, visits] = await Promise.all([
+      this.storage.getAllMemoryNodes(),
+      this.storage.getVisitEvents({ since: cutoff }),
+    ]);
     const recentNodes = allNodes.filter((node) => node.timestamp >= cutoff);
 
+    // Count real visits when the log has them, otherwise one estimated visit per saved page
+    const events =
+      visits.length > 0
+        ? visits.map((visit) => ({ domain: visitDomain(visit), timestamp: visit.timestamp, duration: visitDuration(visit) }))
+        : recentNodes.map((node) => ({ domain: node.metadata.domain, timestamp: node.timestamp, duration: ESTIMATED_VISIT_MS }));
+
     const domainCounts = new Map<string, number>();
     const domainTimes = new Map<string, number>();
     const keywordCounts = new Map<string, number>();
     const hourlyCounts = new Array(24).fill(0);
     const dailyCounts = new Array(7).fill(0);
 
-    recentNodes.forEach((node) => {
-      const domain = node.metadata.domain;
-      domainCounts.set(domain, (domainCounts.get(domain) || 0) + 1);
-      domainTimes.set(domain, (domainTimes.get(domain) || 0) + 30000); // Estimate 30s per page
+    events.forEach((event) => {
+      domainCounts.set(event.domain, (domainCounts.get(event.domain) || 0) + 1);
+      domainTimes.set(event.domain, (domainTimes.get(event.domain) || 0) + event.duration);
+
+      const date = new Date(event.timestamp);
+      hourlyCounts[date.getHours()]++;
+      dailyCounts[date.getDay()]++;
+    });
 
+    recentNodes.forEach((node) => {
       node.keywords.forEach((kw) => {
         keywordCounts.set(kw, (keywordCounts.get(kw) || 0) + 1);
       });
-
-      const date = new Date(node.timestamp);
-      hourlyCounts[date.getHours()]++;
-      dailyCounts[date.getDay()]++;
     });
 
     const topDomains = Array.from(domainCounts.entries())
@@ -148,7 +185,7 @@ export class ActivityInsightsService {
       .sort((a, b) => b.count - a.count)
       .slice(0, 10);
 
-    const uniqueDomains = new Set(recentNodes.map((n) => n.metadata.domain)).size;
+    const uniqueDomains = new Set(events.map((event) => event.domain)).size;
     const totalTime = Array.from(domainTimes.values()).reduce((sum, time) => sum + time, 0);
 
     return {
@@ -162,9 +199,12 @@ export class ActivityInsightsService {
     };
   }
 
-  private calculateTimeSpent(nodes: MemoryNode[]): number {
-    // Estimate: 30 seconds per page on average
-    return nodes.length * 30 * 1000;
+  private calculateTimeSpent(nodes: MemoryNode[], visits: VisitEvent[]): number {
+    if (visits.length > 0) {
+      return visits.reduce((sum, visit) => sum + visitDuration(visit), 0);
+    }
+    // No visit log yet: estimate 30 seconds per page
+    return nodes.length * ESTIMATED_VISIT_MS;
   }
 
   private analyzeDomainFocus(nodes: MemoryNode[]): {
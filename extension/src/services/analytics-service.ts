@@ -3,8 +3,8 @@
  * Provides comprehensive user analytics: daily/monthly/yearly stats, top sites, top categories
  */
 
-import type { MemoryNode } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
+import { activeStorage } from "../utils/storage-engine";
+import type { PageAggregates, StorageBackend } from "../utils/storage-backend";
 
 export interface DailyStats {
   date: string; // YYYY-MM-DD
@@ -49,18 +49,20 @@ export interface AnalyticsData {
 }
 
 export class AnalyticsService {
+  constructor(private storage: StorageBackend = activeStorage) {}
+
   /**
    * Get comprehensive analytics data
    */
   async getAnalytics(): Promise<AnalyticsData> {
     try {
       console.log("AnalyticsService: Starting getAnalytics");
-      // Add a reasonable limit to prevent loading all nodes at once (causes timeout)
-      // 10k most recent nodes should be enough for analytics
-      const allNodes = await cortexStorage.getAllMemoryNodes(10000);
-      console.log("AnalyticsService: Loaded", allNodes.length, "nodes");
-      
-      if (allNodes.length === 0) {
+      // Counted by the engine (GROUP BY on SQLite, one cursor pass on IndexedDB), so
+      // every page is included without loading them all into the worker
+      const aggregates = await this.storage.getPageAggregates();
+      console.log("AnalyticsService: Aggregated", aggregates.totalPages, "pages");
+
+      if (aggregates.totalPages === 0) {
         console.log("AnalyticsService: No nodes found, returning empty analytics");
         return {
           daily: [],
@@ -74,27 +76,14 @@ export class AnalyticsService {
         };
       }
 
-    // Sort by timestamp
-    const sortedNodes = allNodes.sort((a, b) => a.timestamp - b.timestamp);
-    const startTime = sortedNodes[0].timestamp;
-    const endTime = sortedNodes[sortedNodes.length - 1].timestamp;
+    const daily: DailyStats[] = aggregates.days;
 
-    // Calculate daily stats
-    const daily = this.calculateDailyStats(allNodes);
-    
-    // Calculate monthly stats
-    const monthly = this.calculateMonthlyStats(allNodes);
-    
-    // Calculate yearly stats
-    const yearly = this.calculateYearlyStats(allNodes);
-    
-    // Calculate top sites
-    const topSites = this.calculateTopSites(allNodes);
-    
-    // Calculate top categories
-    const topCategories = this.calculateTopCategories(allNodes);
+    // Months and years roll up from the days (YYYY-MM-DD)
+    const monthly = this.rollUp(daily, 7).map(({ key, count }) => ({ month: key, count }));
+    const yearly = this.rollUp(daily, 4).map(({ key, count }) => ({ year: key, count }));
 
-    const uniqueDomains = new Set(allNodes.map(n => n.metadata.domain)).size;
+    const topSites = this.calculateTopSites(aggregates);
+    const topCategories = this.calculateTopCategories(aggregates);
 
     console.log("AnalyticsService: Calculated analytics:", {
       daily: daily.length,
@@ -102,7 +91,7 @@ export class AnalyticsService {
       yearly: yearly.length,
       topSites: topSites.length,
       topCategories: topCategories.length,
-      totalPages: allNodes.length
+      totalPages: aggregates.totalPages
     });
 
     return {
@@ -111,9 +100,9 @@ export class AnalyticsService {
       yearly,
       topSites,
       topCategories,
-      totalPages: allNodes.length,
-      uniqueDomains,
-      dateRange: { start: startTime, end: endTime },
+      totalPages: aggregates.totalPages,
+      uniqueDomains: aggregates.domains.length,
+      dateRange: { start: aggregates.oldest ?? Date.now(), end: aggregates.newest ?? Date.now() },
     };
     } catch (error) {
       console.error("AnalyticsService: Error getting analytics:", error);
@@ -121,82 +110,42 @@ export class AnalyticsService {
     }
   }
 
-  private calculateDailyStats(nodes: MemoryNode[]): DailyStats[] {
-    const dailyMap = new Map<string, number>();
-    
-    nodes.forEach((node) => {
-      const date = new Date(node.timestamp);
-      const dateStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
-      dailyMap.set(dateStr, (dailyMap.get(dateStr) || 0) + 1);
-    });
-
-    return Array.from(dailyMap.entries())
-      .map(([date, count]) => ({ date, count }))
-      .sort((a, b) => a.date.localeCompare(b.date));
-  }
-
-  private calculateMonthlyStats(nodes: MemoryNode[]): MonthlyStats[] {
-    const monthlyMap = new Map<string, number>();
-    
-    nodes.forEach((node) => {
-      const date = new Date(node.timestamp);
-      const monthStr = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      monthlyMap.set(monthStr, (monthlyMap.get(monthStr) || 0) + 1);
-    });
-
-    return Array.from(monthlyMap.entries())
-      .map(([month, count]) => ({ month, count }))
-      .sort((a, b) => a.month.localeCompare(b.month));
-  }
+  private rollUp(daily: DailyStats[], prefixLength: number): Array<{ key: string; count: number }> {
+    const totals = new Map<string, number>();
 
-  private calculateYearlyStats(nodes: MemoryNode[]): YearlyStats[] {
-    const yearlyMap = new Map<string, number>();
-    
-    nodes.forEach((node) => {
-      const yearStr = String(new Date(node.timestamp).getFullYear());
-      yearlyMap.set(yearStr, (yearlyMap.get(yearStr) || 0) + 1);
+    daily.forEach(({ date, count }) => {
+      const key = date.slice(0, prefixLength);
+      totals.set(key, (totals.get(key) || 0) + count);
     });
 
-    return Array.from(yearlyMap.entries())
-      .map(([year, count]) => ({ year, count }))
-      .sort((a, b) => a.year.localeCompare(b.year));
+    return Array.from(totals.entries())
+      .map(([key, count]) => ({ key, count }))
+      .sort((a, b) => a.key.localeCompare(b.key));
   }
 
-  private calculateTopSites(nodes: MemoryNode[]): TopSite[] {
-    const domainMap = new Map<string, { count: number; lastVisit: number }>();
-    
-    nodes.forEach((node) => {
-      const domain = node.metadata.domain;
-      const existing = domainMap.get(domain) || { count: 0, lastVisit: 0 };
-      domainMap.set(domain, {
-        count: existing.count + 1,
-        lastVisit: Math.max(existing.lastVisit, node.timestamp),
-      });
-    });
+  private calculateTopSites(aggregates: PageAggregates): TopSite[] {
+    const total = aggregates.totalPages;
 
-    const total = nodes.length;
-    
-    return Array.from(domainMap.entries())
-      .map(([domain, data]) => ({
+    return aggregates.domains
+      .slice(0, 20)
+      .map(({ domain, count, lastVisit }) => ({
         domain,
-        count: data.count,
-        percentage: (data.count / total) * 100,
-        lastVisit: data.lastVisit,
-      }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 20);
+        count,
+        percentage: (count / total) * 100,
+        lastVisit,
+      }));
   }
 
-  private calculateTopCategories(nodes: MemoryNode[]): TopCategory[] {
+  private calculateTopCategories(aggregates: PageAggregates): TopCategory[] {
     const categoryMap = new Map<string, number>();
-    
-    nodes.forEach((node) => {
-      // Use the same categorization logic as Dashboard
-      const category = this.categorizeUrl(node.url || `https://${node.metadata.domain}`);
-      categoryMap.set(category, (categoryMap.get(category) || 0) + 1);
+
+    aggregates.domains.forEach(({ domain, count }) => {
+      // Use the same categorization logic as Dashboard; aggregates are per domain, not per URL
+      const category = this.categorizeUrl(`https://${domain}`);
+      categoryMap.set(category, (categoryMap.get(category) || 0) + count);
     });
 
-    const total = nodes.length;
+    const total = aggregates.totalPages;
     
     return Array.from(categoryMap.entries())
       .map(([category, count]) => ({
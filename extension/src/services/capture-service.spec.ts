@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { PageContext } from "@shared/extension-types";
+import { BACKENDS } from "../testing/backends";
+import type { StorageBackend } from "../utils/storage-backend";
+import { pageIdForUrl } from "../utils/page-id";
+import type { TermStatisticsSnapshot } from "../utils/embedding";
+import { CaptureService } from "./capture-service";
+import { EmbeddingService } from "./embedding-service";
+import { RecallService } from "./recall-service";
+import { SessionService } from "./session-service";
+
+const start = Date.UTC(2025, 0, 6, 9, 0);
+
+const otters: PageContext = {
+  url: "https://wildlife.example/otters?utm_source=newsletter",
+  title: "Sea otters use tools",
+  readableText:
+    "Sea otters crack open shellfish with rocks they carry in a pouch under their forelegs. " +
+    "Otters are one of the few marine mammals known to use tools while floating on their backs.",
+  timestamp: start,
+};
+// The same article syndicated elsewhere
+const mirroredOtters: PageContext = { ...otters, url: "https://news.example/syndicated/sea-otters" };
+const compilers: PageContext = {
+  url: "https://docs.example/compilers",
+  title: "Register allocation",
+  readableText: "Graph colouring assigns registers to virtual values during compilation of a program.",
+  timestamp: start,
+};
+
+const frenchOtters: PageContext = {
+  url: "https://faune.example/loutres",
+  title: "Les loutres de mer utilisent des outils",
+  readableText:
+    "Les loutres de mer cassent les coquillages avec des pierres qu'elles gardent sous leurs pattes avant. " +
+    "Elles flottent sur le dos pendant qu'elles mangent et se tiennent par la patte pour dormir.",
+  timestamp: start,
+};
+
+// A long guide whose one detail about backups sits far past the first 1000 characters
+const setupGuide: PageContext = {
+  url: "https://docs.example/setup",
+  title: "Setting up the build server",
+  readableText: [
+    "Install the toolchain from the package manager and check the compiler version before anything else.",
+    "Clone the repository into the workspace directory and run the bootstrap script once.",
+    "The bootstrap script downloads dependencies, generates configuration files and warms the cache.",
+    "Runners pick up jobs from the queue; give each runner its own working directory.",
+    "Logs rotate daily and are kept for two weeks in the logs directory next to the workspace.",
+    "Environment variables for credentials are read from the secrets file, never from the repository.",
+    "Upgrade runners one at a time so the queue keeps draining during maintenance windows.",
+    "Monitoring scrapes the runner metrics endpoint every thirty seconds and alerts on stalled jobs.",
+    "Cache misses usually mean the lockfile changed; the first build after that takes longer.",
+    "Disk usage alerts fire at eighty percent; prune old artifacts with the cleanup command.",
+    "When a runner hangs, drain it from the queue, collect its logs and restart the service.",
+    "Pin tool versions in the toolchain file so every runner builds with the same compiler.",
+    "Nightly backups of the artifact store are written to the cold storage bucket and kept for ninety days.",
+    "Restore a backup by pointing the artifact store at the snapshot and restarting the runners.",
+  ].join(" "),
+  timestamp: start,
+};
+
+describe.each(BACKENDS)("capture pipeline on $name storage", ({ create }) => {
+  let storage: StorageBackend;
+  let sessions: SessionService;
+  let embeddings: EmbeddingService;
+  let capture: CaptureService;
+  let recall: RecallService;
+
+  beforeEach(() => {
+    storage = create();
+    sessions = new SessionService(storage);
+    embeddings = new EmbeddingService(undefined, undefined, storage);
+    capture = new CaptureService(storage, sessions, undefined, embeddings);
+    recall = new RecallService(storage);
+  });
+
+  async function captureAll(pages: PageContext[]) {
+    const session = await sessions.recordActivity(start, 1);
+    for (const [i, page] of pages.entries()) {
+      await capture.capture(page, { tabId: 1, sessionId: session.id, now: start + i * 1000 });
+    }
+    return session.id;
+  }
+
+  it("stores captured pages under their canonical id with an embedding", async () => {
+    const node = await capture.capture(otters, { now: start });
+
+    expect(node.id).toBe(pageIdForUrl("https://wildlife.example/otters"));
+    expect(node.canonicalUrl).toBe("https://wildlife.example/otters");
+    expect(node.keywords).toContain("otters");
+    expect(node.language).toBe("en");
+    expect(await storage.getMemoryNode(node.id)).toMatchObject({ title: otters.title, visitCount: 1 });
+    expect((await storage.getEmbedding(node.id))?.vector).toHaveLength(384);
+  });
+
+  it("learns term statistics from new pages only", async () => {
+    await captureAll([otters, mirroredOtters, compilers]);
+    await capture.capture(compilers, { now: start + 10_000 });
+    await embeddings.flushTermStatistics();
+
+    const terms = await storage.getSettingValue<TermStatisticsSnapshot>("embedding_terms");
+    // Recapturing a known page doesn't count it again
+    expect(terms?.documents).toBe(3);
+    // Terms are stemmed: "otters" and "otter" count as one
+    expect(terms?.terms.otter).toBe(2);
+    expect(terms?.terms.register).toBe(1);
+  });
+
+  it("finds captured pages through recall search", async () => {
+    await captureAll([otters, compilers]);
+
+    const result = await recall.search("shellfish otters", 5);
+    expect(result.matches[0].node.url).toBe(otters.url);
+    expect(result.matches.map((match) => match.node.url)).not.toContain(compilers.url);
+
+    const snippet = result.matches[0].snippet!;
+    const marked = snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end).toLowerCase());
+    expect(marked).toEqual(expect.arrayContaining(["shellfish", "otters"]));
+  });
+
+  it("applies query operators before ranking and returns the parsed query", async () => {
+    await captureAll([otters, compilers, setupGuide]);
+
+    const result = await recall.search("site:docs.example compiler", 5);
+    expect(result.parsed.text).toBe("compiler");
+    expect(result.parsed.filters).toMatchObject([{ kind: "site", value: "docs.example" }]);
+    expect(result.matches.length).toBeGreaterThan(0);
+    expect(result.matches.every((match) => match.node.metadata.domain === "docs.example")).toBe(true);
+
+    const excluded = await recall.search('compiler -"build server"', 5);
+    expect(excluded.matches.map((match) => match.node.url)).not.toContain(setupGuide.url);
+
+    // Filters alone list every page that passes, newest first
+    const browsed = await recall.search("site:docs.example before:2025-01-07", 5);
+    expect(browsed.parsed.text).toBe("");
+    expect(browsed.matches.map((match) => match.node.url)).toEqual([setupGuide.url, compilers.url]);
+    expect((await recall.search("site:docs.example after:2025-02", 5)).matches).toEqual([]);
+  });
+
+  it("finds a filtered match that ranks past the unfiltered candidate window", async () => {
+    const otterPages = Array.from({ length: 15 }, (_, i): PageContext => ({
+      url: `https://wildlife.example/otters-${i}`,
+      title: `Sea otters, part ${i}`,
+      readableText: `Sea otters float, groom and dive. Otters eat urchins, and otters use rocks as tools (${i}).`,
+      timestamp: start,
+    }));
+    // The one page on the filtered site only mentions otters in passing
+    const travelBlog: PageContext = {
+      url: "https://blog.example/coast-trip",
+      title: "A week on the coast",
+      readableText:
+        "We drove the coast road for a week, stopping at harbours, lighthouses and bakeries. " +
+        "The weather turned on the fourth day, so we spent it in a museum about shipwrecks. " +
+        "On the last morning we saw otters near the pier before the ferry left.",
+      timestamp: start,
+    };
+    await captureAll([...otterPages, travelBlog]);
+
+    // Unfiltered, the blog ranks below every page that is about otters
+    const unfiltered = await recall.search("otters", 20);
+    expect(unfiltered.matches.map((match) => match.node.url).indexOf(travelBlog.url)).toBeGreaterThanOrEqual(15);
+
+    const filtered = await recall.search("site:blog.example otters", 1);
+    expect(filtered.matches.map((match) => match.node.url)).toEqual([travelBlog.url]);
+    expect(filtered.matches[0].snippet?.text).toContain("otters");
+    expect((await recall.search("site:blog.example volcanoes", 1)).matches).toEqual([]);
+  });
+
+  it("filters recall search by page language and reports the languages found", async () => {
+    await captureAll([otters, frenchOtters, compilers]);
+    expect((await storage.getMemoryNode(pageIdForUrl(frenchOtters.url)))?.language).toBe("fr");
+
+    const all = await recall.search("loutres otters", 5);
+    expect(all.languages).toContainEqual({ language: "fr", count: 1 });
+    expect(all.languages.find((facet) => facet.language === "en")?.count).toBeGreaterThanOrEqual(1);
+
+    const french = await recall.search("loutres otters", 5, undefined, { language: "fr" });
+    expect(french.matches.map((match) => match.node.url)).toEqual([frenchOtters.url]);
+    expect(french.languages).toEqual(all.languages);
+  });
+
+  it("finds a detail deep in a long page and links to its passage", async () => {
+    await captureAll([setupGuide, otters, compilers]);
+
+    const result = await recall.search("how long are artifact backups kept in cold storage", 5);
+    const [match] = result.matches;
+    expect(match.node.url).toBe(setupGuide.url);
+    expect(match.passage?.text).toContain("Nightly backups of the artifact store");
+    expect(match.passage!.end).toBeGreaterThan(1000);
+    expect(setupGuide.readableText.slice(match.passage!.start, match.passage!.end)).toBe(match.passage!.text);
+    expect(match.passage?.url).toMatch(/^https:\/\/docs\.example\/setup#:~:text=/);
+  });
+
+  it("links similar pages in the graph and groups them into the session", async () => {
+    const sessionId = await captureAll([otters, mirroredOtters, compilers]);
+
+    const related = await recall.getRelatedPages(otters.url);
+    expect(related.map((node) => node.url)).toEqual([mirroredOtters.url]);
+
+    const session = await sessions.getSession(sessionId);
+    expect(session?.pages.map((page) => page.url)).toEqual([otters.url, mirroredOtters.url, compilers.url]);
+  });
+
+  it("counts revisits and keeps the earlier version as a revision", async () => {
+    const first = await capture.capture(otters, { now: start });
+    await capture.capture({ ...otters, readableText: "Sea otters hold hands while they sleep." }, { now: start + 1000 });
+
+    expect(await storage.getMemoryNode(first.id)).toMatchObject({ visitCount: 2 });
+    expect((await storage.getPageRevisions(first.id)).map((revision) => revision.readableText)).toEqual([
+      otters.readableText,
+    ]);
+  });
+
+  it("raises frecency on revisits and sorts search results by it or by recency", async () => {
+    await captureAll([compilers, otters]);
+    const once = (await storage.getMemoryNode(pageIdForUrl(compilers.url)))!.frecency!;
+    for (let i = 1; i <= 4; i++) {
+      await capture.capture(compilers, { now: start + i * 60_000 });
+    }
+    expect((await storage.getMemoryNode(pageIdForUrl(compilers.url)))!.frecency).toBeGreaterThan(once * 4);
+    await capture.capture(otters, { now: start + 10 * 60_000 });
+
+    const urls = async (sort: "recent" | "frecency") =>
+      (await recall.search("registers otters", 5, undefined, { sort })).matches.map((match) => match.node.url);
+    expect(await urls("frecency")).toEqual([compilers.url, otters.url]);
+    expect(await urls("recent")).toEqual([otters.url, compilers.url]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Capture Service
+ * Turns a captured page into a stored memory: keywords, embedding, session and graph links
+ *
+ * Privacy rules, settings and duplicate checks stay with the caller; this is the
+ * part of a capture that only needs storage.
+ */
+
+import type { PageContext, MemoryNode, Embedding } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { SemanticGraphBuilder, semanticGraphBuilder } from "../utils/semantic-graph";
+import { pageIdForCanonicalUrl } from "../utils/page-id";
+import { canonicalizeUrl } from "../utils/url-canonical";
+import { extractKeywords } from "@/lib/text-utils";
+import { detectLanguage } from "@/lib/language";
+import { computeFrecency } from "../utils/frecency";
+import { SessionService, sessionService } from "./session-service";
+import { EmbeddingService, embeddingService } from "./embedding-service";
+
+export interface CaptureContext {
+  tabId?: number;
+  // Browsing session the page was opened in
+  sessionId?: string;
+  userId?: string;
+  now?: number;
+}
+
+export class CaptureService {
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private sessions: SessionService = new SessionService(storage),
+    private graph: SemanticGraphBuilder = new SemanticGraphBuilder(storage),
+    private embeddings: EmbeddingService = new EmbeddingService(undefined, undefined, storage)
+  ) {}
+
+  /**
+   * Store a page with its embedding, add it to its session and link it into the semantic graph
+   */
+  async capture(page: PageContext, context: CaptureContext = {}): Promise<MemoryNode> {
+    const now = context.now ?? Date.now();
+    // Variants of the same URL (tracking params, fragments, http/https...) share one memory
+    const canonicalUrl = canonicalizeUrl(page.url, page.canonicalUrl);
+    const id = pageIdForCanonicalUrl(canonicalUrl);
+
+    const [existing, visits] = await Promise.all([this.storage.getMemoryNode(id), this.storage.getVisitEvents({ nodeId: id })]);
+    const language = detectLanguage(`${page.title} ${page.readableText}`);
+    const keywords = extractKeywords(page.readableText, page.title, undefined, language);
+    if (!existing) {
+      await this.embeddings
+        .learnDocument(page.readableText, page.title, keywords)
+        .catch((error) => console.warn("Cortex: Failed to update term statistics", error));
+    }
+    const embeddingResult = await this.embeddings.embedDocument(page.readableText, page.title, keywords);
+    const visitCount = (existing?.visitCount || (existing ? 1 : 0)) + 1;
+
+    const node: MemoryNode = {
+      id,
+      url: page.url,
+      canonicalUrl,
+      title: page.title,
+      readableText: page.readableText,
+      timestamp: now,
+      keywords,
+      language,
+      visitCount,
+      frecency: computeFrecency(Math.max(visitCount, visits.length), visits, now),
+      frecencyAt: now,
+      pinned: existing?.pinned,
+      metadata: {
+        domain: new URL(page.url).hostname,
+        favicon: page.favicon,
+        tabId: context.tabId,
+        sessionId: context.sessionId,
+        userId: context.userId,
+      },
+    };
+
+    const embedding: Embedding = { ...embeddingResult, timestamp: now };
+
+    await Promise.all([this.storage.addMemoryNode(node), this.storage.storeEmbedding(id, embedding)]);
+
+    if (context.sessionId) {
+      await this.sessions.addPage(context.sessionId, node, context.tabId);
+    }
+    // The page is saved either way; a failed graph update only costs its related-page links
+    await this.graph
+      .addNode(node, embedding)
+      .catch((error) => console.error("Cortex: Failed to add page to the semantic graph", error));
+    return node;
+  }
+}
+
+export const captureService = new CaptureService(activeStorage, sessionService, semanticGraphBuilder, embeddingService);
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from "vitest";
+import { EmbeddingService, TERMS_SAVE_ALARM, type SentenceEncoder } from "./embedding-service";
+import { generateEmbedding } from "../utils/embedding";
+import { createMemoryBackend } from "../testing/backends";
+import { EncryptionService } from "./encryption-service";
+
+function encoder(overrides: Partial<SentenceEncoder> = {}): SentenceEncoder {
+  return {
+    connect: vi.fn(async () => undefined),
+    embed: vi.fn(async (texts: string[]) => texts.map(() => [0.6, 0.8])),
+    close: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe("embedding service", () => {
+  it("embeds documents and queries with the sentence model", async () => {
+    const model = encoder();
+    const service = new EmbeddingService(() => model);
+
+    const page = await service.embedDocument("Otters hold hands while sleeping.", "Otters");
+    const query = await service.embedQuery("  sleeping otters ");
+
+    expect(page).toEqual({ vector: [0.6, 0.8], model: "onnx-sentence", modelId: "all-MiniLM-L6-v2", modelVersion: 1, passages: [] });
+    expect(query.model).toBe("onnx-sentence");
+    expect(model.embed).toHaveBeenCalledWith(["Otters\nOtters hold hands while sleeping."]);
+    expect(model.embed).toHaveBeenCalledWith(["sleeping otters"]);
+    expect(model.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back when the model can't be loaded and retries after a cool-down", async () => {
+    let now = 0;
+    const failing = encoder({ connect: vi.fn(async () => Promise.reject(new Error("model files missing"))) });
+    const createEncoder = vi.fn(() => failing);
+    const service = new EmbeddingService(createEncoder, () => now);
+
+    const result = await service.embedDocument("beavers build dams", "Beavers", ["dams"]);
+    expect(result).toEqual({ ...generateEmbedding("beavers build dams", "Beavers", ["dams"]), passages: [] });
+    expect(failing.close).toHaveBeenCalled();
+
+    await service.embedQuery("dams");
+    expect(createEncoder).toHaveBeenCalledTimes(1);
+
+    now += 10 * 60 * 1000;
+    await service.embedQuery("dams");
+    expect(createEncoder).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back when the worker fails mid-request", async () => {
+    const service = new EmbeddingService(() => encoder({ embed: vi.fn(async () => Promise.reject(new Error("worker crashed"))) }));
+    expect((await service.embedQuery("otters")).model).toBe("fallback");
+  });
+
+  it("keeps term statistics out of plain settings while encryption is on", async () => {
+    const storage = createMemoryBackend();
+    const service = new EmbeddingService(() => encoder(), Date.now, storage);
+    const page = { id: "p", url: "https://example.com/p", timestamp: 1, keywords: [], metadata: { domain: "example.com" } };
+    await storage.addMemoryNode({ ...page, title: "Salary review", readableText: "raise negotiation notes" });
+    await service.learnDocument("raise negotiation notes", "Salary review");
+    await service.flushTermStatistics();
+    expect(JSON.stringify(await storage.getSettingValue("embedding_terms"))).toContain("negotiation");
+
+    const encryption = new EncryptionService(1000, storage);
+    await encryption.enable("correct horse battery");
+    await service.saveTermStatistics();
+    expect(await storage.getSettingValue("embedding_terms")).toBeNull();
+    await service.learnDocument("biopsy results", "Clinic letter");
+    await service.flushTermStatistics();
+    expect(await storage.getSettingValue("embedding_terms")).toBeNull();
+    expect(service.getTermStatistics().documentCount).toBe(2);
+
+    // After a restart they are learned again from the unlocked pages
+    const restarted = new EmbeddingService(() => encoder(), Date.now, storage);
+    await restarted.loadTermStatistics();
+    expect(restarted.getTermStatistics().documentCount).toBe(1);
+    expect(await storage.getSettingValue("embedding_terms")).toBeNull();
+  });
+
+  it("saves term statistics every few pages and on its alarm rather than per capture", async () => {
+    const storage = createMemoryBackend();
+    const service = new EmbeddingService(() => encoder(), Date.now, storage);
+    const save = vi.spyOn(storage, "setSettingValue");
+
+    for (let i = 0; i < 24; i++) await service.learnDocument(`page ${i} about otters`);
+    expect(save).not.toHaveBeenCalled();
+    await service.learnDocument("page 24 about otters");
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(await storage.getSettingValue("embedding_terms")).toMatchObject({ documents: 25 });
+
+    expect(service.handleAlarm("storage-budget")).toBe(false);
+    // Nothing learned since the last save
+    expect(service.handleAlarm(TERMS_SAVE_ALARM)).toBe(true);
+    expect(save).toHaveBeenCalledTimes(1);
+    await service.learnDocument("page 25 about otters");
+    service.handleAlarm(TERMS_SAVE_ALARM);
+    await vi.waitFor(() => expect(save).toHaveBeenCalledTimes(2));
+    expect(await storage.getSettingValue("embedding_terms")).toMatchObject({ documents: 26 });
+  });
+});
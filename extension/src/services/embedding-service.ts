@@ -0,0 +1,207 @@
+/**
+ * Embedding Service
+ * Embeds pages and queries with the active registry model, falling back to `generateEmbedding`
+ *
+ * The sentence model runs in the embedding worker. When it can't be reached (no
+ * offscreen support, model files missing, worker crashed) captures and searches carry
+ * on with the deterministic fallback, and the model is tried again after a cool-down.
+ * The re-index job asks for `strict` embeddings instead, so it never writes fallback
+ * vectors in place of the model it is re-indexing for.
+ *
+ * The fallback weighs words by how rare they are in the local corpus. Those term
+ * statistics are learned from each new page and saved as a setting every few pages
+ * or on an alarm, since the snapshot runs to thousands of terms. A worker that stops
+ * in between loses a few pages' counts, which only nudges the weights. While
+ * encryption is on they aren't saved at all: they list every word of the sealed
+ * pages, so they are then only kept in memory and learned again after each unlock.
+ *
+ * Long pages are also embedded passage by passage (see utils/passages.ts), in the
+ * same request as the page so page and passages always come from one model.
+ */
+
+import type { EmbeddingModelInfo } from "@shared/extension-types";
+import { TermStatistics, generateEmbedding, type EmbeddingResult, type TermStatisticsSnapshot } from "../utils/embedding";
+import { OffscreenEmbeddingClient } from "../utils/embedding-client";
+import { SENTENCE_MODEL, FALLBACK_MODEL, embeddingFields } from "../utils/embedding-models";
+import { splitPassages } from "../utils/passages";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+
+// Page text the model sees; MiniLM truncates to 256 tokens anyway
+const DOCUMENT_CHARS = 1000;
+const RETRY_AFTER_MS = 5 * 60 * 1000;
+const TERMS_SETTING_KEY = "embedding_terms";
+// New pages learned before the term statistics are saved without waiting for the alarm
+const SAVE_EVERY_DOCUMENTS = 25;
+// Saves whatever the last few captures learned; chrome.alarms fire even after the worker was suspended
+export const TERMS_SAVE_ALARM = "embedding-terms-save";
+export const TERMS_SAVE_PERIOD_MINUTES = 5;
+
+export interface SentenceEncoder {
+  connect(): Promise<unknown>;
+  embed(texts: string[]): Promise<number[][]>;
+  close(): void;
+}
+
+export interface EmbedOptions {
+  // Throw instead of falling back when the active model can't be used
+  strict?: boolean;
+}
+
+export class EmbeddingService {
+  private encoder: Promise<SentenceEncoder> | null = null;
+  private retryAt = 0;
+  private model: EmbeddingModelInfo = SENTENCE_MODEL;
+  private terms = new TermStatistics();
+  // Pages learned since the term statistics were last saved
+  private unsaved = 0;
+
+  constructor(
+    private createEncoder: () => SentenceEncoder = () => new OffscreenEmbeddingClient(),
+    private now: () => number = Date.now,
+    private storage: StorageBackend = activeStorage
+  ) {}
+
+  /**
+   * The model new embeddings are meant to come from
+   */
+  getModel(): EmbeddingModelInfo {
+    return this.model;
+  }
+
+  setModel(model: EmbeddingModelInfo): void {
+    this.model = model;
+  }
+
+  getTermStatistics(): TermStatistics {
+    return this.terms;
+  }
+
+  /**
+   * Load the saved term statistics, learning them from the stored pages the first time
+   */
+  async loadTermStatistics(): Promise<void> {
+    const snapshot = this.storage.isEncryptionEnabled()
+      ? null
+      : await this.storage.getSettingValue<TermStatisticsSnapshot>(TERMS_SETTING_KEY);
+    if (snapshot) {
+      this.terms = TermStatistics.fromSnapshot(snapshot);
+    } else if (!this.storage.isLocked()) {
+      await this.rebuildTermStatistics();
+    }
+  }
+
+  /**
+   * Learn the term statistics again from every stored page (drops deleted pages' counts)
+   */
+  async rebuildTermStatistics(): Promise<void> {
+    const nodes = await this.storage.getAllMemoryNodes();
+    this.terms = TermStatistics.fromDocuments(
+      nodes.map((node) => ({ text: node.readableText, title: node.title, keywords: node.keywords }))
+    );
+    await this.saveTermStatistics();
+  }
+
+  /**
+   * Count a newly captured page in the term statistics; they're saved every few pages
+   */
+  async learnDocument(text: string, title: string = "", keywords: string[] = []): Promise<void> {
+    this.terms.addDocument(text, title, keywords);
+    if (++this.unsaved >= SAVE_EVERY_DOCUMENTS) await this.saveTermStatistics();
+  }
+
+  /**
+   * Save the term statistics, or drop the saved copy while encryption is on (as right after turning it on)
+   */
+  async saveTermStatistics(): Promise<void> {
+    this.unsaved = 0;
+    const snapshot = this.storage.isEncryptionEnabled() ? null : this.terms.toSnapshot();
+    await this.storage.setSettingValue(TERMS_SETTING_KEY, snapshot);
+  }
+
+  /**
+   * Save the term statistics if pages were learned since the last save
+   */
+  async flushTermStatistics(): Promise<void> {
+    if (this.unsaved > 0) await this.saveTermStatistics();
+  }
+
+  /**
+   * Run the save an alarm stands for; false for alarms that aren't the term statistics'
+   */
+  handleAlarm(name: string): boolean {
+    if (name !== TERMS_SAVE_ALARM) return false;
+    this.flushTermStatistics().catch((err) => console.error("Cortex: Failed to save term statistics", err));
+    return true;
+  }
+
+  /**
+   * Embedding for a captured page, with one vector per passage of a long page
+   */
+  async embedDocument(
+    text: string,
+    title: string = "",
+    keywords: string[] = [],
+    options: EmbedOptions = {}
+  ): Promise<EmbeddingResult> {
+    const input = `${title}\n${text.slice(0, DOCUMENT_CHARS)}`.trim();
+    const passages = splitPassages(text);
+    // Passages keep the title as context, like a reader who knows which page they're on
+    const inputs = [input, ...passages.map((passage) => `${title}\n${passage.text}`.trim())];
+    const fallback = () => [
+      generateEmbedding(text, title, keywords, this.terms),
+      ...passages.map((passage) => generateEmbedding(passage.text, title, [], this.terms)),
+    ];
+
+    const [page, ...passageResults] = await this.embed(inputs, fallback, options);
+    return {
+      ...page,
+      passages: passages.map(({ start, end }, i) => ({ start, end, vector: passageResults[i].vector })),
+    };
+  }
+
+  /**
+   * Embedding for a search query, in the same space as `embedDocument`
+   */
+  async embedQuery(query: string, options: EmbedOptions = {}): Promise<EmbeddingResult> {
+    const [result] = await this.embed([query.trim()], () => [generateEmbedding(query, "", [], this.terms)], options);
+    return result;
+  }
+
+  private async embed(
+    inputs: string[],
+    fallback: () => EmbeddingResult[],
+    { strict = false }: EmbedOptions
+  ): Promise<EmbeddingResult[]> {
+    if (this.model.id === FALLBACK_MODEL.id) return fallback();
+    if (!strict && (!inputs[0] || this.now() < this.retryAt)) return fallback();
+    try {
+      const encoder = await this.connect();
+      const vectors = await encoder.embed(inputs);
+      return vectors.map((vector) => ({ vector, ...embeddingFields(this.model) }));
+    } catch (error) {
+      this.retryAt = this.now() + RETRY_AFTER_MS;
+      this.encoder?.then((encoder) => encoder.close(), () => undefined);
+      this.encoder = null;
+      if (strict) throw error;
+      console.warn("Cortex: Sentence model unavailable, using fallback embeddings", error);
+      return fallback();
+    }
+  }
+
+  private connect(): Promise<SentenceEncoder> {
+    this.encoder ??= (async () => {
+      const encoder = this.createEncoder();
+      try {
+        await encoder.connect();
+      } catch (error) {
+        encoder.close();
+        throw error;
+      }
+      return encoder;
+    })();
+    return this.encoder;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { ENGINES } from "../testing/backends";
+import type { StorageEngine } from "../utils/storage-backend";
+import { generateDataKey } from "../utils/crypto";
+import { EncryptionService } from "./encryption-service";
+
+// Keep PBKDF2 cheap in tests
+const ITERATIONS = 1000;
+const PASSPHRASE = "correct horse battery";
+
+function page(id: string, title: string, text: string): MemoryNode {
+  return {
+    id,
+    url: `https://example.com/${id}`,
+    title,
+    readableText: text,
+    timestamp: Date.now(),
+    keywords: [],
+    metadata: { domain: "example.com" },
+  };
+}
+
+describe.each(ENGINES)("encryption at rest on $name storage", ({ create }) => {
+  let storage: StorageEngine;
+  let rawPage: (id: string) => Promise<Record<string, any> | undefined>;
+  let encryption: EncryptionService;
+
+  beforeEach(async () => {
+    ({ storage, rawPage } = create());
+    encryption = new EncryptionService(ITERATIONS, storage);
+    await storage.addMemoryNode(page("a", "Quarterly plan", "Launch the search rewrite in spring"));
+  });
+
+  it("seals existing and new pages and hides them while locked", async () => {
+    const { recoveryKey } = await encryption.enable(PASSPHRASE);
+    expect(recoveryKey).toMatch(/^[0-9A-Z]{4}(-[0-9A-Z]{4})+$/);
+    await storage.addMemoryNode(page("b", "Travel notes", "Trains to Lisbon"));
+
+    const stored = await rawPage("a");
+    expect(stored?.sealed).toBeDefined();
+    expect(JSON.stringify(stored)).not.toContain("Quarterly");
+    expect((await storage.getMemoryNode("b"))?.title).toBe("Travel notes");
+
+    await encryption.lock();
+    const locked = await storage.getMemoryNode("a");
+    expect(locked?.locked).toBe(true);
+    expect(locked?.title).toBe("");
+    await expect(storage.addMemoryNode(page("c", "New", "text"))).rejects.toThrow(/locked/);
+    // Search keeps working on the plaintext index, only the content stays hidden
+    const results = await storage.searchKeywords("lisbon");
+    expect(results.map((r) => r.node.id)).toContain("b");
+
+    await expect(encryption.unlock("wrong passphrase")).rejects.toThrow("Passphrase is incorrect");
+    await encryption.unlock(PASSPHRASE);
+    expect((await storage.getMemoryNode("a"))?.title).toBe("Quarterly plan");
+    expect((await encryption.getStatus()).enabled).toBe(true);
+  });
+
+  it("rotates the key and recovers with the new recovery key", async () => {
+    const first = await encryption.enable(PASSPHRASE);
+    const second = await encryption.rotateKey(PASSPHRASE);
+    expect(second.recoveryKey).not.toBe(first.recoveryKey);
+    expect((await encryption.getStatus()).rotatedAt).toBeDefined();
+
+    await encryption.lock();
+    await expect(encryption.recover(first.recoveryKey, "brand new phrase")).rejects.toThrow("Recovery key is incorrect");
+    await encryption.recover(second.recoveryKey.toLowerCase(), "brand new phrase");
+    expect((await storage.getMemoryNode("a"))?.readableText).toBe("Launch the search rewrite in spring");
+
+    await encryption.lock();
+    await expect(encryption.unlock(PASSPHRASE)).rejects.toThrow();
+    await encryption.unlock("brand new phrase");
+    expect(storage.isLocked()).toBe(false);
+  });
+
+  it("decrypts everything when turned off", async () => {
+    await encryption.enable(PASSPHRASE);
+    await encryption.changePassphrase(PASSPHRASE, "another passphrase");
+    await encryption.disable("another passphrase");
+
+    const stored = await rawPage("a");
+    expect(stored?.sealed).toBeUndefined();
+    expect(stored?.title).toBe("Quarterly plan");
+    expect(await encryption.getStatus()).toMatchObject({ enabled: false, locked: false });
+  });
+
+  it("keeps writes that overlap a re-encryption sealed and up to date", async () => {
+    const ids = Array.from({ length: 12 }, (_, i) => `p${i}`);
+    const key = await generateDataKey();
+    // Writes already sealing when the re-encryption starts, and writes queued behind it
+    const before = ids.slice(0, 6).map((id) => storage.addMemoryNode(page(id, `Draft ${id}`, "before")));
+    const pinned = storage.setPinned("a", true);
+    const rekey = storage.reencryptContent(null, key, { test: true });
+    const after = ids.slice(6).map((id) => storage.addMemoryNode(page(id, `Draft ${id}`, "after")));
+    await Promise.all([...before, pinned, rekey, ...after]);
+
+    for (const id of ["a", ...ids]) {
+      const stored = await rawPage(id);
+      expect(stored?.sealed, id).toBeDefined();
+      expect(JSON.stringify(stored)).not.toContain("Draft");
+    }
+    expect((await storage.getMemoryNode("a"))?.pinned).toBe(true);
+    expect((await storage.getMemoryNode("p3"))?.title).toBe("Draft p3");
+  });
+
+  it("re-encrypts trashed pages so they can still be restored", async () => {
+    await encryption.enable(PASSPHRASE);
+    const entry = await storage.forget({ nodeIds: ["a"] });
+    await encryption.rotateKey(PASSPHRASE);
+
+    await storage.restoreFromTrash(entry!.id);
+    expect((await storage.getMemoryNode("a"))?.title).toBe("Quarterly plan");
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Encryption Service
+ * Passphrase setup, lock/unlock, key rotation and recovery for content encryption
+ *
+ * Page titles and bodies (and their revisions) are sealed with AES-GCM. URLs,
+ * domains, keywords, embeddings and the search index stay readable so search
+ * and ranking keep working while the content itself is protected. The index
+ * lists each page's words and their counts, so it gives much of the content
+ * away; the Privacy page says so. Recent queries and the fallback embedding's
+ * term statistics are not saved at all while encryption is on.
+ *
+ * Recovery: turning encryption on returns a one-time recovery key. Either the
+ * passphrase or the recovery key unlocks the data, and the recovery key can be
+ * used to set a new passphrase. If both are lost the content cannot be
+ * decrypted by anyone, but it can still be erased with FORGET_DATA.
+ */
+
+import type { EncryptionStatus } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { ENCRYPTION_CONFIG_KEY } from "../utils/migrations";
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  generateDataKey,
+  generateRecoveryKey,
+  wrapWithPassphrase,
+  unwrapWithPassphrase,
+  wrapWithRecoveryKey,
+  unwrapWithRecoveryKey,
+  exportDataKey,
+  importDataKey,
+  type WrappedKey,
+} from "../utils/crypto";
+
+export interface EncryptionConfig {
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number };
+  // The data key, wrapped by the passphrase and by the recovery key
+  passphraseKey: WrappedKey;
+  recoveryKey: WrappedKey;
+  createdAt: number;
+  rotatedAt?: number;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+// chrome.storage.session is memory-only and cleared when the browser closes; it keeps
+// the worker unlocked across service worker restarts without writing the key to disk.
+const SESSION_KEY = "cortex_content_key";
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+function sessionStorageArea(): chrome.storage.StorageArea | null {
+  return typeof chrome !== "undefined" && chrome.storage?.session ? chrome.storage.session : null;
+}
+
+export class EncryptionService {
+  constructor(
+    private iterations: number = DEFAULT_PBKDF2_ITERATIONS,
+    private storage: StorageBackend = activeStorage
+  ) {}
+
+  async getStatus(): Promise<EncryptionStatus> {
+    const config = await this.getConfig();
+    return {
+      enabled: !!config,
+      locked: this.storage.isLocked(),
+      createdAt: config?.createdAt,
+      rotatedAt: config?.rotatedAt,
+    };
+  }
+
+  /**
+   * Turn encryption on and seal everything saved so far. Returns the recovery key (shown once).
+   */
+  async enable(passphrase: string): Promise<{ recoveryKey: string }> {
+    if (await this.getConfig()) throw new Error("Encryption is already enabled");
+    this.checkPassphrase(passphrase);
+
+    const dataKey = await generateDataKey();
+    const recoveryKey = generateRecoveryKey();
+    const config = await this.buildConfig(dataKey, passphrase, recoveryKey, Date.now());
+
+    await this.storage.reencryptContent(null, dataKey, config);
+    await this.cacheSessionKey(dataKey);
+    console.log("EncryptionService: Encryption enabled");
+    return { recoveryKey };
+  }
+
+  /**
+   * Decrypt everything and remove the encryption config
+   */
+  async disable(passphrase: string): Promise<void> {
+    const dataKey = await this.unwrap(passphrase);
+    await this.storage.reencryptContent(dataKey, null, null);
+    await this.clearSessionKey();
+    console.log("EncryptionService: Encryption disabled");
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const dataKey = await this.unwrap(passphrase);
+    this.storage.setContentKey(dataKey);
+    await this.cacheSessionKey(dataKey);
+  }
+
+  async lock(): Promise<void> {
+    this.storage.setContentKey(null);
+    await this.clearSessionKey();
+  }
+
+  /**
+   * Re-wrap the data key under a new passphrase (content is not re-encrypted)
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    this.checkPassphrase(newPassphrase);
+    const config = await this.requireConfig();
+    const dataKey = await this.unwrap(currentPassphrase);
+    await this.storage.setSettingValue<EncryptionConfig>(ENCRYPTION_CONFIG_KEY, {
+      ...config,
+      kdf: { ...config.kdf, iterations: this.iterations },
+      passphraseKey: await wrapWithPassphrase(dataKey, newPassphrase, this.iterations),
+    });
+  }
+
+  /**
+   * Replace the data key and re-encrypt all content with it. The old recovery key stops
+   * working, so a new one is returned.
+   */
+  async rotateKey(passphrase: string): Promise<{ recoveryKey: string }> {
+    const config = await this.requireConfig();
+    const oldKey = await this.unwrap(passphrase);
+    const newKey = await generateDataKey();
+    const recoveryKey = generateRecoveryKey();
+    const next = await this.buildConfig(newKey, passphrase, recoveryKey, config.createdAt);
+
+    await this.storage.reencryptContent(oldKey, newKey, { ...next, rotatedAt: Date.now() });
+    await this.cacheSessionKey(newKey);
+    console.log("EncryptionService: Data key rotated");
+    return { recoveryKey };
+  }
+
+  /**
+   * Unlock with the recovery key and set a new passphrase
+   */
+  async recover(recoveryKey: string, newPassphrase: string): Promise<void> {
+    this.checkPassphrase(newPassphrase);
+    const config = await this.requireConfig();
+    let dataKey: CryptoKey;
+    try {
+      dataKey = await unwrapWithRecoveryKey(config.recoveryKey, recoveryKey);
+    } catch {
+      throw new Error("Recovery key is incorrect");
+    }
+
+    await this.storage.setSettingValue<EncryptionConfig>(ENCRYPTION_CONFIG_KEY, {
+      ...config,
+      kdf: { ...config.kdf, iterations: this.iterations },
+      passphraseKey: await wrapWithPassphrase(dataKey, newPassphrase, this.iterations),
+    });
+    this.storage.setContentKey(dataKey);
+    await this.cacheSessionKey(dataKey);
+  }
+
+  /**
+   * Pick up a key cached earlier in this browser session (after a worker restart)
+   */
+  async restoreSession(): Promise<boolean> {
+    const area = sessionStorageArea();
+    if (!area || !this.storage.isLocked()) return false;
+    const stored = await area.get(SESSION_KEY);
+    const rawKey = stored[SESSION_KEY] as string | undefined;
+    if (!rawKey) return false;
+    this.storage.setContentKey(await importDataKey(fromBase64(rawKey)));
+    return true;
+  }
+
+  private async getConfig(): Promise<EncryptionConfig | null> {
+    return this.storage.getSettingValue<EncryptionConfig>(ENCRYPTION_CONFIG_KEY);
+  }
+
+  private async requireConfig(): Promise<EncryptionConfig> {
+    const config = await this.getConfig();
+    if (!config) throw new Error("Encryption is not enabled");
+    return config;
+  }
+
+  private async unwrap(passphrase: string): Promise<CryptoKey> {
+    const config = await this.requireConfig();
+    try {
+      return await unwrapWithPassphrase(config.passphraseKey, passphrase, config.kdf.iterations);
+    } catch {
+      throw new Error("Passphrase is incorrect");
+    }
+  }
+
+  private async buildConfig(
+    dataKey: CryptoKey,
+    passphrase: string,
+    recoveryKey: string,
+    createdAt: number
+  ): Promise<EncryptionConfig> {
+    const [passphraseKey, recoveryWrapped] = await Promise.all([
+      wrapWithPassphrase(dataKey, passphrase, this.iterations),
+      wrapWithRecoveryKey(dataKey, recoveryKey),
+    ]);
+    return {
+      version: 1,
+      kdf: { name: "PBKDF2", hash: "SHA-256", iterations: this.iterations },
+      passphraseKey,
+      recoveryKey: recoveryWrapped,
+      createdAt,
+    };
+  }
+
+  private checkPassphrase(passphrase: string): void {
+    if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+  }
+
+  private async cacheSessionKey(dataKey: CryptoKey): Promise<void> {
+    const area = sessionStorageArea();
+    if (!area) return;
+    await area.set({ [SESSION_KEY]: toBase64(await exportDataKey(dataKey)) });
+  }
+
+  private async clearSessionKey(): Promise<void> {
+    await sessionStorageArea()?.remove(SESSION_KEY);
+  }
+}
+
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,54 @@
+/**
+ * Page History Service
+ * Earlier captures of a page and what changed since then
+ */
+
+import type { PageHistory } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { diffText } from "../utils/text-diff";
+
+export class PageHistoryService {
+  constructor(private storage: StorageBackend = activeStorage) {}
+
+  /**
+   * Revisions of a page plus a diff from one of them (default: the latest) to the current capture
+   */
+  async getHistory(nodeId: string, revisionId?: string): Promise<PageHistory | null> {
+    const [node, revisions] = await Promise.all([
+      this.storage.getMemoryNode(nodeId),
+      this.storage.getPageRevisions(nodeId),
+    ]);
+    if (!node) return null;
+
+    const base = revisionId ? revisions.find((r) => r.id === revisionId) : revisions[0];
+    if (revisionId && !base) {
+      throw new Error(`Unknown revision: ${revisionId}`);
+    }
+
+    let diff: PageHistory["diff"] = null;
+    if (base) {
+      const { segments, added, removed } = diffText(base.readableText, node.readableText);
+      diff = {
+        fromRevisionId: base.id,
+        fromTimestamp: base.timestamp,
+        previousTitle: base.title,
+        titleChanged: base.title !== node.title,
+        segments,
+        added,
+        removed,
+      };
+    }
+
+    return {
+      nodeId: node.id,
+      url: node.url,
+      title: node.title,
+      timestamp: node.timestamp,
+      revisions,
+      diff,
+    };
+  }
+}
+
+export const pageHistoryService = new PageHistoryService();
@@ -4,8 +4,9 @@
  */
 
 import type { MemoryNode } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
-import { recallService } from "./recall-service";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { RecallService } from "./recall-service";
 
 export interface ProactiveSuggestion {
   id: string;
@@ -21,6 +22,11 @@ export interface ProactiveSuggestion {
 }
 
 export class ProactivityEngine {
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private recall: RecallService = new RecallService(storage)
+  ) {}
+
   /**
    * Generate proactive suggestions based on current context
    */
@@ -31,7 +37,7 @@ export class ProactivityEngine {
     const suggestions: ProactiveSuggestion[] = [];
 
     // 1. Related pages based on semantic similarity
-    const relatedPages = await recallService.getRelatedPages(currentUrl, 3);
+    const relatedPages = await this.recall.getRelatedPages(currentUrl, 3);
     for (const page of relatedPages) {
       suggestions.push({
         id: `related_${page.id}`,
@@ -48,7 +54,7 @@ export class ProactivityEngine {
     }
 
     // 2. Recent revisits - pages visited multiple times
-    const recentPages = await recallService.getRecentPages(24, 50);
+    const recentPages = await this.recall.getRecentPages(24, 50);
     const revisitCounts = new Map<string, number>();
     recentPages.forEach((page) => {
       const domain = page.metadata.domain;
@@ -61,7 +67,7 @@ export class ProactivityEngine {
       .slice(0, 2);
 
     for (const [domain, count] of frequentDomains) {
-      const domainPages = await recallService.getPagesByDomain(domain);
+      const domainPages = await this.recall.getPagesByDomain(domain);
       if (domainPages.length > 0) {
         const latestPage = domainPages.sort((a, b) => b.timestamp - a.timestamp)[0];
         suggestions.push({
@@ -80,7 +86,7 @@ export class ProactivityEngine {
     }
 
     // 3. Cluster expansion - suggest adding more pages to existing clusters
-    const clusters = await cortexStorage.getAllClusters();
+    const clusters = await this.storage.getAllClusters();
     if (clusters.length > 0) {
       const largestCluster = clusters.sort((a, b) => b.nodes.length - a.nodes.length)[0];
       if (largestCluster.nodes.length > 0 && largestCluster.nodes.length < 10) {
@@ -113,7 +119,7 @@ export class ProactivityEngine {
     taskPages: MemoryNode[];
     taskKeywords: string[];
   }> {
-    const recentPages = await recallService.getRecentPages(2, 20); // Last 2 hours
+    const recentPages = await this.recall.getRecentPages(2, 20); // Last 2 hours
 
     if (recentPages.length < 3) {
       return { isActive: false, taskPages: [], taskKeywords: [] };
@@ -150,7 +156,7 @@ export class ProactivityEngine {
     description: string;
     action: string;
   }>> {
-    const recentPages = await recallService.getRecentPages(168, 100); // Last week
+    const recentPages = await this.recall.getRecentPages(168, 100); // Last week
     const domainPatterns = new Map<string, number>();
 
     recentPages.forEach((page) => {
@@ -3,86 +3,160 @@
  * Semantic search and memory retrieval
  */
 
-import type { MemoryNode, SemanticMatch } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
-import { createSemanticMatch, calculateHybridScore } from "../utils/vector-search";
-import { generateEmbedding } from "../utils/embedding";
+import type { Embedding, LanguageFacet, MemoryNode, ParsedQuery, SearchFilter, SearchSort, SemanticMatch } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { KeywordMatch, StorageBackend } from "../utils/storage-backend";
+import {
+  createSemanticMatch,
+  calculateHybridScore,
+  cosineSimilarity,
+  DEFAULT_HYBRID_BOOSTS,
+  type HybridBoosts,
+} from "../utils/vector-search";
+import { passageHit } from "../utils/passages";
+import { documentLanguage, matchedQueryTerms, tokenize } from "../utils/text-index";
+import { EmbeddingService, embeddingService } from "./embedding-service";
+import { embeddingModelKey } from "../utils/embedding-models";
+import { UNDETERMINED } from "@/lib/language";
+import { parseSearchQuery, matchesFilters, clusterMembership, type FilterContext } from "../utils/search-query";
+import { buildSnippet } from "../utils/snippets";
+import { frecencyScore } from "../utils/frecency";
 
 export interface RecallResult {
   matches: SemanticMatch[];
   query: string;
+  // Ranking text and filters parsed from `query`, for showing the filters as chips
+  parsed: ParsedQuery;
   timestamp: number;
   totalResults: number;
+  // Languages of the pages that matched, before any language filter, most common first
+  languages: LanguageFacet[];
+}
+
+export interface RecallOptions {
+  // Only pages in this language ("und" for pages whose language wasn't detected); same as `lang:`
+  language?: string;
+  // Defaults to relevance
+  sort?: SearchSort;
+}
+
+/**
+ * The knobs of the hybrid ranking, so configurations can be compared offline (see testing/relevance-eval.ts)
+ */
+export interface RankingConfig {
+  // Minimum vector similarity for a semantic candidate
+  threshold: number;
+  // A keyword hit scores keywordBase + keywordRange × (its BM25 score / the best BM25 score)
+  keywordBase: number;
+  keywordRange: number;
+  // Title and domain boosts added to both kinds of candidate
+  boosts: HybridBoosts;
+  // Share of the final score that comes from frecency (how often and how recently a page was visited)
+  frecencyWeight: number;
+}
+
+export const DEFAULT_RANKING: RankingConfig = {
+  threshold: 0.3,
+  // The strongest keyword match starts at 0.6
+  keywordBase: 0.25,
+  keywordRange: 0.35,
+  boosts: DEFAULT_HYBRID_BOOSTS,
+  frecencyWeight: 0.1,
+};
+
+// Candidates fetched per result when filters may drop some of them
+const FILTERED_CANDIDATES = 5;
+
+/**
+ * How close a page is to a query vector: its page vector or its best passage, whichever is closer
+ */
+function embeddingMatch(node: MemoryNode, embedding: Embedding, queryVector: number[]): SemanticMatch {
+  const passage = (embedding.passages || [])
+    .map(({ start, end, vector }) => ({ start, end, similarity: cosineSimilarity(queryVector, vector) }))
+    .sort((a, b) => b.similarity - a.similarity)[0];
+  const similarity = Math.max(cosineSimilarity(queryVector, embedding.vector), passage?.similarity ?? -1);
+  return {
+    nodeId: node.id,
+    similarity,
+    node,
+    reason: { sharedKeywords: [], contextMatch: "", semanticSimilarity: similarity },
+    ...(passage && { passage: passageHit(node, passage.start, passage.end) }),
+  };
+}
+
+function pageLanguage(node: MemoryNode): string {
+  return node.language || UNDETERMINED;
+}
+
+function languageFacets(matches: SemanticMatch[]): LanguageFacet[] {
+  const counts = new Map<string, number>();
+  matches.forEach(({ node }) => counts.set(pageLanguage(node), (counts.get(pageLanguage(node)) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([language, count]) => ({ language, count }))
+    .sort((a, b) => b.count - a.count || a.language.localeCompare(b.language));
 }
 
 export class RecallService {
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private embeddings: EmbeddingService = embeddingService,
+    private ranking: RankingConfig = DEFAULT_RANKING,
+    private now: () => number = Date.now
+  ) {}
+
   /**
    * Hybrid search: semantic similarity + keyword + title/domain boosting
-   * Combines multiple search strategies for optimal relevance
+   * Combines multiple search strategies for optimal relevance.
+   * Operators in the query (see search-query.ts) filter the candidates before they are ranked,
+   * and each match carries a snippet of its best sentences with the matched words marked.
    */
   async search(
     query: string,
     limit: number = 10,
-    threshold: number = 0.3  // Lower threshold to get more results
+    threshold: number = this.ranking.threshold,
+    options: RecallOptions = {}
   ): Promise<RecallResult> {
+    const parsed = parseSearchQuery(query);
     try {
       console.log(`RecallService: Hybrid search for "${query}", limit: ${limit}, threshold: ${threshold}`);
-      
-      // 1. Generate query embedding for semantic search
-      console.log("RecallService: Generating query embedding...");
-      const queryEmbedding = generateEmbedding(query, query, []);
-      console.log("RecallService: Query embedding generated, dimension:", queryEmbedding.vector.length);
-      
-      // 2. Get semantic matches (get more candidates for boosting)
-      console.log("RecallService: Starting vector search...");
-      const semanticMatches = await cortexStorage.vectorSearch(queryEmbedding.vector, limit * 2, threshold);
-      console.log(`RecallService: Found ${semanticMatches.length} semantic matches`);
-      
-      // 3. Boost matches where title/domain contains query terms
-      const boostedMatches = semanticMatches.map(match => {
-        const hybridScore = calculateHybridScore(match.similarity, match.node, query);
-        return {
-          ...match,
-          similarity: hybridScore,
-        };
-      });
-      
-      // 4. Also perform keyword search for exact matches
-      console.log("RecallService: Starting keyword search...");
-      const keywordNodes = await cortexStorage.searchMemoryNodes(query, limit);
-      const keywordMatches = keywordNodes.map(node => {
-        // Calculate hybrid score for keyword matches too
-        const baseScore = 0.5; // Base score for keyword matches
-        const hybridScore = calculateHybridScore(baseScore, node, query);
-        return createSemanticMatch(node, hybridScore, query);
-      });
-      
-      console.log(`RecallService: Found ${keywordMatches.length} keyword matches`);
-      
-      // 5. Merge and deduplicate results
-      const allMatches = [...boostedMatches, ...keywordMatches];
-      const uniqueMatches = new Map<string, SemanticMatch>();
-      
-      allMatches.forEach(match => {
-        const existing = uniqueMatches.get(match.nodeId);
-        // Keep the match with higher similarity score
-        if (!existing || match.similarity > existing.similarity) {
-          uniqueMatches.set(match.nodeId, match);
+      const { filters, languageFilters, context, passes, passesAll, language } = await this.queryFilters(
+        parsed,
+        options.language
+      );
+      const rankOptions = { passes, language };
+
+      let merged: SemanticMatch[];
+      if (!parsed.text && filters.length > 0) {
+        merged = await this.browse(passes);
+      } else {
+        const ranked = await this.rank(parsed.text, filters.length > 0 ? limit * FILTERED_CANDIDATES : limit, threshold, rankOptions);
+        merged = ranked.matches;
+        // The filters can leave too few of the ranked candidates while more matches rank
+        // past the window; then score every page that passes them instead
+        const tooFew = merged.filter((match) => passesAll(match.node)).length < limit;
+        if (filters.length > 0 && ranked.truncated && tooFew) {
+          merged = await this.rankFiltered(parsed.text, threshold, rankOptions);
         }
-      });
-      
-      // 6. Sort by boosted similarity and return top results
-      const finalMatches = Array.from(uniqueMatches.values())
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit);
+      }
+
+      // Facet by language, apply the language filters, then sort
+      const languages = languageFacets(merged);
+      const phrases = parsed.filters.filter((filter) => filter.kind === "phrase" && !filter.negated).map((filter) => filter.value);
+      const finalMatches = merged
+        .filter((match) => matchesFilters(match.node, languageFilters, context))
+        .sort(this.comparator(options.sort))
+        .slice(0, limit)
+        .map((match) => ({ ...match, snippet: buildSnippet(match.node, { text: parsed.text, phrases }, match.passage) }));
       
       console.log(`RecallService: Returning ${finalMatches.length} merged results`);
 
       return {
         matches: finalMatches,
         query,
+        parsed,
         timestamp: Date.now(),
         totalResults: finalMatches.length,
+        languages,
       };
     } catch (error) {
       console.error("RecallService: Search error:", error);
@@ -90,17 +164,219 @@ export class RecallService {
       return {
         matches: [],
         query,
+        parsed,
         timestamp: Date.now(),
         totalResults: 0,
+        languages: [],
       };
     }
   }
 
+  /**
+   * Score one page against a query on its own, rather than by where it ranks among all pages:
+   * it matches when it passes the query's filters and is close to its text or contains one of
+   * its terms. Saved searches check new captures with this.
+   */
+  async matchPage(
+    query: string,
+    node: MemoryNode,
+    options: { language?: string } = {},
+    threshold: number = this.ranking.threshold
+  ): Promise<SemanticMatch | null> {
+    const parsed = parseSearchQuery(query);
+    const { passesAll, language } = await this.queryFilters(parsed, options.language);
+    if (!passesAll(node)) return null;
+    // Filters alone match every page that passes them, as when browsing
+    if (!parsed.text) return createSemanticMatch(node, 1, "");
+
+    const queryEmbedding = await this.embeddings.embedQuery(parsed.text);
+    const embedding = await this.storage.getEmbedding(node.id);
+    const semantic =
+      embedding && embeddingModelKey(embedding) === embeddingModelKey(queryEmbedding)
+        ? embeddingMatch(node, embedding, queryEmbedding.vector)
+        : null;
+    const matchedTerms = matchedQueryTerms(tokenize(parsed.text, language ?? documentLanguage(node)), node);
+
+    const [match] = this.merge(
+      parsed.text,
+      semantic && semantic.similarity >= threshold ? [semantic] : [],
+      matchedTerms.length > 0 ? [{ node, score: 1, matchedTerms }] : []
+    );
+    return match ?? null;
+  }
+
+  /**
+   * The query's filters, plus the search-box language filter; `passes` leaves out the language
+   * filters (they apply last, so the language facet counts every language) and `passesAll` doesn't
+   */
+  private async queryFilters(parsed: ParsedQuery, searchLanguage?: string) {
+    const filters: SearchFilter[] = searchLanguage
+      ? [...parsed.filters, { kind: "lang", value: searchLanguage, negated: false, raw: `lang:${searchLanguage}` }]
+      : parsed.filters;
+    const languageFilters = filters.filter((filter) => filter.kind === "lang");
+    const otherFilters = filters.filter((filter) => filter.kind !== "lang");
+    const context: FilterContext = filters.some((filter) => filter.kind === "cluster")
+      ? { clustersByNode: clusterMembership(await this.storage.getAllClusters()) }
+      : {};
+    const passes = (node: MemoryNode) => matchesFilters(node, otherFilters, context);
+    return {
+      filters,
+      languageFilters,
+      context,
+      passes,
+      passesAll: (node: MemoryNode) => passes(node) && matchesFilters(node, languageFilters, context),
+      // A language filter also says which language the query is written in
+      language: languageFilters.find((filter) => !filter.negated && filter.value !== UNDETERMINED)?.value,
+    };
+  }
+
+  /**
+   * Semantic and keyword candidates for `text` that pass the filters, merged and boosted;
+   * `truncated` when either search filled its window, so more pages may match
+   */
+  private async rank(
+    text: string,
+    candidates: number,
+    threshold: number,
+    { passes, language }: { passes: (node: MemoryNode) => boolean; language?: string }
+  ): Promise<{ matches: SemanticMatch[]; truncated: boolean }> {
+    // 1. Generate query embedding for semantic search
+    console.log("RecallService: Generating query embedding...");
+    const queryEmbedding = await this.embeddings.embedQuery(text);
+    console.log("RecallService: Query embedding generated, dimension:", queryEmbedding.vector.length);
+    
+    // 2. Get semantic matches (get more candidates for boosting)
+    console.log("RecallService: Starting vector search...");
+    // Only pages embedded by the query's model are comparable
+    const semanticMatches = await this.storage.vectorSearch(
+      queryEmbedding.vector,
+      candidates * 2,
+      threshold,
+      embeddingModelKey(queryEmbedding)
+    );
+    console.log(`RecallService: Found ${semanticMatches.length} semantic matches`);
+    
+    // 3. Also perform BM25 keyword search over the inverted index
+    console.log("RecallService: Starting keyword search...");
+    const keywordHits = await this.storage.searchKeywords(text, candidates, language);
+    console.log(`RecallService: Found ${keywordHits.length} keyword matches`);
+
+    return {
+      matches: this.merge(
+        text,
+        semanticMatches.filter((match) => passes(match.node)),
+        keywordHits.filter(({ node }) => passes(node))
+      ),
+      truncated: semanticMatches.length >= candidates * 2 || keywordHits.length >= candidates,
+    };
+  }
+
+  /**
+   * Rank every page that passes the filters: exact similarity against each one's stored vectors,
+   * and every keyword hit among them rather than the top few overall
+   */
+  private async rankFiltered(
+    text: string,
+    threshold: number,
+    { passes, language }: { passes: (node: MemoryNode) => boolean; language?: string }
+  ): Promise<SemanticMatch[]> {
+    const allNodes = await this.storage.getAllMemoryNodes();
+    const nodes = allNodes.filter(passes);
+    console.log(`RecallService: Scoring all ${nodes.length} pages that pass the filters`);
+    if (nodes.length === 0) return [];
+
+    const queryEmbedding = await this.embeddings.embedQuery(text);
+    const model = embeddingModelKey(queryEmbedding);
+    const embeddings = await Promise.all(nodes.map((node) => this.storage.getEmbedding(node.id)));
+    const semanticMatches = nodes
+      .flatMap((node, i) => {
+        const embedding = embeddings[i];
+        return embedding && embeddingModelKey(embedding) === model ? [embeddingMatch(node, embedding, queryEmbedding.vector)] : [];
+      })
+      .filter((match) => match.similarity >= threshold);
+
+    const ids = new Set(nodes.map((node) => node.id));
+    const keywordHits = (await this.storage.searchKeywords(text, allNodes.length, language)).filter(({ node }) =>
+      ids.has(node.id)
+    );
+    return this.merge(text, semanticMatches, keywordHits);
+  }
+
+  /**
+   * Boost, merge and deduplicate semantic and keyword candidates, then blend in frecency
+   */
+  private merge(text: string, semanticMatches: SemanticMatch[], keywordHits: KeywordMatch[]): SemanticMatch[] {
+    // Boost matches where title/domain contains query terms
+    const boostedMatches = semanticMatches
+      .map(match => {
+        const hybridScore = calculateHybridScore(match.similarity, match.node, text, this.ranking.boosts);
+        return {
+          ...match,
+          similarity: hybridScore,
+        };
+      });
+    
+    const topKeywordScore = keywordHits[0]?.score || 1;
+    const keywordMatches = keywordHits.map(({ node, score }) => {
+      // Scale BM25 relative to the best hit
+      const baseScore = this.ranking.keywordBase + this.ranking.keywordRange * (score / topKeywordScore);
+      const hybridScore = calculateHybridScore(baseScore, node, text, this.ranking.boosts);
+      return createSemanticMatch(node, hybridScore, text);
+    });
+
+    // Merge and deduplicate results
+    const allMatches = [...boostedMatches, ...keywordMatches];
+    const uniqueMatches = new Map<string, SemanticMatch>();
+    
+    allMatches.forEach(match => {
+      const existing = uniqueMatches.get(match.nodeId);
+      // Keep the match with higher similarity score, and the passage the vector search found
+      if (!existing || match.similarity > existing.similarity) {
+        const passage = match.passage ?? existing?.passage;
+        uniqueMatches.set(match.nodeId, passage ? { ...match, passage } : match);
+      }
+    });
+
+    // Blend in frecency, so of two similar matches the page visited often and lately wins
+    const now = this.now();
+    const weight = this.ranking.frecencyWeight;
+    return Array.from(uniqueMatches.values()).map((match) => ({
+      ...match,
+      similarity: (1 - weight) * match.similarity + weight * frecencyScore(match.node, now),
+    }));
+  }
+
+  /**
+   * Order of the final matches. Ties in recency or frecency fall back to relevance.
+   */
+  private comparator(sort: SearchSort = "relevance"): (a: SemanticMatch, b: SemanticMatch) => number {
+    const now = this.now();
+    switch (sort) {
+      case "recent":
+        return (a, b) => b.node.timestamp - a.node.timestamp || b.similarity - a.similarity;
+      case "frecency":
+        return (a, b) => frecencyScore(b.node, now) - frecencyScore(a.node, now) || b.similarity - a.similarity;
+      default:
+        return (a, b) => b.similarity - a.similarity;
+    }
+  }
+
+  /**
+   * Filters without text (`site:github.com after:last-week`): every page that passes, newest first
+   */
+  private async browse(passes: (node: MemoryNode) => boolean): Promise<SemanticMatch[]> {
+    const nodes = await this.storage.getAllMemoryNodes();
+    return nodes
+      .filter(passes)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map((node) => createSemanticMatch(node, 1, ""));
+  }
+
   /**
    * Get related pages for a given URL
    */
   async getRelatedPages(url: string, limit: number = 5): Promise<MemoryNode[]> {
-    const nodes = await cortexStorage.getAllMemoryNodes(1000); // Reasonable scan limit
+    const nodes = await this.storage.getAllMemoryNodes(1000); // Reasonable scan limit
     const targetNode = nodes.find((n) => n.url === url);
 
     if (!targetNode) {
@@ -108,7 +384,7 @@ export class RecallService {
     }
 
     // Use semantic graph to find related pages
-    return cortexStorage.getRelatedNodes(targetNode.id, limit);
+    return this.storage.getRelatedNodes(targetNode.id, limit);
   }
 
   /**
@@ -120,7 +396,7 @@ export class RecallService {
   ): Promise<MemoryNode[]> {
     const cutoff = Date.now() - hours * 60 * 60 * 1000;
     // We can use the existing getAllMemoryNodes but we need a date range version
-    const allNodes = await cortexStorage.getAllMemoryNodes(limit * 5);
+    const allNodes = await this.storage.getAllMemoryNodes(limit * 5);
     
     return allNodes
       .filter((node) => node.timestamp >= cutoff)
@@ -132,7 +408,7 @@ export class RecallService {
    * Get pages by domain
    */
   async getPagesByDomain(domain: string): Promise<MemoryNode[]> {
-    const nodes = await cortexStorage.getAllMemoryNodes(500);
+    const nodes = await this.storage.getAllMemoryNodes(500);
     return nodes.filter((node) => node.metadata.domain === domain);
   }
 }
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { BACKENDS } from "../testing/backends";
+import type { StorageBackend } from "../utils/storage-backend";
+import { SemanticGraphBuilder } from "../utils/semantic-graph";
+import { generateEmbedding } from "../utils/embedding";
+import { FALLBACK_MODEL, SENTENCE_MODEL, embeddingModelKey, modelKey } from "../utils/embedding-models";
+import { EmbeddingService, type SentenceEncoder } from "./embedding-service";
+import { ReindexService } from "./reindex-service";
+
+const now = Date.UTC(2025, 0, 6, 9, 0);
+
+function page(id: string, text: string): MemoryNode {
+  return { id, url: `https://example.com/${id}`, title: id, readableText: text, timestamp: now, keywords: [], metadata: { domain: "example.com" } };
+}
+
+// Deterministic stand-in for MiniLM: a unit vector that depends on the text length
+function sentenceEncoder(overrides: Partial<SentenceEncoder> = {}): SentenceEncoder {
+  return {
+    connect: async () => undefined,
+    embed: async (texts) => texts.map((text) => Array.from({ length: 384 }, (_, i) => (i === text.length % 384 ? 1 : 0))),
+    close: () => undefined,
+    ...overrides,
+  };
+}
+
+describe.each(BACKENDS)("re-indexing on $name storage", ({ create }) => {
+  let storage: StorageBackend;
+
+  beforeEach(async () => {
+    storage = create();
+    for (const [id, text] of [["otters", "otters use tools"], ["beavers", "beavers build dams"], ["rivers", "rivers"]]) {
+      await storage.addMemoryNode(page(id, text));
+      await storage.storeEmbedding(id, { ...generateEmbedding(text, id), timestamp: now });
+    }
+  });
+
+  function service(encoder: SentenceEncoder = sentenceEncoder()) {
+    const embeddings = new EmbeddingService(() => encoder);
+    embeddings.setModel(FALLBACK_MODEL);
+    return new ReindexService(storage, embeddings, new SemanticGraphBuilder(storage), async () => undefined);
+  }
+
+  it("re-embeds every page after switching models and reports progress", async () => {
+    const reindex = service();
+    const status = await reindex.setModel(SENTENCE_MODEL.id);
+    expect(status.active).toEqual(SENTENCE_MODEL);
+    await reindex.whenIdle();
+
+    const embeddings = await storage.getAllEmbeddings();
+    expect(embeddings.map(({ embedding }) => embeddingModelKey(embedding))).toEqual(Array(3).fill(modelKey(SENTENCE_MODEL)));
+    expect(reindex.getStatus().reindex).toMatchObject({ model: "all-MiniLM-L6-v2@1", status: "done", total: 3, done: 3 });
+    expect(await storage.getSettingValue("embedding_model")).toBe(SENTENCE_MODEL.id);
+  });
+
+  it("only compares vectors from the query's model", async () => {
+    const query = generateEmbedding("rivers", "rivers").vector;
+    const sentenceKey = modelKey(SENTENCE_MODEL);
+    expect((await storage.vectorSearch(query, 5, 0.9, modelKey(FALLBACK_MODEL))).map((m) => m.nodeId)).toEqual(["rivers"]);
+    expect(await storage.vectorSearch(query, 5, -1, sentenceKey)).toEqual([]);
+  });
+
+  it("pauses when the model is unavailable and resumes where it stopped", async () => {
+    let available = false;
+    const embed = vi.fn(async (texts: string[]) => {
+      if (!available) throw new Error("model files missing");
+      return sentenceEncoder().embed(texts);
+    });
+    const reindex = service(sentenceEncoder({ embed }));
+
+    await reindex.setModel(SENTENCE_MODEL.id);
+    await reindex.whenIdle();
+    const paused = reindex.getStatus().reindex!;
+    expect(paused).toMatchObject({ status: "paused", error: "model files missing", done: 0, total: 3 });
+    // Nothing was overwritten with fallback vectors
+    const stored = await storage.getAllEmbeddings();
+    expect(stored.every(({ embedding }) => embeddingModelKey(embedding) === modelKey(FALLBACK_MODEL))).toBe(true);
+
+    available = true;
+    const restarted = new ReindexService(storage, new EmbeddingService(() => sentenceEncoder({ embed })), undefined, async () => undefined);
+    await restarted.restore();
+    await restarted.whenIdle();
+    expect(restarted.getStatus().reindex).toMatchObject({ status: "done", done: 3, total: 3, startedAt: paused.startedAt });
+  });
+
+  it("picks up pages captured with the fallback while the model was unavailable", async () => {
+    const reindex = service();
+    await reindex.setModel(SENTENCE_MODEL.id);
+    await reindex.whenIdle();
+    const finished = reindex.getStatus().reindex!;
+
+    // Nothing left over: a restart leaves the finished job as it was
+    const idle = new ReindexService(storage, new EmbeddingService(() => sentenceEncoder()), undefined, async () => undefined);
+    await idle.restore();
+    expect(idle.getStatus().reindex).toEqual(finished);
+
+    // A capture made during the model's cool-down is stored with a fallback vector
+    await storage.addMemoryNode(page("lakes", "lakes are still"));
+    await storage.storeEmbedding("lakes", { ...generateEmbedding("lakes are still", "lakes"), timestamp: now });
+
+    const restarted = new ReindexService(storage, new EmbeddingService(() => sentenceEncoder()), undefined, async () => undefined);
+    await restarted.restore();
+    await restarted.whenIdle();
+    expect(embeddingModelKey((await storage.getEmbedding("lakes"))!)).toBe(modelKey(SENTENCE_MODEL));
+    expect(restarted.getStatus().reindex).toMatchObject({ model: modelKey(SENTENCE_MODEL), status: "done", total: 1, done: 1 });
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Re-index Service
+ * Re-embeds stored pages with the active embedding model, in the background
+ *
+ * Switching models leaves every stored vector in the old model's space. The job
+ * re-embeds pages in small batches, yielding between them so captures and searches
+ * keep running, and saves its progress after each batch. It is resumable because it
+ * only ever picks up pages whose embedding comes from another model (or predates
+ * passage vectors): after a restart it simply finds the ones still left. That includes
+ * pages captured while the model was unavailable, which got fallback vectors instead.
+ */
+
+import type { Embedding, EmbeddingModelInfo, EmbeddingStatus, ReindexProgress } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { SemanticGraphBuilder, semanticGraphBuilder } from "../utils/semantic-graph";
+import { EMBEDDING_MODELS, FALLBACK_MODEL, embeddingModelKey, getEmbeddingModel, modelKey } from "../utils/embedding-models";
+import { EmbeddingService, embeddingService } from "./embedding-service";
+
+const MODEL_SETTING_KEY = "embedding_model";
+const PROGRESS_SETTING_KEY = "embedding_reindex";
+const BATCH_SIZE = 16;
+
+function needsReindex(embedding: Embedding, target: string): boolean {
+  return embeddingModelKey(embedding) !== target || embedding.passages === undefined;
+}
+
+export class ReindexService {
+  private progress: ReindexProgress | null = null;
+  private running: Promise<void> | null = null;
+  // Bumped when the model changes, so a job for the previous model stops at its next batch
+  private generation = 0;
+
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private embeddings: EmbeddingService = embeddingService,
+    private graph: SemanticGraphBuilder = new SemanticGraphBuilder(storage),
+    private yieldToOthers: () => Promise<void> = () => new Promise((resolve) => setTimeout(resolve, 0))
+  ) {}
+
+  /**
+   * Load the chosen model and resume a job the last worker didn't finish
+   */
+  async restore(): Promise<void> {
+    const modelId = await this.storage.getSettingValue<string>(MODEL_SETTING_KEY);
+    const model = modelId ? getEmbeddingModel(modelId) : undefined;
+    if (model) this.embeddings.setModel(model);
+
+    this.progress = await this.storage.getSettingValue<ReindexProgress>(PROGRESS_SETTING_KEY);
+    // Unfinished, or finished for an older version of the active model
+    const target = modelKey(this.embeddings.getModel());
+    const stale = this.progress?.model !== target;
+    if (this.progress && (this.progress.status !== "done" || stale)) {
+      await this.start();
+      return;
+    }
+    // Captures that fell back while the model couldn't load are re-embedded once it can
+    if ((await this.pendingNodeIds(target)).length > 0) await this.start();
+  }
+
+  getStatus(): EmbeddingStatus {
+    return { models: EMBEDDING_MODELS, active: this.embeddings.getModel(), reindex: this.progress };
+  }
+
+  /**
+   * Make a registry model active and re-embed everything with it
+   */
+  async setModel(modelId: string): Promise<EmbeddingStatus> {
+    const model = getEmbeddingModel(modelId);
+    if (!model) throw new Error(`Unknown embedding model: ${modelId}`);
+
+    this.generation++;
+    this.embeddings.setModel(model);
+    await this.storage.setSettingValue(MODEL_SETTING_KEY, model.id);
+    // A job for the previous model stops at its next batch; wait so only one job writes at a time
+    await this.running;
+    await this.start();
+    return this.getStatus();
+  }
+
+  /**
+   * Start re-embedding pages not yet embedded by the active model (no-op while a job runs)
+   */
+  async start(): Promise<ReindexProgress> {
+    if (this.running) return this.progress!;
+
+    const model = this.embeddings.getModel();
+    const target = modelKey(model);
+    // Fallback vectors are weighted by corpus statistics; start them from an accurate count
+    if (model.id === FALLBACK_MODEL.id && !this.storage.isLocked()) {
+      await this.embeddings.rebuildTermStatistics();
+    }
+    const pending = await this.pendingNodeIds(target);
+
+    const now = Date.now();
+    // Resuming keeps the original start and counts, so progress doesn't jump backwards
+    const resuming = this.progress?.model === target && this.progress.status !== "done";
+    const done = resuming ? this.progress!.done : 0;
+    this.progress = {
+      model: target,
+      status: pending.length > 0 ? "running" : "done",
+      total: done + pending.length,
+      done,
+      startedAt: resuming ? this.progress!.startedAt : now,
+      updatedAt: now,
+    };
+    await this.saveProgress();
+    if (pending.length === 0) return this.progress;
+
+    console.log(`Cortex: Re-embedding ${pending.length} pages with ${target}`);
+    const generation = this.generation;
+    this.running = this.run(model, pending, generation)
+      .catch((error) => this.finish("paused", error instanceof Error ? error.message : String(error)))
+      .finally(() => {
+        this.running = null;
+      });
+    return this.progress;
+  }
+
+  /**
+   * Resolves once no job is running (used by tests and before switching models)
+   */
+  async whenIdle(): Promise<void> {
+    await this.running;
+  }
+
+  private async run(model: EmbeddingModelInfo, pending: string[], generation: number): Promise<void> {
+    for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+      if (generation !== this.generation) return;
+      if (this.storage.isLocked()) {
+        await this.finish("paused", "Cortex is locked");
+        return;
+      }
+
+      for (const nodeId of pending.slice(i, i + BATCH_SIZE)) {
+        const node = await this.storage.getMemoryNode(nodeId);
+        // Deleted since the job started, or already re-embedded by a new capture
+        const current = node && (await this.storage.getEmbedding(nodeId));
+        if (node && current && needsReindex(current, modelKey(model))) {
+          const result = await this.embeddings.embedDocument(node.readableText, node.title, node.keywords, { strict: true });
+          const embedding = { ...result, timestamp: current.timestamp };
+          await this.storage.storeEmbedding(nodeId, embedding);
+          // Links to other pages are found again in the new model's space
+          await this.graph
+            .addNode(node, embedding)
+            .catch((error) => console.error("Cortex: Failed to re-link page in the semantic graph", error));
+        }
+        this.progress!.done++;
+      }
+
+      this.progress!.updatedAt = Date.now();
+      await this.saveProgress();
+      await this.yieldToOthers();
+    }
+    await this.finish("done");
+    console.log(`Cortex: Re-embedding with ${modelKey(model)} finished`);
+  }
+
+  private async pendingNodeIds(target: string): Promise<string[]> {
+    return (await this.storage.getAllEmbeddings())
+      .filter(({ embedding }) => needsReindex(embedding, target))
+      .map(({ nodeId }) => nodeId);
+  }
+
+  private async finish(status: ReindexProgress["status"], error?: string): Promise<void> {
+    if (!this.progress) return;
+    this.progress = { ...this.progress, status, error, updatedAt: Date.now() };
+    if (error) console.warn("Cortex: Re-embedding paused:", error);
+    await this.saveProgress();
+  }
+
+  private async saveProgress(): Promise<void> {
+    await this.storage.setSettingValue(PROGRESS_SETTING_KEY, this.progress);
+  }
+}
+
+export const reindexService = new ReindexService(activeStorage, embeddingService, semanticGraphBuilder);
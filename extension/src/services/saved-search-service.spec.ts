@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode, PageContext, SavedSearch } from "@shared/extension-types";
+import { BACKENDS } from "../testing/backends";
+import type { StorageBackend } from "../utils/storage-backend";
+import { CaptureService } from "./capture-service";
+import { RecallService } from "./recall-service";
+import { SessionService } from "./session-service";
+import { SavedSearchService, type SavedSearchAlerts } from "./saved-search-service";
+
+const start = Date.UTC(2025, 3, 7, 9, 0);
+
+const otters: PageContext = {
+  url: "https://wildlife.example/otters",
+  title: "Sea otters use tools",
+  readableText: "Sea otters crack open shellfish with rocks they carry in a pouch under their forelegs.",
+  timestamp: start,
+};
+const kelp: PageContext = {
+  url: "https://wildlife.example/kelp-otters",
+  title: "Otters protect kelp forests",
+  readableText: "By eating sea urchins, otters keep kelp forests from being grazed down to bare rock.",
+  timestamp: start,
+};
+const compilers: PageContext = {
+  url: "https://docs.example/compilers",
+  title: "Register allocation",
+  readableText: "Graph colouring assigns registers to virtual values during compilation of a program.",
+  timestamp: start,
+};
+
+class FakeAlerts implements SavedSearchAlerts {
+  unseen = 0;
+  notifications: Array<{ id: string; search: string; title: string }> = [];
+
+  setUnseenCount(count: number): void {
+    this.unseen = count;
+  }
+
+  notify(notificationId: string, search: SavedSearch, node: MemoryNode): void {
+    this.notifications.push({ id: notificationId, search: search.name, title: node.title });
+  }
+}
+
+describe.each(BACKENDS)("saved searches on $name storage", ({ create }) => {
+  let storage: StorageBackend;
+  let capture: CaptureService;
+  let alerts: FakeAlerts;
+  let saved: SavedSearchService;
+  let clock: number;
+
+  beforeEach(() => {
+    storage = create();
+    capture = new CaptureService(storage, new SessionService(storage));
+    alerts = new FakeAlerts();
+    clock = start;
+    saved = new SavedSearchService(storage, new RecallService(storage), alerts, () => clock);
+  });
+
+  async function captureAndCheck(page: PageContext) {
+    clock += 60_000;
+    const node = await capture.capture(page, { now: clock });
+    return saved.checkPage(node);
+  }
+
+  it("records pages captured after saving as unseen hits and alerts on them", async () => {
+    await capture.capture(otters, { now: start });
+    const search = await saved.save("Otter research", "otters");
+    // Pages that already matched are not news
+    expect(search.hits).toMatchObject([{ seen: true }]);
+
+    expect((await captureAndCheck(compilers)).map((match) => match.id)).toEqual([]);
+    expect((await captureAndCheck(kelp)).map((match) => match.id)).toEqual([search.id]);
+
+    const [view] = await saved.list();
+    expect(view.unseenCount).toBe(1);
+    expect(view.matches.map((match) => [match.url, match.seen])).toEqual([
+      [kelp.url, false],
+      [otters.url, true],
+    ]);
+    expect(alerts.unseen).toBe(1);
+    expect(alerts.notifications).toEqual([
+      { id: `saved-search:${search.id}:${view.matches[0].id}`, search: "Otter research", title: kelp.title },
+    ]);
+
+    // Recapturing a page that is already a hit changes nothing
+    expect(await captureAndCheck(kelp)).toEqual([]);
+    expect(alerts.notifications).toHaveLength(1);
+  });
+
+  it("applies the query's operators and language", async () => {
+    const docsOnly = await saved.save("Docs", "site:docs.example compilation");
+    const french = await saved.save("French otters", "otters", { language: "fr", notify: false });
+
+    expect((await captureAndCheck(otters)).map((match) => match.id)).toEqual([]);
+    expect((await captureAndCheck(compilers)).map((match) => match.id)).toEqual([docsOnly.id]);
+    expect((await saved.list()).find((search) => search.id === french.id)?.matches).toEqual([]);
+  });
+
+  it("matches a capture on its own, however many pages outrank it", async () => {
+    for (let i = 0; i < 25; i++) {
+      await capture.capture(
+        {
+          url: `https://wildlife.example/otters-${i}`,
+          title: `Sea otters, part ${i}`,
+          readableText: `Sea otters float, groom and dive. Otters eat urchins, and otters use rocks as tools (${i}).`,
+          timestamp: start,
+        },
+        { now: start }
+      );
+    }
+    const search = await saved.save("Otters", "otters", { notify: false });
+    expect(search.hits).toHaveLength(20);
+
+    // Mentions otters once, so it ranks far below the pages above
+    const travelBlog: PageContext = {
+      url: "https://blog.example/coast-trip",
+      title: "A week on the coast",
+      readableText:
+        "We drove the coast road for a week, stopping at harbours, lighthouses and bakeries. " +
+        "On the last morning we saw otters near the pier before the ferry left.",
+      timestamp: start,
+    };
+    expect((await captureAndCheck(travelBlog)).map((match) => match.id)).toEqual([search.id]);
+    expect((await saved.list())[0].matches[0]).toMatchObject({ url: travelBlog.url, seen: false });
+  });
+
+  it("marks hits seen one at a time or all together", async () => {
+    const search = await saved.save("Otters", "otters", { notify: false });
+    await captureAndCheck(otters);
+    await captureAndCheck(kelp);
+    expect(alerts.notifications).toEqual([]);
+    expect(alerts.unseen).toBe(2);
+
+    const [first] = (await saved.list())[0].matches;
+    const opened = await saved.openNotification(`saved-search:${search.id}:${first.id}`);
+    expect(opened?.url).toBe(first.url);
+    expect(alerts.unseen).toBe(1);
+
+    await saved.markSeen(search.id);
+    expect((await saved.list())[0].unseenCount).toBe(0);
+    expect(alerts.unseen).toBe(0);
+    expect(await saved.openNotification("some-other-notification")).toBeNull();
+  });
+
+  it("drops forgotten pages and deleted searches", async () => {
+    const search = await saved.save("Otters", "otters");
+    await captureAndCheck(otters);
+    await captureAndCheck(kelp);
+    expect(alerts.unseen).toBe(2);
+
+    await storage.deleteMemoryNodes((await saved.list())[0].matches.map((match) => match.id));
+    expect(await saved.refreshBadge()).toBe(0);
+    expect((await saved.list())[0].matches).toEqual([]);
+
+    expect(await saved.delete(search.id)).toBe(true);
+    expect(await saved.delete(search.id)).toBe(false);
+    expect(await saved.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Saved Search Service
+ * Named queries that keep watching new captures
+ *
+ * A saved search is a query as typed in the search box, operators and language filter
+ * included. Every capture is scored against each saved search on its own (recall's
+ * matchPage), so a page matches however many better matches the corpus already holds;
+ * when it matches and wasn't a hit before, it is recorded as an unseen hit, the toolbar badge
+ * counts it and, if the search asks for it, a notification names the page. Pages that already
+ * matched when the search was saved start out as seen hits, so only pages captured since are
+ * new. Hits keep page ids only.
+ */
+
+import type { MemoryNode, SavedSearch, SavedSearchHit, SavedSearchView } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { RecallService, recallService } from "./recall-service";
+
+export const SAVED_SEARCHES_KEY = "savedSearches";
+// Top results recorded as already seen when a search is saved, as on the search page
+const SEARCH_LIMIT = 20;
+const MAX_HITS = 100;
+const NOTIFICATION_PREFIX = "saved-search:";
+
+/**
+ * Where new hits are shown; the default is the toolbar badge and chrome.notifications
+ */
+export interface SavedSearchAlerts {
+  setUnseenCount(count: number): void;
+  notify(notificationId: string, search: SavedSearch, node: MemoryNode): void;
+}
+
+const chromeAlerts: SavedSearchAlerts = {
+  setUnseenCount(count) {
+    if (typeof chrome === "undefined" || !chrome.action) return;
+    chrome.action.setBadgeText({ text: count > 0 ? (count > 99 ? "99+" : String(count)) : "" }).catch(() => {});
+    chrome.action.setBadgeBackgroundColor({ color: "#2563eb" }).catch(() => {});
+  },
+  notify(notificationId, search, node) {
+    if (typeof chrome === "undefined" || !chrome.notifications) return;
+    chrome.notifications
+      .create(notificationId, {
+        type: "basic",
+        // Notifications can't show SVG
+        iconUrl: chrome.runtime.getURL("icon-128.png"),
+        title: `New match for "${search.name}"`,
+        message: node.title || node.url,
+        contextMessage: node.metadata.domain,
+      })
+      .catch((err) => console.warn("Cortex: Failed to show saved search notification", err));
+  },
+};
+
+export class SavedSearchService {
+  // Read-modify-writes of the stored list, one at a time
+  private writing: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private recall: RecallService = recallService,
+    private alerts: SavedSearchAlerts = chromeAlerts,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Saved searches, newest first, with their hits' pages (pages since forgotten are left out)
+   */
+  async list(): Promise<SavedSearchView[]> {
+    const searches = await this.load();
+    return Promise.all(
+      searches.map(async ({ hits, ...search }) => {
+        const pages = await Promise.all(hits.map((hit) => this.storage.getMemoryNode(hit.nodeId)));
+        const matches = hits.flatMap((hit, i) => {
+          const node = pages[i];
+          if (!node) return [];
+          return [
+            {
+              id: node.id,
+              url: node.url,
+              title: node.title,
+              domain: node.metadata.domain,
+              favicon: node.metadata.favicon,
+              matchedAt: hit.matchedAt,
+              seen: hit.seen,
+            },
+          ];
+        });
+        return { ...search, matches, unseenCount: matches.filter((match) => !match.seen).length };
+      })
+    );
+  }
+
+  /**
+   * Save a query; pages it already finds are recorded as seen
+   */
+  async save(name: string, query: string, options: { language?: string; notify?: boolean } = {}): Promise<SavedSearch> {
+    const text = query.trim();
+    if (!text) throw new Error("A saved search needs a query");
+    const now = this.now();
+    const results = await this.recall.search(text, SEARCH_LIMIT, undefined, { language: options.language });
+    const search: SavedSearch = {
+      id: `saved_${now}_${Math.random().toString(36).slice(2, 9)}`,
+      name: name.trim() || text,
+      query: text,
+      language: options.language,
+      notify: options.notify !== false,
+      createdAt: now,
+      hits: results.matches.map((match) => ({ nodeId: match.nodeId, matchedAt: now, seen: true })),
+    };
+    await this.update((searches) => [search, ...searches]);
+    return search;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    let found = false;
+    await this.update((searches) => {
+      found = searches.some((search) => search.id === id);
+      return searches.filter((search) => search.id !== id);
+    });
+    await this.refreshBadge();
+    return found;
+  }
+
+  /**
+   * Mark one hit, or all of a search's hits, as seen
+   */
+  async markSeen(id: string, nodeId?: string): Promise<void> {
+    await this.update((searches) =>
+      searches.map((search) =>
+        search.id !== id
+          ? search
+          : {
+              ...search,
+              hits: search.hits.map((hit) => (!nodeId || hit.nodeId === nodeId ? { ...hit, seen: true } : hit)),
+            }
+      )
+    );
+    await this.refreshBadge();
+  }
+
+  /**
+   * Run a freshly captured page through every saved search; returns the searches it is new for
+   */
+  async checkPage(node: MemoryNode): Promise<SavedSearch[]> {
+    const searches = await this.load();
+    const matched: SavedSearch[] = [];
+    for (const search of searches) {
+      if (search.hits.some((hit) => hit.nodeId === node.id)) continue;
+      if (await this.recall.matchPage(search.query, node, { language: search.language })) matched.push(search);
+    }
+    if (matched.length === 0) return [];
+
+    const hit: SavedSearchHit = { nodeId: node.id, matchedAt: this.now(), seen: false };
+    const ids = new Set(matched.map((search) => search.id));
+    await this.update((stored) =>
+      stored.map((search) =>
+        ids.has(search.id) && !search.hits.some((existing) => existing.nodeId === node.id)
+          ? { ...search, hits: trimHits([hit, ...search.hits]) }
+          : search
+      )
+    );
+
+    matched
+      .filter((search) => search.notify)
+      .forEach((search) => this.alerts.notify(`${NOTIFICATION_PREFIX}${search.id}:${node.id}`, search, node));
+    await this.refreshBadge();
+    return matched;
+  }
+
+  /**
+   * The page a notification was about, marking it seen; null for other notifications
+   */
+  async openNotification(notificationId: string): Promise<MemoryNode | null> {
+    if (!notificationId.startsWith(NOTIFICATION_PREFIX)) return null;
+    const [searchId, nodeId] = notificationId.slice(NOTIFICATION_PREFIX.length).split(":");
+    if (!searchId || !nodeId) return null;
+    await this.markSeen(searchId, nodeId);
+    return this.storage.getMemoryNode(nodeId);
+  }
+
+  /**
+   * Show the number of unseen hits on pages still stored
+   */
+  async refreshBadge(): Promise<number> {
+    const unseen = (await this.list()).reduce((sum, search) => sum + search.unseenCount, 0);
+    this.alerts.setUnseenCount(unseen);
+    return unseen;
+  }
+
+  private async load(): Promise<SavedSearch[]> {
+    return (await this.storage.getSettingValue<SavedSearch[]>(SAVED_SEARCHES_KEY)) || [];
+  }
+
+  private update(change: (searches: SavedSearch[]) => SavedSearch[]): Promise<void> {
+    const next = this.writing.then(async () => {
+      await this.storage.setSettingValue(SAVED_SEARCHES_KEY, change(await this.load()));
+    });
+    this.writing = next.catch(() => {});
+    return next;
+  }
+}
+
+/**
+ * Keep the newest hits, dropping seen ones before unseen ones
+ */
+function trimHits(hits: SavedSearchHit[]): SavedSearchHit[] {
+  if (hits.length <= MAX_HITS) return hits;
+  const unseen = hits.filter((hit) => !hit.seen);
+  const keep = new Set(unseen.slice(0, MAX_HITS));
+  hits.filter((hit) => hit.seen).slice(0, MAX_HITS - keep.size).forEach((hit) => keep.add(hit));
+  return hits.filter((hit) => keep.has(hit));
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,76 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { cortexStorage } from "../utils/storage";
+import { SESSION_IDLE_GAP_MS } from "../utils/sessions";
+import { SessionService } from "./session-service";
+
+const MINUTE = 60 * 1000;
+const start = Date.UTC(2025, 0, 6, 9, 0);
+
+function page(id: string, timestamp: number, domain: string, keywords: string[]): MemoryNode {
+  return {
+    id,
+    url: `https://${domain}/${id}`,
+    title: id,
+    readableText: "",
+    timestamp,
+    keywords,
+    metadata: { domain },
+  };
+}
+
+async function capture(service: SessionService, node: MemoryNode, tabId: number): Promise<string> {
+  const session = await service.recordActivity(node.timestamp, tabId);
+  node.metadata.sessionId = session.id;
+  await cortexStorage.addMemoryNode(node);
+  await service.addPage(session.id, node, tabId);
+  return session.id;
+}
+
+describe("session service", () => {
+  let service: SessionService;
+
+  beforeEach(async () => {
+    await cortexStorage.clearAllData();
+    service = new SessionService();
+  });
+
+  it("keeps one session across tabs until an idle gap", async () => {
+    const first = await capture(service, page("a", start, "docs.dev", ["react", "hooks"]), 1);
+    const second = await capture(service, page("b", start + 10 * MINUTE, "blog.dev", ["react"]), 2);
+    expect(second).toBe(first);
+
+    const later = start + 10 * MINUTE + SESSION_IDLE_GAP_MS + MINUTE;
+    const third = await capture(service, page("c", later, "news.site", ["weather"]), 1);
+    expect(third).not.toBe(first);
+
+    const sessions = await service.getSessions();
+    expect(sessions.map((s) => s.id)).toEqual([third, first]);
+
+    const stored = await service.getSession(first);
+    expect(stored?.pageIds).toEqual(["a", "b"]);
+    expect(stored?.pages.map((p) => p.id)).toEqual(["a", "b"]);
+    expect(stored?.domains).toEqual(["docs.dev", "blog.dev"]);
+    expect(stored?.keywords[0]).toBe("react");
+    expect(stored?.tabIds).toEqual([1, 2]);
+    expect(stored?.endTime).toBe(start + 10 * MINUTE);
+  });
+
+  it("diffs and merges stored sessions", async () => {
+    const morning = await capture(service, page("a", start, "docs.dev", ["react"]), 1);
+    await capture(service, page("b", start + MINUTE, "docs.dev", ["react"]), 1);
+    const evening = await capture(service, page("c", start + 8 * 60 * MINUTE, "docs.dev", ["vue"]), 1);
+
+    const diff = await service.diffSessions(morning, evening);
+    expect(diff.added.map((p) => p.id)).toEqual(["c"]);
+    expect(diff.removed.map((p) => p.id)).toEqual(["a", "b"]);
+
+    const merged = await service.mergeSessions(evening, morning);
+    expect(merged.id).toBe(morning);
+    expect(merged.pages.map((p) => p.id)).toEqual(["a", "b", "c"]);
+    expect(await service.getSession(evening)).toBeNull();
+    expect((await cortexStorage.getMemoryNode("c"))?.metadata.sessionId).toBe(morning);
+    expect((await service.getSessionStats(morning)).pageCount).toBe(3);
+  });
+});
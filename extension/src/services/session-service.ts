@@ -1,20 +1,22 @@
 /**
  * Session Diff & Merge Service
  * Tracks browsing sessions and identifies changes
+ *
+ * Sessions live in the sessions store; the current one is simply the latest
+ * session whose idle gap has not passed, so nothing is lost when the service
+ * worker restarts.
  */
 
-import type { MemoryNode } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
-import { cosineSimilarity } from "../utils/vector-search";
-
-export interface BrowsingSession {
-  id: string;
-  startTime: number;
-  endTime?: number;
-  pages: MemoryNode[];
-  keywords: string[];
-  domains: string[];
-}
+import type { MemoryNode, SessionRecord, BrowsingSession } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import {
+  createSession,
+  isSessionOpen,
+  touchSession,
+  addPageToSession,
+  mergeSessionRecords,
+} from "../utils/sessions";
 
 export interface SessionDiff {
   added: MemoryNode[];
@@ -24,35 +26,64 @@ export interface SessionDiff {
 }
 
 export class SessionService {
-  private currentSessionId: string | null = null;
-  private sessionStartTime: number = Date.now();
+  // Session updates are read-modify-write, so run them one at a time
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private storage: StorageBackend = activeStorage) {}
 
   /**
-   * Start a new browsing session
+   * Record activity in a tab and return the session it belongs to, starting a new one after an idle gap
    */
-  startSession(): string {
-    this.currentSessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    this.sessionStartTime = Date.now();
-    return this.currentSessionId;
+  recordActivity(at: number = Date.now(), tabId?: number): Promise<SessionRecord> {
+    return this.enqueue(async () => {
+      const latest = await this.getLatestSession();
+      const base = latest && isSessionOpen(latest, at) ? latest : createSession(at);
+      const session = touchSession(base, at, tabId);
+      await this.storage.saveSession(session);
+      return session;
+    });
   }
 
   /**
-   * Get current session ID
+   * Add a captured page to a session
    */
-  getCurrentSessionId(): string {
-    if (!this.currentSessionId) {
-      return this.startSession();
-    }
-    return this.currentSessionId;
+  addPage(sessionId: string, page: MemoryNode, tabId?: number): Promise<SessionRecord | null> {
+    return this.enqueue(async () => {
+      const session = await this.storage.getSession(sessionId);
+      if (!session) return null;
+      const next = addPageToSession(session, page, tabId);
+      await this.storage.saveSession(next);
+      return next;
+    });
+  }
+
+  /**
+   * The session new activity would join, if it has not gone idle
+   */
+  async getCurrentSession(at: number = Date.now()): Promise<SessionRecord | null> {
+    const latest = await this.getLatestSession();
+    return latest && isSessionOpen(latest, at) ? latest : null;
   }
 
   /**
    * Get pages in current session
    */
   async getCurrentSessionPages(): Promise<MemoryNode[]> {
-    const sessionId = this.getCurrentSessionId();
-    const allNodes = await cortexStorage.getAllMemoryNodes();
-    return allNodes.filter((node) => node.metadata.sessionId === sessionId);
+    const current = await this.getCurrentSession();
+    return current ? this.loadPages(current) : [];
+  }
+
+  async getSessions(options: { limit?: number; since?: number } = {}): Promise<SessionRecord[]> {
+    return this.storage.getSessions(options);
+  }
+
+  /**
+   * A stored session with its pages
+   */
+  async getSession(sessionId: string): Promise<BrowsingSession | null> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) return null;
+    return { ...session, pages: await this.loadPages(session) };
   }
 
   /**
@@ -62,13 +93,10 @@ export class SessionService {
     sessionId1: string,
     sessionId2: string
   ): Promise<SessionDiff> {
-    const allNodes = await cortexStorage.getAllMemoryNodes();
-    const session1Pages = allNodes.filter(
-      (n) => n.metadata.sessionId === sessionId1
-    );
-    const session2Pages = allNodes.filter(
-      (n) => n.metadata.sessionId === sessionId2
-    );
+    const [session1Pages, session2Pages] = await Promise.all([
+      this.loadSessionPages(sessionId1),
+      this.loadSessionPages(sessionId2),
+    ]);
 
     // Find added pages (in session2 but not in session1)
     const session1Urls = new Set(session1Pages.map((p) => p.url));
@@ -102,47 +130,27 @@ export class SessionService {
   }
 
   /**
-   * Merge two sessions (combine pages)
+   * Merge two stored sessions into the one that started first and delete the other
    */
-  async mergeSessions(
+  mergeSessions(
     sessionId1: string,
     sessionId2: string
   ): Promise<BrowsingSession> {
-    const allNodes = await cortexStorage.getAllMemoryNodes();
-    const session1Pages = allNodes.filter(
-      (n) => n.metadata.sessionId === sessionId1
-    );
-    const session2Pages = allNodes.filter(
-      (n) => n.metadata.sessionId === sessionId2
-    );
-
-    // Combine pages, removing duplicates by URL
-    const urlMap = new Map<string, MemoryNode>();
-    [...session1Pages, ...session2Pages].forEach((page) => {
-      const existing = urlMap.get(page.url);
-      if (!existing || page.timestamp > existing.timestamp) {
-        urlMap.set(page.url, page);
+    return this.enqueue(async () => {
+      if (sessionId1 === sessionId2) throw new Error("Cannot merge a session with itself");
+      const [session1, session2] = await Promise.all([
+        this.storage.getSession(sessionId1),
+        this.storage.getSession(sessionId2),
+      ]);
+      if (!session1 || !session2) {
+        throw new Error(`Unknown session: ${!session1 ? sessionId1 : sessionId2}`);
       }
-    });
 
-    const mergedPages = Array.from(urlMap.values());
-    const keywords = this.extractCommonKeywords(mergedPages);
-    const domains = Array.from(new Set(mergedPages.map((p) => p.metadata.domain)));
-
-    return {
-      id: `merged_${sessionId1}_${sessionId2}`,
-      startTime: Math.min(
-        session1Pages[0]?.timestamp || Date.now(),
-        session2Pages[0]?.timestamp || Date.now()
-      ),
-      endTime: Math.max(
-        session1Pages[session1Pages.length - 1]?.timestamp || Date.now(),
-        session2Pages[session2Pages.length - 1]?.timestamp || Date.now()
-      ),
-      pages: mergedPages,
-      keywords,
-      domains,
-    };
+      const merged = mergeSessionRecords(session1, session2);
+      const removedId = merged.id === session1.id ? session2.id : session1.id;
+      await this.storage.replaceSession(removedId, merged);
+      return { ...merged, pages: await this.loadPages(merged) };
+    });
   }
 
   /**
@@ -183,22 +191,26 @@ export class SessionService {
     return urlSimilarity * 0.5 + keywordSimilarity * 0.3 + domainSimilarity * 0.2;
   }
 
-  /**
-   * Extract common keywords from pages
-   */
-  private extractCommonKeywords(pages: MemoryNode[]): string[] {
-    const keywordCounts = new Map<string, number>();
-    pages.forEach((page) => {
-      page.keywords.forEach((kw) => {
-        keywordCounts.set(kw, (keywordCounts.get(kw) || 0) + 1);
-      });
-    });
+  private async getLatestSession(): Promise<SessionRecord | null> {
+    const [latest] = await this.storage.getSessions({ limit: 1 });
+    return latest || null;
+  }
 
-    return Array.from(keywordCounts.entries())
-      .filter(([_, count]) => count >= 2)
-      .sort(([_, a], [__, b]) => b - a)
-      .slice(0, 10)
-      .map(([kw]) => kw);
+  private async loadPages(session: SessionRecord): Promise<MemoryNode[]> {
+    const pages = await Promise.all(session.pageIds.map((id) => this.storage.getMemoryNode(id)));
+    return pages.filter((page): page is MemoryNode => page !== null);
+  }
+
+  private async loadSessionPages(sessionId: string): Promise<MemoryNode[]> {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) throw new Error(`Unknown session: ${sessionId}`);
+    return this.loadPages(session);
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
   }
 
   /**
@@ -210,12 +222,8 @@ export class SessionService {
     uniqueDomains: number;
     topKeywords: string[];
   }> {
-    const allNodes = await cortexStorage.getAllMemoryNodes();
-    const sessionPages = allNodes.filter(
-      (n) => n.metadata.sessionId === sessionId
-    );
-
-    if (sessionPages.length === 0) {
+    const session = await this.storage.getSession(sessionId);
+    if (!session) {
       return {
         pageCount: 0,
         duration: 0,
@@ -224,19 +232,11 @@ export class SessionService {
       };
     }
 
-    const sortedPages = sessionPages.sort((a, b) => a.timestamp - b.timestamp);
-    const startTime = sortedPages[0].timestamp;
-    const endTime = sortedPages[sortedPages.length - 1].timestamp;
-    const duration = endTime - startTime;
-
-    const domains = new Set(sessionPages.map((p) => p.metadata.domain));
-    const keywords = this.extractCommonKeywords(sessionPages);
-
     return {
-      pageCount: sessionPages.length,
-      duration,
-      uniqueDomains: domains.size,
-      topKeywords: keywords,
+      pageCount: session.pageIds.length,
+      duration: session.endTime - session.startTime,
+      uniqueDomains: session.domains.length,
+      topKeywords: session.keywords,
     };
   }
 }
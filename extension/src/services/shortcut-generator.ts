@@ -4,8 +4,9 @@
  */
 
 import type { MemoryNode } from "@shared/extension-types";
-import { cortexStorage } from "../utils/storage";
-import { recallService } from "./recall-service";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { RecallService } from "./recall-service";
 
 export interface Shortcut {
   id: string;
@@ -23,6 +24,11 @@ export interface Shortcut {
 }
 
 export class ShortcutGenerator {
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private recall: RecallService = new RecallService(storage)
+  ) {}
+
   /**
    * Generate shortcuts based on browsing patterns
    */
@@ -30,7 +36,7 @@ export class ShortcutGenerator {
     const shortcuts: Shortcut[] = [];
 
     // 1. Frequent domains
-    const allNodes = await cortexStorage.getAllMemoryNodes();
+    const allNodes = await this.storage.getAllMemoryNodes();
     const domainCounts = new Map<string, { count: number; latestUrl: string; latestTime: number }>();
 
     allNodes.forEach((node) => {
@@ -64,7 +70,7 @@ export class ShortcutGenerator {
     });
 
     // 2. Common search patterns
-    const recentPages = await recallService.getRecentPages(168, 50); // Last week
+    const recentPages = await this.recall.getRecentPages(168, 50); // Last week
     const searchPatterns = this.detectSearchPatterns(recentPages);
 
     searchPatterns.forEach((pattern, index) => {
@@ -123,7 +129,7 @@ export class ShortcutGenerator {
    * Generate form fill shortcuts for frequently visited forms
    */
   async generateFormShortcuts(): Promise<Shortcut[]> {
-    const allNodes = await cortexStorage.getAllMemoryNodes();
+    const allNodes = await this.storage.getAllMemoryNodes();
     
     // Detect form pages (pages with specific keywords or patterns)
     const formPages = allNodes.filter((node) => {
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { ENGINES } from "../testing/backends";
+import type { StorageEngine } from "../utils/storage-backend";
+import { StorageBudgetService, CAPTURE_BUDGET_ALARM, STORAGE_BUDGET_ALARM } from "./storage-budget";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.now();
+
+function page(id: string, ageDays: number, text: string, extra: Partial<MemoryNode> = {}): MemoryNode {
+  return {
+    id,
+    url: `https://example.com/${id}`,
+    title: `Page ${id}`,
+    readableText: text,
+    timestamp: now - ageDays * DAY,
+    keywords: [],
+    metadata: { domain: "example.com" },
+    ...extra,
+  };
+}
+
+const longText = "Cortex remembers pages. ".repeat(400);
+
+describe.each(ENGINES)("storage budget on $name storage", ({ create }) => {
+  let storage: StorageEngine;
+  let storageBudgetService: StorageBudgetService;
+
+  beforeEach(() => {
+    storage = create().storage;
+    storageBudgetService = new StorageBudgetService(storage);
+  });
+
+  it("does nothing while under budget", async () => {
+    await storage.addMemoryNode(page("a", 1, "short"));
+    await storage.updateSettings({ maxStorageSize: 10 * 1024 * 1024 });
+
+    const report = await storageBudgetService.enforce("manual");
+    expect(report.withinBudget).toBe(true);
+    expect(report.evicted).toEqual([]);
+    expect(report.compacted).toBe(0);
+  });
+
+  it("compacts old pages before evicting anything", async () => {
+    await storage.addMemoryNode(page("old", 60, longText));
+    await storage.addMemoryNode(page("new", 1, longText));
+    const [before] = await storage.getPageFootprints();
+    await storage.updateSettings({ maxStorageSize: Math.round(before.bytes * 1.5), compactAfterDays: 30 });
+
+    const report = await storageBudgetService.enforce("manual");
+    expect(report.compacted).toBe(1);
+    expect(report.evicted).toEqual([]);
+    expect(report.withinBudget).toBe(true);
+
+    const old = await storage.getMemoryNode("old");
+    expect(old?.compactedAt).toBeDefined();
+    expect(old?.readableText.length).toBeLessThan(longText.length);
+    expect((await storage.getMemoryNode("new"))?.readableText).toBe(longText);
+  });
+
+  it("drops the passage vectors of compacted pages", async () => {
+    const pageVector = Array.from({ length: 16 }, (_, i) => (i < 8 ? 1 : 0));
+    const passageVector = Array.from({ length: 16 }, (_, i) => (i < 8 ? 0 : 1));
+    await storage.addMemoryNode(page("old", 60, longText));
+    await storage.storeEmbedding("old", {
+      vector: pageVector,
+      model: "fallback",
+      timestamp: now,
+      passages: [{ start: 2000, end: 2800, vector: passageVector }],
+    });
+    const [before] = await storage.vectorSearch(passageVector, 5, 0.5);
+    expect(before?.similarity).toBeCloseTo(1);
+
+    await storage.compactMemoryNodes(["old"], () => "Cortex remembers pages.");
+
+    const embedding = await storage.getEmbedding("old");
+    expect(embedding?.passages).toEqual([]);
+    expect(embedding?.vector).toEqual(pageVector);
+    // The passage pointed past the end of the summary; only the page vector is left to match
+    expect(await storage.vectorSearch(passageVector, 5, 0.5)).toEqual([]);
+    expect((await storage.vectorSearch(pageVector, 5, 0.5)).map((match) => match.nodeId)).toEqual(["old"]);
+  });
+
+  it("evicts by policy, keeps pinned pages and drops their edges", async () => {
+    await storage.addMemoryNode(page("pinned", 5, longText, { pinned: true }));
+    await storage.addMemoryNode(page("popular", 4, longText, { visitCount: 9 }));
+    await storage.addMemoryNode(page("rare", 1, longText, { visitCount: 1 }));
+    await storage.addGraphEdge("popular", "rare", 0.9);
+    const footprints = await storage.getPageFootprints();
+    await storage.updateSettings({
+      maxStorageSize: Math.round(footprints[0].bytes * 2.5),
+      evictionPolicy: "least-visited",
+      compactAfterDays: 30,
+    });
+
+    const report = await storageBudgetService.enforce("manual");
+    expect(report.evicted.map((p) => p.id)).toEqual(["rare"]);
+    // Deleting a page cascades to its edges, so the orphan sweep finds nothing left
+    expect(await storage.getRelatedNodes("popular")).toEqual([]);
+    expect(report.orphans.edges).toBe(0);
+    expect(await storage.getMemoryNode("pinned")).not.toBeNull();
+    expect(await storageBudgetService.getLastReport()).toEqual(report);
+  });
+
+  it("runs a pass for its own alarms only", async () => {
+    await storage.addMemoryNode(page("a", 1, "short"));
+
+    expect(storageBudgetService.handleAlarm("trash-purge")).toBe(false);
+    expect(storageBudgetService.handleAlarm(CAPTURE_BUDGET_ALARM)).toBe(true);
+    // A pass already in flight is shared rather than started again
+    expect((await storageBudgetService.enforce("manual")).trigger).toBe("capture");
+
+    expect(storageBudgetService.handleAlarm(STORAGE_BUDGET_ALARM)).toBe(true);
+    expect((await storageBudgetService.enforce("manual")).trigger).toBe("scheduled");
+    expect((await storageBudgetService.getLastReport())?.trigger).toBe("scheduled");
+  });
+});
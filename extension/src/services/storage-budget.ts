@@ -0,0 +1,159 @@
+/**
+ * Storage Budget Service
+ * Keeps saved memories under CaptureSettings.maxStorageSize
+ *
+ * Each pass first sweeps records whose page is gone, then trims the text of
+ * old pages down to their summary, and only evicts whole pages (in the order
+ * given by the eviction policy) if that was not enough.
+ */
+
+import type { EvictionPolicy, StorageBudgetReport } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { PageFootprint, StorageBackend } from "../utils/storage-backend";
+import { STORAGE_REPORT_KEY } from "../utils/migrations";
+import { generateSummary } from "@/lib/text-utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Alarms the worker hands to handleAlarm; chrome.alarms fire even after the worker was suspended
+export const STORAGE_BUDGET_ALARM = "storage-budget";
+export const CAPTURE_BUDGET_ALARM = "storage-budget-capture";
+export const BUDGET_PERIOD_MINUTES = 30;
+// Captures tend to arrive in bursts; run one pass after things settle (Chrome's shortest alarm delay)
+const CAPTURE_DEBOUNCE_MINUTES = 0.5;
+// What a compacted page's text costs (generateSummary caps at 200 characters)
+const SUMMARY_BYTES = 400;
+
+/**
+ * Order pages so the first ones are evicted first
+ */
+export function orderForEviction(pages: PageFootprint[], policy: EvictionPolicy): PageFootprint[] {
+  const sorted = [...pages];
+  switch (policy) {
+    case "least-visited":
+      return sorted.sort((a, b) => a.visitCount - b.visitCount || a.timestamp - b.timestamp);
+    case "largest":
+      return sorted.sort((a, b) => b.textBytes - a.textBytes || b.bytes - a.bytes);
+    case "oldest":
+    default:
+      return sorted.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+function totalBytes(pages: PageFootprint[]): number {
+  return pages.reduce((sum, page) => sum + page.bytes, 0);
+}
+
+export class StorageBudgetService {
+  private running: Promise<StorageBudgetReport> | null = null;
+
+  constructor(private storage: StorageBackend = activeStorage) {}
+
+  /**
+   * Run a pass shortly after the latest capture
+   */
+  scheduleAfterCapture(): void {
+    if (typeof chrome === "undefined" || !chrome.alarms) return;
+    // Creating the alarm again replaces it, which pushes the pass back
+    chrome.alarms
+      .create(CAPTURE_BUDGET_ALARM, { delayInMinutes: CAPTURE_DEBOUNCE_MINUTES })
+      .catch((err) => console.error("StorageBudget: Failed to schedule pass", err));
+  }
+
+  /**
+   * Run the pass an alarm stands for; false for alarms that aren't the budget's
+   */
+  handleAlarm(name: string): boolean {
+    const trigger = name === STORAGE_BUDGET_ALARM ? "scheduled" : name === CAPTURE_BUDGET_ALARM ? "capture" : null;
+    if (!trigger) return false;
+    this.enforce(trigger).catch((err) => console.error("StorageBudget: Pass failed", err));
+    return true;
+  }
+
+  /**
+   * Bring storage under budget; concurrent callers share the pass in flight
+   */
+  enforce(trigger: StorageBudgetReport["trigger"]): Promise<StorageBudgetReport> {
+    if (!this.running) {
+      this.running = this.runPass(trigger).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  async getLastReport(): Promise<StorageBudgetReport | null> {
+    return this.storage.getSettingValue<StorageBudgetReport>(STORAGE_REPORT_KEY);
+  }
+
+  private async runPass(trigger: StorageBudgetReport["trigger"]): Promise<StorageBudgetReport> {
+    const settings = await this.storage.getSettings();
+    const policy = settings.evictionPolicy || "oldest";
+    const keepPinned = settings.keepPinnedPages !== false;
+    const budgetBytes = settings.maxStorageSize;
+    const isProtected = (page: PageFootprint) => keepPinned && page.pinned;
+
+    const orphans = await this.storage.removeOrphans();
+    let pages = await this.storage.getPageFootprints();
+    const bytesBefore = totalBytes(pages);
+    let usage = bytesBefore;
+    let compacted = 0;
+    const evicted: StorageBudgetReport["evicted"] = [];
+
+    if (budgetBytes > 0 && usage > budgetBytes) {
+      // 1. Trim old pages to their summary, oldest first
+      const cutoff = Date.now() - (settings.compactAfterDays ?? 30) * DAY_MS;
+      const toCompact: string[] = [];
+      let projected = usage;
+      for (const page of orderForEviction(pages, "oldest")) {
+        if (projected <= budgetBytes || page.timestamp >= cutoff) break;
+        if (page.compacted || isProtected(page) || page.textBytes <= SUMMARY_BYTES) continue;
+        toCompact.push(page.id);
+        projected -= page.textBytes - SUMMARY_BYTES;
+      }
+      if (toCompact.length > 0) {
+        compacted = await this.storage.compactMemoryNodes(toCompact, (node) => generateSummary(node.readableText));
+        pages = await this.storage.getPageFootprints();
+        usage = totalBytes(pages);
+      }
+
+      // 2. Evict whole pages by policy
+      if (usage > budgetBytes) {
+        for (const page of orderForEviction(pages.filter((p) => !isProtected(p)), policy)) {
+          if (usage <= budgetBytes) break;
+          evicted.push({ id: page.id, title: page.title, url: page.url, bytes: page.bytes });
+          usage -= page.bytes;
+        }
+        if (evicted.length > 0) {
+          await this.storage.deleteMemoryNodes(evicted.map((page) => page.id));
+          // Graph edges pointing at evicted pages are orphans now
+          const swept = await this.storage.removeOrphans();
+          orphans.embeddings += swept.embeddings;
+          orphans.edges += swept.edges;
+          orphans.revisions += swept.revisions;
+        }
+      }
+    }
+
+    const report: StorageBudgetReport = {
+      timestamp: Date.now(),
+      trigger,
+      policy,
+      budgetBytes,
+      bytesBefore,
+      bytesAfter: usage,
+      withinBudget: budgetBytes <= 0 || usage <= budgetBytes,
+      compacted,
+      evicted,
+      orphans,
+    };
+    await this.storage.setSettingValue(STORAGE_REPORT_KEY, report);
+
+    console.log(
+      `StorageBudget: ${trigger} pass, ${(usage / 1024).toFixed(0)} KB of ${(budgetBytes / 1024).toFixed(0)} KB ` +
+        `(compacted ${compacted}, evicted ${evicted.length})`
+    );
+    return report;
+  }
+}
+
+export const storageBudgetService = new StorageBudgetService();
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { BACKENDS, createMemoryBackend } from "../testing/backends";
+import type { StorageBackend } from "../utils/storage-backend";
+import { EncryptionService } from "./encryption-service";
+import { RECENT_QUERIES_KEY, SuggestService } from "./suggest-service";
+
+const now = Date.UTC(2025, 2, 1);
+
+function page(id: string, title: string, domain: string, keywords: string[], overrides: Partial<MemoryNode> = {}): MemoryNode {
+  return {
+    id,
+    url: `https://${domain}/${id}`,
+    title,
+    readableText: "",
+    timestamp: now,
+    keywords,
+    language: "en",
+    metadata: { domain },
+    ...overrides,
+  };
+}
+
+describe.each(BACKENDS)("suggestions on $name storage", ({ create }) => {
+  let storage: StorageBackend;
+  let suggest: SuggestService;
+
+  beforeEach(async () => {
+    storage = create();
+    suggest = new SuggestService(storage, () => now);
+    await storage.addMemoryNode(page("hooks", "Introducing React hooks", "react.dev", ["react", "hooks"]));
+    await storage.addMemoryNode(
+      page("rendering", "How React renders", "react.dev", ["react", "rendering"], { frecency: 900, frecencyAt: now })
+    );
+    await storage.addMemoryNode(page("regex", "Regular expressions", "docs.python.org", ["regex", "python"]));
+  });
+
+  it("completes the word being typed from titles, keywords and domains", async () => {
+    const result = await suggest.suggest("how to re");
+
+    const texts = result.completions.map((completion) => completion.text);
+    // Keywords shared by more pages come first
+    expect(texts[0]).toBe("how to react");
+    expect(texts).toContain("how to regex");
+    expect(texts).toContain("how to rendering");
+    expect(result.completions.find((completion) => completion.text === "how to react.dev")?.kind).toBe("domain");
+  });
+
+  it("returns pages matching every typed word, most visited first", async () => {
+    expect((await suggest.suggest("rea")).pages.map((hit) => hit.id)).toEqual(["rendering", "hooks"]);
+    // "ho" would also start "How React renders"
+    expect((await suggest.suggest("react hoo")).pages).toEqual([
+      { id: "hooks", url: "https://react.dev/hooks", title: "Introducing React hooks", domain: "react.dev", favicon: undefined },
+    ]);
+    expect((await suggest.suggest("python")).pages.map((hit) => hit.id)).toEqual(["regex"]);
+  });
+
+  it("completes site: and tag: operators", async () => {
+    expect((await suggest.suggest("site:py")).completions).toEqual([{ text: "site:python.org", kind: "domain" }]);
+    expect((await suggest.suggest("-site:do")).completions).toEqual([{ text: "-site:docs.python.org", kind: "domain" }]);
+    expect((await suggest.suggest("hooks tag:ren")).completions).toEqual([{ text: "hooks tag:rendering", kind: "keyword" }]);
+  });
+
+  it("offers earlier queries and picks up pages captured since", async () => {
+    await suggest.recordQuery("React  Server Components");
+    await suggest.recordQuery("regex lookahead");
+
+    expect((await suggest.suggest("")).completions).toEqual([
+      { text: "regex lookahead", kind: "query" },
+      { text: "react server components", kind: "query" },
+    ]);
+    expect((await suggest.suggest("react s")).completions[0]).toEqual({ text: "react server components", kind: "query" });
+
+    const node = page("suspense", "React Suspense", "react.dev", ["react", "suspense"]);
+    await storage.addMemoryNode(node);
+    suggest.addPage(node);
+    expect((await suggest.suggest("susp")).pages.map((hit) => hit.id)).toEqual(["suspense"]);
+
+    // A fresh service reads the stored queries back
+    expect((await new SuggestService(storage, () => now).suggest("reg")).completions[0].text).toBe("regex lookahead");
+  });
+
+  it("remembers no queries in plain settings while encryption is on", async () => {
+    await suggest.recordQuery("salary review");
+    await new EncryptionService(1000, storage).enable("correct horse battery");
+    await suggest.forgetQueries();
+    await suggest.recordQuery("medical results");
+
+    expect(await storage.getSettingValue(RECENT_QUERIES_KEY)).toEqual([]);
+    expect((await suggest.suggest("")).completions).toEqual([]);
+    expect((await new SuggestService(storage, () => now).suggest("")).completions).toEqual([]);
+  });
+});
+
+describe("suggestions on a large index", () => {
+  it("ranks every term and page with a short prefix, not just the first ones alphabetically", async () => {
+    const storage = createMemoryBackend();
+    // Hundreds of one-page terms sort ahead of the common one
+    for (let i = 0; i < 300; i++) {
+      await storage.addMemoryNode(page(`p${i}`, `Sa${String(i).padStart(3, "0")}x notes`, "example.com", []));
+    }
+    for (const id of ["sun1", "sun2", "sun3"]) {
+      await storage.addMemoryNode(page(id, "Sunrise times", "example.com", [], id === "sun3" ? { frecency: 900, frecencyAt: now } : {}));
+    }
+    const suggest = new SuggestService(storage, () => now);
+
+    const result = await suggest.suggest("s");
+    expect(result.completions[0]).toEqual({ text: "sunrise", kind: "title" });
+    expect(result.pages[0].id).toBe("sun3");
+  });
+});
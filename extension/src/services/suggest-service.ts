@@ -0,0 +1,257 @@
+/**
+ * Suggest Service
+ * Completions and page hits for the search box, on every keystroke
+ *
+ * A prefix index over page titles, keywords and domains, plus the queries that found
+ * something before, is built in memory on first use and kept up to date as pages are
+ * captured; anything else that changes the set of pages calls invalidate() and the next
+ * keystroke rebuilds it. The word being typed completes against the index (`site:` and
+ * `tag:` complete domains and keywords); pages must match every typed word as a prefix
+ * and are ordered by frecency. Like search, pages are scoped to the user when one is given.
+ *
+ * Queries are kept in plain settings, so none are remembered while encryption is on:
+ * turning it on forgets the ones saved before.
+ */
+
+import type { MemoryNode, PageSuggestion, QueryCompletion, QuerySuggestions } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { PrefixIndex } from "../utils/prefix-index";
+import { frecencyScore } from "../utils/frecency";
+import { isStopword, segmentWords } from "@/lib/language";
+
+export const RECENT_QUERIES_KEY = "recentQueries";
+const MAX_RECENT_QUERIES = 50;
+const MAX_PAGES = 5;
+
+// Word kinds in the order a term shared by several is shown as
+const KIND_ORDER: Array<QueryCompletion["kind"]> = ["keyword", "title", "domain"];
+
+interface IndexedPage extends PageSuggestion {
+  // Lowercased title words, keywords and domains, for matching every typed word
+  words: string[];
+  node: Pick<MemoryNode, "frecency" | "frecencyAt" | "timestamp" | "metadata">;
+}
+
+interface SuggestIndex {
+  terms: PrefixIndex<string>;
+  domains: PrefixIndex<string>;
+  keywords: PrefixIndex<string>;
+  kinds: Map<string, QueryCompletion["kind"]>;
+  pages: Map<string, IndexedPage>;
+  // Newest first
+  queries: string[];
+}
+
+function normalize(text: string): string {
+  return text.normalize("NFC").toLowerCase().replace(/\s+/g, " ");
+}
+
+function hostOf(node: MemoryNode): string {
+  return (node.metadata?.domain || "").toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * The host and each parent domain above the registrable one: docs.github.com, github.com
+ */
+function domainSuffixes(host: string): string[] {
+  const labels = host.split(".");
+  return labels.slice(0, Math.max(1, labels.length - 1)).map((_, i) => labels.slice(i).join("."));
+}
+
+export class SuggestService {
+  private index: SuggestIndex | null = null;
+  private building: Promise<SuggestIndex> | null = null;
+
+  constructor(
+    private storage: StorageBackend = activeStorage,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Drop the index; the next suggestion rebuilds it from storage
+   */
+  invalidate(): void {
+    this.index = null;
+    this.building = null;
+  }
+
+  /**
+   * Add a captured page to the index, if one is built
+   */
+  addPage(node: MemoryNode): void {
+    if (this.index) this.indexPage(this.index, node);
+  }
+
+  /**
+   * Remember a query that found pages, for completing later queries (not while encryption is on)
+   */
+  async recordQuery(query: string): Promise<void> {
+    const text = normalize(query).trim();
+    if (!text || this.storage.isEncryptionEnabled()) return;
+    const stored = (await this.storage.getSettingValue<string[]>(RECENT_QUERIES_KEY)) || [];
+    const queries = [text, ...stored.filter((previous) => previous !== text)].slice(0, MAX_RECENT_QUERIES);
+    await this.storage.setSettingValue(RECENT_QUERIES_KEY, queries);
+    if (this.index) this.index.queries = queries;
+  }
+
+  /**
+   * Drop the remembered queries, as when encryption is turned on
+   */
+  async forgetQueries(): Promise<void> {
+    await this.storage.setSettingValue<string[]>(RECENT_QUERIES_KEY, []);
+    if (this.index) this.index.queries = [];
+  }
+
+  async suggest(input: string, limit: number = 8, userId?: string): Promise<QuerySuggestions> {
+    const index = await this.getIndex();
+    const typed = normalize(input).trimStart();
+    const query = typed.trim();
+    if (!query) {
+      return { input, completions: index.queries.slice(0, limit).map((text) => ({ text, kind: "query" })), pages: [] };
+    }
+
+    const words = query.split(" ");
+    // A trailing space means the last word is finished: nothing to complete, but pages still match it
+    const current = typed.endsWith(" ") ? "" : words[words.length - 1];
+    const head = current ? words.slice(0, -1) : words;
+
+    const completions: QueryCompletion[] = index.queries
+      .filter((previous) => previous !== query && previous.startsWith(query))
+      .slice(0, limit)
+      .map((text) => ({ text, kind: "query" }));
+    const seen = new Set(completions.map((completion) => completion.text));
+    for (const completion of this.completeWord(index, current)) {
+      if (completions.length >= limit) break;
+      const text = [...head, completion.text].join(" ");
+      if (text === query || seen.has(text)) continue;
+      seen.add(text);
+      completions.push({ text, kind: completion.kind });
+    }
+
+    return { input, completions, pages: this.matchPages(index, words, userId) };
+  }
+
+  /**
+   * Index terms the word being typed could become, the most common first
+   */
+  private completeWord(index: SuggestIndex, word: string): QueryCompletion[] {
+    if (!word) return [];
+    const operator = word.match(/^(-?)(site|tag):(.*)$/);
+    const [terms, prefix, kind, format] = operator
+      ? operator[2] === "site"
+        ? [index.domains, operator[3], "domain" as const, (term: string) => `${operator[1]}site:${term}`]
+        : [index.keywords, operator[3], "keyword" as const, (term: string) => `${operator[1]}tag:${term}`]
+      : [index.terms, word, undefined, (term: string) => term];
+
+    // Every term with the prefix, however many, so a short prefix still offers the most common
+    return terms
+      .withPrefix(prefix)
+      .filter(([term]) => operator || !isStopword(term))
+      .sort((a, b) => b[1].size - a[1].size || a[0].length - b[0].length)
+      .map(([term]) => ({ text: format(term), kind: kind ?? index.kinds.get(term) ?? "title" }));
+  }
+
+  /**
+   * Pages where every typed word starts one of their words, most frecent first
+   */
+  private matchPages(index: SuggestIndex, words: string[], userId?: string): PageSuggestion[] {
+    const plain = words.map((word) => word.replace(/^-?(site|tag):/, "")).filter(Boolean);
+    if (plain.length === 0) return [];
+
+    // Candidates come from the rarest-looking (longest) word, then must match the rest
+    const anchor = plain.reduce((longest, word) => (word.length > longest.length ? word : longest));
+    const candidates = new Set<string>();
+    for (const [, ids] of index.terms.withPrefix(anchor)) {
+      ids.forEach((id) => candidates.add(id));
+    }
+
+    const now = this.now();
+    return Array.from(candidates)
+      .flatMap((id) => index.pages.get(id) ?? [])
+      .filter((page) => !userId || page.node.metadata.sessionId === "seed" || page.node.metadata.userId === userId)
+      .filter((page) => plain.every((word) => page.words.some((pageWord) => pageWord.startsWith(word))))
+      .map((page) => ({ page, score: frecencyScore(page.node, now) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_PAGES)
+      .map(({ page: { words: _words, node: _node, ...page } }) => page);
+  }
+
+  private async getIndex(): Promise<SuggestIndex> {
+    if (this.index) return this.index;
+    if (!this.building) {
+      const building = this.build();
+      this.building = building;
+      building
+        .then((index) => {
+          // Unless invalidated while building
+          if (this.building === building) this.index = index;
+        })
+        .catch(() => {})
+        .finally(() => {
+          if (this.building === building) this.building = null;
+        });
+    }
+    return this.building;
+  }
+
+  private async build(): Promise<SuggestIndex> {
+    const [nodes, queries] = await Promise.all([
+      this.storage.getAllMemoryNodes(),
+      this.storage.getSettingValue<string[]>(RECENT_QUERIES_KEY),
+    ]);
+    const index: SuggestIndex = {
+      terms: new PrefixIndex(),
+      domains: new PrefixIndex(),
+      keywords: new PrefixIndex(),
+      kinds: new Map(),
+      pages: new Map(),
+      // Anything saved before encryption was turned on and not yet forgotten stays unused
+      queries: this.storage.isEncryptionEnabled() ? [] : queries || [],
+    };
+    nodes.forEach((node) => this.indexPage(index, node));
+    return index;
+  }
+
+  private indexPage(index: SuggestIndex, node: MemoryNode): void {
+    // Sealed pages have no title to suggest until the memory is unlocked
+    if (node.locked) return;
+    const words = new Set<string>();
+    const addTerm = (term: string, kind: QueryCompletion["kind"]) => {
+      index.terms.add(term, node.id);
+      const known = index.kinds.get(term);
+      if (!known || KIND_ORDER.indexOf(kind) < KIND_ORDER.indexOf(known)) index.kinds.set(term, kind);
+      words.add(term);
+    };
+
+    for (const word of segmentWords(node.title || "", node.language)) {
+      const term = normalize(word);
+      if (term.length > 1 && /[\p{L}\p{N}]/u.test(term)) addTerm(term, "title");
+    }
+    for (const keyword of node.keywords || []) {
+      const term = normalize(keyword).trim();
+      if (!term) continue;
+      addTerm(term, "keyword");
+      index.keywords.add(term, node.id);
+    }
+    const host = hostOf(node);
+    if (host) {
+      for (const domain of domainSuffixes(host)) {
+        addTerm(domain, "domain");
+        index.domains.add(domain, node.id);
+      }
+    }
+
+    index.pages.set(node.id, {
+      id: node.id,
+      url: node.url,
+      title: node.title,
+      domain: host,
+      favicon: node.metadata?.favicon,
+      words: Array.from(words),
+      node: { frecency: node.frecency, frecencyAt: node.frecencyAt, timestamp: node.timestamp, metadata: node.metadata },
+    });
+  }
+}
+
+export const suggestService = new SuggestService();
@@ -0,0 +1,85 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, beforeEach } from "vitest";
+import type { MemoryNode, PageContext } from "@shared/extension-types";
+import { cortexStorage } from "../utils/storage";
+import { pageIdForUrl } from "../utils/page-id";
+import { VisitTracker, transitionFromNavigation } from "./visit-tracker";
+import { activityInsightsService } from "./activity-insights";
+
+function context(url: string, navigation?: PageContext["navigation"]): PageContext {
+  return { url, title: url, readableText: "", timestamp: Date.now(), navigation };
+}
+
+function node(url: string): MemoryNode {
+  return {
+    id: pageIdForUrl(url),
+    url,
+    title: url,
+    readableText: "",
+    timestamp: Date.now(),
+    keywords: [],
+    metadata: { domain: new URL(url).hostname },
+  };
+}
+
+const docs = "https://docs.example.com/guide";
+const blog = "https://blog.example.com/post";
+
+describe("visit tracker", () => {
+  let tracker: VisitTracker;
+
+  beforeEach(async () => {
+    await cortexStorage.clearAllData();
+    tracker = new VisitTracker();
+  });
+
+  it("maps webNavigation transitions", () => {
+    expect(transitionFromNavigation("link")).toBe("link");
+    expect(transitionFromNavigation("typed")).toBe("typed");
+    expect(transitionFromNavigation("generated")).toBe("typed");
+    expect(transitionFromNavigation("reload")).toBe("reload");
+    expect(transitionFromNavigation("link", ["forward_back"])).toBe("back_forward");
+    expect(transitionFromNavigation("auto_bookmark")).toBe("other");
+  });
+
+  it("ends the previous visit in a tab and links the referrer", async () => {
+    await cortexStorage.addMemoryNode(node(docs));
+    tracker.noteCommitted(7, docs, "typed");
+    const first = await tracker.startVisit(context(docs), pageIdForUrl(docs), 7);
+    expect(first.transition).toBe("typed");
+
+    // No committed navigation for this one: falls back to the timing hint
+    const second = await tracker.startVisit(
+      context(blog, { type: "navigate", referrer: docs }),
+      pageIdForUrl(blog),
+      7
+    );
+    expect(second.transition).toBe("link");
+    expect(second.referrerNodeId).toBe(pageIdForUrl(docs));
+
+    const [docsVisit] = await tracker.getVisits(pageIdForUrl(docs));
+    expect(docsVisit.endTimestamp).toBe(second.timestamp);
+    expect((await cortexStorage.getOpenVisit(7))?.id).toBe(second.id);
+
+    expect(await tracker.endVisit(7)).toBe(true);
+    expect(await cortexStorage.getOpenVisit(7)).toBeNull();
+    expect(await tracker.endVisit(7)).toBe(false);
+  });
+
+  it("counts every visit and forgets them with the page", async () => {
+    await cortexStorage.addMemoryNode(node(docs));
+    for (const tabId of [1, 2, 3]) {
+      await tracker.startVisit(context(docs), pageIdForUrl(docs), tabId);
+      await tracker.endVisit(tabId);
+    }
+
+    expect(await tracker.getVisits(pageIdForUrl(docs))).toHaveLength(3);
+    // Three fresh visits of 100 points each
+    expect((await cortexStorage.getMemoryNode(pageIdForUrl(docs)))?.frecency).toBe(300);
+    const stats = await activityInsightsService.getActivityStats(1);
+    expect(stats.topDomains[0]).toMatchObject({ domain: "docs.example.com", count: 3 });
+
+    await cortexStorage.deleteMemoryNode(pageIdForUrl(docs));
+    expect(await tracker.getVisits(pageIdForUrl(docs))).toEqual([]);
+  });
+});
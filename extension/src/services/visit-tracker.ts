@@ -0,0 +1,141 @@
+/**
+ * Visit Tracker
+ * Records each visit to a captured page as an event in the activity store
+ *
+ * A visit starts when the content script reports a page and ends when the
+ * same tab shows another page, the page is hidden or the tab closes. How the
+ * page was reached comes from webNavigation when available, otherwise from the
+ * Navigation Timing hints the content script sends along.
+ */
+
+import type { PageContext, VisitEvent, VisitTransition } from "@shared/extension-types";
+import { activeStorage } from "../utils/storage-engine";
+import type { StorageBackend } from "../utils/storage-backend";
+import { pageIdForUrl } from "../utils/page-id";
+import { refreshFrecency } from "../utils/frecency";
+
+// A committed navigation older than this is not matched to a capture any more
+const COMMIT_MATCH_MS = 60 * 1000;
+
+interface CommittedNavigation {
+  url: string;
+  transition: VisitTransition;
+  at: number;
+}
+
+/**
+ * Map a webNavigation transition type (and qualifiers) onto a visit transition
+ */
+export function transitionFromNavigation(transitionType: string, qualifiers: string[] = []): VisitTransition {
+  if (qualifiers.includes("forward_back")) return "back_forward";
+  switch (transitionType) {
+    case "link":
+    case "form_submit":
+      return "link";
+    case "typed":
+    case "generated":
+    case "keyword":
+    case "keyword_generated":
+      return "typed";
+    case "reload":
+      return "reload";
+    default:
+      return "other";
+  }
+}
+
+/**
+ * Best guess from the Navigation Timing type when webNavigation did not report the navigation
+ */
+function transitionFromTiming(navigation: PageContext["navigation"]): VisitTransition {
+  switch (navigation?.type) {
+    case "reload":
+      return "reload";
+    case "back_forward":
+      return "back_forward";
+    case "navigate":
+      return navigation.referrer ? "link" : "other";
+    default:
+      return "other";
+  }
+}
+
+export class VisitTracker {
+  private committed = new Map<number, CommittedNavigation>();
+
+  constructor(private storage: StorageBackend = activeStorage) {}
+
+  /**
+   * Remember how the top frame of a tab navigated, until the page is captured
+   */
+  noteCommitted(tabId: number, url: string, transitionType: string, qualifiers: string[] = []): void {
+    this.committed.set(tabId, { url, transition: transitionFromNavigation(transitionType, qualifiers), at: Date.now() });
+  }
+
+  /**
+   * Start a visit for a captured page, ending whatever was open in the same tab.
+   * Revisits the capture skips as duplicates still raise the page's frecency here.
+   */
+  async startVisit(page: PageContext, nodeId: string, tabId?: number): Promise<VisitEvent> {
+    const now = Date.now();
+    const previous = tabId !== undefined ? await this.storage.getOpenVisit(tabId) : null;
+    if (previous) await this.storage.endVisitEvent(previous.id, now);
+
+    const transition = this.takeTransition(tabId, page, now);
+    const visit: VisitEvent = {
+      id: `visit_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      type: "visit",
+      nodeId,
+      url: page.url,
+      timestamp: now,
+      tabId,
+      transition,
+      referrerNodeId: await this.findReferrer(page, transition, previous, nodeId),
+    };
+    await this.storage.addVisitEvent(visit);
+    // A first visit has no page yet; the capture computes its frecency
+    await refreshFrecency(this.storage, nodeId, now);
+    return visit;
+  }
+
+  /**
+   * End the open visit in a tab (page hidden or tab closed)
+   */
+  async endVisit(tabId: number, at: number = Date.now()): Promise<boolean> {
+    this.committed.delete(tabId);
+    const open = await this.storage.getOpenVisit(tabId);
+    return open ? this.storage.endVisitEvent(open.id, at) : false;
+  }
+
+  async getVisits(nodeId: string, limit?: number): Promise<VisitEvent[]> {
+    return this.storage.getVisitEvents({ nodeId, limit });
+  }
+
+  private takeTransition(tabId: number | undefined, page: PageContext, now: number): VisitTransition {
+    const committed = tabId !== undefined ? this.committed.get(tabId) : undefined;
+    if (committed && committed.url === page.url && now - committed.at < COMMIT_MATCH_MS) {
+      this.committed.delete(tabId!);
+      return committed.transition;
+    }
+    return transitionFromTiming(page.navigation);
+  }
+
+  private async findReferrer(
+    page: PageContext,
+    transition: VisitTransition,
+    previous: VisitEvent | null,
+    nodeId: string
+  ): Promise<string | undefined> {
+    // document.referrer also covers links opened in a new tab
+    if (page.navigation?.referrer) {
+      const referrerId = pageIdForUrl(page.navigation.referrer);
+      if (referrerId !== nodeId && (await this.storage.getMemoryNode(referrerId))) return referrerId;
+    }
+    if (transition === "link" && previous && previous.nodeId !== nodeId) {
+      return previous.nodeId;
+    }
+    return undefined;
+  }
+}
+
+export const visitTracker = new VisitTracker();
@@ -0,0 +1,141 @@
+/**
+ * Test Backends
+ * Fresh storage backends for running services under Node
+ */
+
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import { CortexStorage } from "../utils/storage";
+import { MemoryStorage } from "../utils/memory-storage";
+import { SQLiteStorage } from "../utils/sqlite-storage";
+import { decodeRecord, encodeRecord } from "../utils/sqlite-schema";
+import { ANN_CONFIG_KEY, STORES } from "../utils/migrations";
+import type { StorageBackend, StorageEngine } from "../utils/storage-backend";
+import { ANNIndex, type ANNBucket } from "../utils/vector-search";
+import { MemorySqlClient } from "./sqlite-memory";
+
+const TEST_DB_NAME = "cortex-test";
+
+// The ANN config record the engines save alongside buckets that add up to its checksum
+function annConfigFor(buckets: ANNBucket[]) {
+  const index = new ANNIndex();
+  index.loadBuckets(buckets);
+  return { ...index.getConfig(), checksum: index.checksum() };
+}
+
+export function createMemoryBackend(): StorageBackend {
+  return new MemoryStorage();
+}
+
+/**
+ * CortexStorage on its own fake IndexedDB, so nothing is shared with other tests
+ */
+export function createFakeIndexedDBBackend(): CortexStorage {
+  return new CortexStorage(TEST_DB_NAME, { indexedDB: new IDBFactory(), IDBKeyRange });
+}
+
+/**
+ * SQLiteStorage on its own in-memory database
+ */
+export function createSqliteBackend(): SQLiteStorage {
+  return new SQLiteStorage(new MemorySqlClient());
+}
+
+export const BACKENDS: Array<{ name: string; create: () => StorageBackend }> = [
+  { name: "memory", create: createMemoryBackend },
+  { name: "fake-indexeddb", create: createFakeIndexedDBBackend },
+  { name: "sqlite", create: createSqliteBackend },
+];
+
+/**
+ * A storage engine, and raw access to what it stored (sealed content stays sealed)
+ */
+export interface EngineFixture {
+  storage: StorageEngine;
+  rawPage(id: string): Promise<Record<string, any> | undefined>;
+  annBuckets(): Promise<ANNBucket[]>;
+  // Overwrite the persisted ANN buckets, as a worker that died mid-write might leave them;
+  // with `consistent`, also save their checksum, so only a full verify can tell them apart
+  setAnnBuckets(buckets: ANNBucket[], consistent?: boolean): Promise<void>;
+  // A second engine on the same database, as after a worker restart
+  reopen(): StorageEngine;
+}
+
+function fakeIndexedDBFixture(): EngineFixture {
+  const indexedDB = new IDBFactory();
+  const withStore = <T>(
+    name: string,
+    mode: IDBTransactionMode,
+    use: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const request = indexedDB.open(TEST_DB_NAME);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction([name], mode);
+        const result = use(transaction.objectStore(name));
+        transaction.oncomplete = () => {
+          db.close();
+          resolve(result.result);
+        };
+        transaction.onerror = () => reject(transaction.error);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  const open = () => new CortexStorage(TEST_DB_NAME, { indexedDB, IDBKeyRange });
+
+  return {
+    storage: open(),
+    rawPage: (id) => withStore(STORES.PAGES, "readonly", (store) => store.get(id)),
+    annBuckets: () => withStore(STORES.ANN_BUCKETS, "readonly", (store) => store.getAll()),
+    setAnnBuckets: async (buckets, consistent) => {
+      await withStore(STORES.ANN_BUCKETS, "readwrite", (store) => {
+        const cleared = store.clear();
+        buckets.forEach((bucket) => store.put(bucket));
+        return cleared;
+      });
+      if (consistent) {
+        await withStore(STORES.SETTINGS, "readwrite", (store) => store.put({ key: ANN_CONFIG_KEY, ...annConfigFor(buckets) }));
+      }
+    },
+    reopen: open,
+  };
+}
+
+function sqliteFixture(): EngineFixture {
+  const sql = new MemorySqlClient();
+  return {
+    storage: new SQLiteStorage(sql),
+    rawPage: async (id) => {
+      const [row] = await sql.query<{ record: string }>("SELECT record FROM pages WHERE id = ?", [id]);
+      return row ? decodeRecord(row.record) : undefined;
+    },
+    annBuckets: async () =>
+      (await sql.query<{ hash: number; node_ids: string }>("SELECT hash, node_ids FROM ann_buckets")).map((row) => ({
+        hash: row.hash,
+        nodeIds: JSON.parse(row.node_ids),
+      })),
+    setAnnBuckets: (buckets, consistent) =>
+      sql.run([
+        { sql: "DELETE FROM ann_buckets" },
+        ...buckets.map((bucket) => ({
+          sql: "INSERT INTO ann_buckets (hash, node_ids) VALUES (?, ?)",
+          params: [bucket.hash, JSON.stringify(bucket.nodeIds)],
+        })),
+        ...(consistent
+          ? [
+              {
+                sql: "INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)",
+                params: [ANN_CONFIG_KEY, encodeRecord(annConfigFor(buckets))],
+              },
+            ]
+          : []),
+      ]),
+    reopen: () => new SQLiteStorage(sql),
+  };
+}
+
+// The engines the extension runs on; MemoryStorage has no trash, privacy rules or snapshots
+export const ENGINES: Array<{ name: string; create: () => EngineFixture }> = [
+  { name: "fake-indexeddb", create: fakeIndexedDBFixture },
+  { name: "sqlite", create: sqliteFixture },
+];
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RANKING } from "../services/recall-service";
+import {
+  RELEVANCE_CORPUS,
+  RELEVANCE_JUDGMENTS,
+  buildRelevanceIndex,
+  evaluateRanking,
+  ndcgAt,
+  recallAt,
+  reciprocalRank,
+} from "./relevance-eval";
+
+describe("ranking metrics", () => {
+  const relevant = { a: 2, b: 1 };
+
+  it("scores graded rankings with nDCG", () => {
+    expect(ndcgAt(["a", "b", "x"], relevant, 10)).toBe(1);
+    expect(ndcgAt(["x", "y"], relevant, 10)).toBe(0);
+    // Best page second: (3/log2(3) + 1/log2(4)) / (3 + 1/log2(3))
+    expect(ndcgAt(["b", "a"], relevant, 10)).toBeCloseTo((1 + 3 / Math.log2(3)) / (3 + 1 / Math.log2(3)), 6);
+    expect(ndcgAt(["x", "a", "b"], relevant, 1)).toBe(0);
+  });
+
+  it("computes reciprocal rank and recall@k", () => {
+    expect(reciprocalRank(["x", "b", "a"], relevant)).toBe(0.5);
+    expect(reciprocalRank(["x"], relevant)).toBe(0);
+    expect(recallAt(["x", "b", "a"], relevant, 2)).toBe(0.5);
+    expect(recallAt(["a", "b"], relevant, 10)).toBe(1);
+  });
+});
+
+describe("relevance judgments", () => {
+  it("only name pages in the corpus", () => {
+    const ids = new Set(RELEVANCE_CORPUS.map((page) => page.id));
+    const named = RELEVANCE_JUDGMENTS.flatMap((judgment) => Object.keys(judgment.relevant));
+    expect(named.filter((id) => !ids.has(id))).toEqual([]);
+  });
+
+  it("rank the relevant pages near the top with the default configuration", async () => {
+    const index = await buildRelevanceIndex();
+    const evaluation = await evaluateRanking(index, DEFAULT_RANKING);
+
+    expect(evaluation.queries).toHaveLength(RELEVANCE_JUDGMENTS.length);
+    // Floors below the current scores, so a ranking change that loses relevance fails here
+    expect(evaluation.ndcg).toBeGreaterThan(0.85);
+    expect(evaluation.mrr).toBeGreaterThan(0.85);
+  });
+});
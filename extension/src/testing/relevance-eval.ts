@@ -0,0 +1,179 @@
+/**
+ * Relevance Evaluation
+ * Runs labeled queries through the full recall pipeline under Node and scores the rankings
+ *
+ * The corpus is the seed memories plus the similarity benchmark pages, captured the way
+ * the extension captures a page (keywords, language, embedding, term index). Judgments in
+ * relevance-judgments.json grade pages per query: 2 is what the query is after, 1 is
+ * related. Metrics are nDCG@k (graded), MRR (first page graded above 0) and recall@k.
+ *
+ * Embeddings come from the fallback model, since the ONNX model doesn't load under Node,
+ * so absolute scores are lower than in the browser; compare configurations, not runs.
+ */
+
+import type { StorageBackend } from "../utils/storage-backend";
+import { MemoryStorage } from "../utils/memory-storage";
+import { CaptureService } from "../services/capture-service";
+import { EmbeddingService } from "../services/embedding-service";
+import { RecallService, DEFAULT_RANKING, type RankingConfig } from "../services/recall-service";
+import { SessionService } from "../services/session-service";
+import { SIMILARITY_BENCHMARK } from "./similarity-benchmark";
+import seedMemories from "../data/seed-memories.json";
+import judgments from "./relevance-judgments.json";
+
+export interface RelevancePage {
+  id: string;
+  url: string;
+  title: string;
+  readableText: string;
+}
+
+export interface RelevanceJudgment {
+  query: string;
+  // Fixture page id → grade (2 relevant, 1 partly relevant)
+  relevant: Record<string, number>;
+}
+
+export const RELEVANCE_CORPUS: RelevancePage[] = [
+  ...seedMemories.map(({ id, url, title, readableText }) => ({ id, url, title, readableText })),
+  ...SIMILARITY_BENCHMARK.map(({ id, title, text }) => ({
+    id,
+    url: `https://benchmark.example/${id}`,
+    title,
+    readableText: text,
+  })),
+];
+
+export const RELEVANCE_JUDGMENTS: RelevanceJudgment[] = judgments;
+
+/**
+ * Named ranking configurations to compare against the default
+ */
+export const RANKING_VARIANTS: Record<string, RankingConfig> = {
+  default: DEFAULT_RANKING,
+  // Title and domain matches add nothing
+  "no-boosts": {
+    ...DEFAULT_RANKING,
+    boosts: {
+      exactTitle: 0,
+      titleContainsQuery: 0,
+      allWordsInTitle: 0,
+      someWordsInTitle: 0,
+      domainContainsQuery: 0,
+      domainContainsWord: 0,
+    },
+  },
+  // Every keyword hit starts at 0.5 whatever its BM25 score, as before BM25 scaling
+  "flat-keywords": { ...DEFAULT_RANKING, keywordBase: 0.5, keywordRange: 0 },
+  "low-threshold": { ...DEFAULT_RANKING, threshold: 0.1 },
+  "no-frecency": { ...DEFAULT_RANKING, frecencyWeight: 0 },
+};
+
+const CAPTURED_AT = Date.UTC(2025, 0, 6, 9, 0);
+
+function gain(grade: number): number {
+  return 2 ** grade - 1;
+}
+
+/**
+ * Normalized discounted cumulative gain of the first k results
+ */
+export function ndcgAt(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const dcg = (grades: number[]) =>
+    grades.slice(0, k).reduce((sum, grade, i) => sum + gain(grade) / Math.log2(i + 2), 0);
+  const ideal = dcg(Object.values(relevant).sort((a, b) => b - a));
+  return ideal > 0 ? dcg(ranked.map((id) => relevant[id] || 0)) / ideal : 0;
+}
+
+/**
+ * 1 / rank of the first relevant result, 0 when none is returned
+ */
+export function reciprocalRank(ranked: string[], relevant: Record<string, number>): number {
+  const rank = ranked.findIndex((id) => (relevant[id] || 0) > 0);
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+/**
+ * Share of the relevant pages found in the first k results
+ */
+export function recallAt(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const wanted = Object.keys(relevant).filter((id) => relevant[id] > 0);
+  if (wanted.length === 0) return 0;
+  const found = ranked.slice(0, k).filter((id) => (relevant[id] || 0) > 0).length;
+  return found / wanted.length;
+}
+
+export interface RelevanceIndex {
+  storage: StorageBackend;
+  embeddings: EmbeddingService;
+  // Stored page id → fixture page id
+  fixtureIds: Map<string, string>;
+}
+
+/**
+ * Capture the corpus into fresh storage, once for every configuration compared on it
+ */
+export async function buildRelevanceIndex(
+  pages: RelevancePage[] = RELEVANCE_CORPUS,
+  storage: StorageBackend = new MemoryStorage()
+): Promise<RelevanceIndex> {
+  const embeddings = new EmbeddingService(undefined, undefined, storage);
+  const capture = new CaptureService(storage, new SessionService(storage), undefined, embeddings);
+  const fixtureIds = new Map<string, string>();
+  for (const [i, page] of pages.entries()) {
+    const node = await capture.capture(
+      { url: page.url, title: page.title, readableText: page.readableText, timestamp: CAPTURED_AT },
+      { now: CAPTURED_AT + i * 1000 }
+    );
+    fixtureIds.set(node.id, page.id);
+  }
+  return { storage, embeddings, fixtureIds };
+}
+
+export interface QueryEvaluation {
+  query: string;
+  // Fixture ids of the results, best first
+  ranked: string[];
+  ndcg: number;
+  reciprocalRank: number;
+  recall: number;
+}
+
+export interface RankingEvaluation {
+  queries: QueryEvaluation[];
+  // Means over the queries
+  ndcg: number;
+  mrr: number;
+  recall: number;
+}
+
+/**
+ * Score one ranking configuration on the judgments
+ */
+export async function evaluateRanking(
+  index: RelevanceIndex,
+  ranking: RankingConfig = DEFAULT_RANKING,
+  { k = 10, judgments = RELEVANCE_JUDGMENTS }: { k?: number; judgments?: RelevanceJudgment[] } = {}
+): Promise<RankingEvaluation> {
+  const recall = new RecallService(index.storage, index.embeddings, ranking);
+  const queries: QueryEvaluation[] = [];
+  for (const judgment of judgments) {
+    const result = await recall.search(judgment.query, k);
+    const ranked = result.matches.map((match) => index.fixtureIds.get(match.nodeId) || match.nodeId);
+    queries.push({
+      query: judgment.query,
+      ranked,
+      ndcg: ndcgAt(ranked, judgment.relevant, k),
+      reciprocalRank: reciprocalRank(ranked, judgment.relevant),
+      recall: recallAt(ranked, judgment.relevant, k),
+    });
+  }
+
+  const mean = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  return {
+    queries,
+    ndcg: mean(queries.map((query) => query.ndcg)),
+    mrr: mean(queries.map((query) => query.reciprocalRank)),
+    recall: mean(queries.map((query) => query.recall)),
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Similarity Benchmark
+ * Short pages labeled by topic, for checking that embeddings put related pages closer
+ *
+ * Pages with the same `topic` are related; every other pair is unrelated. The texts
+ * paraphrase each other rather than repeat the same sentences, and some topics share
+ * everyday words ("water", "time", "build") so the benchmark isn't won by word overlap alone.
+ */
+
+export interface BenchmarkPage {
+  id: string;
+  topic: string;
+  title: string;
+  text: string;
+}
+
+export const SIMILARITY_BENCHMARK: BenchmarkPage[] = [
+  {
+    id: "otters-tools",
+    topic: "otters",
+    title: "Sea otters use rocks as tools",
+    text: "Sea otters float on their backs and crack open clams and urchins by smashing them against a rock held on the chest. Otters keep a favourite stone tucked in a pouch of loose skin.",
+  },
+  {
+    id: "otters-sleep",
+    topic: "otters",
+    title: "Why otters hold hands",
+    text: "Resting sea otters wrap themselves in kelp or hold paws so they do not drift apart in the water while they sleep. A group of floating otters is called a raft.",
+  },
+  {
+    id: "otters-river",
+    topic: "otters",
+    title: "River otter habitat",
+    text: "River otters build dens along the banks of rivers and lakes, hunt fish and crayfish, and need clean water. Otter populations recover when rivers are cleaned up.",
+  },
+  {
+    id: "react-hooks",
+    topic: "react",
+    title: "Introducing React hooks",
+    text: "Hooks let function components use state and lifecycle features. useState returns the current state and a setter, and useEffect runs side effects after the component renders.",
+  },
+  {
+    id: "react-effects",
+    topic: "react",
+    title: "Cleaning up effects in React",
+    text: "Return a cleanup function from useEffect to unsubscribe or clear timers before the component unmounts or the effect runs again. Missing dependencies cause stale state in hooks.",
+  },
+  {
+    id: "react-rendering",
+    topic: "react",
+    title: "How React renders components",
+    text: "React compares the new component tree with the previous render and only updates the DOM nodes that changed. State updates in function components schedule a new render.",
+  },
+  {
+    id: "sourdough-starter",
+    topic: "sourdough",
+    title: "Feeding a sourdough starter",
+    text: "Feed the starter equal weights of flour and water every day and keep it at room temperature. A healthy sourdough starter doubles within a few hours and smells pleasantly sour.",
+  },
+  {
+    id: "sourdough-loaf",
+    topic: "sourdough",
+    title: "Baking your first sourdough loaf",
+    text: "Mix flour, water, salt and active starter, stretch and fold the dough during bulk fermentation, shape the loaf and bake it in a hot covered pot for a crisp crust.",
+  },
+  {
+    id: "sourdough-crumb",
+    topic: "sourdough",
+    title: "Getting an open crumb in sourdough bread",
+    text: "Higher hydration dough, a strong starter and gentle shaping give sourdough bread an open crumb. Underproofed loaves bake dense with a tight crumb.",
+  },
+  {
+    id: "mortgage-rates",
+    topic: "mortgages",
+    title: "Fixed or variable mortgage rates",
+    text: "A fixed rate mortgage keeps the same interest rate for the whole term, while a variable rate follows the lender's base rate and can rise or fall over time.",
+  },
+  {
+    id: "mortgage-deposit",
+    topic: "mortgages",
+    title: "How big a deposit do you need for a mortgage",
+    text: "Lenders offer lower interest rates when the deposit is larger. Saving a bigger deposit reduces the loan to value ratio and the monthly mortgage payment.",
+  },
+  {
+    id: "mortgage-overpay",
+    topic: "mortgages",
+    title: "Overpaying your mortgage",
+    text: "Overpaying a mortgage reduces the balance the interest is charged on and shortens the term. Check whether the lender charges a fee for overpayments above ten percent a year.",
+  },
+];
+
+export interface LabeledPair {
+  a: BenchmarkPage;
+  b: BenchmarkPage;
+  related: boolean;
+}
+
+/**
+ * Every unordered pair of benchmark pages with its label
+ */
+export function labeledPairs(pages: BenchmarkPage[] = SIMILARITY_BENCHMARK): LabeledPair[] {
+  const pairs: LabeledPair[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    for (let j = i + 1; j < pages.length; j++) {
+      pairs.push({ a: pages[i], b: pages[j], related: pages[i].topic === pages[j].topic });
+    }
+  }
+  return pairs;
+}
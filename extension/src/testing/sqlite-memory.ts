@@ -0,0 +1,43 @@
+/**
+ * In-Memory SQLite
+ * SqlClient on an in-memory sqlite-wasm database, for running SQLiteStorage under Node
+ *
+ * The same SQLite build the extension's worker loads, so FTS5, the JSON functions and
+ * the aggregates behave as they do in the browser; only the OPFS file is left out.
+ */
+
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+import type { SqlClient, SqlRow, SqlStatement, SqlValue } from "../utils/sqlite-client";
+
+type Sqlite3 = Awaited<ReturnType<typeof sqlite3InitModule>>;
+
+// The WASM module loads once per test file; every client gets its own database
+let sqlite3: Promise<Sqlite3> | null = null;
+
+function loadSqlite(): Promise<Sqlite3> {
+  sqlite3 ??= sqlite3InitModule({ print: () => {}, printErr: (message) => console.warn("sqlite-wasm:", message) });
+  return sqlite3;
+}
+
+export class MemorySqlClient implements SqlClient {
+  private db = loadSqlite().then((sqlite) => {
+    const db = new sqlite.oo1.DB(":memory:");
+    db.exec("PRAGMA foreign_keys = ON;");
+    return db;
+  });
+
+  async query<R extends SqlRow = SqlRow>(sql: string, params: SqlValue[] = []): Promise<R[]> {
+    const db = await this.db;
+    return db.exec({ sql, bind: params, rowMode: "object", returnValue: "resultRows" }) as R[];
+  }
+
+  async run(statements: SqlStatement[]): Promise<void> {
+    if (statements.length === 0) return;
+    const db = await this.db;
+    db.transaction(() => {
+      for (const statement of statements) {
+        db.exec({ sql: statement.sql, bind: statement.params });
+      }
+    });
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Content Encryption
+ * WebCrypto helpers for sealing page content at rest
+ *
+ * Pages are encrypted with a random AES-GCM data key. That key is never stored
+ * in the clear: it is wrapped once with a key derived from the user's
+ * passphrase (PBKDF2-SHA256) and once with a key derived from a random
+ * recovery key (HKDF-SHA256), so either secret can unlock the data.
+ */
+
+export interface SealedValue {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export interface WrappedKey {
+  salt: Uint8Array<ArrayBuffer>;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// OWASP 2023 recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+const RECOVERY_KEY_BYTES = 20;
+// Crockford base32: no I, L, O or U, so a written-down key is hard to misread
+const RECOVERY_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function randomBytes(length: number): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+/**
+ * Fresh AES-GCM data key (extractable so it can be wrapped)
+ */
+export function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+}
+
+async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function deriveRecoveryKey(recoveryKey: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", decodeRecoveryKey(recoveryKey), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: encoder.encode("cortex-recovery") },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["wrapKey", "unwrapKey"]
+  );
+}
+
+async function wrapWith(
+  dataKey: CryptoKey,
+  wrappingKey: CryptoKey,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<WrappedKey> {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.wrapKey("raw", dataKey, wrappingKey, { name: "AES-GCM", iv });
+  return { salt, iv, data };
+}
+
+function unwrapWith(wrapped: WrappedKey, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    "raw",
+    wrapped.data,
+    wrappingKey,
+    { name: "AES-GCM", iv: wrapped.iv },
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function wrapWithPassphrase(
+  dataKey: CryptoKey,
+  passphrase: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_BYTES);
+  return wrapWith(dataKey, await derivePassphraseKey(passphrase, salt, iterations), salt);
+}
+
+/**
+ * Rejects when the passphrase is wrong (AES-GCM authentication fails)
+ */
+export async function unwrapWithPassphrase(
+  wrapped: WrappedKey,
+  passphrase: string,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  return unwrapWith(wrapped, await derivePassphraseKey(passphrase, wrapped.salt, iterations));
+}
+
+export async function wrapWithRecoveryKey(dataKey: CryptoKey, recoveryKey: string): Promise<WrappedKey> {
+  const salt = randomBytes(SALT_BYTES);
+  return wrapWith(dataKey, await deriveRecoveryKey(recoveryKey, salt), salt);
+}
+
+export async function unwrapWithRecoveryKey(wrapped: WrappedKey, recoveryKey: string): Promise<CryptoKey> {
+  return unwrapWith(wrapped, await deriveRecoveryKey(recoveryKey, wrapped.salt));
+}
+
+/**
+ * Random recovery key formatted for writing down, e.g. "7K3M-Q9D2-..."
+ */
+export function generateRecoveryKey(): string {
+  const bytes = randomBytes(RECOVERY_KEY_BYTES);
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += RECOVERY_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  return output.match(/.{1,4}/g)!.join("-");
+}
+
+function decodeRecoveryKey(recoveryKey: string): Uint8Array<ArrayBuffer> {
+  const symbols = recoveryKey.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const symbol of symbols) {
+    const index = RECOVERY_ALPHABET.indexOf(symbol);
+    if (index < 0) throw new Error("Invalid recovery key");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  if (bytes.length !== RECOVERY_KEY_BYTES) throw new Error("Invalid recovery key");
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encrypt a JSON value. `context` (e.g. the record id) is bound as additional data,
+ * so a ciphertext copied onto another record fails to open.
+ */
+export async function sealJSON(key: CryptoKey, value: unknown, context: string): Promise<SealedValue> {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: encoder.encode(context) },
+    key,
+    encoder.encode(JSON.stringify(value))
+  );
+  return { iv, data };
+}
+
+export async function openJSON<T>(key: CryptoKey, sealed: SealedValue, context: string): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: sealed.iv, additionalData: encoder.encode(context) },
+    key,
+    sealed.data
+  );
+  return JSON.parse(decoder.decode(plaintext)) as T;
+}
+
+export async function exportDataKey(key: CryptoKey): Promise<ArrayBuffer> {
+  return crypto.subtle.exportKey("raw", key);
+}
+
+export function importDataKey(raw: ArrayBuffer | Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+}
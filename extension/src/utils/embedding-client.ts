@@ -0,0 +1,36 @@
+/**
+ * Embedding Client
+ * Asks the embedding worker for sentence embeddings from the packaged model
+ *
+ * The worker runs all-MiniLM-L6-v2 with transformers.js inside the offscreen
+ * document. Model files ship with the extension under `models/`; nothing is
+ * downloaded at runtime.
+ */
+
+import { OffscreenChannelClient } from "./offscreen";
+
+export const EMBEDDING_CHANNEL = "cortex-embedding";
+// Path of the model below `models/` in the extension package
+export const SENTENCE_MODEL_ID = "Xenova/all-MiniLM-L6-v2";
+export const SENTENCE_MODEL_DIMENSION = 384;
+
+export type EmbeddingRequest =
+  | { id: string; kind: "open" }
+  | { id: string; kind: "embed"; texts: string[] };
+
+// Loading and compiling the model on first use takes a few seconds
+const OPEN_TIMEOUT_MS = 60_000;
+
+export class OffscreenEmbeddingClient extends OffscreenChannelClient<EmbeddingRequest> {
+  constructor() {
+    super(EMBEDDING_CHANNEL, "Embedding worker", { open: OPEN_TIMEOUT_MS });
+  }
+
+  /**
+   * Mean-pooled, normalized embeddings, one per text
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    return (await this.send((id) => ({ id, kind: "embed", texts }))) as number[][];
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Embedding Model Registry
+ * The models Cortex can embed with, and which model produced a stored vector
+ *
+ * Vectors from different models (or versions of one model) live in different
+ * spaces, so every embedding records the model id and version that produced it and
+ * only vectors with the same model key are ever compared.
+ */
+
+import type { Embedding, EmbeddingModelInfo } from "@shared/extension-types";
+
+export const SENTENCE_MODEL: EmbeddingModelInfo = {
+  id: "all-MiniLM-L6-v2",
+  version: 1,
+  dimension: 384,
+  kind: "onnx-sentence",
+  label: "MiniLM sentence model (on-device)",
+};
+
+// Version 2 replaced whole-string hashes with word and character n-gram features;
+// version 3 segments and stems words for the page's language
+export const FALLBACK_MODEL: EmbeddingModelInfo = {
+  id: "hash-fallback",
+  version: 3,
+  dimension: 384,
+  kind: "fallback",
+  label: "Word and character features (no model)",
+};
+
+export const EMBEDDING_MODELS: EmbeddingModelInfo[] = [SENTENCE_MODEL, FALLBACK_MODEL];
+
+export class EmbeddingModelMismatchError extends Error {
+  constructor(a: string, b: string) {
+    super(`Cannot compare embeddings from different models (${a} and ${b})`);
+    this.name = "EmbeddingModelMismatchError";
+  }
+}
+
+export function getEmbeddingModel(id: string): EmbeddingModelInfo | undefined {
+  return EMBEDDING_MODELS.find((model) => model.id === id);
+}
+
+export function modelKey(model: Pick<EmbeddingModelInfo, "id" | "version">): string {
+  return `${model.id}@${model.version}`;
+}
+
+/**
+ * Key of the model that produced an embedding. Embeddings stored before the registry
+ * only have `model`; each kind had exactly one model then, at version 1.
+ */
+export function embeddingModelKey(embedding: Pick<Embedding, "model" | "modelId" | "modelVersion">): string {
+  if (embedding.modelId) return modelKey({ id: embedding.modelId, version: embedding.modelVersion ?? 1 });
+  const legacy = EMBEDDING_MODELS.find((model) => model.kind === embedding.model);
+  return legacy ? modelKey({ id: legacy.id, version: 1 }) : `${embedding.model}@1`;
+}
+
+/**
+ * Fields an embedding from `model` carries
+ */
+export function embeddingFields(model: EmbeddingModelInfo): Pick<Embedding, "model" | "modelId" | "modelVersion"> {
+  return { model: model.kind, modelId: model.id, modelVersion: model.version };
+}
+
+/**
+ * Throws unless both embeddings come from the same model and version
+ */
+export function assertSameModel(
+  a: Pick<Embedding, "model" | "modelId" | "modelVersion">,
+  b: Pick<Embedding, "model" | "modelId" | "modelVersion">
+): void {
+  const keyA = embeddingModelKey(a);
+  const keyB = embeddingModelKey(b);
+  if (keyA !== keyB) throw new EmbeddingModelMismatchError(keyA, keyB);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { TermStatistics, generateEmbedding } from "./embedding";
+import { cosineSimilarity } from "./vector-search";
+import { SIMILARITY_BENCHMARK, labeledPairs } from "../testing/similarity-benchmark";
+
+const stats = TermStatistics.fromDocuments(SIMILARITY_BENCHMARK);
+const vectors = new Map(
+  SIMILARITY_BENCHMARK.map((page) => [page.id, generateEmbedding(page.text, page.title, [], stats).vector])
+);
+
+function similarity(a: string, b: string): number {
+  return cosineSimilarity(vectors.get(a)!, vectors.get(b)!);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+describe("lexical fallback embeddings", () => {
+  it("puts every benchmark page nearest to a page on the same topic", () => {
+    for (const page of SIMILARITY_BENCHMARK) {
+      const [nearest] = SIMILARITY_BENCHMARK.filter((other) => other !== page).sort(
+        (a, b) => similarity(page.id, b.id) - similarity(page.id, a.id)
+      );
+      expect(nearest.topic, page.id).toBe(page.topic);
+    }
+  });
+
+  it("scores related pairs above unrelated ones", () => {
+    const pairs = labeledPairs().map((pair) => ({ ...pair, score: similarity(pair.a.id, pair.b.id) }));
+    const related = pairs.filter((pair) => pair.related).map((pair) => pair.score);
+    const unrelated = pairs.filter((pair) => !pair.related).map((pair) => pair.score);
+
+    // Share of (related, unrelated) pairs ranked the right way round
+    const ordered = related.flatMap((r) => unrelated.map((u) => (r > u ? 1 : 0)));
+    expect(mean(ordered)).toBeGreaterThanOrEqual(0.95);
+    expect(mean(related) - mean(unrelated)).toBeGreaterThan(0.15);
+  });
+
+  it("gives pages that share most of their words similar vectors", () => {
+    const text = "Sea otters float on their backs and crack open clams by smashing them against a rock held on the chest.";
+    const edited = text.replace("clams", "mussels");
+    const a = generateEmbedding(text, "Sea otters", [], stats).vector;
+    const b = generateEmbedding(edited, "Sea otters", [], stats).vector;
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(0.85);
+  });
+
+  it("matches word forms through character n-grams", () => {
+    const query = generateEmbedding("otter", "", [], stats).vector;
+    const otterPages = SIMILARITY_BENCHMARK.filter((page) => page.topic === "otters");
+    const otherPages = SIMILARITY_BENCHMARK.filter((page) => page.topic !== "otters");
+    const best = (pages: typeof SIMILARITY_BENCHMARK) => Math.max(...pages.map((page) => cosineSimilarity(query, vectors.get(page.id)!)));
+    expect(best(otterPages)).toBeGreaterThan(best(otherPages) + 0.1);
+  });
+
+  it("weights rare terms above common ones and survives a snapshot", () => {
+    expect(stats.idf("sourdough")).toBeGreaterThan(stats.idf("water"));
+    expect(stats.idf("unseen")).toBeGreaterThan(stats.idf("sourdough"));
+
+    const restored = TermStatistics.fromSnapshot(JSON.parse(JSON.stringify(stats.toSnapshot())));
+    expect(restored.documentCount).toBe(SIMILARITY_BENCHMARK.length);
+    expect(restored.idf("water")).toBe(stats.idf("water"));
+  });
+
+  it("is normalized, 384-dimensional and tagged with the fallback model", () => {
+    const { vector, modelId, modelVersion } = generateEmbedding("Beavers build dams", "Beavers");
+    expect(vector).toHaveLength(384);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+    expect({ modelId, modelVersion }).toEqual({ modelId: "hash-fallback", modelVersion: 3 });
+  });
+});
@@ -1,58 +1,147 @@
 /**
  * Embedding Utilities
- * Generates semantic embeddings for pages using deterministic text features
- * 
+ * Lexical fallback embeddings: hashed word and character n-gram features with TF-IDF weights
+ *
  * dimension: 384
+ * Used when the sentence model (see services/embedding-service.ts) is unavailable.
+ * Each word adds a signed feature for itself and smaller ones for its character
+ * 4-grams, weighted by sublinear term frequency and by inverse document frequency
+ * learned from the local corpus (`TermStatistics`). Pages that share most of their
+ * words therefore get similar vectors, and "otter" still lands near "otters".
  */
 
-export interface EmbeddingResult {
-  vector: number[];
-  model: "fallback";
+import type { Embedding } from "@shared/extension-types";
+import { FALLBACK_MODEL, embeddingFields } from "./embedding-models";
+import { tokenize } from "./text-index";
+import { detectLanguage } from "@/lib/language";
+
+// An embedding before it gets its timestamp
+export type EmbeddingResult = Omit<Embedding, "timestamp">;
+
+const DIM = 384;
+// Page text the fallback reads; enough for the gist, cheap to hash
+const TEXT_CHARS = 5000;
+// A title word counts as much as two body words
+const TITLE_WEIGHT = 2;
+const KEYWORD_WEIGHT = 1;
+// Share of a word's weight spread over its character 4-grams
+const CHAR_NGRAM_WEIGHT = 0.6;
+const CHAR_NGRAM_SIZE = 4;
+// Pseudo-documents containing every term, so a small corpus doesn't make one-off words dominate
+const IDF_PRIOR = 5;
+// Most frequent terms kept in the persisted statistics; the rest count as rare
+const MAX_TERMS = 10000;
+
+export interface TermStatisticsSnapshot {
+  documents: number;
+  // Number of documents each term appears in
+  terms: Record<string, number>;
+}
+
+/**
+ * Document frequencies of the local corpus, for IDF weights
+ */
+export class TermStatistics {
+  private documents = 0;
+  private frequencies = new Map<string, number>();
+
+  static fromSnapshot(snapshot: TermStatisticsSnapshot): TermStatistics {
+    const stats = new TermStatistics();
+    stats.documents = snapshot.documents;
+    stats.frequencies = new Map(Object.entries(snapshot.terms));
+    return stats;
+  }
+
+  static fromDocuments(documents: Array<{ text: string; title?: string; keywords?: string[] }>): TermStatistics {
+    const stats = new TermStatistics();
+    documents.forEach(({ text, title, keywords }) => stats.addDocument(text, title, keywords));
+    return stats;
+  }
+
+  get documentCount(): number {
+    return this.documents;
+  }
+
+  addDocument(text: string, title: string = "", keywords: string[] = []): void {
+    const terms = new Set(documentTerms(text, title, keywords).keys());
+    terms.forEach((term) => this.frequencies.set(term, (this.frequencies.get(term) || 0) + 1));
+    this.documents++;
+  }
+
+  /**
+   * Smoothed IDF; 1 for every term while the corpus is empty
+   */
+  idf(term: string): number {
+    return Math.log((IDF_PRIOR + this.documents) / (IDF_PRIOR + (this.frequencies.get(term) || 0))) + 1;
+  }
+
+  toSnapshot(): TermStatisticsSnapshot {
+    const terms = Array.from(this.frequencies.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TERMS);
+    return { documents: this.documents, terms: Object.fromEntries(terms) };
+  }
 }
 
 /**
- * Enhanced fallback embedding generator
- * Creates deterministic, meaningful vectors based on text features
+ * Weighted term counts of a document (title and keywords count extra)
+ */
+function documentTerms(text: string, title: string, keywords: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (tokens: string[], weight: number) =>
+    tokens.forEach((token) => counts.set(token, (counts.get(token) || 0) + weight));
+  const body = text.slice(0, TEXT_CHARS);
+  const language = detectLanguage(`${title} ${body}`);
+  add(tokenize(body, language), 1);
+  add(tokenize(title, language), TITLE_WEIGHT);
+  add(tokenize(keywords.join(" "), language), KEYWORD_WEIGHT);
+  return counts;
+}
+
+// FNV-1a, 32-bit
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Signed hashing: collisions cancel out on average instead of piling up
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = hashFeature(feature);
+  vector[hash % DIM] += hash & 0x80000000 ? -weight : weight;
+}
+
+function characterNgrams(term: string): string[] {
+  const padded = `<${term}>`;
+  if (padded.length <= CHAR_NGRAM_SIZE) return [padded];
+  const grams: string[] = [];
+  for (let i = 0; i + CHAR_NGRAM_SIZE <= padded.length; i++) {
+    grams.push(padded.slice(i, i + CHAR_NGRAM_SIZE));
+  }
+  return grams;
+}
+
+/**
+ * Lexical fallback embedding. Without `stats` every term has the same IDF.
  */
 export function generateEmbedding(
   text: string,
   title: string = "",
-  keywords: string[] = []
+  keywords: string[] = [],
+  stats?: TermStatistics
 ): EmbeddingResult {
-  const DIM = 384; // Standard embedding dimension
   const vector: number[] = new Array(DIM).fill(0);
 
-  // Combine text sources for single pass processing
-  const textSample = text.slice(0, 1000).toLowerCase();
-  const titleLow = title.toLowerCase();
-  const keywordsStr = keywords.join(" ").toLowerCase();
-  
-  // Single pass to generate seed hashes
-  const hashString = (str: string, seed: number = 0) => {
-    let h = seed;
-    for (let i = 0; i < str.length; i++) {
-      h = ((h << 5) - h + str.charCodeAt(i)) | 0;
-    }
-    return h;
-  };
+  for (const [term, count] of documentTerms(text, title, keywords)) {
+    const weight = (1 + Math.log(count)) * (stats ? stats.idf(term) : 1);
+    addFeature(vector, `w:${term}`, weight);
 
-  // Generate a set of base hashes from different inputs
-  const baseHashes = [
-    hashString(titleLow, 123),
-    hashString(keywordsStr, 456),
-    hashString(textSample.slice(0, 500), 789),
-    hashString(textSample.slice(500, 1000), 321),
-    hashString(titleLow + keywordsStr, 654)
-  ];
-
-  // Derive the 384 dimensions from base hashes using a fast deterministic function
-  for (let i = 0; i < DIM; i++) {
-    const hashIdx = i % baseHashes.length;
-    const baseHash = baseHashes[hashIdx];
-    const mix = hashString(i.toString(), baseHash);
-    
-    // Use trig functions for smooth distribution as before, but on pre-mixed values
-    vector[i] = Math.sin(mix / 1000) * 0.8 + Math.cos((mix ^ i) / 500) * 0.2;
+    const grams = characterNgrams(term);
+    const gramWeight = (weight * CHAR_NGRAM_WEIGHT) / Math.sqrt(grams.length);
+    grams.forEach((gram) => addFeature(vector, `c:${gram}`, gramWeight));
   }
 
   // Normalize vector
@@ -65,7 +154,6 @@ export function generateEmbedding(
 
   return {
     vector,
-    model: "fallback"
+    ...embeddingFields(FALLBACK_MODEL),
   };
 }
-
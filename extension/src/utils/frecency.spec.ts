@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { computeFrecency, currentFrecency, frecencyScore, FRECENCY_SAMPLES } from "./frecency";
+
+const now = Date.UTC(2025, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("frecency", () => {
+  it("scores visits by age bucket and how the page was reached", () => {
+    expect(computeFrecency(1, [{ timestamp: now - DAY, transition: "link" }], now)).toBe(100);
+    expect(computeFrecency(1, [{ timestamp: now - 10 * DAY, transition: "link" }], now)).toBe(70);
+    expect(computeFrecency(1, [{ timestamp: now - 400 * DAY, transition: "link" }], now)).toBe(10);
+    expect(computeFrecency(1, [{ timestamp: now - DAY, transition: "typed" }], now)).toBe(200);
+    expect(computeFrecency(1, [{ timestamp: now - DAY, transition: "reload" }], now)).toBe(0);
+    // No recorded visit: one visit now
+    expect(computeFrecency(1, [], now)).toBe(100);
+  });
+
+  it("scales the sampled visits up to the total visit count", () => {
+    const daily = Array.from({ length: 30 }, (_, i) => ({ timestamp: now - i * DAY, transition: "link" as const }));
+    // Only the ten newest visits are scored; they fall in the first two age buckets
+    const sampled = daily.slice(0, FRECENCY_SAMPLES);
+    const points = sampled.reduce((sum, visit) => sum + ((now - visit.timestamp) / DAY <= 4 ? 100 : 70), 0);
+    expect(computeFrecency(30, daily, now)).toBe(Math.round((30 * points) / FRECENCY_SAMPLES));
+    expect(computeFrecency(30, daily, now)).toBeGreaterThan(computeFrecency(1, [daily[0]], now) * 20);
+  });
+
+  it("decays a stored frecency from when it was computed", () => {
+    const stored = { frecency: 400, frecencyAt: now - 30 * DAY, timestamp: now - 60 * DAY };
+    expect(currentFrecency(stored, now)).toBeCloseTo(200);
+    // Pages saved before frecency count as one visit at capture
+    expect(currentFrecency({ timestamp: now }, now)).toBe(100);
+    expect(frecencyScore({ timestamp: now }, now)).toBe(0.5);
+    expect(frecencyScore(stored, now)).toBeGreaterThan(frecencyScore({ timestamp: now - 300 * DAY }, now));
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Frecency
+ * How often and how recently a page was visited, as one number (after Firefox's places frecency)
+ *
+ * Up to FRECENCY_SAMPLES recent visits each score by age bucket (100 for the last four days
+ * down to 10 past three months), weighted by how the page was reached: typed addresses count
+ * double, reloads not at all. The mean visit score times the total number of visits is the
+ * frecency. It is computed on every capture and visit and stored with the time it was
+ * computed; readers decay it from then on, so a page nobody opens any more sinks without
+ * being rewritten.
+ */
+
+import type { MemoryNode, VisitEvent, VisitTransition } from "@shared/extension-types";
+import type { StorageBackend } from "./storage-backend";
+
+export const FRECENCY_SAMPLES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const AGE_BUCKETS: Array<{ days: number; weight: number }> = [
+  { days: 4, weight: 100 },
+  { days: 14, weight: 70 },
+  { days: 31, weight: 50 },
+  { days: 90, weight: 30 },
+];
+const OLDEST_WEIGHT = 10;
+
+const TRANSITION_BONUS: Record<VisitTransition, number> = {
+  typed: 2,
+  link: 1,
+  back_forward: 1,
+  other: 1,
+  reload: 0,
+};
+
+// A stored frecency halves every 30 days without a visit
+const HALF_LIFE_MS = 30 * DAY_MS;
+
+// Frecency at which frecencyScore() is 0.5: one fresh visit
+const SCORE_MIDPOINT = 100;
+
+type VisitSample = Pick<VisitEvent, "timestamp" | "transition">;
+
+function ageWeight(ageMs: number): number {
+  const days = ageMs / DAY_MS;
+  return AGE_BUCKETS.find((bucket) => days <= bucket.days)?.weight ?? OLDEST_WEIGHT;
+}
+
+/**
+ * Frecency of a page with `visitCount` visits in all, from its most recent visits
+ */
+export function computeFrecency(visitCount: number, visits: VisitSample[], now: number): number {
+  const samples = [...visits].sort((a, b) => b.timestamp - a.timestamp).slice(0, FRECENCY_SAMPLES);
+  // A page captured without a recorded visit (seed pages, or the visit is still being written)
+  if (samples.length === 0) samples.push({ timestamp: now, transition: "other" });
+
+  const points = samples.reduce(
+    (sum, visit) => sum + ageWeight(Math.max(0, now - visit.timestamp)) * TRANSITION_BONUS[visit.transition],
+    0
+  );
+  return Math.round((Math.max(visitCount, samples.length) * points) / samples.length);
+}
+
+/**
+ * A page's frecency as of `now`. Pages saved before frecency was kept count as one visit at capture.
+ */
+export function currentFrecency(node: Pick<MemoryNode, "frecency" | "frecencyAt" | "timestamp">, now: number): number {
+  const frecency = node.frecency ?? computeFrecency(1, [], node.timestamp);
+  const since = Math.max(0, now - (node.frecencyAt ?? node.timestamp));
+  return frecency * Math.pow(0.5, since / HALF_LIFE_MS);
+}
+
+/**
+ * Frecency mapped onto [0, 1) for blending with similarity scores
+ */
+export function frecencyScore(node: Pick<MemoryNode, "frecency" | "frecencyAt" | "timestamp">, now: number): number {
+  const frecency = currentFrecency(node, now);
+  return frecency / (frecency + SCORE_MIDPOINT);
+}
+
+/**
+ * Recompute and store a page's frecency from its visit history; false when the page isn't stored
+ */
+export async function refreshFrecency(storage: StorageBackend, nodeId: string, now: number = Date.now()): Promise<boolean> {
+  const [node, visits] = await Promise.all([storage.getMemoryNode(nodeId), storage.getVisitEvents({ nodeId })]);
+  if (!node) return false;
+  return storage.setFrecency(nodeId, computeFrecency(Math.max(node.visitCount || 1, visits.length), visits, now), now);
+}
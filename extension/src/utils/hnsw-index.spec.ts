@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import { HNSWIndex } from "./hnsw-index";
+import { BruteForceIndex, createSeededRandom } from "./vector-search";
+
+const DIM = 32;
+
+// Gaussian-ish clusters, like the benchmark's corpora but small enough for a unit test
+function corpus(size: number, seed = 7): Array<[string, number[]]> {
+  const random = createSeededRandom(seed);
+  const centers = Array.from({ length: 8 }, () => Array.from({ length: DIM }, () => random() * 2 - 1));
+  return Array.from({ length: size }, (_, i) => {
+    const center = centers[i % centers.length];
+    return [`n${i}`, center.map((value) => value + (random() - 0.5) * 0.6)];
+  });
+}
+
+function build(vectors: Array<[string, number[]]>, config = { M: 6, efConstruction: 40 }): HNSWIndex {
+  const index = new HNSWIndex(config);
+  vectors.forEach(([id, vector]) => index.add(id, vector));
+  return index;
+}
+
+function recallAt10(index: HNSWIndex, vectors: Array<[string, number[]]>, queries: number[][]): number {
+  const exact = new BruteForceIndex();
+  vectors.forEach(([id, vector]) => exact.add(id, vector));
+  let found = 0;
+  for (const query of queries) {
+    const expected = new Set(exact.search(query, 10, -1).map((hit) => hit.nodeId));
+    found += index.search(query, 10, -1).filter((hit) => expected.has(hit.nodeId)).length;
+  }
+  return found / (queries.length * 10);
+}
+
+describe("HNSWIndex", () => {
+  const vectors = corpus(400);
+  // Points near the stored ones, as a query about a page's topic would be
+  const noise = createSeededRandom(99);
+  const queries = vectors.slice(0, 20).map(([, vector]) => vector.map((value) => value + (noise() - 0.5) * 0.4));
+
+  it("finds nearly the same neighbors as an exact search", () => {
+    const index = build(vectors);
+    expect(index.size).toBe(400);
+    expect(recallAt10(index, vectors, queries)).toBeGreaterThan(0.9);
+    expect(index.search(vectors[5][1], 1)[0]).toMatchObject({ nodeId: "n5" });
+  });
+
+  it("keeps every neighbor list within its cap and pruning slack", () => {
+    const { nodes } = build(vectors).toJSON();
+    for (const node of nodes) {
+      node.neighbors.forEach((links, layer) => {
+        // 2M on layer 0 and M above, plus half again before a prune
+        expect(links.length).toBeLessThanOrEqual(layer === 0 ? 18 : 9);
+        expect(new Set(links).size).toBe(links.length);
+        expect(links).not.toContain(node.id);
+      });
+    }
+  });
+
+  it("repairs the graph around removed nodes", () => {
+    const index = build(vectors);
+    const removed = vectors.filter((_, i) => i % 3 === 0).map(([id]) => id);
+    // Include the entry point, so a new one has to be chosen
+    const entryPoint = index.toJSON().entryPoint!;
+    [...removed, entryPoint].forEach((id) => index.remove(id));
+    const gone = new Set([...removed, entryPoint]);
+    const remaining = vectors.filter(([id]) => !gone.has(id));
+
+    const serialized = index.toJSON();
+    expect(index.size).toBe(remaining.length);
+    expect(serialized.entryPoint).not.toBeNull();
+    expect(gone.has(serialized.entryPoint!)).toBe(false);
+    for (const node of serialized.nodes) {
+      node.neighbors.forEach((links) => links.forEach((id) => expect(gone.has(id)).toBe(false)));
+      expect(node.neighbors[0].length).toBeGreaterThan(0);
+    }
+    expect(index.has(removed[0])).toBe(false);
+    expect(recallAt10(index, remaining, queries)).toBeGreaterThan(0.9);
+    // Every remaining page can still be reached from the entry point
+    for (const [id, vector] of remaining.slice(0, 50)) {
+      expect(index.search(vector, 1)[0].nodeId).toBe(id);
+    }
+
+    remaining.forEach(([id]) => index.remove(id));
+    expect(index.size).toBe(0);
+    expect(index.search(vectors[0][1], 5)).toEqual([]);
+  });
+
+  it("unlinks removed nodes from an index restored with fromJSON", () => {
+    const restored = HNSWIndex.fromJSON(JSON.parse(JSON.stringify(build(vectors).toJSON())));
+    const removed = new Set(vectors.filter((_, i) => i % 4 === 0).map(([id]) => id));
+    removed.forEach((id) => restored.remove(id));
+
+    for (const node of restored.toJSON().nodes) {
+      node.neighbors.forEach((links) => links.forEach((id) => expect(removed.has(id)).toBe(false)));
+    }
+    expect(recallAt10(restored, vectors.filter(([id]) => !removed.has(id)), queries)).toBeGreaterThan(0.9);
+  });
+
+  it("re-adding a node replaces its vector", () => {
+    const index = build(vectors.slice(0, 50));
+    index.add("n1", vectors[2][1]);
+    expect(index.size).toBe(50);
+    expect(index.search(vectors[2][1], 2).map((hit) => hit.nodeId).sort()).toEqual(["n1", "n2"]);
+  });
+
+  it("round-trips through toJSON and keeps building the same graph", () => {
+    const original = build(vectors.slice(0, 300));
+    const restored = HNSWIndex.fromJSON(JSON.parse(JSON.stringify(original.toJSON())));
+
+    expect(restored.getConfig()).toEqual(original.getConfig());
+    expect(restored.toJSON()).toEqual(original.toJSON());
+    for (const query of queries) {
+      expect(restored.search(query, 10)).toEqual(original.search(query, 10));
+    }
+
+    // Inserts after a restore draw the same levels as they would have without one
+    vectors.slice(300).forEach(([id, vector]) => {
+      original.add(id, vector);
+      restored.add(id, vector);
+    });
+    expect(restored.toJSON()).toEqual(original.toJSON());
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * HNSW Vector Index
+ * Hierarchical Navigable Small World graph for approximate nearest neighbor search
+ *
+ * Based on Malkov & Yashunin (2016). Vectors are normalized on insert so that
+ * similarity is a plain dot product; results use the same cosine scale as
+ * `BruteForceIndex` and `ANNIndex`.
+ */
+
+import { createSeededRandom, type VectorIndex } from "./vector-search";
+
+export interface HNSWConfig {
+  /** Max neighbors per node on upper layers (layer 0 allows 2 * M) */
+  M: number;
+  /** Candidate list size while inserting - higher builds a better graph, slower */
+  efConstruction: number;
+  /** Candidate list size while searching - higher improves recall, slower */
+  efSearch: number;
+  /** Seed for level generation so builds are reproducible */
+  seed: number;
+}
+
+export interface SerializedHNSWIndex {
+  config: HNSWConfig;
+  entryPoint: string | null;
+  maxLevel: number;
+  nodes: Array<{ id: string; level: number; vector: number[]; neighbors: string[][] }>;
+}
+
+interface HNSWNode {
+  id: string;
+  level: number;
+  vector: Float32Array;
+  neighbors: string[][];
+  /** Nodes whose neighbor lists hold this one, per layer; lets remove() skip a full scan */
+  inbound: Set<string>[];
+}
+
+interface Candidate {
+  id: string;
+  similarity: number;
+}
+
+export const DEFAULT_HNSW_CONFIG: HNSWConfig = {
+  M: 16,
+  efConstruction: 200,
+  efSearch: 64,
+  seed: 0x4e5f,
+};
+
+// How far past maxNeighbors a node's links may grow before they are pruned
+const PRUNE_SLACK = 1.5;
+
+/**
+ * Minimal binary heap; `before(a, b)` is true when a should be popped first
+ */
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return out;
+  for (let i = 0; i < vector.length; i++) out[i] = vector[i] / norm;
+  return out;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const length = a.length;
+  if (length !== b.length) return 0;
+  // Unrolled by four: this is the hot loop of both insert and search
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+  let i = 0;
+  for (; i + 3 < length; i += 4) {
+    s0 += a[i] * b[i];
+    s1 += a[i + 1] * b[i + 1];
+    s2 += a[i + 2] * b[i + 2];
+    s3 += a[i + 3] * b[i + 3];
+  }
+  for (; i < length; i++) s0 += a[i] * b[i];
+  return s0 + s1 + s2 + s3;
+}
+
+export class HNSWIndex implements VectorIndex {
+  private nodes: Map<string, HNSWNode> = new Map();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private random: () => number;
+  private readonly config: HNSWConfig;
+  private readonly levelMultiplier: number;
+
+  constructor(config: Partial<HNSWConfig> = {}) {
+    this.config = { ...DEFAULT_HNSW_CONFIG, ...config };
+    this.levelMultiplier = 1 / Math.log(Math.max(2, this.config.M));
+    this.random = createSeededRandom(this.config.seed);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  getConfig(): HNSWConfig {
+    return { ...this.config };
+  }
+
+  setEfSearch(efSearch: number): void {
+    this.config.efSearch = efSearch;
+  }
+
+  has(nodeId: string): boolean {
+    return this.nodes.has(nodeId);
+  }
+
+  add(nodeId: string, vector: number[]): void {
+    if (this.nodes.has(nodeId)) {
+      this.remove(nodeId);
+    }
+
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    const node: HNSWNode = {
+      id: nodeId,
+      level,
+      vector: normalize(vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      inbound: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    this.nodes.set(nodeId, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = nodeId;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(node.vector, current, layer);
+    }
+
+    let entryPoints = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.config.efConstruction, layer);
+      const neighbors = this.selectNeighbors(node.vector, candidates, this.maxNeighbors(layer));
+      this.setNeighbors(node, layer, neighbors.map((c) => c.id));
+
+      for (const neighbor of neighbors) {
+        this.connect(neighbor.id, nodeId, layer);
+      }
+      entryPoints = candidates.map((c) => c.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = nodeId;
+    }
+  }
+
+  search(
+    queryVector: number[],
+    k: number = 10,
+    threshold: number = 0
+  ): Array<{ nodeId: string; similarity: number }> {
+    if (this.entryPoint === null) return [];
+    const query = normalize(queryVector);
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(query, current, layer);
+    }
+
+    return this.searchLayer(query, [current], Math.max(this.config.efSearch, k), 0)
+      .filter((c) => c.similarity >= threshold)
+      .slice(0, k)
+      .map((c) => ({ nodeId: c.id, similarity: c.similarity }));
+  }
+
+  /**
+   * Remove a node and repair the neighborhoods that pointed at it
+   */
+  remove(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (!node) return;
+    this.nodes.delete(nodeId);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const former = node.neighbors[layer].filter((id) => this.nodes.has(id));
+      former.forEach((id) => this.nodes.get(id)!.inbound[layer].delete(nodeId));
+      // Pruning leaves links one-way, so nodes that linked here aren't all among its neighbors
+      const orphans = new Set([...former, ...node.inbound[layer]]);
+      for (const orphanId of orphans) {
+        const orphan = this.nodes.get(orphanId)!;
+        const remaining = orphan.neighbors[layer].filter((id) => id !== nodeId && this.nodes.has(id));
+        // Reconnect through the removed node's other neighbors
+        const pool = new Set([...remaining, ...former.filter((id) => id !== orphanId)]);
+        const candidates = Array.from(pool).map((id) => ({
+          id,
+          similarity: dot(orphan.vector, this.nodes.get(id)!.vector),
+        }));
+        this.setNeighbors(
+          orphan,
+          layer,
+          this.selectNeighbors(orphan.vector, candidates, this.maxNeighbors(layer)).map((c) => c.id)
+        );
+      }
+    }
+
+    if (this.entryPoint === nodeId) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+    this.maxLevel = -1;
+    this.random = createSeededRandom(this.config.seed);
+  }
+
+  toJSON(): SerializedHNSWIndex {
+    return {
+      config: this.getConfig(),
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      nodes: Array.from(this.nodes.values()).map((node) => ({
+        id: node.id,
+        level: node.level,
+        vector: Array.from(node.vector),
+        neighbors: node.neighbors.map((layer) => [...layer]),
+      })),
+    };
+  }
+
+  static fromJSON(data: SerializedHNSWIndex): HNSWIndex {
+    const index = new HNSWIndex(data.config);
+    for (const node of data.nodes) {
+      index.nodes.set(node.id, {
+        id: node.id,
+        level: node.level,
+        vector: Float32Array.from(node.vector),
+        neighbors: node.neighbors.map((layer) => [...layer]),
+        inbound: node.neighbors.map(() => new Set<string>()),
+      });
+    }
+    for (const node of index.nodes.values()) {
+      node.neighbors.forEach((links, layer) =>
+        links.forEach((id) => index.nodes.get(id)?.inbound[layer]?.add(node.id))
+      );
+    }
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    // Advance the level generator past the restored nodes so new inserts don't replay their levels
+    for (let i = 0; i < data.nodes.length; i++) index.random();
+    return index;
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.config.M * 2 : this.config.M;
+  }
+
+  private greedyClosest(query: Float32Array, startId: string, layer: number): string {
+    let current = startId;
+    let best = dot(query, this.nodes.get(current)!.vector);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighborId of this.nodes.get(current)!.neighbors[layer] || []) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        const similarity = dot(query, neighbor.vector);
+        if (similarity > best) {
+          best = similarity;
+          current = neighborId;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Beam search within one layer; returns up to `ef` nodes, most similar first
+   */
+  private searchLayer(query: Float32Array, entryIds: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>();
+    const candidates = new Heap<Candidate>((a, b) => a.similarity > b.similarity);
+    const results = new Heap<Candidate>((a, b) => a.similarity < b.similarity);
+
+    for (const id of entryIds) {
+      const node = this.nodes.get(id);
+      if (!node || visited.has(id)) continue;
+      visited.add(id);
+      const entry = { id, similarity: dot(query, node.vector) };
+      candidates.push(entry);
+      results.push(entry);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const worst = results.peek()!;
+      if (results.size >= ef && closest.similarity < worst.similarity) break;
+
+      for (const neighborId of this.nodes.get(closest.id)?.neighbors[layer] || []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const similarity = dot(query, neighbor.vector);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          const candidate = { id: neighborId, similarity };
+          candidates.push(candidate);
+          results.push(candidate);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Neighbor selection heuristic: prefer candidates that are closer to the base
+   * than to any neighbor already chosen, which keeps the graph navigable across clusters
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], max: number): Candidate[] {
+    const sorted = [...candidates].sort((a, b) => b.similarity - a.similarity);
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of sorted) {
+      if (selected.length >= max) break;
+      const vector = this.nodes.get(candidate.id)?.vector;
+      if (!vector || vector === base) continue;
+      const dominated = selected.some(
+        (chosen) => dot(vector, this.nodes.get(chosen.id)!.vector) > candidate.similarity
+      );
+      if (dominated) {
+        skipped.push(candidate);
+      } else {
+        selected.push(candidate);
+      }
+    }
+
+    // Fill remaining slots with the closest skipped candidates
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Add the reverse link of a new neighbor. Lists may run over their cap by half before the
+   * selectNeighbors heuristic trims them back: busy nodes overflow on nearly every insert near
+   * them, and re-running its O(M²) dot products each time dominated build time. A plain
+   * distance cut would be cheaper still, but it drops the links that bridge clusters.
+   */
+  private connect(fromId: string, toId: string, layer: number): void {
+    const from = this.nodes.get(fromId);
+    if (!from || layer > from.level) return;
+    const links = from.neighbors[layer];
+    if (links.includes(toId)) return;
+    links.push(toId);
+    this.nodes.get(toId)?.inbound[layer]?.add(fromId);
+
+    const max = this.maxNeighbors(layer);
+    if (links.length > Math.ceil(max * PRUNE_SLACK)) {
+      const candidates = links
+        .filter((id) => this.nodes.has(id))
+        .map((id) => ({ id, similarity: dot(from.vector, this.nodes.get(id)!.vector) }));
+      this.setNeighbors(from, layer, this.selectNeighbors(from.vector, candidates, max).map((c) => c.id));
+    }
+  }
+
+  /**
+   * Replace one layer of a node's links, keeping the reverse-link sets in step
+   */
+  private setNeighbors(node: HNSWNode, layer: number, ids: string[]): void {
+    for (const id of node.neighbors[layer]) this.nodes.get(id)?.inbound[layer]?.delete(node.id);
+    node.neighbors[layer] = ids;
+    for (const id of ids) this.nodes.get(id)?.inbound[layer]?.add(node.id);
+  }
+}
@@ -0,0 +1,515 @@
+/**
+ * In-Memory Storage
+ * StorageBackend kept entirely in maps, for tests and tools that run outside the browser
+ *
+ * Mirrors CortexStorage: the same BM25F ranking, sealing and cascading deletes, with
+ * brute-force cosine search in place of the ANN index. Records are cloned on the way
+ * in and out so callers can't mutate what is stored.
+ */
+
+import type {
+  MemoryNode,
+  Embedding,
+  MemoryCluster,
+  SemanticMatch,
+  CaptureSettings,
+  PageRevision,
+  VisitEvent,
+  SessionRecord,
+} from "@shared/extension-types";
+import { cosineSimilarity } from "./vector-search";
+import { embeddingModelKey } from "./embedding-models";
+import { packVector, unpackVector, type PackedVector } from "./vector-codec";
+import { passageHit } from "./passages";
+import { ENCRYPTION_CONFIG_KEY } from "./migrations";
+import { sealContent, openContent, type SealableRecord } from "./sealed-content";
+import {
+  tokenize,
+  analyzeDocument,
+  applyToStats,
+  emptyStats,
+  scoreDocuments,
+  MIN_PREFIX_LENGTH,
+  type SearchDocument,
+  type SearchPosting,
+  type SearchStats,
+} from "./text-index";
+import {
+  aggregatePages,
+  embeddingBytes,
+  packPassages,
+  unpackPassages,
+  pageFootprint,
+  revisionBytes,
+  revisionFor,
+  withSettingDefaults,
+  DEFAULT_MAX_REVISIONS,
+  type KeywordMatch,
+  type PackedPassage,
+  type PageAggregates,
+  type PageFootprint,
+  type StorageBackend,
+  type StorageStats,
+} from "./storage-backend";
+
+interface StoredEmbedding {
+  nodeId: string;
+  model: Embedding["model"];
+  modelId?: string;
+  modelVersion?: number;
+  timestamp: number;
+  packed: PackedVector;
+  passages?: PackedPassage[];
+}
+
+interface StoredEdge {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  strength: number;
+  timestamp: number;
+}
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class MemoryStorage implements StorageBackend {
+  private pages = new Map<string, MemoryNode>();
+  private embeddings = new Map<string, StoredEmbedding>();
+  private revisions = new Map<string, PageRevision>();
+  private visits = new Map<string, VisitEvent>();
+  private edges = new Map<string, StoredEdge>();
+  private clusters = new Map<string, MemoryCluster>();
+  private sessions = new Map<string, SessionRecord>();
+  private settings = new Map<string, unknown>();
+  private captureSettings: Partial<CaptureSettings> | null = null;
+  private postings = new Map<string, SearchPosting[]>();
+  private documents = new Map<string, SearchDocument>();
+  private searchStats: SearchStats = emptyStats();
+  private contentKey: CryptoKey | null = null;
+
+  async ready(): Promise<void> {}
+
+  // Encryption
+  isEncryptionEnabled(): boolean {
+    return this.settings.has(ENCRYPTION_CONFIG_KEY);
+  }
+
+  isLocked(): boolean {
+    return this.isEncryptionEnabled() && !this.contentKey;
+  }
+
+  setContentKey(key: CryptoKey | null): void {
+    this.contentKey = key;
+  }
+
+  private async sealForStorage<T extends SealableRecord>(record: T): Promise<T> {
+    if (!this.isEncryptionEnabled()) return record;
+    if (!this.contentKey) {
+      throw new Error("Cortex is locked: unlock it to save page content");
+    }
+    return sealContent(record, this.contentKey);
+  }
+
+  private open<T extends SealableRecord>(record: T): Promise<T> {
+    return openContent(clone(record), this.contentKey);
+  }
+
+  async reencryptContent<C>(fromKey: CryptoKey | null, toKey: CryptoKey | null, config: C | null): Promise<number> {
+    const convert = async <T extends SealableRecord>(record: T) => {
+      if (record.sealed && !fromKey) throw new Error("Cannot re-encrypt sealed content without its key");
+      const plain = await openContent(record, fromKey);
+      return toKey ? sealContent(plain, toKey) : plain;
+    };
+    // Convert everything before writing anything, so a failure leaves the store as it was
+    const [pages, revisions] = await Promise.all([
+      Promise.all(Array.from(this.pages.values()).map(convert)),
+      Promise.all(Array.from(this.revisions.values()).map(convert)),
+    ]);
+
+    pages.forEach((page) => this.pages.set(page.id, page));
+    revisions.forEach((revision) => this.revisions.set(revision.id, revision));
+    if (config) {
+      this.settings.set(ENCRYPTION_CONFIG_KEY, clone(config));
+    } else {
+      this.settings.delete(ENCRYPTION_CONFIG_KEY);
+    }
+    this.contentKey = toKey;
+    return pages.length;
+  }
+
+  // Memory Node Operations
+  async addMemoryNode(node: MemoryNode): Promise<void> {
+    const { embedding: _embedding, ...page } = clone(node) as MemoryNode & { embedding?: Embedding };
+    const revision = revisionFor(await this.getMemoryNode(page.id), page);
+    const [record, revisionRecord] = await Promise.all([
+      this.sealForStorage(page),
+      revision ? this.sealForStorage(revision) : null,
+    ]);
+
+    if (revisionRecord) this.storeRevision(revisionRecord);
+    this.pages.set(record.id, record);
+    this.indexDocuments([page]);
+  }
+
+  private storeRevision(revision: PageRevision): void {
+    const cap = Math.max(0, this.captureSettings?.maxRevisionsPerPage ?? DEFAULT_MAX_REVISIONS);
+
+    if (cap > 0) this.revisions.set(revision.id, revision);
+    Array.from(this.revisions.values())
+      .filter((existing) => existing.nodeId === revision.nodeId)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(cap)
+      .forEach((old) => this.revisions.delete(old.id));
+  }
+
+  async getPageRevisions(nodeId: string): Promise<PageRevision[]> {
+    const revisions = Array.from(this.revisions.values())
+      .filter((revision) => revision.nodeId === nodeId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return Promise.all(revisions.map((revision) => this.open(revision)));
+  }
+
+  async getMemoryNode(id: string): Promise<MemoryNode | null> {
+    const record = this.pages.get(id);
+    return record ? this.open(record) : null;
+  }
+
+  async getAllMemoryNodes(limit?: number): Promise<MemoryNode[]> {
+    const records = Array.from(this.pages.values()).sort((a, b) => a.timestamp - b.timestamp);
+    const selected = limit ? records.reverse().slice(0, limit) : records;
+    return Promise.all(selected.map((record) => this.open(record)));
+  }
+
+  async searchMemoryNodes(query: string, limit: number = 10): Promise<MemoryNode[]> {
+    const results = await this.searchKeywords(query, limit);
+    return results.map((r) => r.node);
+  }
+
+  async searchKeywords(query: string, limit: number = 10, language?: string): Promise<KeywordMatch[]> {
+    const queryTerms = Array.from(new Set(tokenize(query, language)));
+    if (queryTerms.length === 0) return [];
+
+    const allPostings = Array.from(this.postings.values()).flat();
+    const postingsByQueryTerm = new Map<string, SearchPosting[]>();
+    for (const term of queryTerms) {
+      const prefix = term.length >= MIN_PREFIX_LENGTH;
+      postingsByQueryTerm.set(
+        term,
+        allPostings.filter((posting) => (prefix ? posting.term.startsWith(term) : posting.term === term))
+      );
+    }
+
+    const ranked = scoreDocuments(postingsByQueryTerm, this.documents, this.searchStats).slice(0, limit);
+    const nodes = await Promise.all(ranked.map((r) => this.getMemoryNode(r.nodeId)));
+    return ranked
+      .map((r, i) => ({ node: nodes[i], score: r.score, matchedTerms: r.matchedTerms }))
+      .filter((r): r is KeywordMatch => !!r.node);
+  }
+
+  private indexDocuments(nodes: MemoryNode[]): void {
+    this.removeFromIndex(nodes.map((node) => node.id));
+    for (const node of nodes) {
+      const { document, postings } = analyzeDocument(node);
+      this.postings.set(node.id, postings);
+      this.documents.set(node.id, document);
+      this.searchStats = applyToStats(this.searchStats, document.lengths, 1);
+    }
+  }
+
+  private removeFromIndex(nodeIds: string[]): void {
+    for (const nodeId of nodeIds) {
+      const document = this.documents.get(nodeId);
+      if (!document) continue;
+      this.postings.delete(nodeId);
+      this.documents.delete(nodeId);
+      this.searchStats = applyToStats(this.searchStats, document.lengths, -1);
+    }
+  }
+
+  async deleteMemoryNode(id: string): Promise<void> {
+    await this.deleteMemoryNodes([id]);
+  }
+
+  /**
+   * Delete pages with their embeddings, revisions, visits, edges, cluster memberships and index entries
+   */
+  async deleteMemoryNodes(ids: string[]): Promise<number> {
+    const removed = new Set(ids);
+    ids.forEach((id) => {
+      this.pages.delete(id);
+      this.embeddings.delete(id);
+    });
+    this.removeFromIndex(ids);
+    this.deleteWhere(this.revisions, (revision) => removed.has(revision.nodeId));
+    this.deleteWhere(this.visits, (visit) => removed.has(visit.nodeId));
+    this.deleteWhere(this.edges, (edge) => removed.has(edge.fromNode) || removed.has(edge.toNode));
+
+    for (const cluster of this.clusters.values()) {
+      const remaining = cluster.nodes.filter((node) => !removed.has(node.id));
+      if (remaining.length === cluster.nodes.length) continue;
+      if (remaining.length > 0) {
+        this.clusters.set(cluster.id, { ...cluster, nodes: remaining });
+      } else {
+        this.clusters.delete(cluster.id);
+      }
+    }
+    return ids.length;
+  }
+
+  private deleteWhere<T>(records: Map<string, T>, predicate: (record: T) => boolean): number {
+    let count = 0;
+    for (const [key, record] of records) {
+      if (!predicate(record)) continue;
+      records.delete(key);
+      count++;
+    }
+    return count;
+  }
+
+  // Embedding Operations
+  async storeEmbedding(nodeId: string, embedding: Embedding): Promise<void> {
+    const { quantizeEmbeddings } = await this.getSettings();
+    const format = quantizeEmbeddings ? "int8" : "float32";
+    const packed = packVector(embedding.vector, format);
+    const passages = packPassages(embedding.passages, format);
+    const { model, modelId, modelVersion, timestamp } = embedding;
+    this.embeddings.set(nodeId, { nodeId, model, modelId, modelVersion, timestamp, packed, passages });
+  }
+
+  async getEmbedding(nodeId: string): Promise<Embedding | null> {
+    const record = this.embeddings.get(nodeId);
+    return record ? toEmbedding(record) : null;
+  }
+
+  async getAllEmbeddings(): Promise<Array<{ nodeId: string; embedding: Embedding }>> {
+    return Array.from(this.embeddings.values()).map((record) => ({
+      nodeId: record.nodeId,
+      embedding: toEmbedding(record),
+    }));
+  }
+
+  async vectorSearch(
+    queryVector: number[],
+    limit: number = 10,
+    threshold: number = 0.4,
+    model?: string
+  ): Promise<SemanticMatch[]> {
+    // A page scores as its page vector or its best passage, whichever is closer
+    const scored = Array.from(this.embeddings.values())
+      .filter((record) => model === undefined || embeddingModelKey(record) === model)
+      .map((record) => {
+        const passages = (record.passages || []).map(({ start, end, packed }) => ({
+          start,
+          end,
+          similarity: cosineSimilarity(queryVector, packed.data),
+        }));
+        const passage = passages.sort((a, b) => b.similarity - a.similarity)[0];
+        const similarity = Math.max(cosineSimilarity(queryVector, record.packed.data), passage?.similarity ?? -1);
+        return { nodeId: record.nodeId, similarity, passage };
+      })
+      .filter((match) => match.similarity >= threshold)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+
+    const nodes = await Promise.all(scored.map(({ nodeId }) => this.getMemoryNode(nodeId)));
+    return scored
+      .map(({ nodeId, similarity, passage }, index): SemanticMatch | null => {
+        const node = nodes[index];
+        if (!node) return null;
+        return {
+          nodeId,
+          similarity,
+          node,
+          reason: { sharedKeywords: [], contextMatch: "", semanticSimilarity: similarity },
+          ...(passage && { passage: passageHit(node, passage.start, passage.end) }),
+        };
+      })
+      .filter((match): match is SemanticMatch => match !== null);
+  }
+
+  // Cluster Operations
+  async saveCluster(cluster: MemoryCluster): Promise<void> {
+    this.clusters.set(cluster.id, clone(cluster));
+  }
+
+  async getAllClusters(): Promise<MemoryCluster[]> {
+    return Array.from(this.clusters.values()).map(clone);
+  }
+
+  // Graph Operations
+  async addGraphEdge(fromNode: string, toNode: string, strength: number): Promise<void> {
+    const id = fromNode + ":" + toNode;
+    this.edges.set(id, { id, fromNode, toNode, strength, timestamp: Date.now() });
+  }
+
+  async getRelatedNodes(nodeId: string, limit: number = 5): Promise<MemoryNode[]> {
+    const relatedIds = Array.from(this.edges.values())
+      .filter((edge) => edge.fromNode === nodeId)
+      .sort((a, b) => b.strength - a.strength)
+      .slice(0, limit)
+      .map((edge) => edge.toNode);
+    const nodes = await Promise.all(relatedIds.map((id) => this.getMemoryNode(id)));
+    return nodes.filter((n): n is MemoryNode => n !== null);
+  }
+
+  // Session Operations
+  async saveSession(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, clone(session));
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    const session = this.sessions.get(id);
+    return session ? clone(session) : null;
+  }
+
+  async getSessions(options: { limit?: number; since?: number } = {}): Promise<SessionRecord[]> {
+    const sessions = Array.from(this.sessions.values())
+      .filter((session) => session.endTime >= (options.since ?? 0))
+      .sort((a, b) => b.startTime - a.startTime)
+      .map(clone);
+    return options.limit ? sessions.slice(0, options.limit) : sessions;
+  }
+
+  async replaceSession(removedId: string, survivor: SessionRecord): Promise<void> {
+    this.sessions.set(survivor.id, clone(survivor));
+    this.sessions.delete(removedId);
+    for (const page of this.pages.values()) {
+      if (page.metadata.sessionId !== removedId) continue;
+      this.pages.set(page.id, { ...page, metadata: { ...page.metadata, sessionId: survivor.id } });
+    }
+  }
+
+  // Visit Operations
+  async addVisitEvent(visit: VisitEvent): Promise<void> {
+    this.visits.set(visit.id, clone(visit));
+  }
+
+  async endVisitEvent(id: string, endTimestamp: number): Promise<boolean> {
+    const visit = this.visits.get(id);
+    if (!visit || visit.endTimestamp !== undefined) return false;
+    this.visits.set(id, { ...visit, endTimestamp: Math.max(endTimestamp, visit.timestamp) });
+    return true;
+  }
+
+  async getOpenVisit(tabId: number): Promise<VisitEvent | null> {
+    const open = Array.from(this.visits.values())
+      .filter((visit) => visit.tabId === tabId && visit.type === "visit" && visit.endTimestamp === undefined)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    return open[0] ? clone(open[0]) : null;
+  }
+
+  async getVisitEvents(options: { nodeId?: string; since?: number; limit?: number } = {}): Promise<VisitEvent[]> {
+    const visits = Array.from(this.visits.values())
+      .filter((visit) => !options.nodeId || visit.nodeId === options.nodeId)
+      .filter((visit) => visit.type === "visit" && visit.timestamp >= (options.since ?? 0))
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(clone);
+    return options.limit ? visits.slice(0, options.limit) : visits;
+  }
+
+  // Settings Operations
+  async getSettings(): Promise<CaptureSettings> {
+    return withSettingDefaults(this.captureSettings && clone(this.captureSettings));
+  }
+
+  async updateSettings(settings: Partial<CaptureSettings>): Promise<void> {
+    this.captureSettings = { ...(await this.getSettings()), ...clone(settings) };
+  }
+
+  async getSettingValue<T>(key: string): Promise<T | null> {
+    return this.settings.has(key) ? clone(this.settings.get(key) as T) : null;
+  }
+
+  async setSettingValue<T>(key: string, value: T): Promise<void> {
+    this.settings.set(key, clone(value));
+  }
+
+  async setPinned(nodeId: string, pinned: boolean): Promise<boolean> {
+    const page = this.pages.get(nodeId);
+    if (!page) return false;
+    this.pages.set(nodeId, { ...page, pinned });
+    return true;
+  }
+
+  async setFrecency(nodeId: string, frecency: number, at: number): Promise<boolean> {
+    const page = this.pages.get(nodeId);
+    if (!page) return false;
+    this.pages.set(nodeId, { ...page, frecency, frecencyAt: at });
+    return true;
+  }
+
+  async getPageFootprints(): Promise<PageFootprint[]> {
+    const extraBytes = new Map<string, number>();
+    const addBytes = (nodeId: string, bytes: number) => extraBytes.set(nodeId, (extraBytes.get(nodeId) || 0) + bytes);
+    this.embeddings.forEach((record) => addBytes(record.nodeId, embeddingBytes(record.packed, record.passages)));
+    this.revisions.forEach((revision) => addBytes(revision.nodeId, revisionBytes(revision)));
+    return Array.from(this.pages.values()).map((page) => pageFootprint(page, extraBytes.get(page.id) || 0));
+  }
+
+  async compactMemoryNodes(ids: string[], summarize: (node: MemoryNode) => string): Promise<number> {
+    const nodes: MemoryNode[] = [];
+    for (const id of ids) {
+      const node = await this.getMemoryNode(id);
+      if (!node || node.compactedAt || node.locked) continue;
+      const summary = node.summary || summarize(node);
+      nodes.push({ ...node, summary, readableText: summary, compactedAt: Date.now() });
+    }
+    const records = await Promise.all(nodes.map((node) => this.sealForStorage(node)));
+    records.forEach((record) => this.pages.set(record.id, record));
+    this.indexDocuments(nodes);
+    // Passage offsets point into the text that was just replaced
+    nodes.forEach((node) => {
+      const embedding = this.embeddings.get(node.id);
+      if (embedding?.passages?.length) this.embeddings.set(node.id, { ...embedding, passages: [] });
+    });
+    return nodes.length;
+  }
+
+  async removeOrphans(): Promise<{ embeddings: number; edges: number; revisions: number }> {
+    const exists = (nodeId: string) => this.pages.has(nodeId);
+    const removed = {
+      embeddings: this.deleteWhere(this.embeddings, (record) => !exists(record.nodeId)),
+      edges: this.deleteWhere(this.edges, (edge) => !exists(edge.fromNode) || !exists(edge.toNode)),
+      revisions: this.deleteWhere(this.revisions, (revision) => !exists(revision.nodeId)),
+    };
+    this.removeFromIndex(Array.from(this.documents.keys()).filter((id) => !exists(id)));
+    return removed;
+  }
+
+  // Statistics
+  async getStats(): Promise<StorageStats> {
+    return {
+      pageCount: this.pages.size,
+      clusterCount: this.clusters.size,
+      edgeCount: this.edges.size,
+      storageSize: 0,
+    };
+  }
+
+  async getPageAggregates(): Promise<PageAggregates> {
+    return aggregatePages(Array.from(this.pages.values()));
+  }
+
+  async clearAllData(): Promise<void> {
+    [
+      this.pages,
+      this.embeddings,
+      this.revisions,
+      this.visits,
+      this.edges,
+      this.clusters,
+      this.sessions,
+      this.settings,
+      this.postings,
+      this.documents,
+    ].forEach((records) => records.clear());
+    this.captureSettings = null;
+    this.searchStats = emptyStats();
+    this.contentKey = null;
+  }
+}
+
+function toEmbedding(record: StoredEmbedding): Embedding {
+  const { model, modelId, modelVersion, timestamp } = record;
+  return { vector: unpackVector(record.packed), model, modelId, modelVersion, timestamp, passages: unpackPassages(record.passages) };
+}
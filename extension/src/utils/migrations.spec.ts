@@ -0,0 +1,312 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect } from "vitest";
+import { CortexStorage } from "./storage";
+import { LATEST_DB_VERSION, MIGRATIONS, STORES } from "./migrations";
+import { pageIdForUrl } from "./page-id";
+
+type Fixture = Partial<Record<string, any[]>>;
+
+/**
+ * Create a database the way an older build of the extension left it
+ */
+function createFixture(
+  name: string,
+  version: number,
+  build: (db: IDBDatabase, transaction: IDBTransaction) => void,
+  records: Fixture
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => build(request.result, request.transaction!);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const storeNames = Object.keys(records);
+      const transaction = db.transaction(storeNames, "readwrite");
+      for (const storeName of storeNames) {
+        for (const record of records[storeName]!) {
+          transaction.objectStore(storeName).put(record);
+        }
+      }
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    };
+  });
+}
+
+function openRaw(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function buildV1(db: IDBDatabase) {
+  const pages = db.createObjectStore(STORES.PAGES, { keyPath: "id" });
+  pages.createIndex("url", "url", { unique: false });
+  pages.createIndex("domain", "metadata.domain", { unique: false });
+  pages.createIndex("timestamp", "timestamp", { unique: false });
+  pages.createIndex("sessionId", "metadata.sessionId", { unique: false });
+  db.createObjectStore(STORES.EMBEDDINGS, { keyPath: "nodeId" });
+  db.createObjectStore(STORES.CLUSTERS, { keyPath: "id" });
+  db.createObjectStore(STORES.GRAPH_EDGES, { keyPath: "id" }).createIndex("fromNode", "fromNode", { unique: false });
+  db.createObjectStore(STORES.SESSIONS, { keyPath: "id" });
+  db.createObjectStore(STORES.ACTIVITY, { keyPath: "id" });
+  db.createObjectStore(STORES.SETTINGS, { keyPath: "key" });
+  db.createObjectStore(STORES.RULES, { keyPath: "id" });
+}
+
+function buildV2(db: IDBDatabase) {
+  const pages = db.createObjectStore(STORES.PAGES, { keyPath: "id" });
+  pages.createIndex("url", "url", { unique: false });
+  pages.createIndex("domain", "metadata.domain", { unique: false });
+  pages.createIndex("timestamp", "timestamp", { unique: false });
+  pages.createIndex("sessionId", "metadata.sessionId", { unique: false });
+  db.createObjectStore(STORES.EMBEDDINGS, { keyPath: "nodeId" }).createIndex("timestamp", "timestamp", { unique: false });
+  db.createObjectStore(STORES.CLUSTERS, { keyPath: "id" }).createIndex("timestamp", "timestamp", { unique: false });
+  const edges = db.createObjectStore(STORES.GRAPH_EDGES, { keyPath: "id" });
+  edges.createIndex("fromNode", "fromNode", { unique: false });
+  edges.createIndex("toNode", "toNode", { unique: false });
+  edges.createIndex("strength", "strength", { unique: false });
+  db.createObjectStore(STORES.SESSIONS, { keyPath: "id" }).createIndex("startTime", "startTime", { unique: false });
+  const activity = db.createObjectStore(STORES.ACTIVITY, { keyPath: "id" });
+  activity.createIndex("timestamp", "timestamp", { unique: false });
+  activity.createIndex("type", "type", { unique: false });
+  db.createObjectStore(STORES.SETTINGS, { keyPath: "key" });
+  db.createObjectStore(STORES.RULES, { keyPath: "id" });
+}
+
+// What the baseline release shipped: v2 plus the userId index
+function buildV3(db: IDBDatabase, transaction: IDBTransaction) {
+  buildV2(db);
+  transaction.objectStore(STORES.PAGES).createIndex("userId", "metadata.userId", { unique: false });
+}
+
+const legacyPages = [
+  {
+    id: "page_a",
+    url: "https://example.com/a",
+    title: "Page A",
+    readableText: "Alpha",
+    timestamp: 1000,
+  },
+  {
+    id: "page_b",
+    url: "https://docs.example.org/b",
+    title: "Page B",
+    readableText: "Beta",
+    timestamp: 2000,
+    keywords: ["beta"],
+    metadata: { domain: "docs.example.org", sessionId: "s1", userId: "" },
+  },
+  {
+    id: "page_c",
+    url: "https://example.net/c",
+    title: "Page C",
+    readableText: "Gamma",
+    timestamp: 3000,
+    keywords: ["gamma"],
+    metadata: { domain: "example.net", userId: "user_1" },
+  },
+];
+
+// v10 re-keys pages by their canonical URL
+const [idA, idB, idC] = legacyPages.map((page) => pageIdForUrl(page.url));
+
+describe("schema migrations", () => {
+  it("registers strictly increasing versions", () => {
+    const versions = MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(LATEST_DB_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it("creates the full schema on a fresh install", async () => {
+    const storage = new CortexStorage("fixture-fresh");
+    await storage.ready();
+
+    const db = await openRaw("fixture-fresh");
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    for (const store of Object.values(STORES)) {
+      expect(db.objectStoreNames.contains(store)).toBe(true);
+    }
+    const pages = db.transaction(STORES.PAGES).objectStore(STORES.PAGES);
+    expect(Array.from(pages.indexNames)).toContain("userId");
+    db.close();
+  });
+
+  it("upgrades a v1 database and normalizes its pages", async () => {
+    await createFixture("fixture-v1", 1, buildV1, { [STORES.PAGES]: legacyPages });
+
+    const storage = new CortexStorage("fixture-v1");
+    const pages = await storage.getAllMemoryNodes();
+    expect(pages).toHaveLength(3);
+
+    const pageA = await storage.getMemoryNode(idA);
+    expect(pageA?.keywords).toEqual([]);
+    expect(pageA?.metadata.domain).toBe("example.com");
+
+    // v9 replaces the content script's per-tab session ids with persisted sessions
+    const pageB = await storage.getMemoryNode(idB);
+    expect(pageB?.metadata).toEqual({ domain: "docs.example.org", sessionId: expect.stringMatching(/^session_/) });
+    const sessions = await storage.getSessions();
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).toBe(pageB?.metadata.sessionId);
+    expect(sessions[0].pageIds).toEqual([idA, idB, idC]);
+
+    const db = await openRaw("fixture-v1");
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    const edges = db.transaction(STORES.GRAPH_EDGES).objectStore(STORES.GRAPH_EDGES);
+    expect(Array.from(edges.indexNames)).toEqual(expect.arrayContaining(["fromNode", "toNode", "strength"]));
+
+    // Only pages with a real owner are reachable through the userId index
+    const owned = await new Promise<any[]>((resolve) => {
+      const request = db
+        .transaction(STORES.PAGES)
+        .objectStore(STORES.PAGES)
+        .index("userId")
+        .getAll();
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(owned.map((p) => p.id)).toEqual([idC]);
+    db.close();
+  });
+
+  it("upgrades a v2 database and repacks its embeddings", async () => {
+    await createFixture(
+      "fixture-v2",
+      2,
+      buildV2,
+      {
+        [STORES.PAGES]: legacyPages.map((page) =>
+          page.id === "page_c" ? { ...page, embedding: { vector: [0.6, 0.8], model: "fallback", timestamp: 3000 } } : page
+        ),
+        [STORES.EMBEDDINGS]: [{ nodeId: "page_c", vector: [0.6, 0.8], model: "fallback", timestamp: 3000 }],
+        [STORES.GRAPH_EDGES]: [{ id: "page_b:page_c", fromNode: "page_b", toNode: "page_c", strength: 0.7, timestamp: 3000 }],
+      }
+    );
+
+    const storage = new CortexStorage("fixture-v2");
+    // v6 repacks the vector as float32, so it only survives to single precision
+    const embedding = await storage.getEmbedding(idC);
+    expect(embedding?.vector).toHaveLength(2);
+    expect(embedding?.vector[0]).toBeCloseTo(0.6, 6);
+    expect(embedding?.vector[1]).toBeCloseTo(0.8, 6);
+    expect(embedding?.model).toBe("fallback");
+
+    const related = await storage.getRelatedNodes(idB);
+    expect(related.map((n) => n.id)).toEqual([idC]);
+
+    // v4 backfills the inverted index from pages that predate it
+    const hits = await storage.searchMemoryNodes("gamma");
+    expect(hits.map((n) => n.id)).toEqual([idC]);
+    // v12 records each page's language (too little text here to tell) and queries fold plurals
+    expect((await storage.getMemoryNode(idC))?.language).toBe("und");
+    expect((await storage.searchMemoryNodes("gammas")).map((n) => n.id)).toEqual([idC]);
+
+    const upgraded = await storage.getAllMemoryNodes();
+    expect(upgraded.find((p) => p.id === idB)?.metadata).not.toHaveProperty("userId");
+
+    // ...and drops the duplicate copy that used to live on the page
+    expect(upgraded.find((p) => p.id === idC)).not.toHaveProperty("embedding");
+
+    const db = await openRaw("fixture-v2");
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    const pages = db.transaction(STORES.PAGES).objectStore(STORES.PAGES);
+    expect(Array.from(pages.indexNames)).toContain("userId");
+    const stored = await new Promise<any>((resolve) => {
+      const request = db.transaction(STORES.EMBEDDINGS).objectStore(STORES.EMBEDDINGS).get(idC);
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(stored).not.toHaveProperty("vector");
+    expect(stored.packed.data).toBeInstanceOf(Float32Array);
+    db.close();
+  });
+
+  it("normalizes the pages of a database the baseline release left at v3", async () => {
+    await createFixture("fixture-v3", 3, buildV3, { [STORES.PAGES]: legacyPages });
+
+    const storage = new CortexStorage("fixture-v3");
+    const pageA = await storage.getMemoryNode(idA);
+    expect(pageA?.keywords).toEqual([]);
+    expect(pageA?.metadata.domain).toBe("example.com");
+    expect((await storage.getMemoryNode(idB))?.metadata).not.toHaveProperty("userId");
+    // Sessions are grouped from the backfilled domains
+    const [session] = await storage.getSessions();
+    expect(session.domains).toEqual(["example.com", "docs.example.org", "example.net"]);
+
+    const db = await openRaw("fixture-v3");
+    expect(db.version).toBe(LATEST_DB_VERSION);
+    const owned = await new Promise<any[]>((resolve) => {
+      const request = db.transaction(STORES.PAGES).objectStore(STORES.PAGES).index("userId").getAll();
+      request.onsuccess = () => resolve(request.result);
+    });
+    expect(owned.map((p) => p.id)).toEqual([idC]);
+    db.close();
+  });
+
+  it("merges pages whose URLs canonicalize to the same page", async () => {
+    const merged = pageIdForUrl("https://example.com/post");
+    await createFixture("fixture-duplicates", 1, buildV1, {
+      [STORES.PAGES]: [
+        ...legacyPages,
+        {
+          id: "page_old",
+          url: "http://www.example.com/post?utm_source=feed#comments",
+          title: "Post",
+          readableText: "First draft",
+          timestamp: 4000,
+          visitCount: 2,
+        },
+        {
+          id: "page_new",
+          url: "https://example.com/post/",
+          title: "Post",
+          readableText: "Final text",
+          timestamp: 5000,
+        },
+      ],
+      [STORES.ACTIVITY]: [
+        { id: "visit_1", type: "visit", nodeId: "page_old", url: "http://www.example.com/post", timestamp: 4000, transition: "typed" },
+        { id: "visit_2", type: "visit", nodeId: "page_c", url: "https://example.net/c", timestamp: 4500, transition: "link", referrerNodeId: "page_old" },
+        { id: "visit_3", type: "visit", nodeId: "page_new", url: "https://example.com/post/", timestamp: 5000, transition: "link" },
+      ],
+      [STORES.GRAPH_EDGES]: [
+        { id: "page_old:page_c", fromNode: "page_old", toNode: "page_c", strength: 0.4, timestamp: 4000 },
+        { id: "page_new:page_c", fromNode: "page_new", toNode: "page_c", strength: 0.9, timestamp: 5000 },
+        { id: "page_old:page_new", fromNode: "page_old", toNode: "page_new", strength: 0.8, timestamp: 5000 },
+      ],
+    });
+
+    const storage = new CortexStorage("fixture-duplicates");
+    const pages = await storage.getAllMemoryNodes();
+    expect(pages).toHaveLength(4);
+
+    const page = await storage.getMemoryNode(merged);
+    expect(page?.readableText).toBe("Final text");
+    expect(page?.canonicalUrl).toBe("https://example.com/post");
+    expect(page?.visitCount).toBe(3);
+
+    // The older capture is kept as a revision of the merged page
+    const revisions = await storage.getPageRevisions(merged);
+    expect(revisions.map((r) => r.readableText)).toEqual(["First draft"]);
+
+    const visits = await storage.getVisitEvents({ nodeId: merged });
+    expect(visits.map((v) => v.id).sort()).toEqual(["visit_1", "visit_3"]);
+    const [referred] = await storage.getVisitEvents({ nodeId: idC });
+    expect(referred.referrerNodeId).toBe(merged);
+
+    const related = await storage.getRelatedNodes(merged);
+    expect(related.map((n) => n.id)).toEqual([idC]);
+
+    const hits = await storage.searchMemoryNodes("draft final");
+    expect(hits.map((n) => n.id)).toEqual([merged]);
+
+    const [session] = await storage.getSessions();
+    expect(session.pageIds).toEqual([idA, idB, idC, merged]);
+  });
+});
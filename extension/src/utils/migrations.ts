@@ -0,0 +1,509 @@
+/**
+ * Cortex IndexedDB Schema Migrations
+ * Ordered, versioned steps that upgrade an existing database in place
+ *
+ * Every step runs inside the versionchange transaction opened by
+ * `indexedDB.open()`, so a failing step aborts the whole upgrade and the
+ * database stays at its previous version.
+ */
+
+import { analyzeDocument, applyToStats, documentLanguage, emptyStats } from "./text-index";
+import { packVector } from "./vector-codec";
+import { groupIntoSessions } from "./sessions";
+import { canonicalizeUrl } from "./url-canonical";
+import { pageIdForCanonicalUrl } from "./page-id";
+
+export const STORES = {
+  PAGES: "pages",
+  EMBEDDINGS: "embeddings",
+  CLUSTERS: "clusters",
+  GRAPH_EDGES: "graph_edges",
+  SESSIONS: "sessions",
+  ACTIVITY: "activity",
+  SETTINGS: "settings",
+  RULES: "rules",
+  SEARCH_POSTINGS: "search_postings",
+  SEARCH_DOCS: "search_docs",
+  ANN_BUCKETS: "ann_buckets",
+  PAGE_REVISIONS: "page_revisions",
+  TRASH: "trash",
+} as const;
+
+// Settings-store key holding the corpus totals of the full-text index
+export const SEARCH_STATS_KEY = "search_stats";
+// Settings-store key holding the projection config the persisted ANN buckets were built with, and their checksum
+export const ANN_CONFIG_KEY = "ann_config";
+// Settings-store key holding the report of the latest storage budget pass
+export const STORAGE_REPORT_KEY = "storage_report";
+// Settings-store key holding the wrapped data key and KDF parameters once encryption is enabled
+export const ENCRYPTION_CONFIG_KEY = "encryption_config";
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+  oldVersion: number;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  up(context: MigrationContext): void | Promise<void>;
+}
+
+/**
+ * Get an object store, creating it when it does not exist yet
+ */
+export function ensureStore(
+  context: MigrationContext,
+  name: string,
+  options: IDBObjectStoreParameters
+): IDBObjectStore {
+  if (context.db.objectStoreNames.contains(name)) {
+    return context.transaction.objectStore(name);
+  }
+  return context.db.createObjectStore(name, options);
+}
+
+/**
+ * Create an index unless a store already has one with that name
+ */
+export function ensureIndex(
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string | string[],
+  options: IDBIndexParameters = { unique: false }
+): void {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, options);
+  }
+}
+
+/**
+ * Remove an index if it exists
+ */
+export function dropIndex(store: IDBObjectStore, name: string): void {
+  if (store.indexNames.contains(name)) {
+    store.deleteIndex(name);
+  }
+}
+
+/**
+ * Walk every record in a store and rewrite it in place.
+ * The callback returns the new record, `null` to delete it, or `undefined` to keep it unchanged.
+ * Resolves with the number of records that were rewritten or deleted.
+ */
+export function rewriteRecords<T = any>(
+  store: IDBObjectStore,
+  rewrite: (record: T) => T | null | undefined
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = store.openCursor();
+    let changed = 0;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(changed);
+        return;
+      }
+
+      const next = rewrite(cursor.value as T);
+      if (next === null) {
+        cursor.delete();
+        changed++;
+      } else if (next !== undefined) {
+        cursor.update(next);
+        changed++;
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(new Error(`Failed to rewrite records in ${store.name}`));
+  });
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function domainFromUrl(url: unknown): string {
+  try {
+    return new URL(String(url)).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * A page record with metadata, a domain and a keywords array, and without an empty userId
+ * (which would file it under a bogus "" owner in the userId index). Older captures may lack
+ * any of these. Returns `undefined` when the record needs no change.
+ */
+function normalizePage(page: any): any {
+  const hasMetadata = !!page.metadata && typeof page.metadata === "object";
+  const metadata = hasMetadata ? { ...page.metadata } : {};
+  let changed = !hasMetadata;
+
+  if (!metadata.domain) {
+    metadata.domain = domainFromUrl(page.url);
+    changed = true;
+  }
+  if ("userId" in metadata && !metadata.userId) {
+    delete metadata.userId;
+    changed = true;
+  }
+
+  const keywords = Array.isArray(page.keywords) ? page.keywords : [];
+  if (keywords !== page.keywords) changed = true;
+
+  return changed ? { ...page, keywords, metadata } : undefined;
+}
+
+/**
+ * Registered migrations, in ascending version order.
+ * Append new steps here; never edit a step that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Create the initial object stores",
+    up(context) {
+      const pages = ensureStore(context, STORES.PAGES, { keyPath: "id" });
+      ensureIndex(pages, "url", "url");
+      ensureIndex(pages, "domain", "metadata.domain");
+      ensureIndex(pages, "timestamp", "timestamp");
+      ensureIndex(pages, "sessionId", "metadata.sessionId");
+
+      ensureStore(context, STORES.EMBEDDINGS, { keyPath: "nodeId" });
+      ensureStore(context, STORES.CLUSTERS, { keyPath: "id" });
+
+      const edges = ensureStore(context, STORES.GRAPH_EDGES, { keyPath: "id" });
+      ensureIndex(edges, "fromNode", "fromNode");
+
+      ensureStore(context, STORES.SESSIONS, { keyPath: "id" });
+      ensureStore(context, STORES.ACTIVITY, { keyPath: "id" });
+      ensureStore(context, STORES.SETTINGS, { keyPath: "key" });
+      ensureStore(context, STORES.RULES, { keyPath: "id" });
+    },
+  },
+  {
+    version: 2,
+    description: "Add secondary indexes for embeddings, clusters, edges, sessions and activity",
+    up(context) {
+      const { transaction } = context;
+      ensureIndex(transaction.objectStore(STORES.EMBEDDINGS), "timestamp", "timestamp");
+      ensureIndex(transaction.objectStore(STORES.CLUSTERS), "timestamp", "timestamp");
+
+      const edges = transaction.objectStore(STORES.GRAPH_EDGES);
+      ensureIndex(edges, "toNode", "toNode");
+      ensureIndex(edges, "strength", "strength");
+
+      ensureIndex(transaction.objectStore(STORES.SESSIONS), "startTime", "startTime");
+
+      const activity = transaction.objectStore(STORES.ACTIVITY);
+      ensureIndex(activity, "timestamp", "timestamp");
+      ensureIndex(activity, "type", "type");
+    },
+  },
+  {
+    version: 3,
+    description: "Index pages by owner",
+    up(context) {
+      ensureIndex(context.transaction.objectStore(STORES.PAGES), "userId", "metadata.userId");
+    },
+  },
+  {
+    version: 4,
+    description: "Create the full-text inverted index and backfill it from existing pages",
+    async up(context) {
+      const postings = ensureStore(context, STORES.SEARCH_POSTINGS, { keyPath: ["term", "nodeId"] });
+      ensureIndex(postings, "nodeId", "nodeId");
+      const documents = ensureStore(context, STORES.SEARCH_DOCS, { keyPath: "nodeId" });
+
+      const pages = await requestResult(context.transaction.objectStore(STORES.PAGES).getAll());
+      let stats = emptyStats();
+      for (const page of pages) {
+        const entry = analyzeDocument(page);
+        entry.postings.forEach((posting) => postings.put(posting));
+        documents.put(entry.document);
+        stats = applyToStats(stats, entry.document.lengths, 1);
+      }
+      context.transaction.objectStore(STORES.SETTINGS).put({ key: SEARCH_STATS_KEY, ...stats });
+    },
+  },
+  {
+    version: 5,
+    description: "Persist ANN bucket assignments (filled by the startup consistency check)",
+    up(context) {
+      ensureStore(context, STORES.ANN_BUCKETS, { keyPath: "hash" });
+    },
+  },
+  {
+    version: 6,
+    description: "Pack embeddings into Float32Array and drop the duplicate copy on pages",
+    async up(context) {
+      const { transaction } = context;
+
+      await rewriteRecords<any>(transaction.objectStore(STORES.EMBEDDINGS), (record) => {
+        if (!Array.isArray(record.vector)) return undefined;
+        const { vector, ...rest } = record;
+        return { ...rest, packed: packVector(vector, "float32") };
+      });
+
+      await rewriteRecords<any>(transaction.objectStore(STORES.PAGES), (page) => {
+        if (!("embedding" in page)) return undefined;
+        const { embedding: _embedding, ...rest } = page;
+        return rest;
+      });
+    },
+  },
+  {
+    version: 7,
+    description: "Create the page revision history store",
+    up(context) {
+      const revisions = ensureStore(context, STORES.PAGE_REVISIONS, { keyPath: "id" });
+      ensureIndex(revisions, "nodeId", "nodeId");
+    },
+  },
+  {
+    version: 8,
+    description: "Index visit events by page and tab",
+    up({ transaction }) {
+      const activity = transaction.objectStore(STORES.ACTIVITY);
+      ensureIndex(activity, "nodeId", "nodeId");
+      ensureIndex(activity, "tabId", "tabId");
+    },
+  },
+  {
+    version: 9,
+    description: "Group existing pages into persisted browsing sessions",
+    async up({ transaction }) {
+      const pageStore = transaction.objectStore(STORES.PAGES);
+      // Seed pages are demo data and stay outside any session. Pages are grouped as v13 leaves them,
+      // since installs from before v3 reach this step with their legacy records.
+      const pages = (await requestResult(pageStore.getAll()))
+        .filter((page: any) => page.metadata?.sessionId !== "seed")
+        .map((page: any) => normalizePage(page) ?? page);
+
+      const sessionStore = transaction.objectStore(STORES.SESSIONS);
+      const sessionOf = new Map<string, string>();
+      for (const session of groupIntoSessions(pages)) {
+        sessionStore.put(session);
+        session.pageIds.forEach((id) => sessionOf.set(id, session.id));
+      }
+
+      // Replace the per-tab ids the content script used to mint
+      await rewriteRecords<any>(pageStore, (page) => {
+        const sessionId = sessionOf.get(page.id);
+        return sessionId ? { ...page, metadata: { ...page.metadata, sessionId } } : undefined;
+      });
+    },
+  },
+  {
+    version: 10,
+    description: "Re-key pages by canonical URL and merge duplicates",
+    async up({ transaction }) {
+      const pageStore = transaction.objectStore(STORES.PAGES);
+      const pages = await requestResult(pageStore.getAll());
+
+      // New id -> every stored page that canonicalizes to it
+      const groups = new Map<string, any[]>();
+      for (const page of pages) {
+        if (page.metadata?.sessionId === "seed" || typeof page.url !== "string") continue;
+        const canonicalUrl = canonicalizeUrl(page.url);
+        const id = pageIdForCanonicalUrl(canonicalUrl);
+        groups.set(id, [...(groups.get(id) || []), { ...page, canonicalUrl }]);
+      }
+
+      const idMap = new Map<string, string>();
+      // Old id of the page each group keeps (its latest capture)
+      const survivors = new Set<string>();
+      const revisionStore = transaction.objectStore(STORES.PAGE_REVISIONS);
+
+      for (const [id, group] of groups) {
+        group.sort((a, b) => b.timestamp - a.timestamp);
+        const [latest, ...older] = group;
+        group.forEach((page) => idMap.set(page.id, id));
+        survivors.add(latest.id);
+
+        // Sealed content is bound to the id it was encrypted under, so remember that id
+        const rekeyed = (record: any, newId: string) =>
+          record.sealed && record.id !== newId ? { ...record, id: newId, sealedId: record.sealedId ?? record.id } : { ...record, id: newId };
+
+        group.forEach((page) => page.id !== id && pageStore.delete(page.id));
+        pageStore.put({
+          ...rekeyed(latest, id),
+          visitCount: group.reduce((sum, page) => sum + (page.visitCount || 1), 0),
+          pinned: group.some((page) => page.pinned),
+        });
+
+        // Older duplicates become revisions of the merged page
+        for (const page of older) {
+          if (page.compactedAt) continue;
+          if (!page.sealed && !latest.sealed && page.title === latest.title && page.readableText === latest.readableText) {
+            continue;
+          }
+          const { title, readableText, sealed, sealedId } = rekeyed(page, `${page.id}:${page.timestamp}`);
+          revisionStore.put({
+            id: `${page.id}:${page.timestamp}`,
+            nodeId: id,
+            url: page.url,
+            title,
+            readableText,
+            timestamp: page.timestamp,
+            ...(sealed ? { sealed, sealedId } : {}),
+          });
+        }
+      }
+      if (idMap.size === 0) return;
+      const remap = (id: string) => idMap.get(id) ?? id;
+
+      await rewriteRecords<any>(revisionStore, (revision) =>
+        idMap.has(revision.nodeId) && remap(revision.nodeId) !== revision.nodeId
+          ? { ...revision, nodeId: remap(revision.nodeId) }
+          : undefined
+      );
+
+      // Visits keep their history under the merged id
+      await rewriteRecords<any>(transaction.objectStore(STORES.ACTIVITY), (event) => {
+        if (!idMap.has(event.nodeId) && !idMap.has(event.referrerNodeId)) return undefined;
+        const next = { ...event, nodeId: remap(event.nodeId) };
+        if (event.referrerNodeId) next.referrerNodeId = remap(event.referrerNodeId);
+        return next;
+      });
+
+      await rewriteRecords<any>(transaction.objectStore(STORES.SESSIONS), (session) => {
+        if (!session.pageIds?.some((id: string) => idMap.has(id))) return undefined;
+        return { ...session, pageIds: Array.from(new Set(session.pageIds.map(remap))) };
+      });
+
+      await rewriteRecords<any>(transaction.objectStore(STORES.CLUSTERS), (cluster) => {
+        if (!cluster.nodes?.some((node: any) => idMap.has(node.id))) return undefined;
+        const nodes = new Map<string, any>();
+        cluster.nodes.forEach((node: any) => nodes.set(remap(node.id), { ...node, id: remap(node.id) }));
+        return { ...cluster, nodes: Array.from(nodes.values()) };
+      });
+
+      // Each merged page keeps the embedding of its latest capture
+      const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
+      for (const [oldId, id] of idMap) {
+        if (oldId === id) continue;
+        const embedding = await requestResult(embeddingStore.get(oldId));
+        if (!embedding) continue;
+        embeddingStore.delete(oldId);
+        if (survivors.has(oldId)) embeddingStore.put({ ...embedding, nodeId: id });
+      }
+      // Persisted ANN buckets still name the old ids; the startup check rebuilds them
+      transaction.objectStore(STORES.ANN_BUCKETS).clear();
+
+      const edgeStore = transaction.objectStore(STORES.GRAPH_EDGES);
+      const edges = await requestResult(edgeStore.getAll());
+      const mergedEdges = new Map<string, any>();
+      for (const edge of edges) {
+        if (!idMap.has(edge.fromNode) && !idMap.has(edge.toNode)) continue;
+        edgeStore.delete(edge.id);
+        const fromNode = remap(edge.fromNode);
+        const toNode = remap(edge.toNode);
+        if (fromNode === toNode) continue;
+        const id = `${fromNode}:${toNode}`;
+        const existing = mergedEdges.get(id);
+        if (!existing || edge.strength > existing.strength) mergedEdges.set(id, { ...edge, id, fromNode, toNode });
+      }
+      mergedEdges.forEach((edge) => edgeStore.put(edge));
+
+      // Move the full-text entries of kept pages; drop those of merged-away duplicates
+      const settingsStore = transaction.objectStore(STORES.SETTINGS);
+      const postingStore = transaction.objectStore(STORES.SEARCH_POSTINGS);
+      const docStore = transaction.objectStore(STORES.SEARCH_DOCS);
+      const { key: _key, ...storedStats } = (await requestResult(settingsStore.get(SEARCH_STATS_KEY))) || emptyStats();
+      let stats = storedStats as ReturnType<typeof emptyStats>;
+      for (const [oldId, id] of idMap) {
+        if (oldId === id) continue;
+        const document = await requestResult(docStore.get(oldId));
+        if (!document) continue;
+        const postings = await requestResult(postingStore.index("nodeId").getAll(oldId));
+        postings.forEach((posting: any) => postingStore.delete([posting.term, oldId]));
+        docStore.delete(oldId);
+        if (survivors.has(oldId)) {
+          postings.forEach((posting: any) => postingStore.put({ ...posting, nodeId: id }));
+          docStore.put({ ...document, nodeId: id });
+        } else {
+          stats = applyToStats(stats, document.lengths, -1);
+        }
+      }
+      settingsStore.put({ key: SEARCH_STATS_KEY, ...stats });
+    },
+  },
+  {
+    version: 11,
+    description: "Create the trash store for restorable deletes",
+    up(context) {
+      const trash = ensureStore(context, STORES.TRASH, { keyPath: "id" });
+      ensureIndex(trash, "deletedAt", "deletedAt");
+      ensureIndex(trash, "expiresAt", "expiresAt");
+    },
+  },
+  {
+    version: 12,
+    description: "Detect page languages and re-index page text with language-aware terms",
+    async up({ transaction }) {
+      const pageStore = transaction.objectStore(STORES.PAGES);
+      const settingsStore = transaction.objectStore(STORES.SETTINGS);
+      const postingStore = transaction.objectStore(STORES.SEARCH_POSTINGS);
+      const docStore = transaction.objectStore(STORES.SEARCH_DOCS);
+      const { key: _key, ...storedStats } = (await requestResult(settingsStore.get(SEARCH_STATS_KEY))) || emptyStats();
+      let stats = storedStats as ReturnType<typeof emptyStats>;
+
+      // Sealed pages can't be read here; they keep their terms until they are next captured
+      const pages = (await requestResult(pageStore.getAll())).filter((page) => !page.sealed);
+      for (const page of pages) {
+        const language = documentLanguage(page);
+        pageStore.put({ ...page, language });
+
+        const document = await requestResult(docStore.get(page.id));
+        if (document) {
+          const postings = await requestResult(postingStore.index("nodeId").getAll(page.id));
+          postings.forEach((posting: any) => postingStore.delete([posting.term, page.id]));
+          stats = applyToStats(stats, document.lengths, -1);
+        }
+        const entry = analyzeDocument({ ...page, language });
+        entry.postings.forEach((posting) => postingStore.put(posting));
+        docStore.put(entry.document);
+        stats = applyToStats(stats, entry.document.lengths, 1);
+      }
+      settingsStore.put({ key: SEARCH_STATS_KEY, ...stats });
+    },
+  },
+  {
+    version: 13,
+    description: "Backfill page metadata and keywords, and drop empty owners",
+    async up({ transaction }) {
+      // Once part of v3, which installs already at v3 never ran
+      await rewriteRecords<any>(transaction.objectStore(STORES.PAGES), normalizePage);
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Run every migration newer than `oldVersion`, one after another
+ */
+export async function runMigrations(
+  context: MigrationContext,
+  targetVersion: number = LATEST_DB_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> {
+  const pending = migrations
+    .filter((m) => m.version > context.oldVersion && m.version <= targetVersion)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    console.log(`CortexStorage: Migrating to v${migration.version} - ${migration.description}`);
+    await migration.up(context);
+  }
+}
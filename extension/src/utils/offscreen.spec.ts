@@ -0,0 +1,41 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { ensureOffscreenDocument } from "./offscreen";
+
+// chrome.offscreen as Chrome behaves: a second createDocument while one exists throws
+function stubOffscreen() {
+  let exists = false;
+  const offscreen = {
+    hasDocument: vi.fn(async () => exists),
+    createDocument: vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      if (exists) throw new Error("Only a single offscreen document may be created.");
+      exists = true;
+    }),
+  };
+  vi.stubGlobal("chrome", { offscreen });
+  return offscreen;
+}
+
+describe("offscreen document", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates the document once for concurrent callers", async () => {
+    const offscreen = stubOffscreen();
+    await Promise.all([ensureOffscreenDocument(), ensureOffscreenDocument(), ensureOffscreenDocument()]);
+    expect(offscreen.createDocument).toHaveBeenCalledTimes(1);
+
+    // Later callers find it running
+    await ensureOffscreenDocument();
+    expect(offscreen.createDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it("tries again after a failed creation", async () => {
+    const offscreen = stubOffscreen();
+    offscreen.createDocument.mockRejectedValueOnce(new Error("offscreen.html failed to load"));
+    await expect(ensureOffscreenDocument()).rejects.toThrow("offscreen.html failed to load");
+    await ensureOffscreenDocument();
+    expect(offscreen.createDocument).toHaveBeenCalledTimes(2);
+  });
+});
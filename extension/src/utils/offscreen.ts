@@ -0,0 +1,161 @@
+/**
+ * Offscreen Workers
+ * Channel plumbing between the service worker and the workers the offscreen document hosts
+ *
+ * MV3 service workers cannot spawn workers, so one offscreen document starts each
+ * worker the first time its BroadcastChannel is used. Requests and responses then go
+ * straight between the two over that channel, which (unlike runtime messaging)
+ * structured-clones its payloads and so keeps binary data as bytes.
+ */
+
+export interface ChannelRequest {
+  id: string;
+  kind: string;
+}
+
+export type ChannelResponse =
+  | { id: string; ok: true; result?: unknown }
+  | { id: string; ok: false; error: string };
+
+const OFFSCREEN_URL = "offscreen.html";
+// The worker may still be starting when the first request goes out
+const OPEN_RETRY_MS = 250;
+const DEFAULT_OPEN_TIMEOUT_MS = 10_000;
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+// The creation in progress; only one document may exist, so a second createDocument would throw
+let creating: Promise<void> | null = null;
+
+/**
+ * Start the offscreen document that hosts the workers, unless it is already running.
+ * Concurrent callers (the SQLite and embedding clients connect at startup) share one creation.
+ */
+export function ensureOffscreenDocument(): Promise<void> {
+  if (typeof chrome === "undefined" || !chrome.offscreen) {
+    return Promise.reject(new Error("Offscreen documents are not supported in this browser"));
+  }
+  creating ??= createOffscreenDocument().finally(() => {
+    creating = null;
+  });
+  return creating;
+}
+
+async function createOffscreenDocument(): Promise<void> {
+  if (await chrome.offscreen.hasDocument()) return;
+  await chrome.offscreen.createDocument({
+    url: OFFSCREEN_URL,
+    reasons: ["WORKERS"],
+    justification: "Runs the SQLite memory database and the on-device embedding model in workers",
+  });
+}
+
+/**
+ * Client side of a worker channel. Every request gets an id; the worker answers with a
+ * `ChannelResponse` carrying the same id. `open` is the handshake each worker answers
+ * once it is ready.
+ */
+export class OffscreenChannelClient<Request extends ChannelRequest> {
+  private channel: BroadcastChannel | null = null;
+  private pending = new Map<string, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private nextId = 0;
+  // Distinguishes this client's requests from those of a previous service worker instance
+  private clientId = Math.random().toString(36).slice(2, 10);
+
+  constructor(
+    private channelName: string,
+    private workerName: string,
+    private timeouts: { open?: number; request?: number } = {}
+  ) {}
+
+  /**
+   * Start the worker and wait until it is ready; resolves with what it answered to `open`
+   */
+  async connect(): Promise<unknown> {
+    await ensureOffscreenDocument();
+    this.channel ??= this.listen();
+
+    const id = this.newId();
+    const opened = this.track(id, this.timeouts.open ?? DEFAULT_OPEN_TIMEOUT_MS);
+    const request = { id, kind: "open" } as Request;
+    // Requests posted before the worker subscribed are lost, so keep asking until it answers
+    const retry = setInterval(() => this.channel!.postMessage(request), OPEN_RETRY_MS);
+    this.channel.postMessage(request);
+    try {
+      return await opened;
+    } finally {
+      clearInterval(retry);
+    }
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.pending.forEach(({ reject }) => reject(new Error(`${this.workerName} client closed`)));
+    this.pending.clear();
+  }
+
+  protected send(build: (id: string) => Request): Promise<unknown> {
+    if (!this.channel) return Promise.reject(new Error(`${this.workerName} client is not connected`));
+    const id = this.newId();
+    const response = this.track(id, this.timeouts.request ?? DEFAULT_REQUEST_TIMEOUT_MS);
+    this.channel.postMessage(build(id));
+    return response;
+  }
+
+  private listen(): BroadcastChannel {
+    const channel = new BroadcastChannel(this.channelName);
+    channel.onmessage = (event: MessageEvent<ChannelResponse | Request>) => {
+      const message = event.data;
+      if (!("ok" in message)) return;
+      const request = this.pending.get(message.id);
+      if (!request) return;
+      this.pending.delete(message.id);
+      if ("error" in message) {
+        request.reject(new Error(message.error));
+      } else {
+        request.resolve(message.result);
+      }
+    };
+    return channel;
+  }
+
+  private newId(): string {
+    return `${this.clientId}:${++this.nextId}`;
+  }
+
+  private track(id: string, timeoutMs: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`${this.workerName} did not respond`));
+      }, timeoutMs);
+      this.pending.set(id, {
+        resolve: (result) => (clearTimeout(timer), resolve(result)),
+        reject: (error) => (clearTimeout(timer), reject(error)),
+      });
+    });
+  }
+}
+
+/**
+ * Worker side of a channel: answer every request with the handler's result or error
+ */
+export function serveChannel<Request extends ChannelRequest>(
+  channelName: string,
+  handle: (request: Request) => Promise<unknown>
+): BroadcastChannel {
+  const channel = new BroadcastChannel(channelName);
+  channel.onmessage = async (event: MessageEvent<Request | ChannelResponse>) => {
+    const request = event.data;
+    if ("ok" in request) return;
+
+    let response: ChannelResponse;
+    try {
+      response = { id: request.id, ok: true, result: await handle(request) };
+    } catch (error) {
+      response = { id: request.id, ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+    channel.postMessage(response);
+  };
+  return channel;
+}
@@ -0,0 +1,18 @@
+/**
+ * Page IDs
+ * Memory node id derived from a page's canonical URL
+ */
+
+import { canonicalizeUrl } from "./url-canonical";
+import { sha256Hex } from "./sha256";
+
+/**
+ * `page_` plus the first 128 bits of SHA-256 over the canonical URL
+ */
+export function pageIdForCanonicalUrl(canonicalUrl: string): string {
+  return `page_${sha256Hex(canonicalUrl).slice(0, 32)}`;
+}
+
+export function pageIdForUrl(url: string, canonicalHint?: string): string {
+  return pageIdForCanonicalUrl(canonicalizeUrl(url, canonicalHint));
+}
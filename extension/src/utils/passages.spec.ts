@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { splitPassages, textFragmentUrl, passageHit, PASSAGE_CHARS, MIN_PASSAGE_TEXT } from "./passages";
+import { ANNIndex, passageKey } from "./vector-search";
+
+const words = Array.from({ length: 600 }, (_, i) => `word${i}`).join(" ");
+
+describe("passages", () => {
+  it("leaves short pages to their page vector", () => {
+    expect(splitPassages("Sea otters hold hands.")).toEqual([]);
+    expect(splitPassages("a ".repeat(MIN_PASSAGE_TEXT / 2))).toEqual([]);
+  });
+
+  it("splits long text into overlapping passages on word boundaries", () => {
+    const passages = splitPassages(words);
+
+    expect(passages.length).toBeGreaterThan(3);
+    expect(passages[0].start).toBe(0);
+    expect(passages[passages.length - 1].end).toBe(words.length);
+    for (const [i, passage] of passages.entries()) {
+      expect(passage.text).toBe(words.slice(passage.start, passage.end));
+      expect(passage.text.length).toBeLessThanOrEqual(PASSAGE_CHARS);
+      expect(passage.text).toMatch(/^word\d+( word\d+)*$/);
+      // Each passage starts inside the previous one
+      if (i > 0) expect(passage.start).toBeLessThan(passages[i - 1].end);
+    }
+  });
+
+  it("links to a passage with a text fragment", () => {
+    expect(textFragmentUrl("https://docs.example/guide", "Set the retry-limit, then restart")).toBe(
+      "https://docs.example/guide#:~:text=Set%20the%20retry%2Dlimit%2C%20then%20restart"
+    );
+    expect(textFragmentUrl("https://docs.example/guide#setup:~:text=old", "one two three four five six seven eight nine")).toBe(
+      "https://docs.example/guide#setup:~:text=one%20two%20three%20four,six%20seven%20eight%20nine"
+    );
+
+    const node = { url: "https://docs.example/guide", readableText: "Intro text. Deep detail here." };
+    expect(passageHit(node, 12, 29)).toEqual({
+      start: 12,
+      end: 29,
+      text: "Deep detail here.",
+      url: "https://docs.example/guide#:~:text=Deep%20detail%20here.",
+    });
+  });
+});
+
+describe("passage index", () => {
+  const passages = [
+    { start: 0, end: 10, vector: [1, 0, 0] },
+    { start: 8, end: 20, vector: [0, 0, 1] },
+  ];
+
+  it("finds a page through its best passage", () => {
+    const index = new ANNIndex({ dim: 3 });
+    index.assign("page", [0, 1, 0], "m@1", passages);
+    index.assign("other", [1, 1, 0], "m@1");
+
+    const [match] = index.search([0, 0.1, 1], 2, 0.5, "m@1");
+    expect(match).toMatchObject({ nodeId: "page", passage: { start: 8, end: 20 } });
+    expect(index.size).toBe(2);
+    expect(index.nodeIds().sort()).toEqual(["other", "page"]);
+  });
+
+  it("drops passages with their page, including after a reload from buckets", () => {
+    const index = new ANNIndex({ dim: 3 });
+    index.assign("page", [0, 1, 0], "m@1", passages);
+
+    const reloaded = new ANNIndex({ dim: 3 });
+    reloaded.loadBuckets(index.getBuckets());
+    expect(reloaded.missingVectors([passageKey("page", passages[1])])).toEqual(["page"]);
+
+    reloaded.unassign("page");
+    expect(reloaded.getBuckets()).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Passages
+ * Splits long pages into overlapping passages and links back to them
+ *
+ * A page vector only sees the start of the page, so long pages are also embedded
+ * passage by passage. Passages overlap so a sentence cut at one boundary is whole
+ * in the neighbouring passage, and boundaries snap to whitespace so no word is split.
+ * A passage hit links to the page with a text fragment (`#:~:text=start,end`), which
+ * the browser scrolls to and highlights.
+ */
+
+import type { MemoryNode, PassageHit } from "@shared/extension-types";
+
+// Roughly what the sentence model reads in one go (it truncates at 256 tokens)
+export const PASSAGE_CHARS = 600;
+export const PASSAGE_OVERLAP = 150;
+// Pages up to this length are covered by their page vector alone
+export const MIN_PASSAGE_TEXT = 1000;
+const MAX_PASSAGES = 24;
+// Words quoted at each end of a text fragment
+const FRAGMENT_WORDS = 4;
+
+export interface Passage {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Overlapping passages of `text`, or none when the text is short enough for one vector
+ */
+export function splitPassages(text: string): Passage[] {
+  if (text.length <= MIN_PASSAGE_TEXT) return [];
+
+  const passages: Passage[] = [];
+  let start = 0;
+  while (start < text.length && passages.length < MAX_PASSAGES) {
+    let end = Math.min(start + PASSAGE_CHARS, text.length);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(" ", end);
+      if (lastSpace > start) end = lastSpace;
+    }
+    passages.push({ start, end, text: text.slice(start, end) });
+    if (end >= text.length) break;
+
+    // Step back by the overlap, then forward to the start of a word
+    let next = Math.max(end - PASSAGE_OVERLAP, start + 1);
+    const space = text.indexOf(" ", next - 1);
+    next = space === -1 || space >= end ? end : space + 1;
+    start = text[next] === " " ? next + 1 : next;
+  }
+  return passages;
+}
+
+function fragmentText(text: string): string {
+  // Commas and ampersands are encoded already; dashes also delimit the directive (prefix-, -suffix)
+  return encodeURIComponent(text).replace(/-/g, "%2D");
+}
+
+/**
+ * `url` with a text fragment selecting `text`
+ */
+export function textFragmentUrl(url: string, text: string): string {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return url;
+
+  const directive =
+    words.length <= FRAGMENT_WORDS * 2
+      ? fragmentText(words.join(" "))
+      : `${fragmentText(words.slice(0, FRAGMENT_WORDS).join(" "))},${fragmentText(words.slice(-FRAGMENT_WORDS).join(" "))}`;
+
+  // Replace any directive already on the URL, keeping an ordinary #fragment
+  const base = url.split(":~:")[0];
+  return base.includes("#") ? `${base}:~:text=${directive}` : `${base}#:~:text=${directive}`;
+}
+
+/**
+ * The search hit for the passage of `node` between `start` and `end`
+ */
+export function passageHit(node: Pick<MemoryNode, "url" | "readableText">, start: number, end: number): PassageHit {
+  const text = node.readableText.slice(start, end);
+  return { start, end, text, url: textFragmentUrl(node.url, text) };
+}
@@ -0,0 +1,62 @@
+/**
+ * Prefix Index
+ * Terms with the values filed under them, looked up by what the term starts with
+ *
+ * Terms are kept in a sorted array, so all terms sharing a prefix form one run found by
+ * binary search. Adding only appends; the array is re-sorted on the next lookup, which
+ * keeps building the index from scratch at one sort.
+ */
+
+export class PrefixIndex<T> {
+  private terms: string[] = [];
+  private postings = new Map<string, Set<T>>();
+  private sorted = true;
+
+  get size(): number {
+    return this.terms.length;
+  }
+
+  add(term: string, value: T): void {
+    if (!term) return;
+    let values = this.postings.get(term);
+    if (!values) {
+      values = new Set();
+      this.postings.set(term, values);
+      this.terms.push(term);
+      this.sorted = false;
+    }
+    values.add(value);
+  }
+
+  get(term: string): ReadonlySet<T> | undefined {
+    return this.postings.get(term);
+  }
+
+  /**
+   * Terms starting with `prefix` in sorted order, at most `limit` of them
+   */
+  withPrefix(prefix: string, limit: number = Infinity): Array<[string, ReadonlySet<T>]> {
+    if (!this.sorted) {
+      this.terms.sort();
+      this.sorted = true;
+    }
+    const matches: Array<[string, ReadonlySet<T>]> = [];
+    for (let i = this.lowerBound(prefix); i < this.terms.length && matches.length < limit; i++) {
+      const term = this.terms[i];
+      if (!term.startsWith(prefix)) break;
+      matches.push([term, this.postings.get(term)!]);
+    }
+    return matches;
+  }
+
+  private lowerBound(prefix: string): number {
+    let low = 0;
+    let high = this.terms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Sealed Content
+ * Encrypting the title and text of pages and page revisions at rest
+ *
+ * Shared by the storage backends so a sealed record reads the same wherever it is kept.
+ */
+
+import { sealJSON, openJSON, type SealedValue } from "./crypto";
+
+/**
+ * Records whose title and text can be sealed (pages and page revisions).
+ * While sealed, `title`/`readableText` are empty and the real values live in `sealed`.
+ */
+export interface SealableRecord {
+  id: string;
+  title: string;
+  readableText: string;
+  summary?: string;
+  sealed?: SealedValue;
+  // Id the content was sealed under, when the record has since been re-keyed
+  sealedId?: string;
+  locked?: boolean;
+}
+
+type SealedContent = Pick<SealableRecord, "title" | "readableText" | "summary">;
+
+export async function sealContent<T extends SealableRecord>(record: T, key: CryptoKey): Promise<T> {
+  const { title, readableText, summary, locked: _locked, sealedId: _sealedId, ...rest } = record;
+  const sealed = await sealJSON(key, { title, readableText, summary } as SealedContent, record.id);
+  return { ...rest, title: "", readableText: "", sealed } as T;
+}
+
+/**
+ * Decrypt a record; without a key it comes back with empty content and `locked: true`
+ */
+export async function openContent<T extends SealableRecord>(record: T, key: CryptoKey | null): Promise<T> {
+  if (!record.sealed) return record;
+  if (!key) return { ...record, locked: true };
+  const content = await openJSON<SealedContent>(key, record.sealed, record.sealedId ?? record.id);
+  const { sealed: _sealed, sealedId: _sealedId, ...rest } = record;
+  return { ...rest, ...content } as T;
+}
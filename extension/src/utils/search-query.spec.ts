@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { parseSearchQuery, resolveDate, matchesFilters, clusterMembership } from "./search-query";
+
+const now = new Date(2025, 0, 15, 12, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+function page(overrides: Partial<MemoryNode>): MemoryNode {
+  return {
+    id: "page",
+    url: "https://github.com/acme/widgets/issues/1",
+    title: "Widgets crash on start",
+    readableText: "The widget service crashes when the cache directory is missing.",
+    timestamp: now - DAY,
+    keywords: ["widgets", "crash"],
+    language: "en",
+    metadata: { domain: "github.com" },
+    ...overrides,
+  };
+}
+
+describe("parseSearchQuery", () => {
+  it("splits operators from the text to rank by", () => {
+    const parsed = parseSearchQuery('site:github.com after:last-week react "error boundary" -class lang:Japanese', now);
+
+    expect(parsed.text).toBe("react error boundary");
+    expect(parsed.filters).toEqual([
+      { kind: "site", value: "github.com", negated: false, raw: "site:github.com" },
+      { kind: "after", value: "last-week", negated: false, raw: "after:last-week", time: now - 7 * DAY },
+      { kind: "phrase", value: "error boundary", negated: false, raw: '"error boundary"' },
+      { kind: "term", value: "class", negated: true, raw: "-class" },
+      { kind: "lang", value: "ja", negated: false, raw: "lang:Japanese" },
+    ]);
+  });
+
+  it("handles negation, quoted values and text that only looks like an operator", () => {
+    const parsed = parseSearchQuery('-site:https://www.Example.com/blog/ cluster:"Machine learning" -before:2024 note: http://x.y', now);
+
+    expect(parsed.filters).toMatchObject([
+      { kind: "site", value: "example.com/blog", negated: true },
+      { kind: "cluster", value: "Machine learning", negated: false },
+      // Not before 2024 is from 2024 on
+      { kind: "after", value: "2024", time: new Date(2024, 0, 1).getTime() },
+    ]);
+    expect(parsed.text).toBe("note: http://x.y");
+    expect(parseSearchQuery("after:someday", now)).toEqual({ text: "after:someday", filters: [] });
+  });
+
+  it("resolves absolute and relative dates", () => {
+    expect(resolveDate("2024-03", now)).toBe(new Date(2024, 2, 1).getTime());
+    expect(resolveDate("2024-03-15", now)).toBe(new Date(2024, 2, 15).getTime());
+    expect(resolveDate("2024-02-31", now)).toBeNull();
+    expect(resolveDate("today", now)).toBe(new Date(2025, 0, 15).getTime());
+    expect(resolveDate("yesterday", now)).toBe(new Date(2025, 0, 14).getTime());
+    expect(resolveDate("3d", now)).toBe(now - 3 * DAY);
+    expect(resolveDate("last-month", now)).toBe(new Date(2024, 11, 15, 12, 0).getTime());
+    expect(resolveDate("1y", now)).toBe(new Date(2024, 0, 15, 12, 0).getTime());
+  });
+});
+
+describe("matchesFilters", () => {
+  const filtersOf = (query: string) => parseSearchQuery(query, now).filters;
+
+  it("matches sites by host, subdomain and path", () => {
+    expect(matchesFilters(page({}), filtersOf("site:github.com"))).toBe(true);
+    expect(matchesFilters(page({ url: "https://gist.github.com/x" }), filtersOf("site:github.com"))).toBe(true);
+    expect(matchesFilters(page({}), filtersOf("site:github.com/acme"))).toBe(true);
+    expect(matchesFilters(page({}), filtersOf("site:github.com/acme-corp"))).toBe(false);
+    expect(matchesFilters(page({}), filtersOf("-site:github.com"))).toBe(false);
+    // Either site will do
+    expect(matchesFilters(page({}), filtersOf("site:gitlab.com site:github.com"))).toBe(true);
+  });
+
+  it("applies dates, phrases, excluded words, tags, clusters and languages", () => {
+    const node = page({});
+    expect(matchesFilters(node, filtersOf("after:last-week before:today"))).toBe(true);
+    expect(matchesFilters(node, filtersOf("before:yesterday"))).toBe(false);
+    expect(matchesFilters(node, filtersOf('"cache  directory"'))).toBe(true);
+    expect(matchesFilters(node, filtersOf('-"cache directory"'))).toBe(false);
+    expect(matchesFilters(node, filtersOf("-crashes"))).toBe(false);
+    expect(matchesFilters(node, filtersOf("-database"))).toBe(true);
+    expect(matchesFilters(node, filtersOf("tag:widget"))).toBe(true);
+    expect(matchesFilters(node, filtersOf("lang:en -tag:crash"))).toBe(false);
+
+    const clustersByNode = clusterMembership([{ id: "c1", name: "Bug reports", color: "", keywords: [], nodes: [node] }]);
+    expect(matchesFilters(node, filtersOf('cluster:"bug reports"'), { clustersByNode })).toBe(true);
+    expect(matchesFilters(node, filtersOf("cluster:c2"), { clustersByNode })).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Search Query
+ * Parses the search box syntax into ranking text and filters, and tests pages against the filters
+ *
+ * Operators: `site:`, `before:`, `after:`, `"exact phrase"`, `-excluded`, `cluster:`,
+ * `tag:` (a page keyword) and `lang:`. `site:`, `cluster:`, `tag:`, `lang:` and phrases
+ * can be negated with a leading "-"; `-before:` reads as `after:` and vice versa.
+ * Values with spaces are quoted: `cluster:"Machine learning"`.
+ *
+ * A date is absolute (2024, 2024-03, 2024-03-15, local time) or relative (today,
+ * yesterday, last-week, last-month, last-year, 3d, 2w, 6m, 1y). Either way it names a
+ * point in time, the start of the period or that long before now: `after:` keeps pages
+ * captured at or after it, `before:` pages captured earlier.
+ * Unknown operators and dates that don't parse stay in the text.
+ */
+
+import type { MemoryCluster, MemoryNode, ParsedQuery, SearchFilter } from "@shared/extension-types";
+import { languageCode, UNDETERMINED } from "@/lib/language";
+import { documentLanguage, tokenize } from "./text-index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Optional "-", optional `operator:`, then a quoted or bare value
+const TOKEN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const OPERATORS = new Set(["site", "before", "after", "cluster", "tag", "lang"]);
+
+// Filters where any positive one may match (a page has one site and one language); the rest must all match
+const ANY_OF: Array<SearchFilter["kind"]> = ["site", "lang"];
+
+function startOfDay(time: number): Date {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function monthsBefore(time: number, months: number): number {
+  const date = new Date(time);
+  date.setMonth(date.getMonth() - months);
+  return date.getTime();
+}
+
+/**
+ * The point in time a date value names, or null when it isn't a date
+ */
+export function resolveDate(value: string, now: number = Date.now()): number | null {
+  const lower = value.toLowerCase();
+  switch (lower) {
+    case "today":
+      return startOfDay(now).getTime();
+    case "yesterday":
+      return startOfDay(now).getTime() - DAY_MS;
+    case "last-week":
+      return now - 7 * DAY_MS;
+    case "last-month":
+      return monthsBefore(now, 1);
+    case "last-year":
+      return monthsBefore(now, 12);
+  }
+
+  const relative = lower.match(/^(\d+)([dwmy])$/);
+  if (relative) {
+    const count = Number(relative[1]);
+    if (relative[2] === "d") return now - count * DAY_MS;
+    if (relative[2] === "w") return now - count * 7 * DAY_MS;
+    return monthsBefore(now, relative[2] === "m" ? count : count * 12);
+  }
+
+  const absolute = lower.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (absolute) {
+    const [year, month, day] = [Number(absolute[1]), Number(absolute[2] || 1), Number(absolute[3] || 1)];
+    const date = new Date(year, month - 1, day);
+    // Rejects 2024-13 and 2024-02-31, which Date would roll over
+    return date.getMonth() === month - 1 && date.getDate() === day ? date.getTime() : null;
+  }
+  return null;
+}
+
+function normalizeSite(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/+$/, "");
+}
+
+/**
+ * Split a query into ranking text and filters
+ */
+export function parseSearchQuery(query: string, now: number = Date.now()): ParsedQuery {
+  const text: string[] = [];
+  const filters: SearchFilter[] = [];
+
+  for (const match of (query || "").matchAll(TOKEN)) {
+    const [raw, dash, rawOperator, quoted, bare] = match;
+    const negated = dash === "-";
+    const value = (quoted ?? bare).trim();
+    const operator = rawOperator?.toLowerCase();
+
+    if (operator && OPERATORS.has(operator) && value) {
+      if (operator === "before" || operator === "after") {
+        const time = resolveDate(value, now);
+        if (time !== null) {
+          const kind = (operator === "after") !== negated ? "after" : "before";
+          filters.push({ kind, value, negated: false, raw, time });
+          continue;
+        }
+      } else {
+        const kind = operator as SearchFilter["kind"];
+        const normalized = kind === "site" ? normalizeSite(value) : kind === "lang" ? languageCode(value) : value;
+        filters.push({ kind, value: normalized, negated, raw });
+        continue;
+      }
+    } else if (!operator && quoted !== undefined && value) {
+      filters.push({ kind: "phrase", value, negated, raw });
+      // The words of a phrase still rank the results
+      if (!negated) text.push(value);
+      continue;
+    } else if (!operator && negated && value) {
+      filters.push({ kind: "term", value, negated: true, raw });
+      continue;
+    }
+    text.push(raw.replace(/"/g, ""));
+  }
+
+  return { text: text.join(" ").trim(), filters };
+}
+
+export interface FilterContext {
+  // Ids and lowercased names of the clusters each page belongs to
+  clustersByNode?: Map<string, string[]>;
+}
+
+/**
+ * Index cluster membership for `cluster:` filters
+ */
+export function clusterMembership(clusters: MemoryCluster[]): Map<string, string[]> {
+  const membership = new Map<string, string[]>();
+  for (const cluster of clusters) {
+    for (const node of cluster.nodes || []) {
+      membership.set(node.id, [...(membership.get(node.id) || []), cluster.id.toLowerCase(), cluster.name.toLowerCase()]);
+    }
+  }
+  return membership;
+}
+
+function pageSite(node: MemoryNode): { host: string; address: string } {
+  try {
+    const url = new URL(node.url);
+    const host = normalizeSite(url.hostname);
+    return { host, address: `${host}${url.pathname}`.replace(/\/+$/, "").toLowerCase() };
+  } catch {
+    const host = normalizeSite(node.metadata?.domain || "");
+    return { host, address: host };
+  }
+}
+
+function collapse(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ");
+}
+
+function sameTerms(a: string, b: string): boolean {
+  const left = tokenize(a).join(" ");
+  return left !== "" && left === tokenize(b).join(" ");
+}
+
+function filterMatches(node: MemoryNode, filter: SearchFilter, context: FilterContext): boolean {
+  switch (filter.kind) {
+    case "site": {
+      const { host, address } = pageSite(node);
+      return filter.value.includes("/")
+        ? address === filter.value || address.startsWith(`${filter.value}/`)
+        : host === filter.value || host.endsWith(`.${filter.value}`);
+    }
+    case "after":
+      return node.timestamp >= filter.time!;
+    case "before":
+      return node.timestamp < filter.time!;
+    case "phrase":
+      return collapse(`${node.title} ${node.readableText}`).includes(collapse(filter.value));
+    case "term": {
+      const excluded = tokenize(filter.value);
+      if (excluded.length === 0) return false;
+      const language = documentLanguage(node);
+      const terms = new Set(tokenize(`${node.title} ${(node.keywords || []).join(" ")} ${node.readableText}`, language));
+      return excluded.every((term) => terms.has(term));
+    }
+    case "cluster":
+      return (context.clustersByNode?.get(node.id) || []).includes(filter.value.toLowerCase());
+    case "tag":
+      return (node.keywords || []).some(
+        (keyword) => keyword.toLowerCase() === filter.value.toLowerCase() || sameTerms(keyword, filter.value)
+      );
+    case "lang":
+      return (node.language || UNDETERMINED) === filter.value;
+  }
+}
+
+/**
+ * Whether a page passes every filter. Positive `site:` and `lang:` filters are
+ * alternatives; every other positive filter must match, and no negated one may.
+ */
+export function matchesFilters(node: MemoryNode, filters: SearchFilter[], context: FilterContext = {}): boolean {
+  const anyOf = new Map<SearchFilter["kind"], boolean>();
+  for (const filter of filters) {
+    const matches = filterMatches(node, filter, context);
+    if (filter.negated) {
+      if (matches) return false;
+    } else if (ANY_OF.includes(filter.kind)) {
+      anyOf.set(filter.kind, (anyOf.get(filter.kind) || false) || matches);
+    } else if (!matches) {
+      return false;
+    }
+  }
+  return Array.from(anyOf.values()).every(Boolean);
+}
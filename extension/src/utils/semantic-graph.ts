@@ -4,8 +4,10 @@
  */
 
 import type { MemoryNode, Embedding } from "@shared/extension-types";
-import { cosineSimilarity } from "./vector-search";
-import { cortexStorage } from "./storage";
+import { embeddingSimilarity } from "./vector-search";
+import { embeddingModelKey } from "./embedding-models";
+import { activeStorage } from "./storage-engine";
+import type { StorageBackend } from "./storage-backend";
 
 export interface GraphEdge {
   id: string;
@@ -28,20 +30,25 @@ export class SemanticGraphBuilder {
   private minSimilarity = 0.6; // Minimum similarity to create edge
   private maxEdgesPerNode = 10; // Limit edges per node for performance
 
+  constructor(private storage: StorageBackend = activeStorage) {}
+
   /**
    * Update graph with new node
    */
   async addNode(node: MemoryNode, embedding: Embedding): Promise<void> {
     // Get all existing embeddings
-    const allEmbeddings = await cortexStorage.getAllEmbeddings();
+    const allEmbeddings = await this.storage.getAllEmbeddings();
+    const model = embeddingModelKey(embedding);
     
     // Find similar nodes
     const similarNodes: Array<{ nodeId: string; similarity: number }> = [];
     
     for (const { nodeId, embedding: existingEmbedding } of allEmbeddings) {
       if (nodeId === node.id) continue; // Skip self
+      // Pages not yet re-embedded with this model get linked once the re-index reaches them
+      if (embeddingModelKey(existingEmbedding) !== model) continue;
       
-      const similarity = cosineSimilarity(embedding.vector, existingEmbedding.vector);
+      const similarity = embeddingSimilarity(embedding, existingEmbedding);
       if (similarity >= this.minSimilarity) {
         similarNodes.push({ nodeId, similarity });
       }
@@ -53,8 +60,8 @@ export class SemanticGraphBuilder {
 
     // Create bidirectional edges
     for (const { nodeId, similarity } of topSimilar) {
-      await cortexStorage.addGraphEdge(node.id, nodeId, similarity);
-      await cortexStorage.addGraphEdge(nodeId, node.id, similarity);
+      await this.storage.addGraphEdge(node.id, nodeId, similarity);
+      await this.storage.addGraphEdge(nodeId, node.id, similarity);
     }
   }
 
@@ -62,7 +69,7 @@ export class SemanticGraphBuilder {
    * Get semantic neighbors of a node
    */
   async getNeighbors(nodeId: string, limit: number = 5): Promise<MemoryNode[]> {
-    return cortexStorage.getRelatedNodes(nodeId, limit);
+    return this.storage.getRelatedNodes(nodeId, limit);
   }
 
   /**
@@ -84,7 +91,7 @@ export class SemanticGraphBuilder {
       if (visited.has(nodeId)) continue;
 
       visited.add(nodeId);
-      const neighbors = await cortexStorage.getRelatedNodes(nodeId, 10);
+      const neighbors = await this.storage.getRelatedNodes(nodeId, 10);
 
       for (const neighbor of neighbors) {
         if (!visited.has(neighbor.id)) {
@@ -105,7 +112,7 @@ export class SemanticGraphBuilder {
     avgDegree: number;
     clusters: number;
   }> {
-    const stats = await cortexStorage.getStats();
+    const stats = await this.storage.getStats();
     const nodeCount = stats.pageCount;
     const edgeCount = stats.edgeCount;
     const avgDegree = nodeCount > 0 ? (edgeCount / nodeCount) * 2 : 0; // *2 because edges are bidirectional
@@ -125,7 +132,7 @@ export class SemanticGraphBuilder {
    * Detect clusters (connected components)
    */
   private async detectClusters(): Promise<number> {
-    const allNodes = await cortexStorage.getAllMemoryNodes();
+    const allNodes = await this.storage.getAllMemoryNodes();
     const visited = new Set<string>();
     let clusterCount = 0;
 
@@ -138,7 +145,7 @@ export class SemanticGraphBuilder {
 
       while (queue.length > 0) {
         const currentNodeId = queue.shift()!;
-        const neighbors = await cortexStorage.getRelatedNodes(currentNodeId, 100);
+        const neighbors = await this.storage.getRelatedNodes(currentNodeId, 100);
 
         for (const neighbor of neighbors) {
           if (!visited.has(neighbor.id)) {
@@ -0,0 +1,114 @@
+/**
+ * Browsing Sessions
+ * Pure helpers for building session records out of page activity
+ *
+ * There is one session at a time across all tabs. Activity in any tab keeps
+ * it open; once nothing happens for SESSION_IDLE_GAP_MS the next page starts
+ * a new session.
+ */
+
+import type { MemoryNode, SessionRecord } from "@shared/extension-types";
+
+export const SESSION_IDLE_GAP_MS = 30 * 60 * 1000;
+const SESSION_KEYWORD_LIMIT = 10;
+
+type SessionPage = Pick<MemoryNode, "id" | "timestamp" | "keywords" | "metadata">;
+
+export function createSession(startTime: number): SessionRecord {
+  return {
+    id: `session_${startTime}_${Math.random().toString(36).slice(2, 11)}`,
+    startTime,
+    endTime: startTime,
+    pageIds: [],
+    domains: [],
+    keywords: [],
+    keywordCounts: {},
+    tabIds: [],
+  };
+}
+
+/**
+ * Whether activity at `at` still belongs to the session
+ */
+export function isSessionOpen(session: SessionRecord, at: number): boolean {
+  return at - session.endTime <= SESSION_IDLE_GAP_MS;
+}
+
+function topKeywords(counts: Record<string, number>): string[] {
+  return Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, SESSION_KEYWORD_LIMIT)
+    .map(([keyword]) => keyword);
+}
+
+/**
+ * Extend a session with activity in a tab (without a new page)
+ */
+export function touchSession(session: SessionRecord, at: number, tabId?: number): SessionRecord {
+  const tabIds = tabId === undefined || session.tabIds.includes(tabId) ? session.tabIds : [...session.tabIds, tabId];
+  return { ...session, endTime: Math.max(session.endTime, at), tabIds };
+}
+
+/**
+ * Add a page to a session; a page already in it only extends the session
+ */
+export function addPageToSession(session: SessionRecord, page: SessionPage, tabId?: number): SessionRecord {
+  const touched = touchSession(session, page.timestamp, tabId);
+  if (session.pageIds.includes(page.id)) return touched;
+
+  const keywordCounts = { ...session.keywordCounts };
+  new Set(page.keywords).forEach((keyword) => {
+    keywordCounts[keyword] = (keywordCounts[keyword] || 0) + 1;
+  });
+  const domain = page.metadata.domain;
+
+  return {
+    ...touched,
+    startTime: Math.min(session.startTime, page.timestamp),
+    pageIds: [...session.pageIds, page.id],
+    domains: domain && !session.domains.includes(domain) ? [...session.domains, domain] : session.domains,
+    keywordCounts,
+    keywords: topKeywords(keywordCounts),
+  };
+}
+
+/**
+ * Combine two sessions into the one that started first
+ */
+export function mergeSessionRecords(a: SessionRecord, b: SessionRecord): SessionRecord {
+  const [first, second] = a.startTime <= b.startTime ? [a, b] : [b, a];
+  const pageIds = [...first.pageIds, ...second.pageIds.filter((id) => !first.pageIds.includes(id))];
+  const keywordCounts = { ...first.keywordCounts };
+  Object.entries(second.keywordCounts).forEach(([keyword, count]) => {
+    keywordCounts[keyword] = (keywordCounts[keyword] || 0) + count;
+  });
+
+  return {
+    ...first,
+    endTime: Math.max(first.endTime, second.endTime),
+    pageIds,
+    domains: Array.from(new Set([...first.domains, ...second.domains])),
+    keywordCounts,
+    keywords: topKeywords(keywordCounts),
+    tabIds: Array.from(new Set([...first.tabIds, ...second.tabIds])),
+  };
+}
+
+/**
+ * Split pages into sessions wherever the gap between consecutive pages exceeds the idle gap
+ */
+export function groupIntoSessions(pages: SessionPage[]): SessionRecord[] {
+  const sessions: SessionRecord[] = [];
+  let current: SessionRecord | null = null;
+
+  for (const page of [...pages].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (!current || !isSessionOpen(current, page.timestamp)) {
+      current = createSession(page.timestamp);
+      sessions.push(current);
+    }
+    const next: SessionRecord = addPageToSession(current, page, page.metadata.tabId);
+    sessions[sessions.length - 1] = next;
+    current = next;
+  }
+  return sessions;
+}
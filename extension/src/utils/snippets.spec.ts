@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { buildSnippet, SNIPPET_CHARS } from "./snippets";
+
+const marked = (snippet: { text: string; highlights: Array<{ start: number; end: number }> }) =>
+  snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end));
+
+const otters = {
+  title: "Sea otters of the Pacific",
+  language: "en",
+  readableText: [
+    "Sea otters live along the coasts of the northern Pacific.",
+    "They spend most of their lives in the water, resting, grooming and diving in the cold currents near shore.",
+    "Their dense fur, the thickest of any animal, keeps them warm without a layer of blubber.",
+    "Otters crack open shellfish with rocks they keep in a pouch.",
+    "Kelp forests shelter them from storms.",
+  ].join(" "),
+};
+
+describe("buildSnippet", () => {
+  it("picks the sentences with the most query terms and marks the matched words", () => {
+    const snippet = buildSnippet(otters, { text: "otter rock shellfish" });
+
+    expect(snippet.text).toContain("Otters crack open shellfish with rocks");
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(marked(snippet)).toEqual(expect.arrayContaining(["Otters", "shellfish", "rocks"]));
+    expect(snippet.titleHighlights).toEqual([{ start: 4, end: 10 }]);
+  });
+
+  it("marks a phrase as a whole", () => {
+    const snippet = buildSnippet(otters, { text: "kelp forests", phrases: ["kelp forests"] });
+
+    expect(marked(snippet)).toEqual(["Kelp forests"]);
+    expect(snippet.text.endsWith("storms.")).toBe(true);
+  });
+
+  it("cuts a long sentence around its first match", () => {
+    const filler = "word ".repeat(120);
+    const page = { title: "Long", language: "en", readableText: `${filler}the otter surfaced ${filler}` };
+    const snippet = buildSnippet(page, { text: "otter" });
+
+    expect(snippet.text.length).toBeLessThanOrEqual(SNIPPET_CHARS + 2);
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(snippet.text.endsWith("…")).toBe(true);
+    expect(marked(snippet)).toEqual(["otter"]);
+  });
+
+  it("starts at the best passage when no word matches", () => {
+    const passageStart = otters.readableText.indexOf("Kelp");
+    const snippet = buildSnippet(otters, { text: "marine mammals" }, { start: passageStart, end: otters.readableText.length });
+
+    expect(snippet.text).toBe("…Kelp forests shelter them from storms.");
+    expect(snippet.highlights).toEqual([]);
+    expect(buildSnippet(otters, { text: "" }).text.startsWith("Sea otters live")).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Search Snippets
+ * Picks the sentences of a page that best match a query and marks the matched words
+ *
+ * Words are compared the way the full-text index compares them (stemmed in the page's
+ * language, with prefix matches for longer query terms), so a highlight appears wherever
+ * a keyword hit came from. The snippet is the run of consecutive sentences, up to
+ * SNIPPET_CHARS, covering the most distinct query terms; a sentence longer than that is
+ * cut around its first match. Pages without a hit start at their best passage, if the
+ * vector search found one, or at the top.
+ */
+
+import type { MemoryNode, SearchSnippet, TextRange } from "@shared/extension-types";
+import { isStopword, sentenceSpans, stem, wordSpans, type TextSpan } from "@/lib/language";
+import { documentLanguage, tokenize, MIN_PREFIX_LENGTH } from "./text-index";
+
+export const SNIPPET_CHARS = 240;
+// Context kept before the first match when a long sentence has to be cut
+const LEAD_CHARS = 60;
+const ELLIPSIS = "…";
+
+const LETTER_RUN = /[\p{L}\p{N}\p{M}]+/gu;
+
+interface SnippetQuery {
+  // Free text of the query (see ParsedQuery.text)
+  text: string;
+  // Exact phrases to mark as a whole
+  phrases?: string[];
+}
+
+interface Hit extends TextRange {
+  // Query term or phrase the hit is for
+  term: string;
+}
+
+/**
+ * Matched words and phrases of `text`, in order and without overlaps
+ */
+function findHits(text: string, terms: string[], phrases: string[], language: string): Hit[] {
+  const hits: Hit[] = [];
+  if (terms.length > 0) {
+    for (const word of wordSpans(text, language)) {
+      // A segment can hold several index terms ("don't"), as tokenize() splits them
+      for (const part of word.text.matchAll(LETTER_RUN)) {
+        const lower = part[0].normalize("NFC").toLowerCase();
+        if (isStopword(lower, language)) continue;
+        const stemmed = stem(lower, language);
+        const term = terms.find(
+          (queryTerm) => stemmed === queryTerm || (queryTerm.length >= MIN_PREFIX_LENGTH && stemmed.startsWith(queryTerm))
+        );
+        if (term) {
+          const start = word.start + part.index!;
+          hits.push({ start, end: start + part[0].length, term });
+        }
+      }
+    }
+  }
+
+  const lower = text.toLowerCase();
+  for (const phrase of phrases) {
+    const needle = phrase.toLowerCase();
+    for (let at = lower.indexOf(needle); needle && at !== -1; at = lower.indexOf(needle, at + needle.length)) {
+      hits.push({ start: at, end: at + needle.length, term: `"${phrase}"` });
+    }
+  }
+
+  // Phrases swallow the words inside them
+  hits.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: Hit[] = [];
+  for (const hit of hits) {
+    const last = merged[merged.length - 1];
+    if (last && hit.start < last.end) {
+      last.end = Math.max(last.end, hit.end);
+    } else {
+      merged.push({ ...hit });
+    }
+  }
+  return merged;
+}
+
+function windowScore(hits: Hit[]): number {
+  // Distinct terms first, then the number of hits
+  return new Set(hits.map((hit) => hit.term)).size * 100 + hits.length;
+}
+
+/**
+ * Range of `text` the snippet shows
+ */
+function chooseRange(text: string, sentences: TextSpan[], hits: Hit[], fallbackStart: number): TextRange {
+  const within = (start: number, end: number) => hits.filter((hit) => hit.start >= start && hit.end <= end);
+
+  let best: { start: number; end: number; score: number } | null = null;
+  for (let i = 0; i < sentences.length; i++) {
+    let end = sentences[i].end;
+    for (let j = i + 1; j < sentences.length && sentences[j].end - sentences[i].start <= SNIPPET_CHARS; j++) {
+      end = sentences[j].end;
+    }
+    const score = windowScore(within(sentences[i].start, end));
+    if (score > 0 && (!best || score > best.score)) best = { start: sentences[i].start, end, score };
+  }
+
+  if (!best) {
+    // No hits: the sentence holding the best passage, or the top of the page
+    const sentence = sentences.find((s) => s.end > fallbackStart) || sentences[0];
+    best = { start: sentence?.start ?? 0, end: sentence?.end ?? text.length, score: 0 };
+  }
+  if (best.end - best.start <= SNIPPET_CHARS) return best;
+
+  // One sentence is too long: keep some lead-in before its first match, cut on word boundaries
+  const first = within(best.start, best.end)[0];
+  let start = first ? Math.max(best.start, first.start - LEAD_CHARS) : best.start;
+  if (start > best.start) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < (first?.start ?? best.end)) start = space + 1;
+  }
+  let end = Math.min(best.end, start + SNIPPET_CHARS);
+  if (end < best.end) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+  return { start, end };
+}
+
+/**
+ * Snippet of a page for a query, with highlight offsets into the snippet and the title
+ */
+export function buildSnippet(
+  node: Pick<MemoryNode, "title" | "readableText" | "language">,
+  query: SnippetQuery,
+  passage?: TextRange
+): SearchSnippet {
+  const language = documentLanguage(node);
+  const terms = Array.from(new Set(tokenize(query.text, language)));
+  const phrases = (query.phrases || []).filter(Boolean);
+  const text = node.readableText || "";
+
+  const hits = findHits(text, terms, phrases, language);
+  const { start, end } = chooseRange(text, sentenceSpans(text, language), hits, passage?.start ?? 0);
+  const prefix = start > 0 ? ELLIPSIS : "";
+  const suffix = end < text.trimEnd().length ? ELLIPSIS : "";
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: hits
+      .filter((hit) => hit.start >= start && hit.end <= end)
+      .map((hit) => ({ start: hit.start - start + prefix.length, end: hit.end - start + prefix.length })),
+    titleHighlights: findHits(node.title || "", terms, phrases, language).map(({ start, end }) => ({ start, end })),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * SQLite Client
+ * Runs SQL against the OPFS database owned by the SQLite worker
+ *
+ * MV3 service workers can neither spawn workers nor use OPFS sync access handles,
+ * so the database lives in a dedicated worker started by the offscreen document.
+ * BLOB parameters and results cross the channel as bytes.
+ */
+
+import { OffscreenChannelClient } from "./offscreen";
+
+export type SqlValue = string | number | null | Uint8Array;
+export type SqlRow = Record<string, SqlValue>;
+
+export interface SqlStatement {
+  sql: string;
+  params?: SqlValue[];
+}
+
+export interface SqlClient {
+  query<R extends SqlRow = SqlRow>(sql: string, params?: SqlValue[]): Promise<R[]>;
+  // All statements in one transaction: either every one applies or none does
+  run(statements: SqlStatement[]): Promise<void>;
+}
+
+export type SqliteRequest =
+  | { id: string; kind: "open" }
+  | { id: string; kind: "query"; sql: string; params: SqlValue[] }
+  | { id: string; kind: "run"; statements: SqlStatement[] };
+
+export const SQLITE_CHANNEL = "cortex-sqlite";
+
+export class OffscreenSqlClient extends OffscreenChannelClient<SqliteRequest> implements SqlClient {
+  constructor() {
+    super(SQLITE_CHANNEL, "SQLite worker");
+  }
+
+  async query<R extends SqlRow = SqlRow>(sql: string, params: SqlValue[] = []): Promise<R[]> {
+    return ((await this.send((id) => ({ id, kind: "query", sql, params }))) ?? []) as R[];
+  }
+
+  async run(statements: SqlStatement[]): Promise<void> {
+    if (statements.length === 0) return;
+    await this.send((id) => ({ id, kind: "run", statements }));
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { encodeRecord, decodeRecord, ftsMatchQuery, pendingSchemaSteps, LATEST_SQLITE_VERSION } from "./sqlite-schema";
+
+describe("sqlite record codec", () => {
+  it("round-trips binary values through JSON", () => {
+    const record = {
+      id: "a",
+      sealed: { iv: new Uint8Array([1, 2, 3]), data: new Uint8Array([250, 0, 7]).buffer },
+      packed: { data: new Float32Array([0.5, -1.25]), scale: 1 },
+      quantized: new Int8Array([-128, 0, 127]),
+    };
+    const decoded = decodeRecord<typeof record>(encodeRecord(record));
+    expect(decoded.id).toBe("a");
+    expect(decoded.sealed.iv).toEqual(new Uint8Array([1, 2, 3]));
+    expect(new Uint8Array(decoded.sealed.data)).toEqual(new Uint8Array([250, 0, 7]));
+    expect(decoded.packed.data).toEqual(new Float32Array([0.5, -1.25]));
+    expect(decoded.quantized).toEqual(new Int8Array([-128, 0, 127]));
+  });
+
+  it("encodes views over part of a buffer", () => {
+    const bytes = new Uint8Array([9, 8, 7, 6]).subarray(1, 3);
+    expect(decodeRecord<Uint8Array>(encodeRecord(bytes))).toEqual(new Uint8Array([8, 7]));
+  });
+});
+
+describe("sqlite schema", () => {
+  it("only runs steps newer than the database", () => {
+    expect(pendingSchemaSteps(0).map((step) => step.version)).toContain(LATEST_SQLITE_VERSION);
+    expect(pendingSchemaSteps(LATEST_SQLITE_VERSION)).toEqual([]);
+  });
+
+  it("builds an FTS5 query with prefix matching for longer terms", () => {
+    expect(ftsMatchQuery(["otter", "ai", "otter"])).toBe('"otter"* OR "ai"');
+    expect(ftsMatchQuery([])).toBeNull();
+  });
+});
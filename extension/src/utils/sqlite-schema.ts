@@ -0,0 +1,216 @@
+/**
+ * Cortex SQLite Schema
+ * Tables, versioned schema steps and record encoding for the SQLite storage engine
+ *
+ * Columns hold what queries filter, sort or aggregate on; the full record is kept
+ * next to them as JSON so every engine returns the same objects. The full-text
+ * table is contentless: it stores index terms only, never page text.
+ */
+
+import { MIN_PREFIX_LENGTH } from "./text-index";
+
+export interface SqliteSchemaStep {
+  version: number;
+  description: string;
+  statements: string[];
+  // Re-analyze plaintext pages and rewrite their full-text rows, for changes to `tokenize()`
+  // that SQL can't express; sealed pages keep their rows until they are next captured
+  reindexText?: boolean;
+}
+
+export const SQLITE_SCHEMA: SqliteSchemaStep[] = [
+  {
+    version: 1,
+    description: "Create the tables, indexes and full-text index",
+    statements: [
+      // The implicit rowid links a page to its row in pages_fts and survives upserts
+      `CREATE TABLE IF NOT EXISTS pages (
+        rowid INTEGER PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        domain TEXT NOT NULL DEFAULT '',
+        user_id TEXT,
+        session_id TEXT,
+        timestamp INTEGER NOT NULL,
+        record TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS pages_timestamp ON pages (timestamp)",
+      "CREATE INDEX IF NOT EXISTS pages_domain ON pages (domain)",
+      "CREATE INDEX IF NOT EXISTS pages_user ON pages (user_id)",
+      "CREATE INDEX IF NOT EXISTS pages_session ON pages (session_id)",
+      // Columns are filled with `tokenize()` output so FTS5 sees the same terms as the other engines
+      `CREATE VIRTUAL TABLE IF NOT EXISTS pages_fts USING fts5 (
+        title, keywords, body,
+        content = '', contentless_delete = 1, tokenize = 'unicode61 remove_diacritics 0'
+      )`,
+      `CREATE TABLE IF NOT EXISTS embeddings (
+        node_id TEXT PRIMARY KEY,
+        model TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        format TEXT NOT NULL,
+        dim INTEGER NOT NULL,
+        scale REAL NOT NULL,
+        data BLOB NOT NULL
+      )`,
+      "CREATE TABLE IF NOT EXISTS ann_buckets (hash INTEGER PRIMARY KEY, node_ids TEXT NOT NULL)",
+      `CREATE TABLE IF NOT EXISTS revisions (
+        id TEXT PRIMARY KEY,
+        node_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        record TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS revisions_node ON revisions (node_id, timestamp)",
+      `CREATE TABLE IF NOT EXISTS visits (
+        id TEXT PRIMARY KEY,
+        node_id TEXT NOT NULL,
+        tab_id INTEGER,
+        type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        end_timestamp INTEGER,
+        record TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS visits_node ON visits (node_id)",
+      "CREATE INDEX IF NOT EXISTS visits_tab ON visits (tab_id)",
+      "CREATE INDEX IF NOT EXISTS visits_timestamp ON visits (timestamp)",
+      `CREATE TABLE IF NOT EXISTS edges (
+        id TEXT PRIMARY KEY,
+        from_node TEXT NOT NULL,
+        to_node TEXT NOT NULL,
+        strength REAL NOT NULL,
+        timestamp INTEGER NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS edges_from ON edges (from_node)",
+      "CREATE INDEX IF NOT EXISTS edges_to ON edges (to_node)",
+      "CREATE TABLE IF NOT EXISTS clusters (id TEXT PRIMARY KEY, record TEXT NOT NULL)",
+      `CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        start_time INTEGER NOT NULL,
+        end_time INTEGER NOT NULL,
+        record TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS sessions_start ON sessions (start_time)",
+      "CREATE TABLE IF NOT EXISTS rules (id TEXT PRIMARY KEY, record TEXT NOT NULL)",
+      "CREATE TABLE IF NOT EXISTS settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)",
+      `CREATE TABLE IF NOT EXISTS trash (
+        id TEXT PRIMARY KEY,
+        deleted_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        entry TEXT NOT NULL,
+        records TEXT NOT NULL
+      )`,
+      "CREATE INDEX IF NOT EXISTS trash_expires ON trash (expires_at)",
+    ],
+  },
+  {
+    version: 2,
+    description: "Record the registry model and version of each embedding",
+    statements: [
+      "ALTER TABLE embeddings ADD COLUMN model_id TEXT",
+      "ALTER TABLE embeddings ADD COLUMN model_version INTEGER",
+    ],
+  },
+  {
+    version: 3,
+    description: "Store passage vectors (offsets and packed vectors, encoded) with each embedding",
+    statements: ["ALTER TABLE embeddings ADD COLUMN passages TEXT"],
+  },
+  {
+    version: 4,
+    description: "Detect page languages and re-index page text with language-aware terms",
+    statements: [],
+    reindexText: true,
+  },
+];
+
+export const LATEST_SQLITE_VERSION = SQLITE_SCHEMA[SQLITE_SCHEMA.length - 1].version;
+
+// Every table, in the order `clearAllData` empties them
+export const SQLITE_TABLES = [
+  "pages",
+  "pages_fts",
+  "embeddings",
+  "ann_buckets",
+  "revisions",
+  "visits",
+  "edges",
+  "clusters",
+  "sessions",
+  "rules",
+  "settings",
+  "trash",
+] as const;
+
+/**
+ * Steps still to run on a database at `currentVersion` (its `PRAGMA user_version`)
+ */
+export function pendingSchemaSteps(currentVersion: number): SqliteSchemaStep[] {
+  return SQLITE_SCHEMA.filter((step) => step.version > currentVersion);
+}
+
+// Binary values (sealed content, typed arrays) have no JSON form, so they are tagged base64
+const BINARY_TAG = "$binary";
+const BINARY_TYPES = {
+  ArrayBuffer: (bytes: Uint8Array<ArrayBuffer>) => bytes.buffer,
+  Uint8Array: (bytes: Uint8Array<ArrayBuffer>) => bytes,
+  Int8Array: (bytes: Uint8Array<ArrayBuffer>) => new Int8Array(bytes.buffer),
+  Float32Array: (bytes: Uint8Array<ArrayBuffer>) => new Float32Array(bytes.buffer),
+} as const;
+type BinaryType = keyof typeof BINARY_TYPES;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked, because spreading a large array into fromCharCode overflows the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+function binaryType(value: unknown): BinaryType | null {
+  if (value instanceof ArrayBuffer) return "ArrayBuffer";
+  if (value instanceof Uint8Array) return "Uint8Array";
+  if (value instanceof Int8Array) return "Int8Array";
+  if (value instanceof Float32Array) return "Float32Array";
+  return null;
+}
+
+/**
+ * Serialize a record for a JSON column
+ */
+export function encodeRecord(value: unknown): string {
+  return JSON.stringify(value, (_key, current: unknown) => {
+    const type = binaryType(current);
+    if (!type) return current;
+    const view = current as ArrayBuffer | ArrayBufferView;
+    const bytes = ArrayBuffer.isView(view)
+      ? new Uint8Array(view.buffer, view.byteOffset, view.byteLength)
+      : new Uint8Array(view);
+    return { [BINARY_TAG]: type, base64: toBase64(bytes) };
+  });
+}
+
+export function decodeRecord<T>(text: string): T {
+  return JSON.parse(text, (_key, current: any) => {
+    if (current && typeof current === "object" && typeof current[BINARY_TAG] === "string") {
+      return BINARY_TYPES[current[BINARY_TAG] as BinaryType](fromBase64(current.base64));
+    }
+    return current;
+  });
+}
+
+/**
+ * FTS5 MATCH expression for already tokenized query terms: any term may match, and terms
+ * of MIN_PREFIX_LENGTH or more characters also match longer terms they prefix.
+ * Returns null when there is nothing to search for.
+ */
+export function ftsMatchQuery(terms: string[]): string | null {
+  const clauses = Array.from(new Set(terms))
+    // `tokenize()` only emits letters and digits, but quotes must never reach the expression
+    .map((term) => term.replace(/"/g, ""))
+    .filter(Boolean)
+    .map((term) => (term.length >= MIN_PREFIX_LENGTH ? `"${term}"*` : `"${term}"`));
+  return clauses.length > 0 ? clauses.join(" OR ") : null;
+}
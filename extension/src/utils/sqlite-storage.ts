@@ -0,0 +1,1337 @@
+/**
+ * Cortex SQLite Storage
+ * StorageEngine on SQLite (WASM, persisted in OPFS) for large memories
+ *
+ * Filters, sorts and aggregates run in SQL instead of over `getAll()` results,
+ * and keyword search uses FTS5's BM25 with the same field weights as the
+ * IndexedDB engine. Records come back exactly as CortexStorage returns them.
+ */
+
+import type {
+  MemoryNode,
+  Embedding,
+  MemoryCluster,
+  SemanticMatch,
+  PrivacyRule,
+  CaptureSettings,
+  PageRevision,
+  VisitEvent,
+  SessionRecord,
+  ForgetFilter,
+  ForgetPreview,
+  TrashEntry,
+} from "@shared/extension-types";
+import { ANNIndex, type ANNBucket, type ANNIndexConfig } from "./vector-search";
+import { packVector, unpackVector, type PackedVector } from "./vector-codec";
+import { ANN_CONFIG_KEY, ENCRYPTION_CONFIG_KEY, SEARCH_STATS_KEY } from "./migrations";
+import { sealContent, openContent, type SealableRecord } from "./sealed-content";
+import { embeddingModelKey } from "./embedding-models";
+import { passageHit } from "./passages";
+import { tokenize, documentLanguage, matchedQueryTerms, FIELD_WEIGHTS } from "./text-index";
+import { SQLITE_TABLES, pendingSchemaSteps, encodeRecord, decodeRecord, ftsMatchQuery } from "./sqlite-schema";
+import type { SqlClient, SqlStatement, SqlValue } from "./sqlite-client";
+import {
+  CAPTURE_SETTINGS_KEY,
+  RECORD_OVERHEAD_BYTES,
+  buildForgetPreview,
+  forgetCriterion,
+  forgetLabel,
+  indexedPassages,
+  newTrashEntry,
+  packPassages,
+  pageFootprint,
+  revisionBytes,
+  revisionFor,
+  unpackPassages,
+  withSettingDefaults,
+  type EmbeddingRecord,
+  type PackedPassage,
+  type GraphEdgeRecord,
+  type KeywordMatch,
+  type PageAggregates,
+  type PageFootprint,
+  type StorageEngine,
+  type StorageSnapshot,
+  type StorageStats,
+  type TrashedRecords,
+} from "./storage-backend";
+
+interface EmbeddingRow {
+  node_id: string;
+  model: string;
+  model_id: string | null;
+  model_version: number | null;
+  // Encoded PackedPassage[]
+  passages: string | null;
+  timestamp: number;
+  format: string;
+  dim: number;
+  scale: number;
+  data: Uint8Array;
+  [column: string]: SqlValue;
+}
+
+// `json_each(?)` takes any number of ids in one parameter
+const IN_IDS = "IN (SELECT value FROM json_each(?))";
+
+function toPacked(row: EmbeddingRow): PackedVector {
+  // Copy into a fresh buffer: BLOB views are not guaranteed to be aligned for Float32Array
+  const bytes = row.data.slice();
+  return {
+    format: row.format as PackedVector["format"],
+    dim: row.dim,
+    scale: row.scale,
+    data: row.format === "int8" ? new Int8Array(bytes.buffer) : new Float32Array(bytes.buffer),
+  };
+}
+
+function toEmbeddingRecord(row: EmbeddingRow): EmbeddingRecord {
+  return {
+    nodeId: row.node_id,
+    model: row.model as Embedding["model"],
+    modelId: row.model_id ?? undefined,
+    modelVersion: row.model_version ?? undefined,
+    timestamp: row.timestamp,
+    packed: toPacked(row),
+    passages: row.passages ? decodeRecord<PackedPassage[]>(row.passages) : undefined,
+  };
+}
+
+function toEmbedding(row: EmbeddingRow): Embedding {
+  const { model, modelId, modelVersion, timestamp, packed, passages } = toEmbeddingRecord(row);
+  return { vector: unpackVector(packed), model, modelId, modelVersion, timestamp, passages: unpackPassages(passages) };
+}
+
+function packedBytes(packed: PackedVector): Uint8Array {
+  return new Uint8Array(packed.data.buffer, packed.data.byteOffset, packed.data.byteLength);
+}
+
+function clearStatements(): SqlStatement[] {
+  // A contentless FTS5 table is emptied with its 'delete-all' command
+  return SQLITE_TABLES.map((table) =>
+    table === "pages_fts" ? { sql: "INSERT INTO pages_fts (pages_fts) VALUES ('delete-all')" } : { sql: `DELETE FROM ${table}` }
+  );
+}
+
+/**
+ * FTS5 columns for a page: the analyzed terms, so FTS5 matches exactly what `tokenize()` produced
+ */
+function ftsColumns(node: Pick<MemoryNode, "title" | "keywords" | "readableText" | "language">): string[] {
+  const language = documentLanguage(node);
+  return [
+    tokenize(node.title || "", language).join(" "),
+    tokenize((node.keywords || []).join(" "), language).join(" "),
+    tokenize(node.readableText || "", language).join(" "),
+  ];
+}
+
+export class SQLiteStorage implements StorageEngine {
+  private initPromise: Promise<void> | null = null;
+  private annIndex: ANNIndex = new ANNIndex();
+  private encryptionEnabled: boolean = false;
+  private contentKey: CryptoKey | null = null;
+  // Reads and writes are separate round trips to the worker, so read-modify-write
+  // operations queue here to keep captures, deletes and re-encryption from interleaving
+  private writing: Promise<void> = Promise.resolve();
+
+  // Opened on first use, like CortexStorage
+  constructor(private sql: SqlClient) {}
+
+  private async init(): Promise<void> {
+    const [{ user_version }] = await this.sql.query("PRAGMA user_version");
+    for (const step of pendingSchemaSteps(Number(user_version))) {
+      await this.sql.run([
+        ...step.statements.map((sql) => ({ sql })),
+        ...(step.reindexText ? await this.reindexTextStatements() : []),
+        { sql: `PRAGMA user_version = ${step.version}` },
+      ]);
+      console.log(`CortexStorage: SQLite schema at v${step.version} (${step.description})`);
+    }
+
+    this.encryptionEnabled = (await this.readSetting(ENCRYPTION_CONFIG_KEY)) !== null;
+    await this.hydrateIndex();
+  }
+
+  async ready(): Promise<void> {
+    await (this.initPromise ??= this.init());
+  }
+
+  /**
+   * Store the detected language of every plaintext page and rebuild its full-text row
+   */
+  private async reindexTextStatements(): Promise<SqlStatement[]> {
+    const rows = await this.sql.query<{ record: string }>("SELECT record FROM pages");
+    const pages = rows.map((row) => decodeRecord<MemoryNode & SealableRecord>(row.record)).filter((page) => !page.sealed);
+    return pages.flatMap((page) => {
+      const node = { ...page, language: documentLanguage(page) };
+      return [this.pageStatement(node), ...this.indexStatements([node])];
+    });
+  }
+
+  private async exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const previous = this.writing;
+    let release = () => {};
+    this.writing = new Promise((resolve) => (release = resolve));
+    await previous;
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Load persisted ANN buckets, rebuilding them unless they cover as many pages as the embeddings
+   * table and add up to the checksum saved with them
+   */
+  private async hydrateIndex(): Promise<void> {
+    const [config, buckets, [{ embeddings }]] = await Promise.all([
+      this.readSetting<ANNIndexConfig & { checksum?: number }>(ANN_CONFIG_KEY),
+      this.sql.query<{ hash: number; node_ids: string }>("SELECT hash, node_ids FROM ann_buckets"),
+      this.sql.query<{ embeddings: number }>("SELECT COUNT(*) AS embeddings FROM embeddings"),
+    ]);
+
+    const current = this.annIndex.getConfig();
+    const configMatches =
+      !!config && config.seed === current.seed && config.numHashes === current.numHashes && config.dim === current.dim;
+    if (configMatches) {
+      this.annIndex.loadBuckets(
+        buckets.map((row): ANNBucket => ({ hash: row.hash, nodeIds: JSON.parse(row.node_ids) }))
+      );
+    }
+
+    const indexed = this.annIndex.size;
+    if (!configMatches || embeddings !== indexed || config?.checksum !== this.annIndex.checksum()) {
+      console.warn(`CortexStorage: ANN index out of sync (${indexed} indexed, ${embeddings} embeddings), rebuilding`);
+      await this.rebuildAnnIndex();
+    }
+  }
+
+  /**
+   * Compare persisted ANN buckets with every embedding and rebuild them on any disagreement:
+   * a missing or extra page, or one filed under a bucket its vectors don't hash to.
+   * Reads and hashes every vector, so it runs on demand rather than on every start.
+   */
+  async verifyAnnIndex(): Promise<{ consistent: boolean; indexed: number; embeddings: number }> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const rows = await this.sql.query<EmbeddingRow>("SELECT * FROM embeddings");
+      const indexed = this.annIndex.size;
+      // Same count and every embedding in its own buckets means the same set of pages
+      const consistent =
+        rows.length === indexed &&
+        rows.map(toEmbeddingRecord).every((record) =>
+          this.annIndex.isAssigned(record.nodeId, record.packed, indexedPassages(record.passages))
+        );
+      if (!consistent) {
+        console.warn(`CortexStorage: ANN index out of sync (${indexed} indexed, ${rows.length} embeddings), rebuilding`);
+        await this.rebuildAnnIndex();
+      }
+      return { consistent, indexed, embeddings: rows.length };
+    });
+  }
+
+  private async rebuildAnnIndex(): Promise<void> {
+    const rows = await this.sql.query<EmbeddingRow>("SELECT * FROM embeddings");
+    this.annIndex.clear();
+    rows.forEach((row) => {
+      const record = toEmbeddingRecord(row);
+      this.annIndex.assign(row.node_id, record.packed, embeddingModelKey(record), indexedPassages(record.passages));
+    });
+    await this.sql.run([{ sql: "DELETE FROM ann_buckets" }, ...this.annStateStatements()]);
+    console.log(`CortexStorage: ANN index rebuilt with ${rows.length} nodes`);
+  }
+
+  /**
+   * Every bucket plus the projection config they were built with
+   */
+  private annStateStatements(): SqlStatement[] {
+    return [
+      ...this.annIndex.getBuckets().map((bucket) => ({
+        sql: "INSERT OR REPLACE INTO ann_buckets (hash, node_ids) VALUES (?, ?)",
+        params: [bucket.hash, JSON.stringify(bucket.nodeIds)],
+      })),
+      this.annConfigStatement(),
+    ];
+  }
+
+  /**
+   * The projection config the persisted buckets were built with, and their checksum
+   */
+  private annConfigStatement(): SqlStatement {
+    return this.settingStatement(ANN_CONFIG_KEY, { ...this.annIndex.getConfig(), checksum: this.annIndex.checksum() });
+  }
+
+  /**
+   * Write the current membership of the given buckets (deleting emptied ones) and the new checksum
+   */
+  private bucketStatements(hashes: Iterable<number | undefined>): SqlStatement[] {
+    const statements: SqlStatement[] = [this.annConfigStatement()];
+    for (const hash of new Set(hashes)) {
+      if (hash === undefined) continue;
+      const nodeIds = this.annIndex.getBucket(hash);
+      statements.push(
+        nodeIds.length > 0
+          ? { sql: "INSERT OR REPLACE INTO ann_buckets (hash, node_ids) VALUES (?, ?)", params: [hash, JSON.stringify(nodeIds)] }
+          : { sql: "DELETE FROM ann_buckets WHERE hash = ?", params: [hash] }
+      );
+    }
+    return statements;
+  }
+
+  // Encryption
+  isEncryptionEnabled(): boolean {
+    return this.encryptionEnabled;
+  }
+
+  isLocked(): boolean {
+    return this.encryptionEnabled && !this.contentKey;
+  }
+
+  setContentKey(key: CryptoKey | null): void {
+    this.contentKey = key;
+  }
+
+  private async sealForStorage<T extends SealableRecord>(record: T): Promise<T> {
+    if (!this.encryptionEnabled) return record;
+    if (!this.contentKey) {
+      throw new Error("Cortex is locked: unlock it to save page content");
+    }
+    return sealContent(record, this.contentKey);
+  }
+
+  private open<T extends SealableRecord>(record: T): Promise<T> {
+    return openContent(record, this.contentKey);
+  }
+
+  /**
+   * Plaintext of pages about to be indexed; sealed pages cannot be indexed while locked
+   */
+  private async openForIndex(pages: MemoryNode[]): Promise<MemoryNode[]> {
+    const opened = await Promise.all(pages.map((page) => this.open(page)));
+    if (opened.some((page) => page.locked)) {
+      throw new Error("Cortex is locked: unlock it to index sealed pages");
+    }
+    return opened;
+  }
+
+  async reencryptContent<C>(fromKey: CryptoKey | null, toKey: CryptoKey | null, config: C | null): Promise<number> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const [pages, revisions, trash] = await Promise.all([
+        this.sql.query<{ id: string; record: string }>("SELECT id, record FROM pages"),
+        this.sql.query<{ id: string; record: string }>("SELECT id, record FROM revisions"),
+        this.sql.query<{ id: string; records: string }>("SELECT id, records FROM trash"),
+      ]);
+
+      const convert = async <T extends SealableRecord>(record: T): Promise<T> => {
+        if (record.sealed && !fromKey) throw new Error("Cannot re-encrypt sealed content without its key");
+        const plain = await openContent(record, fromKey);
+        return toKey ? sealContent(plain, toKey) : plain;
+      };
+      // Trashed pages must stay restorable under the new key too
+      const convertTrash = async (records: TrashedRecords): Promise<TrashedRecords> => {
+        const [trashedPages, trashedRevisions] = await Promise.all([
+          Promise.all(records.pages.map(convert)),
+          Promise.all(records.revisions.map(convert)),
+        ]);
+        return { ...records, pages: trashedPages, revisions: trashedRevisions };
+      };
+      const [nextPages, nextRevisions, nextTrash] = await Promise.all([
+        Promise.all(pages.map((row) => convert(decodeRecord<MemoryNode>(row.record)))),
+        Promise.all(revisions.map((row) => convert(decodeRecord<PageRevision>(row.record)))),
+        Promise.all(trash.map((row) => convertTrash(decodeRecord<TrashedRecords>(row.records)))),
+      ]);
+
+      await this.sql.run([
+        ...nextPages.map((page) => ({ sql: "UPDATE pages SET record = ? WHERE id = ?", params: [encodeRecord(page), page.id] })),
+        ...nextRevisions.map((revision) => ({
+          sql: "UPDATE revisions SET record = ? WHERE id = ?",
+          params: [encodeRecord(revision), revision.id],
+        })),
+        ...nextTrash.map((records, i) => ({
+          sql: "UPDATE trash SET records = ? WHERE id = ?",
+          params: [encodeRecord(records), trash[i].id],
+        })),
+        config
+          ? this.settingStatement(ENCRYPTION_CONFIG_KEY, config)
+          : { sql: "DELETE FROM settings WHERE key = ?", params: [ENCRYPTION_CONFIG_KEY] },
+      ]);
+
+      this.encryptionEnabled = !!config;
+      this.contentKey = toKey;
+      console.log(`CortexStorage: Re-encrypted ${nextPages.length} pages and ${nextRevisions.length} revisions`);
+      return nextPages.length;
+    });
+  }
+
+  // Memory Node Operations
+  private pageStatement(record: MemoryNode): SqlStatement {
+    return {
+      sql: `INSERT INTO pages (id, domain, user_id, session_id, timestamp, record) VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET domain = excluded.domain, user_id = excluded.user_id,
+              session_id = excluded.session_id, timestamp = excluded.timestamp, record = excluded.record`,
+      params: [
+        record.id,
+        record.metadata?.domain || "",
+        record.metadata?.userId ?? null,
+        record.metadata?.sessionId ?? null,
+        record.timestamp,
+        encodeRecord(record),
+      ],
+    };
+  }
+
+  /**
+   * (Re)index plaintext pages; must follow the statements that store the pages themselves
+   */
+  private indexStatements(nodes: MemoryNode[]): SqlStatement[] {
+    return nodes.flatMap((node) => [
+      { sql: "DELETE FROM pages_fts WHERE rowid = (SELECT rowid FROM pages WHERE id = ?)", params: [node.id] },
+      {
+        sql: "INSERT INTO pages_fts (rowid, title, keywords, body) SELECT rowid, ?, ?, ? FROM pages WHERE id = ?",
+        params: [...ftsColumns(node), node.id],
+      },
+    ]);
+  }
+
+  private settingStatement(key: string, value: unknown): SqlStatement {
+    return { sql: "INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)", params: [key, encodeRecord(value)] };
+  }
+
+  private revisionStatement(revision: PageRevision): SqlStatement {
+    return {
+      sql: "INSERT OR REPLACE INTO revisions (id, node_id, timestamp, record) VALUES (?, ?, ?, ?)",
+      params: [revision.id, revision.nodeId, revision.timestamp, encodeRecord(revision)],
+    };
+  }
+
+  private visitStatement(visit: VisitEvent): SqlStatement {
+    return {
+      sql: `INSERT OR REPLACE INTO visits (id, node_id, tab_id, type, timestamp, end_timestamp, record)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      params: [
+        visit.id,
+        visit.nodeId,
+        visit.tabId ?? null,
+        visit.type,
+        visit.timestamp,
+        visit.endTimestamp ?? null,
+        encodeRecord(visit),
+      ],
+    };
+  }
+
+  private edgeStatement(edge: GraphEdgeRecord): SqlStatement {
+    return {
+      sql: "INSERT OR REPLACE INTO edges (id, from_node, to_node, strength, timestamp) VALUES (?, ?, ?, ?, ?)",
+      params: [edge.id, edge.fromNode, edge.toNode, edge.strength, edge.timestamp],
+    };
+  }
+
+  private embeddingStatement(record: EmbeddingRecord): SqlStatement {
+    const { packed } = record;
+    return {
+      sql: `INSERT OR REPLACE INTO embeddings (node_id, model, model_id, model_version, passages, timestamp, format, dim, scale, data)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      params: [
+        record.nodeId,
+        record.model,
+        record.modelId ?? null,
+        record.modelVersion ?? null,
+        record.passages ? encodeRecord(record.passages) : null,
+        record.timestamp,
+        packed.format,
+        packed.dim,
+        packed.scale,
+        packedBytes(packed),
+      ],
+    };
+  }
+
+  private clusterStatement(cluster: MemoryCluster): SqlStatement {
+    return { sql: "INSERT OR REPLACE INTO clusters (id, record) VALUES (?, ?)", params: [cluster.id, encodeRecord(cluster)] };
+  }
+
+  private sessionStatement(session: SessionRecord): SqlStatement {
+    return {
+      sql: "INSERT OR REPLACE INTO sessions (id, start_time, end_time, record) VALUES (?, ?, ?, ?)",
+      params: [session.id, session.startTime, session.endTime, encodeRecord(session)],
+    };
+  }
+
+  private ruleStatement(rule: PrivacyRule): SqlStatement {
+    return { sql: "INSERT OR REPLACE INTO rules (id, record) VALUES (?, ?)", params: [rule.id, encodeRecord(rule)] };
+  }
+
+  private trashStatement(entry: TrashEntry, records: TrashedRecords): SqlStatement {
+    return {
+      sql: "INSERT OR REPLACE INTO trash (id, deleted_at, expires_at, entry, records) VALUES (?, ?, ?, ?, ?)",
+      params: [entry.id, entry.deletedAt, entry.expiresAt, encodeRecord(entry), encodeRecord(records)],
+    };
+  }
+
+  /**
+   * Store a revision and trim the page's oldest revisions beyond the cap
+   */
+  private revisionStatements(revision: PageRevision, cap: number): SqlStatement[] {
+    const kept = Math.max(0, cap);
+    return [
+      ...(kept > 0 ? [this.revisionStatement(revision)] : []),
+      // With history off (a cap of 0) the page's earlier revisions go too
+      {
+        sql: `DELETE FROM revisions WHERE node_id = ? AND id NOT IN
+                (SELECT id FROM revisions WHERE node_id = ? ORDER BY timestamp DESC LIMIT ?)`,
+        params: [revision.nodeId, revision.nodeId, kept],
+      },
+    ];
+  }
+
+  async addMemoryNode(node: MemoryNode): Promise<void> {
+    await this.ready();
+    // The vector lives in the embeddings table only; never keep a second copy on the page
+    const { embedding: _embedding, ...page } = node as MemoryNode & { embedding?: Embedding };
+
+    return this.exclusive(async () => {
+      const revision = revisionFor(await this.getMemoryNode(page.id), page);
+      const [record, revisionRecord, settings] = await Promise.all([
+        this.sealForStorage(page),
+        revision ? this.sealForStorage(revision) : null,
+        this.getSettings(),
+      ]);
+
+      await this.sql.run([
+        ...(revisionRecord ? this.revisionStatements(revisionRecord, settings.maxRevisionsPerPage!) : []),
+        this.pageStatement(record),
+        // The index is built from the plaintext
+        ...this.indexStatements([page]),
+      ]);
+    });
+  }
+
+  /**
+   * Earlier versions of a page, newest first
+   */
+  async getPageRevisions(nodeId: string): Promise<PageRevision[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ record: string }>(
+      "SELECT record FROM revisions WHERE node_id = ? ORDER BY timestamp DESC",
+      [nodeId]
+    );
+    return Promise.all(rows.map((row) => this.open(decodeRecord<PageRevision>(row.record))));
+  }
+
+  async getMemoryNode(id: string): Promise<MemoryNode | null> {
+    await this.ready();
+    const [row] = await this.sql.query<{ record: string }>("SELECT record FROM pages WHERE id = ?", [id]);
+    return row ? this.open(decodeRecord<MemoryNode>(row.record)) : null;
+  }
+
+  async getAllMemoryNodes(limit?: number): Promise<MemoryNode[]> {
+    await this.ready();
+    const rows = limit
+      ? await this.sql.query<{ record: string }>("SELECT record FROM pages ORDER BY timestamp DESC LIMIT ?", [limit])
+      : await this.sql.query<{ record: string }>("SELECT record FROM pages ORDER BY timestamp ASC");
+    return Promise.all(rows.map((row) => this.open(decodeRecord<MemoryNode>(row.record))));
+  }
+
+  private async getPageRecords(ids: string[]): Promise<MemoryNode[]> {
+    const rows = await this.sql.query<{ record: string }>(`SELECT record FROM pages WHERE id ${IN_IDS}`, [
+      JSON.stringify(ids),
+    ]);
+    return rows.map((row) => decodeRecord<MemoryNode>(row.record));
+  }
+
+  async searchMemoryNodes(query: string, limit: number = 10): Promise<MemoryNode[]> {
+    const results = await this.searchKeywords(query, limit);
+    return results.map((r) => r.node);
+  }
+
+  /**
+   * Keyword search over FTS5, ranked by BM25 with the title, keyword and body weights of FIELD_WEIGHTS.
+   * Query terms of MIN_PREFIX_LENGTH or more characters also match longer terms they prefix.
+   */
+  async searchKeywords(query: string, limit: number = 10, language?: string): Promise<KeywordMatch[]> {
+    await this.ready();
+    const queryTerms = Array.from(new Set(tokenize(query, language)));
+    const match = ftsMatchQuery(queryTerms);
+    if (!match) return [];
+
+    // bm25() is lower for better matches
+    const rows = await this.sql.query<{ record: string; score: number }>(
+      `SELECT pages.record AS record,
+              -bm25(pages_fts, ${FIELD_WEIGHTS.title}, ${FIELD_WEIGHTS.keywords}, ${FIELD_WEIGHTS.body}) AS score
+       FROM pages_fts JOIN pages ON pages.rowid = pages_fts.rowid
+       WHERE pages_fts MATCH ?
+       ORDER BY score DESC
+       LIMIT ?`,
+      [match, limit]
+    );
+    const nodes = await Promise.all(rows.map((row) => this.open(decodeRecord<MemoryNode>(row.record))));
+    return nodes.map((node, i) => ({ node, score: rows[i].score, matchedTerms: matchedQueryTerms(queryTerms, node) }));
+  }
+
+  async deleteMemoryNode(id: string): Promise<void> {
+    await this.deleteMemoryNodes([id]);
+  }
+
+  /**
+   * Permanently delete pages with everything that refers to them (no trash)
+   */
+  async deleteMemoryNodes(ids: string[]): Promise<number> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const records = await this.collectNodeRecords(ids);
+      await this.sql.run(this.detachStatements(ids, records));
+      return ids.length;
+    });
+  }
+
+  /**
+   * Gather a set of pages and every record that refers to them
+   */
+  private async collectNodeRecords(ids: string[]): Promise<TrashedRecords> {
+    const removed = new Set(ids);
+    const idList = JSON.stringify(ids);
+    const [pages, embeddings, revisions, visits, edges, clusters] = await Promise.all([
+      this.getPageRecords(ids),
+      this.sql.query<EmbeddingRow>(`SELECT * FROM embeddings WHERE node_id ${IN_IDS}`, [idList]),
+      this.sql.query<{ record: string }>(`SELECT record FROM revisions WHERE node_id ${IN_IDS}`, [idList]),
+      this.sql.query<{ record: string }>(`SELECT record FROM visits WHERE node_id ${IN_IDS}`, [idList]),
+      this.sql.query<{ id: string; from_node: string; to_node: string; strength: number; timestamp: number }>(
+        `SELECT * FROM edges WHERE from_node ${IN_IDS} OR to_node ${IN_IDS}`,
+        [idList, idList]
+      ),
+      // Only the clusters that have one of the pages as a member
+      this.sql.query<{ record: string }>(
+        `SELECT record FROM clusters WHERE EXISTS (
+           SELECT 1 FROM json_each(clusters.record, '$.nodes') AS member
+           WHERE json_extract(member.value, '$.id') ${IN_IDS})`,
+        [idList]
+      ),
+    ]);
+
+    const memberships: TrashedRecords["memberships"] = [];
+    const emptied: MemoryCluster[] = [];
+    for (const cluster of clusters.map((row) => decodeRecord<MemoryCluster>(row.record))) {
+      const members = cluster.nodes.filter((node) => removed.has(node.id));
+      members.forEach((node) => memberships.push({ clusterId: cluster.id, node }));
+      if (members.length > 0 && members.length === cluster.nodes.length) {
+        emptied.push({ ...cluster, nodes: [] });
+      }
+    }
+
+    return {
+      pages,
+      embeddings: embeddings.map(toEmbeddingRecord),
+      revisions: revisions.map((row) => decodeRecord<PageRevision>(row.record)),
+      visits: visits.map((row) => decodeRecord<VisitEvent>(row.record)),
+      edges: edges.map((row) => ({
+        id: row.id,
+        fromNode: row.from_node,
+        toNode: row.to_node,
+        strength: row.strength,
+        timestamp: row.timestamp,
+      })),
+      memberships,
+      clusters: emptied,
+    };
+  }
+
+  /**
+   * Statements deleting pages together with their embeddings, revisions, visits, edges,
+   * cluster memberships, index rows and ANN buckets
+   */
+  private detachStatements(ids: string[], records: TrashedRecords): SqlStatement[] {
+    const idList = JSON.stringify(ids);
+    const clusterIds = new Set(records.memberships.map((membership) => membership.clusterId));
+    const emptied = new Set(records.clusters.map((cluster) => cluster.id));
+
+    const clusterStatements: SqlStatement[] = [];
+    for (const clusterId of clusterIds) {
+      if (emptied.has(clusterId)) {
+        clusterStatements.push({ sql: "DELETE FROM clusters WHERE id = ?", params: [clusterId] });
+        continue;
+      }
+      // Filtered in SQL so a concurrent cluster update isn't overwritten with a stale copy
+      clusterStatements.push({
+        sql: `UPDATE clusters SET record = json_set(record, '$.nodes', json((
+                SELECT json_group_array(json(member.value)) FROM json_each(clusters.record, '$.nodes') AS member
+                WHERE json_extract(member.value, '$.id') NOT ${IN_IDS})))
+              WHERE id = ?`,
+        params: [idList, clusterId],
+      });
+    }
+
+    return [
+      { sql: `DELETE FROM pages_fts WHERE rowid IN (SELECT rowid FROM pages WHERE id ${IN_IDS})`, params: [idList] },
+      { sql: `DELETE FROM pages WHERE id ${IN_IDS}`, params: [idList] },
+      { sql: `DELETE FROM embeddings WHERE node_id ${IN_IDS}`, params: [idList] },
+      ...this.bucketStatements(ids.flatMap((id) => this.annIndex.unassign(id))),
+      { sql: `DELETE FROM revisions WHERE node_id ${IN_IDS}`, params: [idList] },
+      { sql: `DELETE FROM visits WHERE node_id ${IN_IDS}`, params: [idList] },
+      { sql: `DELETE FROM edges WHERE from_node ${IN_IDS} OR to_node ${IN_IDS}`, params: [idList, idList] },
+      ...clusterStatements,
+    ];
+  }
+
+  // Embedding Operations
+  async storeEmbedding(nodeId: string, embedding: Embedding): Promise<void> {
+    await this.ready();
+    const { quantizeEmbeddings } = await this.getSettings();
+    const format = quantizeEmbeddings ? "int8" : "float32";
+    const packed = packVector(embedding.vector, format);
+    const passages = packPassages(embedding.passages, format);
+
+    return this.exclusive(async () => {
+      const changedBuckets = this.annIndex.assign(nodeId, packed, embeddingModelKey(embedding), indexedPassages(passages));
+      const { model, modelId, modelVersion, timestamp } = embedding;
+      await this.sql.run([
+        this.embeddingStatement({ nodeId, model, modelId, modelVersion, timestamp, packed, passages }),
+        ...this.bucketStatements(changedBuckets),
+      ]);
+    });
+  }
+
+  async getEmbedding(nodeId: string): Promise<Embedding | null> {
+    await this.ready();
+    const [row] = await this.sql.query<EmbeddingRow>("SELECT * FROM embeddings WHERE node_id = ?", [nodeId]);
+    return row ? toEmbedding(row) : null;
+  }
+
+  async getAllEmbeddings(): Promise<Array<{ nodeId: string; embedding: Embedding }>> {
+    await this.ready();
+    const rows = await this.sql.query<EmbeddingRow>("SELECT * FROM embeddings");
+    return rows.map((row) => ({
+      nodeId: row.node_id,
+      embedding: toEmbedding(row),
+    }));
+  }
+
+  private async loadAnnVectors(nodeIds: string[]): Promise<void> {
+    if (nodeIds.length === 0) return;
+    const rows = await this.sql.query<EmbeddingRow>(`SELECT * FROM embeddings WHERE node_id ${IN_IDS}`, [
+      JSON.stringify(nodeIds),
+    ]);
+    rows.forEach((row) => {
+      const record = toEmbeddingRecord(row);
+      this.annIndex.cacheVector(row.node_id, record.packed, embeddingModelKey(record), indexedPassages(record.passages));
+    });
+  }
+
+  // Vector Search
+  async vectorSearch(
+    queryVector: number[],
+    limit: number = 10,
+    threshold: number = 0.4,
+    model?: string
+  ): Promise<SemanticMatch[]> {
+    await this.ready();
+
+    // Fetch only the candidate vectors not cached yet
+    const candidateIds = this.annIndex.candidates(queryVector, limit * 2);
+    await this.loadAnnVectors(this.annIndex.missingVectors(candidateIds));
+    const candidateMatches = this.annIndex.search(queryVector, limit * 2, threshold, model);
+
+    const nodes = await Promise.all(candidateMatches.map(({ nodeId }) => this.getMemoryNode(nodeId)));
+    return candidateMatches
+      .map(({ nodeId, similarity, passage }, index): SemanticMatch | null => {
+        const node = nodes[index];
+        if (!node) return null;
+        return {
+          nodeId,
+          similarity,
+          node,
+          reason: { sharedKeywords: [], contextMatch: "", semanticSimilarity: similarity },
+          ...(passage && { passage: passageHit(node, passage.start, passage.end) }),
+        };
+      })
+      .filter((match): match is SemanticMatch => match !== null)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+  }
+
+  // Cluster Operations
+  async saveCluster(cluster: MemoryCluster): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.clusterStatement(cluster)]);
+  }
+
+  async getAllClusters(): Promise<MemoryCluster[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ record: string }>("SELECT record FROM clusters");
+    return rows.map((row) => decodeRecord<MemoryCluster>(row.record));
+  }
+
+  // Graph Operations
+  async addGraphEdge(fromNode: string, toNode: string, strength: number): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.edgeStatement({ id: fromNode + ":" + toNode, fromNode, toNode, strength, timestamp: Date.now() })]);
+  }
+
+  async getRelatedNodes(nodeId: string, limit: number = 5): Promise<MemoryNode[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ to_node: string }>(
+      "SELECT to_node FROM edges WHERE from_node = ? ORDER BY strength DESC LIMIT ?",
+      [nodeId, limit]
+    );
+    const nodes = await Promise.all(rows.map((row) => this.getMemoryNode(row.to_node)));
+    return nodes.filter((n): n is MemoryNode => n !== null);
+  }
+
+  // Session Operations
+  async saveSession(session: SessionRecord): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.sessionStatement(session)]);
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    await this.ready();
+    const [row] = await this.sql.query<{ record: string }>("SELECT record FROM sessions WHERE id = ?", [id]);
+    return row ? decodeRecord<SessionRecord>(row.record) : null;
+  }
+
+  /**
+   * Sessions newest first, optionally only those still active after `since`
+   */
+  async getSessions(options: { limit?: number; since?: number } = {}): Promise<SessionRecord[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ record: string }>(
+      "SELECT record FROM sessions WHERE end_time >= ? ORDER BY start_time DESC LIMIT ?",
+      [options.since ?? 0, options.limit || -1]
+    );
+    return rows.map((row) => decodeRecord<SessionRecord>(row.record));
+  }
+
+  /**
+   * Replace one session with another (after a merge) and point its pages at the survivor
+   */
+  async replaceSession(removedId: string, survivor: SessionRecord): Promise<void> {
+    await this.ready();
+    await this.sql.run([
+      this.sessionStatement(survivor),
+      { sql: "DELETE FROM sessions WHERE id = ?", params: [removedId] },
+      // Only the plaintext metadata changes, so sealed pages can be updated while locked
+      {
+        sql: "UPDATE pages SET session_id = ?, record = json_set(record, '$.metadata.sessionId', ?) WHERE session_id = ?",
+        params: [survivor.id, survivor.id, removedId],
+      },
+    ]);
+  }
+
+  // Visit Operations
+  async addVisitEvent(visit: VisitEvent): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.visitStatement(visit)]);
+  }
+
+  /**
+   * Close a visit; returns false when it was already closed or does not exist
+   */
+  async endVisitEvent(id: string, endTimestamp: number): Promise<boolean> {
+    await this.ready();
+    const ended = await this.sql.query(
+      `UPDATE visits SET end_timestamp = max(?, timestamp), record = json_set(record, '$.endTimestamp', max(?, timestamp))
+       WHERE id = ? AND end_timestamp IS NULL
+       RETURNING id`,
+      [endTimestamp, endTimestamp, id]
+    );
+    return ended.length > 0;
+  }
+
+  /**
+   * Latest visit in a tab that has not ended yet
+   */
+  async getOpenVisit(tabId: number): Promise<VisitEvent | null> {
+    await this.ready();
+    const [row] = await this.sql.query<{ record: string }>(
+      `SELECT record FROM visits WHERE tab_id = ? AND type = 'visit' AND end_timestamp IS NULL
+       ORDER BY timestamp DESC LIMIT 1`,
+      [tabId]
+    );
+    return row ? decodeRecord<VisitEvent>(row.record) : null;
+  }
+
+  /**
+   * Visit events newest first, either for one page or since a point in time
+   */
+  async getVisitEvents(options: { nodeId?: string; since?: number; limit?: number } = {}): Promise<VisitEvent[]> {
+    await this.ready();
+    const params: SqlValue[] = [options.since ?? 0];
+    if (options.nodeId) params.push(options.nodeId);
+    const rows = await this.sql.query<{ record: string }>(
+      `SELECT record FROM visits WHERE type = 'visit' AND timestamp >= ? ${options.nodeId ? "AND node_id = ?" : ""}
+       ORDER BY timestamp DESC LIMIT ?`,
+      [...params, options.limit || -1]
+    );
+    return rows.map((row) => decodeRecord<VisitEvent>(row.record));
+  }
+
+  // Settings Operations
+  async updateSettings(settings: Partial<CaptureSettings>): Promise<void> {
+    await this.ready();
+    const current = await this.getSettings();
+    await this.setSettingValue(CAPTURE_SETTINGS_KEY, { ...current, ...settings });
+  }
+
+  async getSettings(): Promise<CaptureSettings> {
+    return withSettingDefaults(await this.getSettingValue<Partial<CaptureSettings>>(CAPTURE_SETTINGS_KEY));
+  }
+
+  /**
+   * Mark a page as pinned so storage eviction and compaction leave it alone
+   */
+  async setPinned(nodeId: string, pinned: boolean): Promise<boolean> {
+    await this.ready();
+    const updated = await this.sql.query(
+      "UPDATE pages SET record = json_set(record, '$.pinned', json(?)) WHERE id = ? RETURNING id",
+      [pinned ? "true" : "false", nodeId]
+    );
+    return updated.length > 0;
+  }
+
+  /**
+   * Store a page's frecency as computed at `at`
+   */
+  async setFrecency(nodeId: string, frecency: number, at: number): Promise<boolean> {
+    await this.ready();
+    const updated = await this.sql.query(
+      "UPDATE pages SET record = json_set(record, '$.frecency', ?, '$.frecencyAt', ?) WHERE id = ? RETURNING id",
+      [frecency, at, nodeId]
+    );
+    return updated.length > 0;
+  }
+
+  /**
+   * Approximate on-disk size of every page together with its embedding and revisions
+   */
+  async getPageFootprints(): Promise<PageFootprint[]> {
+    await this.ready();
+    const [pages, embeddings, revisions] = await Promise.all([
+      this.sql.query<{ record: string }>("SELECT record FROM pages"),
+      this.sql.query<{ node_id: string; bytes: number }>("SELECT node_id, length(data) + coalesce(length(passages), 0) AS bytes FROM embeddings"),
+      this.sql.query<{ record: string }>("SELECT record FROM revisions"),
+    ]);
+
+    const extraBytes = new Map<string, number>();
+    const addBytes = (nodeId: string, bytes: number) => extraBytes.set(nodeId, (extraBytes.get(nodeId) || 0) + bytes);
+    embeddings.forEach((row) => addBytes(row.node_id, RECORD_OVERHEAD_BYTES + row.bytes));
+    revisions.forEach((row) => {
+      const revision = decodeRecord<PageRevision>(row.record);
+      addBytes(revision.nodeId, revisionBytes(revision));
+    });
+
+    return pages.map((row) => {
+      const page = decodeRecord<MemoryNode>(row.record);
+      return pageFootprint(page, extraBytes.get(page.id) || 0);
+    });
+  }
+
+  /**
+   * Replace the readable text of pages with a short summary (keeps title, URL, keywords and page vector).
+   * Passage vectors go: their offsets point into text that is no longer there.
+   */
+  async compactMemoryNodes(ids: string[], summarize: (node: MemoryNode) => string): Promise<number> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const nodes: MemoryNode[] = [];
+      for (const id of ids) {
+        const node = await this.getMemoryNode(id);
+        if (!node || node.compactedAt || node.locked) continue;
+        const summary = node.summary || summarize(node);
+        nodes.push({ ...node, summary, readableText: summary, compactedAt: Date.now() });
+      }
+      const records = await Promise.all(nodes.map((node) => this.sealForStorage(node)));
+      const withPassages = (
+        await this.sql.query<EmbeddingRow>(
+          `SELECT * FROM embeddings WHERE node_id ${IN_IDS} AND passages IS NOT NULL AND passages != '[]'`,
+          [JSON.stringify(nodes.map((node) => node.id))]
+        )
+      ).map(toEmbeddingRecord);
+
+      await this.sql.run([
+        ...records.map((record) => this.pageStatement(record)),
+        ...this.indexStatements(nodes),
+        ...withPassages.map((record) => this.embeddingStatement({ ...record, passages: [] })),
+        ...this.bucketStatements(
+          withPassages.flatMap((record) => this.annIndex.assign(record.nodeId, record.packed, embeddingModelKey(record)))
+        ),
+      ]);
+      return nodes.length;
+    });
+  }
+
+  /**
+   * Drop embeddings, graph edges, revisions and index rows whose page no longer exists
+   */
+  async removeOrphans(): Promise<{ embeddings: number; edges: number; revisions: number }> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const [embeddings, edges, revisions] = await Promise.all([
+        this.sql.query<{ node_id: string }>("SELECT node_id FROM embeddings WHERE node_id NOT IN (SELECT id FROM pages)"),
+        this.sql.query<{ id: string }>(
+          "SELECT id FROM edges WHERE from_node NOT IN (SELECT id FROM pages) OR to_node NOT IN (SELECT id FROM pages)"
+        ),
+        this.sql.query<{ id: string }>("SELECT id FROM revisions WHERE node_id NOT IN (SELECT id FROM pages)"),
+      ]);
+      const orphanedEmbeddings = embeddings.map((row) => row.node_id);
+
+      await this.sql.run([
+        { sql: `DELETE FROM embeddings WHERE node_id ${IN_IDS}`, params: [JSON.stringify(orphanedEmbeddings)] },
+        ...this.bucketStatements(orphanedEmbeddings.flatMap((id) => this.annIndex.unassign(id))),
+        { sql: `DELETE FROM edges WHERE id ${IN_IDS}`, params: [JSON.stringify(edges.map((row) => row.id))] },
+        { sql: `DELETE FROM revisions WHERE id ${IN_IDS}`, params: [JSON.stringify(revisions.map((row) => row.id))] },
+        { sql: "DELETE FROM pages_fts WHERE rowid NOT IN (SELECT rowid FROM pages)" },
+      ]);
+      return { embeddings: orphanedEmbeddings.length, edges: edges.length, revisions: revisions.length };
+    });
+  }
+
+  /**
+   * Arbitrary JSON value kept in the settings table under its own key
+   */
+  async getSettingValue<T>(key: string): Promise<T | null> {
+    await this.ready();
+    return this.readSetting<T>(key);
+  }
+
+  // Without waiting for ready(), so init() can use it
+  private async readSetting<T>(key: string): Promise<T | null> {
+    const [row] = await this.sql.query<{ value: string }>("SELECT value FROM settings WHERE key = ?", [key]);
+    return row ? decodeRecord<T>(row.value) : null;
+  }
+
+  async setSettingValue<T>(key: string, value: T): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.settingStatement(key, value)]);
+  }
+
+  // Statistics
+  async getStats(): Promise<StorageStats> {
+    await this.ready();
+    const [counts] = await this.sql.query<{ pages: number; clusters: number; edges: number }>(
+      `SELECT (SELECT count(*) FROM pages) AS pages,
+              (SELECT count(*) FROM clusters) AS clusters,
+              (SELECT count(*) FROM edges) AS edges`
+    );
+
+    let storageSize = 0;
+    if (typeof navigator !== "undefined" && navigator.storage && navigator.storage.estimate) {
+      try {
+        const estimate = await navigator.storage.estimate();
+        storageSize = estimate.usage || 0;
+      } catch (e) {
+        // Ignore storage estimate errors
+      }
+    }
+
+    return { pageCount: counts.pages, clusterCount: counts.clusters, edgeCount: counts.edges, storageSize };
+  }
+
+  /**
+   * Page counts per domain and per local day, grouped in SQL
+   */
+  async getPageAggregates(): Promise<PageAggregates> {
+    await this.ready();
+    const [[totals], domains, days] = await Promise.all([
+      this.sql.query<{ total: number; oldest: number | null; newest: number | null }>(
+        "SELECT count(*) AS total, min(timestamp) AS oldest, max(timestamp) AS newest FROM pages"
+      ),
+      this.sql.query<{ domain: string; count: number; last_visit: number }>(
+        `SELECT CASE WHEN domain = '' THEN 'unknown' ELSE domain END AS domain,
+                count(*) AS count, max(timestamp) AS last_visit
+         FROM pages GROUP BY 1 ORDER BY count DESC`
+      ),
+      this.sql.query<{ date: string; count: number }>(
+        `SELECT date(timestamp / 1000, 'unixepoch', 'localtime') AS date, count(*) AS count
+         FROM pages GROUP BY 1 ORDER BY 1`
+      ),
+    ]);
+
+    return {
+      totalPages: totals.total,
+      oldest: totals.oldest ?? undefined,
+      newest: totals.newest ?? undefined,
+      domains: domains.map((row) => ({ domain: row.domain, count: row.count, lastVisit: row.last_visit })),
+      days,
+    };
+  }
+
+  /**
+   * Ids of the pages a forget request covers
+   */
+  async findMemoryNodeIds(filter: ForgetFilter): Promise<string[]> {
+    await this.ready();
+    const criterion = forgetCriterion(filter);
+    if (criterion.kind === "nodeIds") return criterion.nodeIds;
+
+    const [where, params]: [string, SqlValue[]] =
+      criterion.kind === "userId"
+        ? ["WHERE user_id = ?", [criterion.userId]]
+        : criterion.kind === "domain"
+          ? ["WHERE domain = ?", [criterion.domain]]
+          : criterion.kind === "dateRange"
+            ? ["WHERE timestamp BETWEEN ? AND ?", [criterion.startDate, criterion.endDate]]
+            : ["", []];
+    const rows = await this.sql.query<{ id: string }>(`SELECT id FROM pages ${where}`, params);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Count what a forget request would remove, without removing anything
+   */
+  async previewForget(filter: ForgetFilter): Promise<ForgetPreview> {
+    const ids = await this.findMemoryNodeIds(filter);
+    const [records, [trash]] = await Promise.all([
+      this.collectNodeRecords(ids),
+      this.sql.query<{ entries: number }>("SELECT count(*) AS entries FROM trash"),
+    ]);
+
+    const related = {
+      embeddings: records.embeddings.length,
+      revisions: records.revisions.length,
+      visits: records.visits.length,
+      edges: records.edges.length,
+      clusters: new Set(records.memberships.map((membership) => membership.clusterId)).size,
+    };
+    return buildForgetPreview(filter, records.pages, related, trash.entries, (page) => this.open(page));
+  }
+
+  /**
+   * Move the pages a forget request covers, and everything attached to them, to the trash
+   */
+  async forget(filter: ForgetFilter): Promise<TrashEntry | null> {
+    const ids = await this.findMemoryNodeIds(filter);
+    return this.trashMemoryNodes(ids, forgetLabel(filter));
+  }
+
+  async trashMemoryNodes(ids: string[], label: string): Promise<TrashEntry | null> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const records = await this.collectNodeRecords(ids);
+      const entry = records.pages.length > 0 ? newTrashEntry(label, records.pages) : null;
+      await this.sql.run([
+        ...this.detachStatements(ids, records),
+        ...(entry ? [this.trashStatement(entry, records)] : []),
+      ]);
+      return entry;
+    });
+  }
+
+  /**
+   * Trash entries, most recently deleted first
+   */
+  async getTrash(): Promise<TrashEntry[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ entry: string }>("SELECT entry FROM trash ORDER BY deleted_at DESC");
+    return rows.map((row) => decodeRecord<TrashEntry>(row.entry));
+  }
+
+  /**
+   * Put a trash entry back. Pages captured again since the delete keep their newer copy;
+   * their history (revisions, visits) is still restored. Resolves with the pages restored.
+   * Unlike the IndexedDB engine, sealed pages can only be restored while unlocked, since
+   * the full-text index is rebuilt from their plaintext.
+   */
+  async restoreFromTrash(trashId: string): Promise<number> {
+    await this.ready();
+    return this.exclusive(async () => {
+      const [row] = await this.sql.query<{ records: string }>("SELECT records FROM trash WHERE id = ?", [trashId]);
+      if (!row) throw new Error(`No trash entry ${trashId}`);
+      const records = decodeRecord<TrashedRecords>(row.records);
+
+      const endIds = records.edges.flatMap((edge) => [edge.fromNode, edge.toNode]);
+      const present = await this.sql.query<{ id: string }>(`SELECT id FROM pages WHERE id ${IN_IDS}`, [
+        JSON.stringify([...records.pages.map((page) => page.id), ...endIds]),
+      ]);
+      const existing = new Set(present.map((page) => page.id));
+      const pages = records.pages.filter((page) => !existing.has(page.id));
+      const restored = new Set(pages.map((page) => page.id));
+      const plaintext = await this.openForIndex(pages);
+
+      const changedBuckets: Array<number | undefined> = [];
+      const embeddings = records.embeddings.filter((embedding) => restored.has(embedding.nodeId));
+      embeddings.forEach((embedding) =>
+        changedBuckets.push(
+          ...this.annIndex.assign(embedding.nodeId, embedding.packed, embeddingModelKey(embedding), indexedPassages(embedding.passages))
+        )
+      );
+
+      // Edges come back only when the page at the other end is still there
+      const isPresent = (id: string) => restored.has(id) || existing.has(id);
+      const edges = records.edges.filter((edge) => isPresent(edge.fromNode) && isPresent(edge.toNode));
+
+      const emptied = new Map(records.clusters.map((cluster) => [cluster.id, cluster]));
+      const clusterRows = await this.sql.query<{ record: string }>(`SELECT record FROM clusters WHERE id ${IN_IDS}`, [
+        JSON.stringify(Array.from(new Set(records.memberships.map((membership) => membership.clusterId)))),
+      ]);
+      const stored = new Map(
+        clusterRows.map((clusterRow) => decodeRecord<MemoryCluster>(clusterRow.record)).map((cluster) => [cluster.id, cluster])
+      );
+      const clusters = new Map<string, MemoryCluster>();
+      for (const { clusterId, node } of records.memberships) {
+        if (!restored.has(node.id)) continue;
+        const cluster = clusters.get(clusterId) ?? stored.get(clusterId) ?? emptied.get(clusterId);
+        if (!cluster) continue;
+        const nodes = cluster.nodes.some((member) => member.id === node.id) ? cluster.nodes : [...cluster.nodes, node];
+        clusters.set(clusterId, { ...cluster, nodes });
+      }
+
+      await this.sql.run([
+        ...pages.map((page) => this.pageStatement(page)),
+        ...this.indexStatements(plaintext),
+        ...embeddings.map((embedding) => this.embeddingStatement(embedding)),
+        ...this.bucketStatements(changedBuckets),
+        ...records.revisions.map((revision) => this.revisionStatement(revision)),
+        ...records.visits.map((visit) => this.visitStatement(visit)),
+        ...edges.map((edge) => this.edgeStatement(edge)),
+        ...Array.from(clusters.values()).map((cluster) => this.clusterStatement(cluster)),
+        { sql: "DELETE FROM trash WHERE id = ?", params: [trashId] },
+      ]);
+      return restored.size;
+    });
+  }
+
+  /**
+   * Permanently drop one trash entry, or all of them. Resolves with the entries removed.
+   */
+  async emptyTrash(trashId?: string): Promise<number> {
+    await this.ready();
+    const removed = trashId
+      ? await this.sql.query("DELETE FROM trash WHERE id = ? RETURNING id", [trashId])
+      : await this.sql.query("DELETE FROM trash RETURNING id");
+    return removed.length;
+  }
+
+  /**
+   * Drop trash entries whose restore window has passed
+   */
+  async purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+    await this.ready();
+    const removed = await this.sql.query("DELETE FROM trash WHERE expires_at <= ? RETURNING id", [now]);
+    return removed.length;
+  }
+
+  /**
+   * Every record as stored (sealed content stays sealed), for moving to another engine
+   */
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    await this.ready();
+    const records = <T>(table: string) =>
+      this.sql.query<{ record: string }>(`SELECT record FROM ${table}`).then((rows) => rows.map((row) => decodeRecord<T>(row.record)));
+
+    const [pages, embeddings, revisions, visits, edges, clusters, sessions, rules, settings, trash] = await Promise.all([
+      records<MemoryNode>("pages"),
+      this.sql.query<EmbeddingRow>("SELECT * FROM embeddings"),
+      records<PageRevision>("revisions"),
+      records<VisitEvent>("visits"),
+      this.sql.query<{ id: string; from_node: string; to_node: string; strength: number; timestamp: number }>(
+        "SELECT * FROM edges"
+      ),
+      records<MemoryCluster>("clusters"),
+      records<SessionRecord>("sessions"),
+      records<PrivacyRule>("rules"),
+      this.sql.query<{ key: string; value: string }>("SELECT key, value FROM settings"),
+      this.sql.query<{ entry: string; records: string }>("SELECT entry, records FROM trash"),
+    ]);
+
+    // The ANN config describes an index the importer rebuilds
+    const engineKeys = new Set([CAPTURE_SETTINGS_KEY, SEARCH_STATS_KEY, ANN_CONFIG_KEY]);
+    const capture = settings.find((row) => row.key === CAPTURE_SETTINGS_KEY);
+    return {
+      pages,
+      embeddings: embeddings.map(toEmbeddingRecord),
+      revisions,
+      visits,
+      edges: edges.map((row) => ({
+        id: row.id,
+        fromNode: row.from_node,
+        toNode: row.to_node,
+        strength: row.strength,
+        timestamp: row.timestamp,
+      })),
+      clusters,
+      sessions,
+      rules,
+      settings: withSettingDefaults(capture ? decodeRecord<Partial<CaptureSettings>>(capture.value) : null),
+      values: settings
+        .filter((row) => !engineKeys.has(row.key))
+        .map((row) => ({ key: row.key, value: decodeRecord<unknown>(row.value) })),
+      trash: trash.map((row) => ({ ...decodeRecord<TrashEntry>(row.entry), records: decodeRecord<TrashedRecords>(row.records) })),
+    };
+  }
+
+  /**
+   * Replace everything stored with a snapshot, rebuilding the full-text and ANN indexes
+   */
+  async importSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    await this.ready();
+    // The full-text index is built from the plaintext, so sealed pages need the key
+    const plaintext = await Promise.all(
+      snapshot.pages.map(async (page) => {
+        const plain = await this.open(page);
+        if (plain.locked) throw new Error("Cortex is locked: unlock it to import sealed pages");
+        return plain;
+      })
+    );
+
+    return this.exclusive(async () => {
+      this.annIndex.clear();
+      snapshot.embeddings.forEach((embedding) =>
+        this.annIndex.assign(embedding.nodeId, embedding.packed, embeddingModelKey(embedding), indexedPassages(embedding.passages))
+      );
+
+      await this.sql.run([
+        ...clearStatements(),
+        ...snapshot.pages.map((page) => this.pageStatement(page)),
+        ...this.indexStatements(plaintext),
+        ...snapshot.embeddings.map((embedding) => this.embeddingStatement(embedding)),
+        ...this.annStateStatements(),
+        ...snapshot.revisions.map((revision) => this.revisionStatement(revision)),
+        ...snapshot.visits.map((visit) => this.visitStatement(visit)),
+        ...snapshot.edges.map((edge) => this.edgeStatement(edge)),
+        ...snapshot.clusters.map((cluster) => this.clusterStatement(cluster)),
+        ...snapshot.sessions.map((session) => this.sessionStatement(session)),
+        ...snapshot.rules.map((rule) => this.ruleStatement(rule)),
+        this.settingStatement(CAPTURE_SETTINGS_KEY, snapshot.settings),
+        ...snapshot.values.map(({ key, value }) => this.settingStatement(key, value)),
+        ...snapshot.trash.map(({ records, ...entry }) => this.trashStatement(entry, records)),
+      ]);
+
+      this.encryptionEnabled = snapshot.values.some(({ key }) => key === ENCRYPTION_CONFIG_KEY);
+      console.log(`CortexStorage: Imported ${snapshot.pages.length} pages into SQLite`);
+    });
+  }
+
+  async clearAllData(): Promise<void> {
+    await this.ready();
+    return this.exclusive(async () => {
+      this.annIndex.clear();
+      await this.sql.run([
+        ...clearStatements(),
+        // Keep the projection config so the (now empty) persisted buckets stay valid
+        this.annConfigStatement(),
+      ]);
+      // The encryption config went with the settings, so nothing is sealed any more
+      this.encryptionEnabled = false;
+      this.contentKey = null;
+    });
+  }
+
+  // Privacy Rule Operations
+  async addPrivacyRule(rule: PrivacyRule): Promise<void> {
+    await this.ready();
+    await this.sql.run([this.ruleStatement(rule)]);
+  }
+
+  async getPrivacyRules(): Promise<PrivacyRule[]> {
+    await this.ready();
+    const rows = await this.sql.query<{ record: string }>("SELECT record FROM rules");
+    return rows.map((row) => decodeRecord<PrivacyRule>(row.record));
+  }
+
+  async deletePrivacyRule(id: string): Promise<void> {
+    await this.ready();
+    await this.sql.run([{ sql: "DELETE FROM rules WHERE id = ?", params: [id] }]);
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Storage Backend
+ * The storage operations the services depend on, independent of where records live
+ *
+ * CortexStorage implements it on IndexedDB for the extension; MemoryStorage keeps
+ * everything in maps so services can be exercised under Node.
+ */
+
+import type {
+  MemoryNode,
+  Embedding,
+  MemoryCluster,
+  SemanticMatch,
+  CaptureSettings,
+  PageRevision,
+  VisitEvent,
+  SessionRecord,
+  PrivacyRule,
+  ForgetFilter,
+  ForgetPreview,
+  TrashEntry,
+  PassageVector,
+} from "@shared/extension-types";
+import { packVector, unpackVector, type PackedVector, type VectorFormat } from "./vector-codec";
+import type { IndexedPassage } from "./vector-search";
+import type { SealableRecord } from "./sealed-content";
+
+export interface PageFootprint {
+  id: string;
+  title: string;
+  url: string;
+  timestamp: number;
+  visitCount: number;
+  pinned: boolean;
+  compacted: boolean;
+  // Size of the readable text alone, i.e. what compaction can reclaim
+  textBytes: number;
+  // Page, embedding and revisions together
+  bytes: number;
+}
+
+export interface KeywordMatch {
+  node: MemoryNode;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface StorageStats {
+  pageCount: number;
+  clusterCount: number;
+  edgeCount: number;
+  storageSize: number;
+}
+
+/**
+ * Page counts over everything saved, for analytics
+ */
+export interface PageAggregates {
+  totalPages: number;
+  oldest?: number;
+  newest?: number;
+  // Most pages first
+  domains: Array<{ domain: string; count: number; lastVisit: number }>;
+  // Local calendar days (YYYY-MM-DD), oldest first
+  days: Array<{ date: string; count: number }>;
+}
+
+export interface EmbeddingRecord {
+  nodeId: string;
+  model: Embedding["model"];
+  modelId?: string;
+  modelVersion?: number;
+  timestamp: number;
+  packed: PackedVector;
+  passages?: PackedPassage[];
+}
+
+export interface PackedPassage {
+  start: number;
+  end: number;
+  packed: PackedVector;
+}
+
+export interface GraphEdgeRecord {
+  id: string;
+  fromNode: string;
+  toNode: string;
+  strength: number;
+  timestamp: number;
+}
+
+/**
+ * Records a forget request removed, as kept in the trash. Page content stays sealed if it was.
+ */
+export interface TrashedRecords {
+  pages: MemoryNode[];
+  embeddings: EmbeddingRecord[];
+  revisions: PageRevision[];
+  visits: VisitEvent[];
+  edges: GraphEdgeRecord[];
+  // The cluster copy of each page, by cluster
+  memberships: Array<{ clusterId: string; node: MemoryNode }>;
+  // Clusters the delete left without members (stored with no nodes)
+  clusters: MemoryCluster[];
+}
+
+/**
+ * Everything a storage engine holds, in a form another engine can import.
+ * Search and ANN indexes are left out: the importer rebuilds them.
+ */
+export interface StorageSnapshot {
+  pages: MemoryNode[];
+  embeddings: EmbeddingRecord[];
+  revisions: PageRevision[];
+  visits: VisitEvent[];
+  edges: GraphEdgeRecord[];
+  clusters: MemoryCluster[];
+  sessions: SessionRecord[];
+  rules: PrivacyRule[];
+  settings: CaptureSettings;
+  // Values saved with setSettingValue (encryption config, storage report...)
+  values: Array<{ key: string; value: unknown }>;
+  trash: Array<TrashEntry & { records: TrashedRecords }>;
+}
+
+export interface StorageBackend {
+  ready(): Promise<void>;
+
+  // Encryption
+  isEncryptionEnabled(): boolean;
+  isLocked(): boolean;
+  setContentKey(key: CryptoKey | null): void;
+  reencryptContent<C>(fromKey: CryptoKey | null, toKey: CryptoKey | null, config: C | null): Promise<number>;
+
+  // Pages
+  addMemoryNode(node: MemoryNode): Promise<void>;
+  getMemoryNode(id: string): Promise<MemoryNode | null>;
+  // Oldest first, or the newest `limit` pages newest first
+  getAllMemoryNodes(limit?: number): Promise<MemoryNode[]>;
+  deleteMemoryNode(id: string): Promise<void>;
+  deleteMemoryNodes(ids: string[]): Promise<number>;
+  setPinned(nodeId: string, pinned: boolean): Promise<boolean>;
+  setFrecency(nodeId: string, frecency: number, at: number): Promise<boolean>;
+  getPageRevisions(nodeId: string): Promise<PageRevision[]>;
+  compactMemoryNodes(ids: string[], summarize: (node: MemoryNode) => string): Promise<number>;
+  getPageFootprints(): Promise<PageFootprint[]>;
+  removeOrphans(): Promise<{ embeddings: number; edges: number; revisions: number }>;
+
+  // Search
+  searchMemoryNodes(query: string, limit?: number): Promise<MemoryNode[]>;
+  // `language` analyzes the query in that language instead of the one detected from it
+  searchKeywords(query: string, limit?: number, language?: string): Promise<KeywordMatch[]>;
+  // `model` (a registry key) restricts matches to vectors from that model
+  vectorSearch(queryVector: number[], limit?: number, threshold?: number, model?: string): Promise<SemanticMatch[]>;
+
+  // Embeddings
+  storeEmbedding(nodeId: string, embedding: Embedding): Promise<void>;
+  getEmbedding(nodeId: string): Promise<Embedding | null>;
+  getAllEmbeddings(): Promise<Array<{ nodeId: string; embedding: Embedding }>>;
+
+  // Graph and clusters
+  saveCluster(cluster: MemoryCluster): Promise<void>;
+  getAllClusters(): Promise<MemoryCluster[]>;
+  addGraphEdge(fromNode: string, toNode: string, strength: number): Promise<void>;
+  getRelatedNodes(nodeId: string, limit?: number): Promise<MemoryNode[]>;
+
+  // Sessions
+  saveSession(session: SessionRecord): Promise<void>;
+  getSession(id: string): Promise<SessionRecord | null>;
+  getSessions(options?: { limit?: number; since?: number }): Promise<SessionRecord[]>;
+  replaceSession(removedId: string, survivor: SessionRecord): Promise<void>;
+
+  // Visits
+  addVisitEvent(visit: VisitEvent): Promise<void>;
+  endVisitEvent(id: string, endTimestamp: number): Promise<boolean>;
+  getOpenVisit(tabId: number): Promise<VisitEvent | null>;
+  getVisitEvents(options?: { nodeId?: string; since?: number; limit?: number }): Promise<VisitEvent[]>;
+
+  // Settings
+  getSettings(): Promise<CaptureSettings>;
+  updateSettings(settings: Partial<CaptureSettings>): Promise<void>;
+  getSettingValue<T>(key: string): Promise<T | null>;
+  setSettingValue<T>(key: string, value: T): Promise<void>;
+
+  getStats(): Promise<StorageStats>;
+  getPageAggregates(): Promise<PageAggregates>;
+  clearAllData(): Promise<void>;
+}
+
+/**
+ * A backend the extension can run on: adds privacy rules, the trash and whole-store copies
+ */
+export interface StorageEngine extends StorageBackend {
+  addPrivacyRule(rule: PrivacyRule): Promise<void>;
+  getPrivacyRules(): Promise<PrivacyRule[]>;
+  deletePrivacyRule(id: string): Promise<void>;
+
+  findMemoryNodeIds(filter: ForgetFilter): Promise<string[]>;
+  previewForget(filter: ForgetFilter): Promise<ForgetPreview>;
+  forget(filter: ForgetFilter): Promise<TrashEntry | null>;
+  trashMemoryNodes(ids: string[], label: string): Promise<TrashEntry | null>;
+  getTrash(): Promise<TrashEntry[]>;
+  restoreFromTrash(trashId: string): Promise<number>;
+  emptyTrash(trashId?: string): Promise<number>;
+  purgeExpiredTrash(now?: number): Promise<number>;
+
+  // Check every embedding against its ANN bucket (startup only compares counts and a checksum), rebuilding on a mismatch
+  verifyAnnIndex(): Promise<{ consistent: boolean; indexed: number; embeddings: number }>;
+
+  exportSnapshot(): Promise<StorageSnapshot>;
+  // Replaces everything stored. Needs the content key when the snapshot has sealed pages.
+  importSnapshot(snapshot: StorageSnapshot): Promise<void>;
+}
+
+export const DEFAULT_MAX_REVISIONS = 10;
+// How long forgotten pages can be restored before they are purged
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const FORGET_PREVIEW_SAMPLES = 5;
+// Settings keys the engines keep for themselves rather than in `StorageSnapshot.values`
+export const CAPTURE_SETTINGS_KEY = "capture";
+// Rough per-record cost of keys, indexes and structured-clone framing
+export const RECORD_OVERHEAD_BYTES = 256;
+
+const DEFAULT_SETTINGS: CaptureSettings = {
+  enabled: true,
+  excludeDomains: [],
+  excludeKeywords: [],
+  maxStorageSize: 500 * 1024 * 1024, // 500MB
+  quantizeEmbeddings: false,
+  maxRevisionsPerPage: DEFAULT_MAX_REVISIONS,
+  evictionPolicy: "oldest",
+  keepPinnedPages: true,
+  compactAfterDays: 30,
+};
+
+/**
+ * Stored capture settings with defaults for anything older versions did not save
+ */
+export function withSettingDefaults(stored?: Partial<CaptureSettings> | null): CaptureSettings {
+  if (!stored) return { ...DEFAULT_SETTINGS };
+  return {
+    enabled: stored.enabled!,
+    excludeDomains: stored.excludeDomains!,
+    excludeKeywords: stored.excludeKeywords!,
+    maxStorageSize: stored.maxStorageSize!,
+    quantizeEmbeddings: stored.quantizeEmbeddings ?? false,
+    maxRevisionsPerPage: stored.maxRevisionsPerPage ?? DEFAULT_MAX_REVISIONS,
+    evictionPolicy: stored.evictionPolicy ?? "oldest",
+    keepPinnedPages: stored.keepPinnedPages ?? true,
+    compactAfterDays: stored.compactAfterDays ?? 30,
+  };
+}
+
+/**
+ * The stored version of a page as a revision, if the incoming capture changes its content
+ */
+export function revisionFor(previous: MemoryNode | null, node: MemoryNode): PageRevision | null {
+  if (!previous) return null;
+  if (previous.title === node.title && previous.readableText === node.readableText) return null;
+  // A compacted page only holds its summary; that is not a version worth diffing against
+  if (previous.compactedAt) return null;
+
+  return {
+    id: `${previous.id}:${previous.timestamp}`,
+    nodeId: previous.id,
+    url: previous.url,
+    title: previous.title,
+    readableText: previous.readableText,
+    timestamp: previous.timestamp,
+  };
+}
+
+// Strings are budgeted at two bytes per UTF-16 code unit
+export function stringBytes(...values: Array<string | undefined>): number {
+  return values.reduce((sum, value) => sum + (value ? value.length * 2 : 0), 0);
+}
+
+export function contentBytes(record: SealableRecord): number {
+  return record.sealed ? record.sealed.data.byteLength : stringBytes(record.readableText);
+}
+
+export function embeddingBytes(vector: PackedVector | number[], passages: PackedPassage[] = []): number {
+  const passageBytes = passages.reduce((sum, passage) => sum + passage.packed.data.byteLength, 0);
+  return RECORD_OVERHEAD_BYTES + (Array.isArray(vector) ? vector.length * 8 : vector.data.byteLength) + passageBytes;
+}
+
+/**
+ * Passage vectors in storage form (same format as the page vector)
+ */
+export function packPassages(passages: PassageVector[] | undefined, format: VectorFormat): PackedPassage[] | undefined {
+  return passages?.map(({ start, end, vector }) => ({ start, end, packed: packVector(vector, format) }));
+}
+
+export function unpackPassages(passages: PackedPassage[] | undefined): PassageVector[] | undefined {
+  return passages?.map(({ start, end, packed }) => ({ start, end, vector: unpackVector(packed) }));
+}
+
+/**
+ * Stored passages as the ANN index takes them
+ */
+export function indexedPassages(passages: PackedPassage[] | undefined): IndexedPassage[] {
+  return (passages || []).map(({ start, end, packed }) => ({ start, end, vector: packed }));
+}
+
+export function revisionBytes(revision: PageRevision): number {
+  return RECORD_OVERHEAD_BYTES + stringBytes(revision.url, revision.title) + contentBytes(revision);
+}
+
+/**
+ * Footprint of a stored page, given the bytes of its embedding and revisions
+ */
+export function pageFootprint(page: MemoryNode, attachedBytes: number): PageFootprint {
+  const textBytes = contentBytes(page);
+  const pageBytes =
+    RECORD_OVERHEAD_BYTES + textBytes + stringBytes(page.url, page.title, page.summary, ...(page.keywords || []));
+  return {
+    id: page.id,
+    title: page.title,
+    url: page.url,
+    timestamp: page.timestamp,
+    visitCount: page.visitCount || 1,
+    pinned: !!page.pinned,
+    compacted: !!page.compactedAt,
+    textBytes,
+    bytes: pageBytes + attachedBytes,
+  };
+}
+
+function hasDateRange(filter: ForgetFilter): boolean {
+  return !!filter.startDate && !!filter.endDate;
+}
+
+/**
+ * Whether a forget request covers everything (which skips the trash)
+ */
+export function isForgetAll(filter: ForgetFilter): boolean {
+  return !filter.nodeIds && !filter.userId && !filter.domain && !hasDateRange(filter);
+}
+
+/**
+ * The single criterion a forget request selects pages by, in order of precedence
+ */
+export function forgetCriterion(
+  filter: ForgetFilter
+):
+  | { kind: "nodeIds"; nodeIds: string[] }
+  | { kind: "userId"; userId: string }
+  | { kind: "domain"; domain: string }
+  | { kind: "dateRange"; startDate: number; endDate: number }
+  | { kind: "all" } {
+  if (filter.nodeIds) return { kind: "nodeIds", nodeIds: filter.nodeIds };
+  if (filter.userId) return { kind: "userId", userId: filter.userId };
+  if (filter.domain) return { kind: "domain", domain: filter.domain };
+  if (hasDateRange(filter)) return { kind: "dateRange", startDate: filter.startDate!, endDate: filter.endDate! };
+  return { kind: "all" };
+}
+
+export function forgetLabel(filter: ForgetFilter): string {
+  const criterion = forgetCriterion(filter);
+  switch (criterion.kind) {
+    case "nodeIds":
+      return criterion.nodeIds.length === 1 ? "1 page" : `${criterion.nodeIds.length} pages`;
+    case "userId":
+      return `Profile ${criterion.userId}`;
+    case "domain":
+      return criterion.domain;
+    case "dateRange": {
+      const day = (time: number) => new Date(time).toISOString().slice(0, 10);
+      return `${day(criterion.startDate)} to ${day(criterion.endDate)}`;
+    }
+    case "all":
+      return "Everything";
+  }
+}
+
+export function newTrashEntry(label: string, pages: MemoryNode[], deletedAt: number = Date.now()): TrashEntry {
+  return {
+    id: `trash_${deletedAt}_${Math.random().toString(36).slice(2, 11)}`,
+    label,
+    deletedAt,
+    expiresAt: deletedAt + TRASH_RETENTION_MS,
+    pageCount: pages.length,
+    domains: Array.from(new Set(pages.map((page) => page.metadata?.domain).filter(Boolean))),
+  };
+}
+
+/**
+ * What a forget request would remove, from the raw records it covers
+ */
+export async function buildForgetPreview(
+  filter: ForgetFilter,
+  pages: MemoryNode[],
+  related: ForgetPreview["related"],
+  trashEntries: number,
+  open: (page: MemoryNode) => Promise<MemoryNode>
+): Promise<ForgetPreview> {
+  const domainCounts = new Map<string, number>();
+  pages.forEach((page) => {
+    const domain = page.metadata?.domain || "unknown";
+    domainCounts.set(domain, (domainCounts.get(domain) || 0) + 1);
+  });
+  const timestamps = pages.map((page) => page.timestamp);
+  const samples = await Promise.all(
+    [...pages]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, FORGET_PREVIEW_SAMPLES)
+      .map(open)
+  );
+
+  return {
+    pageCount: pages.length,
+    domains: Array.from(domainCounts, ([domain, count]) => ({ domain, count })).sort((a, b) => b.count - a.count),
+    oldest: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
+    newest: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
+    samples: samples.map((page) => ({ id: page.id, title: page.title, url: page.url })),
+    related,
+    restorable: !isForgetAll(filter),
+    trashEntries: isForgetAll(filter) ? trashEntries : 0,
+  };
+}
+
+export function localDate(time: number): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/**
+ * Aggregates computed in JS, for backends without a query engine
+ */
+export function aggregatePages(pages: Array<Pick<MemoryNode, "timestamp" | "metadata">>): PageAggregates {
+  const domains = new Map<string, { domain: string; count: number; lastVisit: number }>();
+  const days = new Map<string, number>();
+  let oldest: number | undefined;
+  let newest: number | undefined;
+
+  for (const page of pages) {
+    const domain = page.metadata?.domain || "unknown";
+    const entry = domains.get(domain) || { domain, count: 0, lastVisit: 0 };
+    entry.count++;
+    entry.lastVisit = Math.max(entry.lastVisit, page.timestamp);
+    domains.set(domain, entry);
+
+    const date = localDate(page.timestamp);
+    days.set(date, (days.get(date) || 0) + 1);
+    oldest = oldest === undefined ? page.timestamp : Math.min(oldest, page.timestamp);
+    newest = newest === undefined ? page.timestamp : Math.max(newest, page.timestamp);
+  }
+
+  return {
+    totalPages: pages.length,
+    oldest,
+    newest,
+    domains: Array.from(domains.values()).sort((a, b) => b.count - a.count),
+    days: Array.from(days, ([date, count]) => ({ date, count })).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
@@ -0,0 +1,131 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import { StorageEngineManager, type PreferenceStore } from "./storage-engine";
+import type { StorageEngine } from "./storage-backend";
+import { createFakeIndexedDBBackend, createSqliteBackend } from "../testing/backends";
+
+const now = Date.now();
+
+function page(id: string, domain: string, text: string): MemoryNode {
+  return {
+    id,
+    url: `https://${domain}/${id}`,
+    title: `Page ${id}`,
+    readableText: text,
+    timestamp: now,
+    keywords: [],
+    metadata: { domain },
+  };
+}
+
+function preferences(initial: Record<string, unknown> = {}): PreferenceStore & { items: Record<string, unknown> } {
+  const items = { ...initial };
+  return {
+    items,
+    get: async (key) => (key in items ? { [key]: items[key] } : {}),
+    set: async (next) => void Object.assign(items, next),
+  };
+}
+
+// SQLite runs in memory, so switching engines moves the records through a real exportSnapshot/importSnapshot
+function setup(stored: Record<string, unknown> = {}, openSqlite?: () => Promise<StorageEngine>) {
+  const indexedDB = createFakeIndexedDBBackend();
+  const sqlite = createSqliteBackend();
+  const prefs = preferences(stored);
+  const manager = new StorageEngineManager({ indexedDB, openSqlite: openSqlite ?? (async () => sqlite), preferences: prefs });
+  return { manager, indexedDB, sqlite, prefs };
+}
+
+describe("storage engine manager", () => {
+  it("starts on IndexedDB without a preference", async () => {
+    const openSqlite = vi.fn();
+    const { manager } = setup({}, openSqlite);
+    await manager.ready();
+    expect(manager.getStatus()).toEqual({ active: "indexeddb", preferred: "indexeddb", fallbackReason: undefined, migrating: false });
+    expect(openSqlite).not.toHaveBeenCalled();
+  });
+
+  it("moves every record to the new engine and clears the old one", async () => {
+    const { manager, indexedDB, sqlite, prefs } = setup();
+    await manager.storage.addMemoryNode(page("a", "example.com", "otters hold hands"));
+    await manager.storage.addMemoryNode(page("b", "other.org", "beavers build dams"));
+    await manager.storage.storeEmbedding("a", { vector: [1, 0, 0], model: "fallback", timestamp: now });
+    await manager.storage.addPrivacyRule({ id: "r1", type: "domain", value: "bank.com", status: "active", createdAt: new Date(now).toISOString() });
+
+    const status = await manager.switchTo("sqlite");
+
+    expect(status).toMatchObject({ active: "sqlite", preferred: "sqlite", migrating: false });
+    expect(prefs.items.cortex_storage_engine).toBe("sqlite");
+    expect((await sqlite.getStats()).pageCount).toBe(2);
+    expect((await sqlite.getEmbedding("a"))?.vector).toEqual([1, 0, 0]);
+    expect(await sqlite.getPrivacyRules()).toHaveLength(1);
+    expect((await indexedDB.getStats()).pageCount).toBe(0);
+    // The proxy follows the switch
+    const results = await manager.storage.searchKeywords("otters");
+    expect(results.map((r) => r.node.id)).toEqual(["a"]);
+
+    // And back again, out of SQLite
+    await manager.switchTo("indexeddb");
+    expect((await indexedDB.getStats()).pageCount).toBe(2);
+    expect((await indexedDB.getEmbedding("a"))?.vector).toEqual([1, 0, 0]);
+    expect((await indexedDB.getMemoryNode("b"))?.readableText).toBe("beavers build dams");
+    expect((await sqlite.getStats()).pageCount).toBe(0);
+  });
+
+  it("waits for writes already running on the old engine before copying it", async () => {
+    const { manager, indexedDB, sqlite } = setup();
+    await manager.storage.addMemoryNode(page("a", "example.com", "otters hold hands"));
+
+    // A capture that is still writing when the switch begins
+    let finishWrite = () => {};
+    const written = new Promise<void>((resolve) => (finishWrite = resolve));
+    const addMemoryNode = indexedDB.addMemoryNode.bind(indexedDB);
+    vi.spyOn(indexedDB, "addMemoryNode").mockImplementationOnce(async (node) => {
+      await written;
+      return addMemoryNode(node);
+    });
+    const capture = manager.storage.addMemoryNode(page("late", "example.com", "captured mid-switch"));
+    await vi.waitFor(() => expect(indexedDB.addMemoryNode).toHaveBeenCalled());
+
+    const switching = manager.switchTo("sqlite");
+    setTimeout(finishWrite, 20);
+    await Promise.all([capture, switching]);
+
+    expect((await sqlite.getMemoryNode("late"))?.readableText).toBe("captured mid-switch");
+    expect((await sqlite.getStats()).pageCount).toBe(2);
+    expect((await indexedDB.getStats()).pageCount).toBe(0);
+  });
+
+  it("keeps the old engine when it changed after the copy was taken", async () => {
+    const { manager, indexedDB, sqlite } = setup();
+    await manager.storage.addMemoryNode(page("a", "example.com", "otters hold hands"));
+    // Written straight to the engine, not through the manager, while the copy is imported
+    const importSnapshot = sqlite.importSnapshot.bind(sqlite);
+    vi.spyOn(sqlite, "importSnapshot").mockImplementationOnce(async (snapshot) => {
+      await indexedDB.addMemoryNode(page("b", "other.org", "beavers build dams"));
+      return importSnapshot(snapshot);
+    });
+
+    await expect(manager.switchTo("sqlite")).rejects.toThrow("Storage switch copied 1 of 2 pages; keeping indexeddb");
+    expect(manager.getStatus()).toMatchObject({ active: "indexeddb", migrating: false });
+    expect((await indexedDB.getStats()).pageCount).toBe(2);
+  });
+
+  it("opens the preferred engine on startup", async () => {
+    const { manager } = setup({ cortex_storage_engine: "sqlite" });
+    await manager.ready();
+    expect(manager.getStatus().active).toBe("sqlite");
+  });
+
+  it("falls back to IndexedDB when SQLite cannot be opened", async () => {
+    const { manager, indexedDB } = setup({ cortex_storage_engine: "sqlite" }, async () => {
+      throw new Error("OPFS is not available");
+    });
+    await manager.storage.addMemoryNode(page("a", "example.com", "still saved"));
+    expect(manager.getStatus()).toMatchObject({ active: "indexeddb", preferred: "sqlite", fallbackReason: "OPFS is not available" });
+    expect((await indexedDB.getStats()).pageCount).toBe(1);
+    await expect(manager.switchTo("sqlite")).rejects.toThrow("OPFS is not available");
+    expect((await indexedDB.getStats()).pageCount).toBe(1);
+  });
+});
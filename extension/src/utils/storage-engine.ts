@@ -0,0 +1,204 @@
+/**
+ * Storage Engine Selection
+ * Chooses which engine memories are stored in and moves them between engines
+ *
+ * IndexedDB is the default; SQLite on OPFS is opt-in. Switching copies the whole
+ * store, checks the copy and only then clears the old engine. When the preferred
+ * engine cannot be opened (no OPFS, worker failed to load) the extension keeps
+ * running on IndexedDB and reports why.
+ */
+
+import type { StorageEngineKind, StorageEngineStatus } from "@shared/extension-types";
+import { cortexStorage } from "./storage";
+import { SQLiteStorage } from "./sqlite-storage";
+import { OffscreenSqlClient } from "./sqlite-client";
+import type { StorageEngine } from "./storage-backend";
+
+// chrome.storage.local key holding the engine the user chose
+const PREFERENCE_KEY = "cortex_storage_engine";
+
+// Methods that answer synchronously; every other engine method returns a promise
+const SYNC_METHODS = new Set<keyof StorageEngine>(["isEncryptionEnabled", "isLocked", "setContentKey"]);
+
+export interface PreferenceStore {
+  get(key: string): Promise<Record<string, unknown>>;
+  set(items: Record<string, unknown>): Promise<void>;
+}
+
+export interface StorageEngineOptions {
+  indexedDB: StorageEngine;
+  // Rejects when SQLite cannot run here, e.g. without OPFS
+  openSqlite: () => Promise<StorageEngine>;
+  preferences?: PreferenceStore | null;
+}
+
+export class StorageEngineManager {
+  private engines = new Map<StorageEngineKind, StorageEngine>();
+  private active: StorageEngineKind = "indexeddb";
+  private preferred: StorageEngineKind = "indexeddb";
+  private fallbackReason?: string;
+  private selectPromise: Promise<void> | null = null;
+  // Calls made through `storage` wait for a running migration, then go to the new engine
+  private migration: Promise<unknown> | null = null;
+  // Calls made through `storage` that are running on an engine; a migration waits for them before copying
+  private calls = new Set<Promise<unknown>>();
+  // Handed to engines opened later, so switching doesn't lock encrypted memory
+  private contentKey: CryptoKey | null = null;
+
+  /**
+   * The active engine. Safe to hold on to: it follows every switch.
+   */
+  readonly storage: StorageEngine;
+
+  constructor(private options: StorageEngineOptions) {
+    this.engines.set("indexeddb", options.indexedDB);
+    this.storage = new Proxy({} as StorageEngine, {
+      get: (_target, property: keyof StorageEngine) => this.forward(property),
+    });
+  }
+
+  async ready(): Promise<void> {
+    await (this.selectPromise ??= this.select());
+    await this.current().ready();
+  }
+
+  getStatus(): StorageEngineStatus {
+    return {
+      active: this.active,
+      preferred: this.preferred,
+      fallbackReason: this.fallbackReason,
+      migrating: this.migration !== null,
+    };
+  }
+
+  /**
+   * Move everything into another engine and make it the active one.
+   * Needs encrypted memory unlocked, since the new engine rebuilds its search index from plaintext.
+   */
+  async switchTo(target: StorageEngineKind): Promise<StorageEngineStatus> {
+    await this.ready();
+    if (this.migration) throw new Error("A storage engine switch is already running");
+
+    if (target === this.active) {
+      // Also how a user gives up on a preferred engine that keeps failing to open
+      this.preferred = target;
+      this.fallbackReason = undefined;
+      await this.options.preferences?.set({ [PREFERENCE_KEY]: target });
+      return this.getStatus();
+    }
+
+    const source = this.current();
+    if (source.isLocked()) throw new Error("Cortex is locked: unlock it before switching storage engines");
+
+    this.migration = this.migrate(source, target);
+    try {
+      await this.migration;
+    } finally {
+      this.migration = null;
+    }
+    return this.getStatus();
+  }
+
+  private async migrate(source: StorageEngine, target: StorageEngineKind): Promise<void> {
+    const destination = await this.open(target);
+    // A write that started before the switch must land before the copy, or clearing the source loses it
+    await this.settleCalls();
+    const snapshot = await source.exportSnapshot();
+    await destination.importSnapshot(snapshot);
+
+    // Against the source as it is now, in case anything reached it without going through `storage`
+    const [{ pageCount }, { pageCount: sourceCount }] = await Promise.all([destination.getStats(), source.getStats()]);
+    if (pageCount !== sourceCount) {
+      throw new Error(`Storage switch copied ${pageCount} of ${sourceCount} pages; keeping ${this.active}`);
+    }
+
+    this.active = target;
+    this.preferred = target;
+    this.fallbackReason = undefined;
+    await this.options.preferences?.set({ [PREFERENCE_KEY]: target });
+    // The copy is complete; clearing the old engine keeps two diverging copies from existing
+    await source.clearAllData();
+    source.setContentKey(null);
+    console.log(`Cortex: Moved ${snapshot.pages.length} pages to ${target} storage`);
+  }
+
+  private async settleCalls(): Promise<void> {
+    while (this.calls.size > 0) {
+      await Promise.allSettled(Array.from(this.calls));
+    }
+  }
+
+  private current(): StorageEngine {
+    return this.engines.get(this.active)!;
+  }
+
+  private async select(): Promise<void> {
+    const stored = await this.options.preferences?.get(PREFERENCE_KEY);
+    this.preferred = stored?.[PREFERENCE_KEY] === "sqlite" ? "sqlite" : "indexeddb";
+    if (this.preferred === "indexeddb") return;
+
+    try {
+      await this.open("sqlite");
+      this.active = "sqlite";
+    } catch (error) {
+      this.fallbackReason = error instanceof Error ? error.message : String(error);
+      console.warn("Cortex: SQLite storage unavailable, falling back to IndexedDB", error);
+    }
+  }
+
+  private async open(kind: StorageEngineKind): Promise<StorageEngine> {
+    let engine = this.engines.get(kind);
+    if (!engine) {
+      const opened = await this.options.openSqlite();
+      await opened.ready();
+      this.engines.set(kind, opened);
+      engine = opened;
+    }
+    await engine.ready();
+    engine.setContentKey(this.contentKey);
+    return engine;
+  }
+
+  private forward(property: keyof StorageEngine): unknown {
+    if (property === "ready") return () => this.ready();
+    if (property === "setContentKey") {
+      return (key: CryptoKey | null) => {
+        this.contentKey = key;
+        this.engines.forEach((engine) => engine.setContentKey(key));
+      };
+    }
+    const engine = this.current();
+    // Not a method (e.g. `then` when something awaits the proxy): answer like the engine would
+    if (typeof engine[property] !== "function") return engine[property];
+    if (SYNC_METHODS.has(property)) {
+      return (engine[property] as (...args: unknown[]) => unknown).bind(engine);
+    }
+
+    return async (...args: unknown[]) => {
+      await this.ready();
+      // Checked again after each wait, so nothing starts on the old engine once a switch has begun
+      while (this.migration) await this.migration.catch(() => undefined);
+      const target = this.current();
+      const call = (target[property] as (...args: unknown[]) => Promise<unknown>).apply(target, args);
+      this.calls.add(call);
+      const result = await call.finally(() => this.calls.delete(call));
+      // Both change the key the engine holds
+      if (property === "reencryptContent") this.contentKey = args[1] as CryptoKey | null;
+      if (property === "clearAllData") this.contentKey = null;
+      return result;
+    };
+  }
+}
+
+export const storageEngines = new StorageEngineManager({
+  indexedDB: cortexStorage,
+  openSqlite: async () => {
+    const client = new OffscreenSqlClient();
+    await client.connect();
+    return new SQLiteStorage(client);
+  },
+  preferences: typeof chrome !== "undefined" && chrome.storage?.local ? chrome.storage.local : null,
+});
+
+// What services and the background worker store memories through
+export const activeStorage: StorageEngine = storageEngines.storage;
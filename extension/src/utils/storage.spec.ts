@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import type { Embedding, MemoryNode } from "@shared/extension-types";
+import { BACKENDS, ENGINES } from "../testing/backends";
+import type { StorageBackend, StorageEngine } from "./storage-backend";
+import { TRASH_RETENTION_MS } from "./storage-backend";
+import { ANNIndex, createSeededRandom, type ANNBucket } from "./vector-search";
+
+const now = Date.now();
+
+function page(id: string, domain: string, text: string, timestamp: number = now): MemoryNode {
+  return {
+    id,
+    url: `https://${domain}/${id}`,
+    title: `Page ${id}`,
+    readableText: text,
+    timestamp,
+    keywords: [],
+    metadata: { domain },
+  };
+}
+
+const embedding = (vector: number[]): Embedding => ({ vector, model: "fallback", timestamp: now });
+
+async function seed(storage: StorageEngine) {
+  await storage.addMemoryNode(page("a", "example.com", "first draft about otters", now - 2000));
+  await storage.addMemoryNode(page("a", "example.com", "final notes about otters", now - 1000));
+  await storage.addMemoryNode(page("b", "example.com", "beavers build dams"));
+  await storage.addMemoryNode(page("c", "other.org", "rivers and lakes"));
+  await storage.storeEmbedding("a", embedding([1, 0, 0]));
+  await storage.storeEmbedding("c", embedding([0, 1, 0]));
+  await storage.addGraphEdge("a", "c", 0.8);
+  await storage.addGraphEdge("c", "a", 0.8);
+  await storage.addVisitEvent({ id: "v1", type: "visit", nodeId: "a", url: "https://example.com/a", timestamp: now, transition: "typed" });
+  const [a, b, c] = await Promise.all(["a", "b", "c"].map((id) => storage.getMemoryNode(id)));
+  await storage.saveCluster({ id: "mixed", name: "Water", color: "blue", nodes: [a!, c!], keywords: [] });
+  await storage.saveCluster({ id: "solo", name: "Dams", color: "red", nodes: [b!], keywords: [] });
+}
+
+describe.each(ENGINES)("trash on $name storage", ({ create }) => {
+  let storage: StorageEngine;
+
+  beforeEach(async () => {
+    storage = create().storage;
+    await seed(storage);
+  });
+
+  it("previews a forget without removing anything", async () => {
+    const preview = await storage.previewForget({ domain: "example.com" });
+    expect(preview.pageCount).toBe(2);
+    expect(preview.domains).toEqual([{ domain: "example.com", count: 2 }]);
+    expect(preview.related).toEqual({ embeddings: 1, revisions: 1, visits: 1, edges: 2, clusters: 2 });
+    expect(preview.restorable).toBe(true);
+    expect(await storage.getMemoryNode("a")).not.toBeNull();
+
+    const everything = await storage.previewForget({});
+    expect(everything.pageCount).toBe(3);
+    expect(everything.restorable).toBe(false);
+  });
+
+  it("cascades a forget to everything that points at the pages", async () => {
+    const entry = await storage.forget({ domain: "example.com" });
+    expect(entry).toMatchObject({ label: "example.com", pageCount: 2, domains: ["example.com"] });
+    expect(entry!.expiresAt - entry!.deletedAt).toBe(TRASH_RETENTION_MS);
+
+    expect(await storage.getMemoryNode("a")).toBeNull();
+    expect(await storage.getEmbedding("a")).toBeNull();
+    expect(await storage.getPageRevisions("a")).toEqual([]);
+    expect(await storage.getVisitEvents({ nodeId: "a" })).toEqual([]);
+    expect(await storage.getRelatedNodes("c")).toEqual([]);
+    expect(await storage.searchMemoryNodes("otters")).toEqual([]);
+    expect((await storage.vectorSearch([1, 0, 0], 5, 0.5)).map((m) => m.nodeId)).toEqual([]);
+
+    const clusters = await storage.getAllClusters();
+    expect(clusters.map((cluster) => [cluster.id, cluster.nodes.map((n) => n.id)])).toEqual([["mixed", ["c"]]]);
+    expect((await storage.getTrash()).map((t) => t.id)).toEqual([entry!.id]);
+  });
+
+  it("restores a trash entry as it was", async () => {
+    const entry = await storage.forget({ domain: "example.com" });
+    expect(await storage.restoreFromTrash(entry!.id)).toBe(2);
+
+    expect((await storage.getMemoryNode("a"))?.readableText).toBe("final notes about otters");
+    expect((await storage.getPageRevisions("a")).map((r) => r.readableText)).toEqual(["first draft about otters"]);
+    expect((await storage.getVisitEvents({ nodeId: "a" })).map((v) => v.id)).toEqual(["v1"]);
+    expect((await storage.getRelatedNodes("c")).map((n) => n.id)).toEqual(["a"]);
+    expect((await storage.searchMemoryNodes("otters")).map((n) => n.id)).toEqual(["a"]);
+    expect((await storage.vectorSearch([1, 0, 0], 5, 0.5)).map((m) => m.nodeId)).toEqual(["a"]);
+
+    const clusters = await storage.getAllClusters();
+    const members = Object.fromEntries(clusters.map((cluster) => [cluster.id, cluster.nodes.map((n) => n.id).sort()]));
+    expect(members).toEqual({ mixed: ["a", "c"], solo: ["b"] });
+    expect(await storage.getTrash()).toEqual([]);
+  });
+
+  it("keeps a page captured again since it was forgotten", async () => {
+    const entry = await storage.forget({ nodeIds: ["b"] });
+    await storage.addMemoryNode(page("b", "example.com", "beavers came back"));
+
+    expect(await storage.restoreFromTrash(entry!.id)).toBe(0);
+    expect((await storage.getMemoryNode("b"))?.readableText).toBe("beavers came back");
+  });
+
+  it("purges expired entries and empties the trash", async () => {
+    const domainEntry = await storage.forget({ domain: "example.com" });
+    await storage.forget({ domain: "other.org" });
+
+    expect(await storage.purgeExpiredTrash(now)).toBe(0);
+    expect(await storage.emptyTrash(domainEntry!.id)).toBe(1);
+    expect(await storage.purgeExpiredTrash(Date.now() + TRASH_RETENTION_MS + 1)).toBe(1);
+    expect(await storage.getTrash()).toEqual([]);
+  });
+});
+
+describe.each(BACKENDS)("page revisions on $name storage", ({ create }) => {
+  let storage: StorageBackend;
+
+  // Each capture changes the text, so each one after the first keeps the one before as a revision
+  async function capture(count: number, from: number = 0) {
+    for (let i = from; i < from + count; i++) {
+      await storage.addMemoryNode(page("a", "example.com", `draft ${i}`, now + i * 1000));
+    }
+  }
+  const revisionTexts = async () => (await storage.getPageRevisions("a")).map((revision) => revision.readableText);
+
+  beforeEach(() => {
+    storage = create();
+  });
+
+  it("keeps the newest revisions up to the cap", async () => {
+    await storage.updateSettings({ maxRevisionsPerPage: 3 });
+    await capture(6);
+    expect(await revisionTexts()).toEqual(["draft 4", "draft 3", "draft 2"]);
+    expect((await storage.getMemoryNode("a"))?.readableText).toBe("draft 5");
+
+    // A lower cap trims what is already stored on the next change
+    await storage.updateSettings({ maxRevisionsPerPage: 1 });
+    await capture(1, 6);
+    expect(await revisionTexts()).toEqual(["draft 5"]);
+  });
+
+  it("keeps no history with a cap of 0", async () => {
+    await storage.updateSettings({ maxRevisionsPerPage: 0 });
+    await capture(3);
+    expect(await revisionTexts()).toEqual([]);
+
+    await storage.updateSettings({ maxRevisionsPerPage: 5 });
+    await capture(2, 3);
+    expect(await revisionTexts()).toEqual(["draft 3", "draft 2"]);
+    // Turning history off drops the page's earlier revisions when it next changes
+    await storage.updateSettings({ maxRevisionsPerPage: 0 });
+    await capture(1, 5);
+    expect(await revisionTexts()).toEqual([]);
+    expect((await storage.getMemoryNode("a"))?.readableText).toBe("draft 5");
+  });
+});
+
+describe.each(ENGINES)("ANN index on $name storage", ({ create }) => {
+  const random = createSeededRandom(5);
+  const vectors = Array.from({ length: 6 }, () => Array.from({ length: 384 }, () => random() * 2 - 1));
+  const sorted = (buckets: ANNBucket[]) =>
+    buckets.map(({ hash, nodeIds }) => ({ hash, nodeIds: [...nodeIds].sort() })).sort((a, b) => a.hash - b.hash);
+
+  async function seedVectors(storage: StorageEngine) {
+    for (const [i, vector] of vectors.entries()) {
+      await storage.addMemoryNode(page(`p${i}`, "example.com", `page ${i}`));
+      await storage.storeEmbedding(`p${i}`, embedding(vector));
+    }
+  }
+
+  it("keeps the persisted buckets when they match the embeddings", async () => {
+    const fixture = create();
+    await seedVectors(fixture.storage);
+    const buckets = sorted(await fixture.annBuckets());
+    expect(buckets.flatMap((bucket) => bucket.nodeIds).sort()).toEqual(vectors.map((_, i) => `p${i}`));
+
+    const reopened = fixture.reopen();
+    const [best] = await reopened.vectorSearch(vectors[2], 1, 0.5);
+    expect(best?.nodeId).toBe("p2");
+    expect(sorted(await fixture.annBuckets())).toEqual(buckets);
+  });
+
+  it("rebuilds buckets that file a page under the wrong hash", async () => {
+    const fixture = create();
+    await seedVectors(fixture.storage);
+    const expected = sorted(await fixture.annBuckets());
+
+    // Same pages, so the id sets agree; but p0 sits in a bucket its vector doesn't hash to
+    const index = new ANNIndex();
+    const wrongHash = index.computeHash(vectors[0].map((value) => -value));
+    await fixture.setAnnBuckets([
+      ...expected.map(({ hash, nodeIds }) => ({ hash, nodeIds: nodeIds.filter((id) => id !== "p0") })),
+      { hash: wrongHash, nodeIds: ["p0"] },
+    ]);
+
+    const reopened = fixture.reopen();
+    const [best] = await reopened.vectorSearch(vectors[0], 1, 0.5);
+    expect(best?.nodeId).toBe("p0");
+    expect(sorted(await fixture.annBuckets())).toEqual(expected);
+  });
+
+  it("leaves per-page checks of buckets that match their checksum to verifyAnnIndex", async () => {
+    const fixture = create();
+    await seedVectors(fixture.storage);
+    const expected = sorted(await fixture.annBuckets());
+    expect(await fixture.storage.verifyAnnIndex()).toEqual({ consistent: true, indexed: 6, embeddings: 6 });
+
+    // Saved with a matching checksum, so a start trusts them without reading any vector
+    const wrongHash = new ANNIndex().computeHash(vectors[0].map((value) => -value));
+    const misfiled = [
+      ...expected.map(({ hash, nodeIds }) => ({ hash, nodeIds: nodeIds.filter((id) => id !== "p0") })),
+      { hash: wrongHash, nodeIds: ["p0"] },
+    ].filter(({ nodeIds }) => nodeIds.length > 0);
+    await fixture.setAnnBuckets(misfiled, true);
+
+    const reopened = fixture.reopen();
+    // A search waits for the startup check
+    await reopened.vectorSearch(vectors[1], 1, 0.5);
+    expect(sorted(await fixture.annBuckets())).toEqual(sorted(misfiled));
+
+    expect(await reopened.verifyAnnIndex()).toEqual({ consistent: false, indexed: 6, embeddings: 6 });
+    expect(sorted(await fixture.annBuckets())).toEqual(expected);
+    const [best] = await reopened.vectorSearch(vectors[0], 1, 0.5);
+    expect(best?.nodeId).toBe("p0");
+  });
+});
@@ -10,168 +10,520 @@ import type {
   SemanticMatch,
   PrivacyRule,
   CaptureSettings,
+  PageRevision,
+  VisitEvent,
+  SessionRecord,
+  ForgetFilter,
+  ForgetPreview,
+  TrashEntry,
 } from "@shared/extension-types";
-import { cosineSimilarity, ANNIndex } from "./vector-search";
+import { cosineSimilarity, ANNIndex, type ANNBucket, type ANNIndexConfig } from "./vector-search";
+import { packVector, unpackVector, type PackedVector } from "./vector-codec";
+import {
+  STORES,
+  SEARCH_STATS_KEY,
+  ANN_CONFIG_KEY,
+  ENCRYPTION_CONFIG_KEY,
+  LATEST_DB_VERSION,
+  runMigrations,
+} from "./migrations";
+import { sealContent, openContent, type SealableRecord } from "./sealed-content";
+import { embeddingModelKey } from "./embedding-models";
+import { passageHit } from "./passages";
+import {
+  tokenize,
+  analyzeDocument,
+  applyToStats,
+  emptyStats,
+  scoreDocuments,
+  MIN_PREFIX_LENGTH,
+  type SearchDocument,
+  type SearchPosting,
+  type SearchStats,
+} from "./text-index";
+import {
+  DEFAULT_MAX_REVISIONS,
+  CAPTURE_SETTINGS_KEY,
+  aggregatePages,
+  buildForgetPreview,
+  embeddingBytes,
+  indexedPassages,
+  packPassages,
+  unpackPassages,
+  forgetCriterion,
+  forgetLabel,
+  newTrashEntry,
+  pageFootprint,
+  revisionBytes,
+  revisionFor,
+  withSettingDefaults,
+  type EmbeddingRecord,
+  type KeywordMatch,
+  type PageAggregates,
+  type PageFootprint,
+  type StorageEngine,
+  type StorageSnapshot,
+  type StorageStats,
+  type TrashedRecords,
+} from "./storage-backend";
 
 const DB_NAME = "cortex-memory";
-const DB_VERSION = 3; // Increment for schema changes (added userId index)
-
-const STORES = {
-  PAGES: "pages",
-  EMBEDDINGS: "embeddings",
-  CLUSTERS: "clusters",
-  GRAPH_EDGES: "graph_edges",
-  SESSIONS: "sessions",
-  ACTIVITY: "activity",
-  SETTINGS: "settings",
-  RULES: "rules",
-} as const;
-
-export class CortexStorage {
+
+// Every store that holds records pointing at a page
+const CASCADE_STORES = [
+  STORES.PAGES,
+  STORES.EMBEDDINGS,
+  STORES.SEARCH_POSTINGS,
+  STORES.SEARCH_DOCS,
+  STORES.SETTINGS,
+  STORES.ANN_BUCKETS,
+  STORES.PAGE_REVISIONS,
+  STORES.ACTIVITY,
+  STORES.GRAPH_EDGES,
+  STORES.CLUSTERS,
+];
+
+/**
+ * Raw records a delete removed, kept in the trash so they can be put back as they were
+ */
+interface DeletedRecords extends TrashedRecords {
+  searchDocs: SearchDocument[];
+  postings: SearchPosting[];
+}
+
+interface TrashRecord extends TrashEntry {
+  records: DeletedRecords;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Embedding records hold a packed vector; records written before v6 may still carry `vector: number[]`
+ */
+function storedVector(record: any): PackedVector | number[] {
+  return record.packed || record.vector;
+}
+
+/**
+ * Embedding record in the current format, packing a legacy `vector` if needed
+ */
+function toEmbeddingRecord(record: any): EmbeddingRecord {
+  const stored = storedVector(record);
+  return {
+    nodeId: record.nodeId,
+    model: record.model,
+    modelId: record.modelId,
+    modelVersion: record.modelVersion,
+    timestamp: record.timestamp,
+    packed: Array.isArray(stored) ? packVector(stored) : stored,
+    passages: record.passages,
+  };
+}
+
+function toEmbedding(record: any): Embedding {
+  return {
+    vector: record.packed ? unpackVector(record.packed) : record.vector,
+    model: record.model,
+    modelId: record.modelId,
+    modelVersion: record.modelVersion,
+    timestamp: record.timestamp,
+    passages: unpackPassages(record.passages),
+  };
+}
+
+/**
+ * The IndexedDB implementation to open the database with; defaults to the browser's
+ */
+export interface IndexedDBEnvironment {
+  indexedDB: IDBFactory;
+  IDBKeyRange: typeof IDBKeyRange;
+}
+
+export class CortexStorage implements StorageEngine {
   private db: IDBDatabase | null = null;
-  private initPromise: Promise<IDBDatabase>;
+  private initPromise: Promise<IDBDatabase> | null = null;
   private annIndex: ANNIndex = new ANNIndex();
-  private isHydrated: boolean = false;
-
-  constructor() {
-    this.initPromise = this.init();
+  // Resolves once persisted buckets are loaded and checked against their saved checksum
+  private annReady: Promise<void> = Promise.resolve();
+  private annConfigMatches: boolean = false;
+  private annChecksum: number | undefined;
+  // Page content encryption: enabled once a passphrase is set up, locked until the key is supplied
+  private encryptionEnabled: boolean = false;
+  private contentKey: CryptoKey | null = null;
+  private encryptionReady: Promise<void> = Promise.resolve();
+  // Held while all content is being re-encrypted, so captures don't interleave with it
+  private rekeying: Promise<void> = Promise.resolve();
+  // Writes to pages, revisions or the trash in flight; a re-encryption waits for them before reading
+  private contentWrites = new Set<Promise<unknown>>();
+
+  // Opened on first use, so constructing (or importing the singleton) touches nothing
+  constructor(
+    private dbName: string = DB_NAME,
+    private env?: IndexedDBEnvironment
+  ) {}
+
+  private get keyRange(): typeof IDBKeyRange {
+    return this.env?.IDBKeyRange ?? IDBKeyRange;
   }
 
   private async init(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      const request = (this.env?.indexedDB ?? indexedDB).open(this.dbName, LATEST_DB_VERSION);
 
       request.onerror = () => {
-        reject(new Error("Failed to open IndexedDB"));
+        reject(request.error || new Error("Failed to open IndexedDB"));
       };
 
       request.onupgradeneeded = (event) => {
-        // ... store definitions remain same ...
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Pages store - main memory nodes
-        if (!db.objectStoreNames.contains(STORES.PAGES)) {
-          const pageStore = db.createObjectStore(STORES.PAGES, { keyPath: "id" });
-          pageStore.createIndex("url", "url", { unique: false });
-          pageStore.createIndex("domain", "metadata.domain", { unique: false });
-          pageStore.createIndex("timestamp", "timestamp", { unique: false });
-          pageStore.createIndex("sessionId", "metadata.sessionId", { unique: false });
-          pageStore.createIndex("userId", "metadata.userId", { unique: false });
-        }
-
-        // Embeddings store - vector embeddings for semantic search
-        if (!db.objectStoreNames.contains(STORES.EMBEDDINGS)) {
-          const embeddingStore = db.createObjectStore(STORES.EMBEDDINGS, { keyPath: "nodeId" });
-          embeddingStore.createIndex("timestamp", "timestamp", { unique: false });
-        }
-
-        // Clusters store - semantic clusters
-        if (!db.objectStoreNames.contains(STORES.CLUSTERS)) {
-          const clusterStore = db.createObjectStore(STORES.CLUSTERS, { keyPath: "id" });
-          clusterStore.createIndex("timestamp", "timestamp", { unique: false });
-        }
-
-        // Graph edges - relationships between pages
-        if (!db.objectStoreNames.contains(STORES.GRAPH_EDGES)) {
-          const edgeStore = db.createObjectStore(STORES.GRAPH_EDGES, { keyPath: "id" });
-          edgeStore.createIndex("fromNode", "fromNode", { unique: false });
-          edgeStore.createIndex("toNode", "toNode", { unique: false });
-          edgeStore.createIndex("strength", "strength", { unique: false });
-        }
+        const db = request.result;
+        const transaction = request.transaction!;
 
-        // Sessions - browsing sessions
-        if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
-          const sessionStore = db.createObjectStore(STORES.SESSIONS, { keyPath: "id" });
-          sessionStore.createIndex("startTime", "startTime", { unique: false });
-        }
-
-        // Activity - user activity logs
-        if (!db.objectStoreNames.contains(STORES.ACTIVITY)) {
-          const activityStore = db.createObjectStore(STORES.ACTIVITY, { keyPath: "id" });
-          activityStore.createIndex("timestamp", "timestamp", { unique: false });
-          activityStore.createIndex("type", "type", { unique: false });
-        }
-
-        // Settings - user preferences
-        if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-          db.createObjectStore(STORES.SETTINGS, { keyPath: "key" });
-        }
-
-        // Privacy rules
-        if (!db.objectStoreNames.contains(STORES.RULES)) {
-          db.createObjectStore(STORES.RULES, { keyPath: "id" });
-        }
+        runMigrations({ db, transaction, oldVersion: event.oldVersion }).catch((error) => {
+          console.error("CortexStorage: Migration failed, aborting upgrade", error);
+          transaction.abort();
+        });
       };
 
       request.onsuccess = () => {
         this.db = request.result;
+        this.encryptionReady = this.loadEncryptionState();
         // Start hydration in background, don't await here to avoid deadlock
-        this.hydrateIndex().catch(console.error);
+        this.annReady = this.hydrateIndex()
+          .then(() => this.checkAnnState())
+          .catch((e) => console.error("CortexStorage: ANN index check failed", e));
         resolve(this.db);
       };
     });
   }
 
+  /**
+   * Load persisted ANN buckets (node ids only - vectors are fetched lazily at query time)
+   */
   private async hydrateIndex(): Promise<void> {
-    if (this.isHydrated) return;
     try {
-      // Use internal method that doesn't call ready()
-      const embeddings = await this.internalGetAllEmbeddings();
-      embeddings.forEach(({ nodeId, embedding }) => {
-        this.annIndex.add(nodeId, embedding.vector);
-      });
-      this.isHydrated = true;
-      console.log(`CortexStorage: Index hydrated with ${embeddings.length} nodes`);
+      const transaction = this.db!.transaction([STORES.ANN_BUCKETS, STORES.SETTINGS], "readonly");
+      const [config, buckets] = await Promise.all([
+        promisifyRequest(transaction.objectStore(STORES.SETTINGS).get(ANN_CONFIG_KEY)),
+        promisifyRequest(transaction.objectStore(STORES.ANN_BUCKETS).getAll()) as Promise<ANNBucket[]>,
+      ]);
+
+      const current = this.annIndex.getConfig();
+      this.annConfigMatches =
+        !!config &&
+        config.seed === current.seed &&
+        config.numHashes === current.numHashes &&
+        config.dim === current.dim;
+      this.annChecksum = config?.checksum;
+
+      if (this.annConfigMatches) {
+        this.annIndex.loadBuckets(buckets);
+      }
+      console.log(`CortexStorage: Index hydrated with ${this.annIndex.size} nodes`);
     } catch (e) {
       console.error("CortexStorage: Index hydration failed", e);
     }
   }
 
-  // Internal helper to bypass ready() check during hydration
-  private async internalGetAllEmbeddings(): Promise<Array<{ nodeId: string; embedding: Embedding }>> {
-    if (!this.db) throw new Error("DB not initialized");
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.EMBEDDINGS], "readonly");
-      const store = transaction.objectStore(STORES.EMBEDDINGS);
-      const request = store.getAll();
+  /**
+   * The cheap check run on every start: the same number of pages as the embeddings store, and
+   * buckets that add up to the checksum saved with them. Rebuilds the buckets otherwise.
+   */
+  private async checkAnnState(): Promise<void> {
+    const transaction = this.db!.transaction([STORES.EMBEDDINGS], "readonly");
+    const embeddings = await promisifyRequest(transaction.objectStore(STORES.EMBEDDINGS).count());
+    const indexed = this.annIndex.size;
+    if (this.annConfigMatches && embeddings === indexed && this.annChecksum === this.annIndex.checksum()) return;
+
+    console.warn(`CortexStorage: ANN index out of sync (${indexed} indexed, ${embeddings} embeddings), rebuilding`);
+    await this.rebuildAnnIndex();
+  }
 
-      request.onsuccess = () => {
-        const results = request.result;
-        resolve(
-          results.map((r: any) => ({
-            nodeId: r.nodeId,
-            embedding: {
-              vector: r.vector,
-              model: r.model,
-              timestamp: r.timestamp,
-            },
-          }))
-        );
+  /**
+   * Compare persisted ANN buckets with every embedding record and rebuild them on any disagreement:
+   * a missing or extra page, or one (or one of its passages) filed under the wrong bucket.
+   * Reads and hashes every vector, so it runs on demand rather than on every start.
+   */
+  async verifyAnnIndex(): Promise<{ consistent: boolean; indexed: number; embeddings: number }> {
+    await this.ready();
+    await this.annReady;
+    const transaction = this.db!.transaction([STORES.EMBEDDINGS], "readonly");
+    const records = await promisifyRequest(transaction.objectStore(STORES.EMBEDDINGS).getAll());
+
+    const indexed = this.annIndex.size;
+    // Same count and every record in its own buckets means the same set of pages
+    const consistent =
+      records.length === indexed &&
+      records.every((record: any) =>
+        this.annIndex.isAssigned(record.nodeId, storedVector(record), indexedPassages(record.passages))
+      );
+
+    if (!consistent) {
+      console.warn(`CortexStorage: ANN index out of sync (${indexed} indexed, ${records.length} embeddings), rebuilding`);
+      await this.rebuildAnnIndex();
+    }
+    return { consistent, indexed, embeddings: records.length };
+  }
+
+  private async rebuildAnnIndex(): Promise<void> {
+    // Raw records, so packed vectors are cached without being decoded
+    const embeddings = await promisifyRequest(
+      this.db!.transaction([STORES.EMBEDDINGS], "readonly").objectStore(STORES.EMBEDDINGS).getAll()
+    );
+    this.annIndex.clear();
+    embeddings.forEach((record: any) =>
+      this.annIndex.assign(record.nodeId, storedVector(record), embeddingModelKey(record), indexedPassages(record.passages))
+    );
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.ANN_BUCKETS, STORES.SETTINGS], "readwrite");
+      const bucketStore = transaction.objectStore(STORES.ANN_BUCKETS);
+      bucketStore.clear();
+      this.annIndex.getBuckets().forEach((bucket) => bucketStore.put(bucket));
+      transaction.objectStore(STORES.SETTINGS).put(this.annStateRecord());
+
+      transaction.oncomplete = () => {
+        this.annConfigMatches = true;
+        console.log(`CortexStorage: ANN index rebuilt with ${embeddings.length} nodes`);
+        resolve();
       };
-      request.onerror = () => reject(new Error("Failed to get embeddings"));
+      transaction.onerror = () => reject(new Error("Failed to rebuild ANN index"));
     });
   }
 
+  /**
+   * The projection config the persisted buckets were built with, and their checksum
+   */
+  private annStateRecord(): ANNIndexConfig & { key: string; checksum: number } {
+    return { key: ANN_CONFIG_KEY, ...this.annIndex.getConfig(), checksum: this.annIndex.checksum() };
+  }
+
+  /**
+   * Write the current membership of the given buckets (deleting emptied ones) and the new checksum.
+   * The transaction needs the settings store as well as the buckets.
+   */
+  private persistBuckets(transaction: IDBTransaction, hashes: Iterable<number | undefined>): void {
+    const store = transaction.objectStore(STORES.ANN_BUCKETS);
+    transaction.objectStore(STORES.SETTINGS).put(this.annStateRecord());
+    for (const hash of new Set(hashes)) {
+      if (hash === undefined) continue;
+      const nodeIds = this.annIndex.getBucket(hash);
+      if (nodeIds.length > 0) {
+        store.put({ hash, nodeIds });
+      } else {
+        store.delete(hash);
+      }
+    }
+  }
+
+  private async loadAnnVectors(nodeIds: string[]): Promise<void> {
+    if (nodeIds.length === 0) return;
+    const store = this.db!.transaction([STORES.EMBEDDINGS], "readonly").objectStore(STORES.EMBEDDINGS);
+    const records = await Promise.all(nodeIds.map((id) => promisifyRequest(store.get(id))));
+    records.forEach(
+      (record: any) =>
+        record &&
+        this.annIndex.cacheVector(record.nodeId, storedVector(record), embeddingModelKey(record), indexedPassages(record.passages))
+    );
+  }
+
   async ready(): Promise<void> {
-    await this.initPromise;
+    await (this.initPromise ??= this.init());
+    await this.encryptionReady;
+  }
+
+  private async loadEncryptionState(): Promise<void> {
+    const transaction = this.db!.transaction([STORES.SETTINGS], "readonly");
+    const record = await promisifyRequest(transaction.objectStore(STORES.SETTINGS).get(ENCRYPTION_CONFIG_KEY));
+    this.encryptionEnabled = !!record;
+  }
+
+  // Encryption
+  isEncryptionEnabled(): boolean {
+    return this.encryptionEnabled;
+  }
+
+  isLocked(): boolean {
+    return this.encryptionEnabled && !this.contentKey;
+  }
+
+  /**
+   * Supply (unlock) or forget (lock) the data key used to seal page content
+   */
+  setContentKey(key: CryptoKey | null): void {
+    this.contentKey = key;
+  }
+
+  private async sealForStorage<T extends SealableRecord>(record: T): Promise<T> {
+    if (!this.encryptionEnabled) return record;
+    if (!this.contentKey) {
+      throw new Error("Cortex is locked: unlock it to save page content");
+    }
+    return sealContent(record, this.contentKey);
+  }
+
+  /**
+   * Run a write to pages, revisions or the trash outside any re-encryption. It starts once no
+   * re-encryption is pending, and one queued meanwhile waits for it to commit: sealing is
+   * async, so the re-encryption can't read and write in one transaction, and a write landing
+   * between its read and its write would be overwritten or left under the old key.
+   */
+  private async withContentWrite<T>(write: () => Promise<T>): Promise<T> {
+    let pending: Promise<void>;
+    do {
+      pending = this.rekeying;
+      await pending;
+    } while (pending !== this.rekeying);
+
+    const task = write();
+    const settle = () => this.contentWrites.delete(task);
+    this.contentWrites.add(task);
+    task.then(settle, settle);
+    return task;
+  }
+
+  /**
+   * Rewrite every page and revision from one key to another (null = plaintext) and store the
+   * matching encryption config (null removes it) in the same transaction.
+   * Used to turn encryption on or off and to rotate the data key.
+   */
+  async reencryptContent<C>(fromKey: CryptoKey | null, toKey: CryptoKey | null, config: C | null): Promise<number> {
+    await this.ready();
+    let release = () => {};
+    const held = new Promise<void>((resolve) => (release = resolve));
+    const previous = this.rekeying;
+    this.rekeying = previous.then(() => held);
+    await previous;
+
+    try {
+      // Writes that started before this one was queued commit first
+      await Promise.allSettled(Array.from(this.contentWrites));
+
+      const readTransaction = this.db!.transaction([STORES.PAGES, STORES.PAGE_REVISIONS, STORES.TRASH], "readonly");
+      const [pages, revisions, trash] = await Promise.all([
+        promisifyRequest(readTransaction.objectStore(STORES.PAGES).getAll()) as Promise<SealableRecord[]>,
+        promisifyRequest(readTransaction.objectStore(STORES.PAGE_REVISIONS).getAll()) as Promise<SealableRecord[]>,
+        promisifyRequest(readTransaction.objectStore(STORES.TRASH).getAll()) as Promise<TrashRecord[]>,
+      ]);
+
+      const convert = async <T extends SealableRecord>(record: T): Promise<T> => {
+        if (record.sealed && !fromKey) throw new Error("Cannot re-encrypt sealed content without its key");
+        const plain = await openContent(record, fromKey);
+        return toKey ? sealContent(plain, toKey) : plain;
+      };
+      // Trashed pages must stay restorable under the new key too
+      const convertTrash = async (entry: TrashRecord): Promise<TrashRecord> => {
+        const [trashedPages, trashedRevisions] = await Promise.all([
+          Promise.all(entry.records.pages.map(convert)),
+          Promise.all(entry.records.revisions.map(convert)),
+        ]);
+        return { ...entry, records: { ...entry.records, pages: trashedPages, revisions: trashedRevisions } };
+      };
+      const [nextPages, nextRevisions, nextTrash] = await Promise.all([
+        Promise.all(pages.map(convert)),
+        Promise.all(revisions.map(convert)),
+        Promise.all(trash.map(convertTrash)),
+      ]);
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [STORES.PAGES, STORES.PAGE_REVISIONS, STORES.TRASH, STORES.SETTINGS],
+          "readwrite"
+        );
+        nextPages.forEach((page) => transaction.objectStore(STORES.PAGES).put(page));
+        nextRevisions.forEach((revision) => transaction.objectStore(STORES.PAGE_REVISIONS).put(revision));
+        nextTrash.forEach((entry) => transaction.objectStore(STORES.TRASH).put(entry));
+        const settingsStore = transaction.objectStore(STORES.SETTINGS);
+        if (config) {
+          settingsStore.put({ key: ENCRYPTION_CONFIG_KEY, value: config });
+        } else {
+          settingsStore.delete(ENCRYPTION_CONFIG_KEY);
+        }
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error("Failed to re-encrypt content"));
+      });
+
+      this.encryptionEnabled = !!config;
+      this.contentKey = toKey;
+      console.log(`CortexStorage: Re-encrypted ${nextPages.length} pages and ${nextRevisions.length} revisions`);
+      return nextPages.length;
+    } finally {
+      release();
+    }
   }
 
   // Memory Node Operations
   async addMemoryNode(node: MemoryNode): Promise<void> {
     await this.ready();
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.PAGES], "readwrite");
-      const store = transaction.objectStore(STORES.PAGES);
-      const request = store.put(node);
+    return this.withContentWrite(async () => {
+      // The vector lives in the embeddings store only; never keep a second copy on the page
+      const { embedding: _embedding, ...page } = node as MemoryNode & { embedding?: Embedding };
+
+      // Sealing is async WebCrypto work, so it has to finish before the transaction opens
+      const revision = revisionFor(await this.getMemoryNode(page.id), page);
+      const [record, revisionRecord] = await Promise.all([
+        this.sealForStorage(page),
+        revision ? this.sealForStorage(revision) : null,
+      ]);
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [STORES.PAGES, STORES.SEARCH_POSTINGS, STORES.SEARCH_DOCS, STORES.SETTINGS, STORES.PAGE_REVISIONS],
+          "readwrite"
+        );
+        const write = async () => {
+          if (revisionRecord) await this.storeRevision(transaction, revisionRecord);
+          transaction.objectStore(STORES.PAGES).put(record);
+          // The index is built from the plaintext
+          await this.indexDocuments(transaction, [page]);
+        };
+        write().catch(() => transaction.abort());
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error("Failed to add memory node"));
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error("Failed to add memory node"));
+        transaction.onabort = () => reject(new Error("Failed to add memory node"));
+      });
     });
   }
 
+  private async storeRevision(transaction: IDBTransaction, revision: PageRevision): Promise<void> {
+    const settings = await promisifyRequest(transaction.objectStore(STORES.SETTINGS).get("capture"));
+    const cap = Math.max(0, settings?.maxRevisionsPerPage ?? DEFAULT_MAX_REVISIONS);
+
+    const store = transaction.objectStore(STORES.PAGE_REVISIONS);
+    if (cap > 0) store.put(revision);
+
+    // Trim the oldest revisions beyond the cap; with history off, the page's earlier ones go too
+    const existing = (await promisifyRequest(store.index("nodeId").getAll(revision.nodeId))) as PageRevision[];
+    existing
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(cap)
+      .forEach((old) => store.delete(old.id));
+  }
+
+  /**
+   * Earlier versions of a page, newest first
+   */
+  async getPageRevisions(nodeId: string): Promise<PageRevision[]> {
+    await this.ready();
+    const revisions = await new Promise<PageRevision[]>((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.PAGE_REVISIONS], "readonly");
+      const request = transaction.objectStore(STORES.PAGE_REVISIONS).index("nodeId").getAll(nodeId);
+
+      request.onsuccess = () =>
+        resolve((request.result as PageRevision[]).sort((a, b) => b.timestamp - a.timestamp));
+      request.onerror = () => reject(new Error("Failed to get page revisions"));
+    });
+    return Promise.all(revisions.map((revision) => openContent(revision, this.contentKey)));
+  }
+
   async getMemoryNode(id: string): Promise<MemoryNode | null> {
     await this.ready();
-    return new Promise((resolve, reject) => {
+    const record = await new Promise<MemoryNode | null>((resolve, reject) => {
       const transaction = this.db!.transaction([STORES.PAGES], "readonly");
       const store = transaction.objectStore(STORES.PAGES);
       const request = store.get(id);
@@ -179,11 +531,12 @@ export class CortexStorage {
       request.onsuccess = () => resolve(request.result || null);
       request.onerror = () => reject(new Error("Failed to get memory node"));
     });
+    return record && openContent(record, this.contentKey);
   }
 
   async getAllMemoryNodes(limit?: number): Promise<MemoryNode[]> {
     await this.ready();
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<MemoryNode[]>((resolve, reject) => {
       const transaction = this.db!.transaction([STORES.PAGES], "readonly");
       const store = transaction.objectStore(STORES.PAGES);
       const index = store.index("timestamp");
@@ -218,62 +571,230 @@ export class CortexStorage {
         request.onerror = () => reject(new Error("Failed to get memory nodes"));
       }
     });
+    return Promise.all(records.map((record) => openContent(record, this.contentKey)));
   }
 
   async searchMemoryNodes(query: string, limit: number = 10): Promise<MemoryNode[]> {
-    // Simple text search - will be enhanced with vector search
-    const allNodes = await this.getAllMemoryNodes();
-    const queryTerms = query.toLowerCase().split(/\s+/);
-
-    const scored = allNodes
-      .map((node) => {
-        const searchText = (node.title || "") + " " + (node.readableText || "") + " " + (node.keywords?.join(" ") || "");
-        let score = 0;
-        queryTerms.forEach((term) => {
-          if (searchText.toLowerCase().includes(term)) {
-            score += 1;
-          }
-        });
-        return { node, score };
-      })
-      .filter((r) => r.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+    const results = await this.searchKeywords(query, limit);
+    return results.map((r) => r.node);
+  }
+
+  /**
+   * Keyword search over the inverted index, ranked by BM25F.
+   * Query terms of MIN_PREFIX_LENGTH or more characters also match longer terms they prefix.
+   */
+  async searchKeywords(query: string, limit: number = 10, language?: string): Promise<KeywordMatch[]> {
+    await this.ready();
+    const queryTerms = Array.from(new Set(tokenize(query, language)));
+    if (queryTerms.length === 0) return [];
+
+    const transaction = this.db!.transaction(
+      [STORES.PAGES, STORES.SEARCH_POSTINGS, STORES.SEARCH_DOCS, STORES.SETTINGS],
+      "readonly"
+    );
+    const postingStore = transaction.objectStore(STORES.SEARCH_POSTINGS);
+    const docStore = transaction.objectStore(STORES.SEARCH_DOCS);
+
+    const [stats, ...postingLists] = await Promise.all([
+      this.readSearchStats(transaction),
+      ...queryTerms.map((term) => {
+        const upper = term.length >= MIN_PREFIX_LENGTH ? term + "\uffff" : term;
+        const range = this.keyRange.bound([term, ""], [upper, "\uffff"]);
+        return promisifyRequest(postingStore.getAll(range)) as Promise<SearchPosting[]>;
+      }),
+    ]);
+
+    const postingsByQueryTerm = new Map<string, SearchPosting[]>();
+    queryTerms.forEach((term, i) => postingsByQueryTerm.set(term, postingLists[i]));
+
+    const candidateIds = Array.from(new Set(postingLists.flat().map((p) => p.nodeId)));
+    const documents = new Map<string, SearchDocument>();
+    const docRecords = await Promise.all(
+      candidateIds.map((id) => promisifyRequest(docStore.get(id)) as Promise<SearchDocument | undefined>)
+    );
+    docRecords.forEach((doc) => doc && documents.set(doc.nodeId, doc));
+
+    const ranked = scoreDocuments(postingsByQueryTerm, documents, stats).slice(0, limit);
+    const pageStore = transaction.objectStore(STORES.PAGES);
+    const records = await Promise.all(
+      ranked.map((r) => promisifyRequest(pageStore.get(r.nodeId)) as Promise<MemoryNode | undefined>)
+    );
+    const nodes = await Promise.all(records.map((record) => record && openContent(record, this.contentKey)));
+
+    return ranked
+      .map((r, i) => ({ node: nodes[i], score: r.score, matchedTerms: r.matchedTerms }))
+      .filter((r): r is KeywordMatch => !!r.node);
+  }
+
+  private async readSearchStats(transaction: IDBTransaction): Promise<SearchStats> {
+    const record = await promisifyRequest(transaction.objectStore(STORES.SETTINGS).get(SEARCH_STATS_KEY));
+    return record ? { docCount: record.docCount, totalLengths: record.totalLengths } : emptyStats();
+  }
 
-    return scored.map((r) => r.node);
+  /**
+   * (Re)index pages inside an open readwrite transaction that covers the search stores and settings
+   */
+  private async indexDocuments(transaction: IDBTransaction, nodes: MemoryNode[]): Promise<void> {
+    let stats = await this.removeFromIndex(transaction, nodes.map((n) => n.id));
+    const postingStore = transaction.objectStore(STORES.SEARCH_POSTINGS);
+    const docStore = transaction.objectStore(STORES.SEARCH_DOCS);
+
+    for (const node of nodes) {
+      const { document, postings } = analyzeDocument(node);
+      postings.forEach((posting) => postingStore.put(posting));
+      docStore.put(document);
+      stats = applyToStats(stats, document.lengths, 1);
+    }
+    transaction.objectStore(STORES.SETTINGS).put({ key: SEARCH_STATS_KEY, ...stats });
+  }
+
+  /**
+   * Drop pages from the inverted index and return the updated corpus totals (already persisted)
+   */
+  private async removeFromIndex(transaction: IDBTransaction, nodeIds: string[]): Promise<SearchStats> {
+    const postingStore = transaction.objectStore(STORES.SEARCH_POSTINGS);
+    const docStore = transaction.objectStore(STORES.SEARCH_DOCS);
+    let stats = await this.readSearchStats(transaction);
+
+    for (const nodeId of nodeIds) {
+      const document = (await promisifyRequest(docStore.get(nodeId))) as SearchDocument | undefined;
+      if (!document) continue;
+
+      const keys = await promisifyRequest(postingStore.index("nodeId").getAllKeys(nodeId));
+      keys.forEach((key) => postingStore.delete(key));
+      docStore.delete(nodeId);
+      stats = applyToStats(stats, document.lengths, -1);
+    }
+
+    transaction.objectStore(STORES.SETTINGS).put({ key: SEARCH_STATS_KEY, ...stats });
+    return stats;
   }
 
   async deleteMemoryNode(id: string): Promise<void> {
+    await this.deleteMemoryNodes([id]);
+  }
+
+  /**
+   * Permanently delete pages with everything that refers to them (no trash)
+   */
+  async deleteMemoryNodes(ids: string[]): Promise<number> {
     await this.ready();
-    // Remove from ANN index
-    this.annIndex.remove(id);
-    
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.PAGES, STORES.EMBEDDINGS], "readwrite");
-      const pageStore = transaction.objectStore(STORES.PAGES);
-      const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(CASCADE_STORES, "readwrite");
+        this.detachNodes(transaction, ids).catch(() => transaction.abort());
+
+        transaction.oncomplete = () => resolve(ids.length);
+        transaction.onerror = () => reject(new Error("Failed to delete memory node"));
+        transaction.onabort = () => reject(new Error("Failed to delete memory node"));
+      });
+    });
+  }
 
-      pageStore.delete(id);
-      embeddingStore.delete(id);
+  /**
+   * Gather a set of pages and every record that refers to them, inside an open transaction
+   */
+  private async collectNodeRecords(transaction: IDBTransaction, ids: string[]): Promise<DeletedRecords> {
+    const removed = new Set(ids);
+    const getEach = (storeName: string) =>
+      Promise.all(ids.map((id) => promisifyRequest(transaction.objectStore(storeName).get(id))));
+    const getByNode = async (storeName: string, indexName: string) =>
+      (
+        await Promise.all(
+          ids.map((id) => promisifyRequest(transaction.objectStore(storeName).index(indexName).getAll(id)))
+        )
+      ).flat();
+
+    const [pages, embeddings, searchDocs, postings, revisions, visits, outgoing, incoming, clusters] = await Promise.all([
+      getEach(STORES.PAGES),
+      getEach(STORES.EMBEDDINGS),
+      getEach(STORES.SEARCH_DOCS),
+      getByNode(STORES.SEARCH_POSTINGS, "nodeId"),
+      getByNode(STORES.PAGE_REVISIONS, "nodeId"),
+      getByNode(STORES.ACTIVITY, "nodeId"),
+      getByNode(STORES.GRAPH_EDGES, "fromNode"),
+      getByNode(STORES.GRAPH_EDGES, "toNode"),
+      promisifyRequest(transaction.objectStore(STORES.CLUSTERS).getAll()) as Promise<MemoryCluster[]>,
+    ]);
 
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(new Error("Failed to delete memory node"));
+    const memberships: DeletedRecords["memberships"] = [];
+    const emptied: MemoryCluster[] = [];
+    for (const cluster of clusters) {
+      const members = cluster.nodes.filter((node) => removed.has(node.id));
+      members.forEach((node) => memberships.push({ clusterId: cluster.id, node }));
+      if (members.length > 0 && members.length === cluster.nodes.length) {
+        emptied.push({ ...cluster, nodes: [] });
+      }
+    }
+
+    return {
+      pages: pages.filter(Boolean),
+      embeddings: embeddings.filter(Boolean),
+      searchDocs: searchDocs.filter(Boolean) as SearchDocument[],
+      postings: postings as SearchPosting[],
+      revisions,
+      visits,
+      // An edge between two removed pages shows up from both ends
+      edges: Array.from(new Map([...outgoing, ...incoming].map((edge: any) => [edge.id, edge])).values()),
+      memberships,
+      clusters: emptied,
+    };
+  }
+
+  /**
+   * Delete pages together with their embeddings, revisions, visits, edges, cluster
+   * memberships, index entries and ANN buckets. Returns what was removed.
+   */
+  private async detachNodes(transaction: IDBTransaction, ids: string[]): Promise<DeletedRecords> {
+    const records = await this.collectNodeRecords(transaction, ids);
+    const store = (name: string) => transaction.objectStore(name);
+
+    ids.forEach((id) => {
+      store(STORES.PAGES).delete(id);
+      store(STORES.EMBEDDINGS).delete(id);
     });
+    this.persistBuckets(transaction, ids.flatMap((id) => this.annIndex.unassign(id)));
+    records.revisions.forEach((revision) => store(STORES.PAGE_REVISIONS).delete(revision.id));
+    records.visits.forEach((visit) => store(STORES.ACTIVITY).delete(visit.id));
+    records.edges.forEach((edge) => store(STORES.GRAPH_EDGES).delete(edge.id));
+
+    const removed = new Set(ids);
+    const clusterIds = new Set(records.memberships.map((membership) => membership.clusterId));
+    for (const clusterId of clusterIds) {
+      const cluster = (await promisifyRequest(store(STORES.CLUSTERS).get(clusterId))) as MemoryCluster;
+      const remaining = cluster.nodes.filter((node) => !removed.has(node.id));
+      if (remaining.length > 0) {
+        store(STORES.CLUSTERS).put({ ...cluster, nodes: remaining });
+      } else {
+        store(STORES.CLUSTERS).delete(clusterId);
+      }
+    }
+
+    await this.removeFromIndex(transaction, ids);
+    return records;
   }
 
   // Embedding Operations
   async storeEmbedding(nodeId: string, embedding: Embedding): Promise<void> {
     await this.ready();
+    await this.annReady;
+    const { quantizeEmbeddings } = await this.getSettings();
+    const format = quantizeEmbeddings ? "int8" : "float32";
+    const packed = packVector(embedding.vector, format);
+    const passages = packPassages(embedding.passages, format);
     // Update ANN index
-    this.annIndex.add(nodeId, embedding.vector);
+    const changedBuckets = this.annIndex.assign(nodeId, packed, embeddingModelKey(embedding), indexedPassages(passages));
     
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.EMBEDDINGS], "readwrite");
+      const transaction = this.db!.transaction([STORES.EMBEDDINGS, STORES.ANN_BUCKETS, STORES.SETTINGS], "readwrite");
       const store = transaction.objectStore(STORES.EMBEDDINGS);
-      const request = store.put({ nodeId, ...embedding });
+      const { model, modelId, modelVersion, timestamp } = embedding;
+      store.put({ nodeId, model, modelId, modelVersion, timestamp, packed, passages });
+      this.persistBuckets(transaction, changedBuckets);
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(new Error("Failed to store embedding"));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error("Failed to store embedding"));
     });
   }
 
@@ -290,11 +811,7 @@ export class CortexStorage {
           resolve(null);
           return;
         }
-        resolve({
-          vector: result.vector,
-          model: result.model,
-          timestamp: result.timestamp,
-        });
+        resolve(toEmbedding(result));
       };
       request.onerror = () => reject(new Error("Failed to get embedding"));
     });
@@ -312,11 +829,7 @@ export class CortexStorage {
         resolve(
           results.map((r: any) => ({
             nodeId: r.nodeId,
-            embedding: {
-              vector: r.vector,
-              model: r.model,
-              timestamp: r.timestamp,
-            },
+            embedding: toEmbedding(r),
           }))
         );
       };
@@ -328,19 +841,23 @@ export class CortexStorage {
   async vectorSearch(
     queryVector: number[],
     limit: number = 10,
-    threshold: number = 0.4
+    threshold: number = 0.4,
+    model?: string
   ): Promise<SemanticMatch[]> {
     await this.ready();
+    await this.annReady;
     
-    // Use ANN index for fast retrieval
-    const candidateMatches = this.annIndex.search(queryVector, limit * 2, threshold);
+    // Use ANN index for fast retrieval, fetching only the candidate vectors not cached yet
+    const candidateIds = this.annIndex.candidates(queryVector, limit * 2);
+    await this.loadAnnVectors(this.annIndex.missingVectors(candidateIds));
+    const candidateMatches = this.annIndex.search(queryVector, limit * 2, threshold, model);
     
     // Fetch nodes in parallel for speed
     const nodePromises = candidateMatches.map(({ nodeId }) => this.getMemoryNode(nodeId));
     const nodes = await Promise.all(nodePromises);
     
     const matches: SemanticMatch[] = candidateMatches
-      .map(({ nodeId, similarity }, index) => {
+      .map(({ nodeId, similarity, passage }, index): SemanticMatch | null => {
         const node = nodes[index];
         if (!node) return null;
         return {
@@ -352,6 +869,7 @@ export class CortexStorage {
             contextMatch: "",
             semanticSimilarity: similarity,
           },
+          ...(passage && { passage: passageHit(node, passage.start, passage.end) }),
         };
       })
       .filter((match): match is SemanticMatch => match !== null);
@@ -427,6 +945,151 @@ export class CortexStorage {
     });
   }
 
+  // Session Operations
+  async saveSession(session: SessionRecord): Promise<void> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.SESSIONS], "readwrite");
+      transaction.objectStore(STORES.SESSIONS).put(session);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error("Failed to save session"));
+    });
+  }
+
+  async getSession(id: string): Promise<SessionRecord | null> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.SESSIONS], "readonly");
+      const request = transaction.objectStore(STORES.SESSIONS).get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(new Error("Failed to get session"));
+    });
+  }
+
+  /**
+   * Sessions newest first, optionally only those still active after `since`
+   */
+  async getSessions(options: { limit?: number; since?: number } = {}): Promise<SessionRecord[]> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.SESSIONS], "readonly");
+      const request = transaction.objectStore(STORES.SESSIONS).index("startTime").openCursor(null, "prev");
+      const sessions: SessionRecord[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || (options.limit && sessions.length >= options.limit)) {
+          resolve(sessions);
+          return;
+        }
+        const session = cursor.value as SessionRecord;
+        if (session.endTime >= (options.since ?? 0)) sessions.push(session);
+        cursor.continue();
+      };
+      request.onerror = () => reject(new Error("Failed to get sessions"));
+    });
+  }
+
+  /**
+   * Replace one session with another (after a merge) and point its pages at the survivor
+   */
+  async replaceSession(removedId: string, survivor: SessionRecord): Promise<void> {
+    await this.ready();
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([STORES.SESSIONS, STORES.PAGES], "readwrite");
+        const sessionStore = transaction.objectStore(STORES.SESSIONS);
+        sessionStore.put(survivor);
+        sessionStore.delete(removedId);
+
+        // Only the plaintext metadata changes, so sealed pages can be updated while locked
+        const request = transaction.objectStore(STORES.PAGES).index("sessionId").openCursor(removedId);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          cursor.update({ ...cursor.value, metadata: { ...cursor.value.metadata, sessionId: survivor.id } });
+          cursor.continue();
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(new Error("Failed to replace session"));
+      });
+    });
+  }
+
+  // Visit Operations
+  async addVisitEvent(visit: VisitEvent): Promise<void> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.ACTIVITY], "readwrite");
+      transaction.objectStore(STORES.ACTIVITY).put(visit);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error("Failed to add visit event"));
+    });
+  }
+
+  /**
+   * Close a visit; returns false when it was already closed or does not exist
+   */
+  async endVisitEvent(id: string, endTimestamp: number): Promise<boolean> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.ACTIVITY], "readwrite");
+      const store = transaction.objectStore(STORES.ACTIVITY);
+      let ended = false;
+      const request = store.get(id);
+
+      request.onsuccess = () => {
+        const visit = request.result as VisitEvent | undefined;
+        if (!visit || visit.endTimestamp !== undefined) return;
+        store.put({ ...visit, endTimestamp: Math.max(endTimestamp, visit.timestamp) });
+        ended = true;
+      };
+      transaction.oncomplete = () => resolve(ended);
+      transaction.onerror = () => reject(new Error("Failed to end visit event"));
+    });
+  }
+
+  /**
+   * Latest visit in a tab that has not ended yet
+   */
+  async getOpenVisit(tabId: number): Promise<VisitEvent | null> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.ACTIVITY], "readonly");
+      const request = transaction.objectStore(STORES.ACTIVITY).index("tabId").getAll(tabId);
+
+      request.onsuccess = () => {
+        const open = (request.result as VisitEvent[])
+          .filter((visit) => visit.type === "visit" && visit.endTimestamp === undefined)
+          .sort((a, b) => b.timestamp - a.timestamp);
+        resolve(open[0] || null);
+      };
+      request.onerror = () => reject(new Error("Failed to get open visit"));
+    });
+  }
+
+  /**
+   * Visit events newest first, either for one page or since a point in time
+   */
+  async getVisitEvents(options: { nodeId?: string; since?: number; limit?: number } = {}): Promise<VisitEvent[]> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.ACTIVITY], "readonly");
+      const store = transaction.objectStore(STORES.ACTIVITY);
+      const request = options.nodeId
+        ? store.index("nodeId").getAll(options.nodeId)
+        : store.index("timestamp").getAll(this.keyRange.lowerBound(options.since ?? 0));
+
+      request.onsuccess = () => {
+        const visits = (request.result as VisitEvent[])
+          .filter((visit) => visit.type === "visit" && visit.timestamp >= (options.since ?? 0))
+          .sort((a, b) => b.timestamp - a.timestamp);
+        resolve(options.limit ? visits.slice(0, options.limit) : visits);
+      };
+      request.onerror = () => reject(new Error("Failed to get visit events"));
+    });
+  }
+
   // Settings Operations
   async updateSettings(settings: Partial<CaptureSettings>): Promise<void> {
     await this.ready();
@@ -450,31 +1113,213 @@ export class CortexStorage {
       const store = transaction.objectStore(STORES.SETTINGS);
       const request = store.get("capture");
 
-      request.onsuccess = () => {
-        const defaultSettings: CaptureSettings = {
-          enabled: true,
-          excludeDomains: [],
-          excludeKeywords: [],
-          maxStorageSize: 500 * 1024 * 1024, // 500MB
-        };
-        resolve(request.result ? {
-          enabled: request.result.enabled,
-          excludeDomains: request.result.excludeDomains,
-          excludeKeywords: request.result.excludeKeywords,
-          maxStorageSize: request.result.maxStorageSize,
-        } : defaultSettings);
-      };
+      request.onsuccess = () => resolve(withSettingDefaults(request.result));
       request.onerror = () => reject(new Error("Failed to get settings"));
     });
   }
 
+  /**
+   * Mark a page as pinned so storage eviction and compaction leave it alone
+   */
+  async setPinned(nodeId: string, pinned: boolean): Promise<boolean> {
+    await this.ready();
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([STORES.PAGES], "readwrite");
+        const store = transaction.objectStore(STORES.PAGES);
+        const request = store.get(nodeId);
+
+        let found = false;
+        request.onsuccess = () => {
+          if (!request.result) return;
+          found = true;
+          store.put({ ...request.result, pinned });
+        };
+        transaction.oncomplete = () => resolve(found);
+        transaction.onerror = () => reject(new Error("Failed to pin memory node"));
+      });
+    });
+  }
+
+  /**
+   * Store a page's frecency as computed at `at`
+   */
+  async setFrecency(nodeId: string, frecency: number, at: number): Promise<boolean> {
+    await this.ready();
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([STORES.PAGES], "readwrite");
+        const store = transaction.objectStore(STORES.PAGES);
+        const request = store.get(nodeId);
+
+        let found = false;
+        request.onsuccess = () => {
+          if (!request.result) return;
+          found = true;
+          store.put({ ...request.result, frecency, frecencyAt: at });
+        };
+        transaction.oncomplete = () => resolve(found);
+        transaction.onerror = () => reject(new Error("Failed to update frecency"));
+      });
+    });
+  }
+
+  /**
+   * Approximate on-disk size of every page together with its embedding and revisions
+   */
+  async getPageFootprints(): Promise<PageFootprint[]> {
+    await this.ready();
+    const transaction = this.db!.transaction([STORES.PAGES, STORES.EMBEDDINGS, STORES.PAGE_REVISIONS], "readonly");
+    const [pages, embeddings, revisions] = await Promise.all([
+      promisifyRequest(transaction.objectStore(STORES.PAGES).getAll()),
+      promisifyRequest(transaction.objectStore(STORES.EMBEDDINGS).getAll()),
+      promisifyRequest(transaction.objectStore(STORES.PAGE_REVISIONS).getAll()),
+    ]);
+
+    const extraBytes = new Map<string, number>();
+    const addBytes = (nodeId: string, bytes: number) => extraBytes.set(nodeId, (extraBytes.get(nodeId) || 0) + bytes);
+    embeddings.forEach((record: any) => addBytes(record.nodeId, embeddingBytes(storedVector(record), record.passages)));
+    revisions.forEach((revision: PageRevision) => addBytes(revision.nodeId, revisionBytes(revision)));
+
+    return (pages as MemoryNode[]).map((page) => pageFootprint(page, extraBytes.get(page.id) || 0));
+  }
+
+  /**
+   * Replace the readable text of pages with a short summary (keeps title, URL, keywords and page vector).
+   * Passage vectors go: their offsets point into text that is no longer there.
+   */
+  async compactMemoryNodes(ids: string[], summarize: (node: MemoryNode) => string): Promise<number> {
+    await this.ready();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      const nodes: MemoryNode[] = [];
+      for (const id of ids) {
+        const node = await this.getMemoryNode(id);
+        if (!node || node.compactedAt || node.locked) continue;
+        const summary = node.summary || summarize(node);
+        nodes.push({ ...node, summary, readableText: summary, compactedAt: Date.now() });
+      }
+      const records = await Promise.all(nodes.map((node) => this.sealForStorage(node)));
+
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [STORES.PAGES, STORES.EMBEDDINGS, STORES.ANN_BUCKETS, STORES.SEARCH_POSTINGS, STORES.SEARCH_DOCS, STORES.SETTINGS],
+          "readwrite"
+        );
+        const store = transaction.objectStore(STORES.PAGES);
+        records.forEach((record) => store.put(record));
+        const dropPassages = async () => {
+          const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
+          for (const node of nodes) {
+            const record = await promisifyRequest(embeddingStore.get(node.id));
+            if (!record?.passages?.length) continue;
+            embeddingStore.put({ ...record, passages: [] });
+            this.persistBuckets(
+              transaction,
+              this.annIndex.assign(node.id, storedVector(record), embeddingModelKey(record))
+            );
+          }
+        };
+        Promise.all([this.indexDocuments(transaction, nodes), dropPassages()]).catch(() => transaction.abort());
+
+        transaction.oncomplete = () => resolve(nodes.length);
+        transaction.onerror = () => reject(new Error("Failed to compact memory nodes"));
+        transaction.onabort = () => reject(new Error("Failed to compact memory nodes"));
+      });
+    });
+  }
+
+  /**
+   * Drop embeddings, graph edges, revisions and index entries whose page no longer exists
+   */
+  async removeOrphans(): Promise<{ embeddings: number; edges: number; revisions: number }> {
+    await this.ready();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction(
+          [
+            STORES.PAGES,
+            STORES.EMBEDDINGS,
+            STORES.GRAPH_EDGES,
+            STORES.PAGE_REVISIONS,
+            STORES.SEARCH_POSTINGS,
+            STORES.SEARCH_DOCS,
+            STORES.SETTINGS,
+            STORES.ANN_BUCKETS,
+          ],
+          "readwrite"
+        );
+
+        const removed = { embeddings: 0, edges: 0, revisions: 0 };
+        const sweep = async () => {
+          const pageIds = new Set(
+            (await promisifyRequest(transaction.objectStore(STORES.PAGES).getAllKeys())).map(String)
+          );
+
+          const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
+          const orphanedEmbeddings = (await promisifyRequest(embeddingStore.getAllKeys()))
+            .map(String)
+            .filter((id) => !pageIds.has(id));
+          orphanedEmbeddings.forEach((id) => embeddingStore.delete(id));
+          this.persistBuckets(transaction, orphanedEmbeddings.flatMap((id) => this.annIndex.unassign(id)));
+          removed.embeddings = orphanedEmbeddings.length;
+
+          const edgeStore = transaction.objectStore(STORES.GRAPH_EDGES);
+          const edges = await promisifyRequest(edgeStore.getAll());
+          edges
+            .filter((edge: any) => !pageIds.has(edge.fromNode) || !pageIds.has(edge.toNode))
+            .forEach((edge: any) => {
+              edgeStore.delete(edge.id);
+              removed.edges++;
+            });
+
+          const revisionStore = transaction.objectStore(STORES.PAGE_REVISIONS);
+          const revisions = (await promisifyRequest(revisionStore.getAll())) as PageRevision[];
+          revisions
+            .filter((revision) => !pageIds.has(revision.nodeId))
+            .forEach((revision) => {
+              revisionStore.delete(revision.id);
+              removed.revisions++;
+            });
+
+          const indexedIds = (await promisifyRequest(transaction.objectStore(STORES.SEARCH_DOCS).getAllKeys())).map(String);
+          await this.removeFromIndex(transaction, indexedIds.filter((id) => !pageIds.has(id)));
+        };
+        sweep().catch(() => transaction.abort());
+
+        transaction.oncomplete = () => resolve(removed);
+        transaction.onerror = () => reject(new Error("Failed to remove orphaned records"));
+        transaction.onabort = () => reject(new Error("Failed to remove orphaned records"));
+      });
+    });
+  }
+
+  /**
+   * Arbitrary JSON value kept in the settings store under its own key
+   */
+  async getSettingValue<T>(key: string): Promise<T | null> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.SETTINGS], "readonly");
+      const request = transaction.objectStore(STORES.SETTINGS).get(key);
+      request.onsuccess = () => resolve(request.result ? (request.result.value as T) : null);
+      request.onerror = () => reject(new Error(`Failed to read setting ${key}`));
+    });
+  }
+
+  async setSettingValue<T>(key: string, value: T): Promise<void> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.SETTINGS], "readwrite");
+      transaction.objectStore(STORES.SETTINGS).put({ key, value });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(new Error(`Failed to write setting ${key}`));
+    });
+  }
+
   // Statistics
-  async getStats(): Promise<{
-    pageCount: number;
-    clusterCount: number;
-    edgeCount: number;
-    storageSize: number;
-  }> {
+  async getStats(): Promise<StorageStats> {
     await this.ready();
     
     // Execute all counts in parallel for speed
@@ -504,7 +1349,7 @@ export class CortexStorage {
 
     // Get storage size estimate (non-blocking)
     let storageSize = 0;
-    if (navigator.storage && navigator.storage.estimate) {
+    if (typeof navigator !== "undefined" && navigator.storage && navigator.storage.estimate) {
       try {
         const estimate = await navigator.storage.estimate();
         storageSize = estimate.usage || 0;
@@ -516,74 +1361,394 @@ export class CortexStorage {
     return { pageCount, clusterCount, edgeCount, storageSize };
   }
 
+  /**
+   * Page counts per domain and per day over everything saved
+   */
+  async getPageAggregates(): Promise<PageAggregates> {
+    await this.ready();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([STORES.PAGES], "readonly");
+      const request = transaction.objectStore(STORES.PAGES).getAll();
+      request.onsuccess = () => resolve(aggregatePages(request.result as MemoryNode[]));
+      request.onerror = () => reject(new Error("Failed to aggregate pages"));
+    });
+  }
+
   // Cleanup operations
   async deleteByDomain(domain: string): Promise<number> {
+    return (await this.forget({ domain }))?.pageCount ?? 0;
+  }
+
+  async deleteByDateRange(startDate: number, endDate: number): Promise<number> {
+    return (await this.forget({ startDate, endDate }))?.pageCount ?? 0;
+  }
+
+  /**
+   * Ids of the pages a forget request covers
+   */
+  async findMemoryNodeIds(filter: ForgetFilter): Promise<string[]> {
     await this.ready();
+    const criterion = forgetCriterion(filter);
+    if (criterion.kind === "nodeIds") return criterion.nodeIds;
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.PAGES, STORES.EMBEDDINGS], "readwrite");
-      const pageStore = transaction.objectStore(STORES.PAGES);
-      const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
-      const index = pageStore.index("domain");
-      const request = index.openCursor(IDBKeyRange.only(domain));
-      
-      let count = 0;
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const id = cursor.value.id;
-          pageStore.delete(id);
-          embeddingStore.delete(id);
-          this.annIndex.remove(id);
-          count++;
-          cursor.continue();
-        } else {
-          resolve(count);
-        }
-      };
-      request.onerror = () => reject(new Error("Failed to delete by domain"));
+      const store = this.db!.transaction([STORES.PAGES], "readonly").objectStore(STORES.PAGES);
+      const request =
+        criterion.kind === "userId"
+          ? store.index("userId").getAllKeys(criterion.userId)
+          : criterion.kind === "domain"
+            ? store.index("domain").getAllKeys(criterion.domain)
+            : criterion.kind === "dateRange"
+              ? store.index("timestamp").getAllKeys(this.keyRange.bound(criterion.startDate, criterion.endDate))
+              : store.getAllKeys();
+
+      request.onsuccess = () => resolve(request.result.map(String));
+      request.onerror = () => reject(new Error("Failed to find pages to forget"));
     });
   }
 
-  async deleteByDateRange(startDate: number, endDate: number): Promise<number> {
+  /**
+   * Count what a forget request would remove, without removing anything
+   */
+  async previewForget(filter: ForgetFilter): Promise<ForgetPreview> {
+    const ids = await this.findMemoryNodeIds(filter);
+    await this.ready();
+    const transaction = this.db!.transaction([...CASCADE_STORES, STORES.TRASH], "readonly");
+    const [records, trashEntries] = await Promise.all([
+      this.collectNodeRecords(transaction, ids),
+      promisifyRequest(transaction.objectStore(STORES.TRASH).count()),
+    ]);
+
+    const related = {
+      embeddings: records.embeddings.length,
+      revisions: records.revisions.length,
+      visits: records.visits.length,
+      edges: records.edges.length,
+      clusters: new Set(records.memberships.map((membership) => membership.clusterId)).size,
+    };
+    return buildForgetPreview(filter, records.pages, related, trashEntries, (page) =>
+      openContent(page, this.contentKey)
+    );
+  }
+
+  /**
+   * Move the pages a forget request covers, and everything attached to them, to the trash
+   */
+  async forget(filter: ForgetFilter): Promise<TrashEntry | null> {
+    const ids = await this.findMemoryNodeIds(filter);
+    return this.trashMemoryNodes(ids, forgetLabel(filter));
+  }
+
+  async trashMemoryNodes(ids: string[], label: string): Promise<TrashEntry | null> {
+    await this.ready();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([...CASCADE_STORES, STORES.TRASH], "readwrite");
+        let entry: TrashEntry | null = null;
+
+        const move = async () => {
+          const records = await this.detachNodes(transaction, ids);
+          if (records.pages.length === 0) return;
+          entry = newTrashEntry(label, records.pages);
+          transaction.objectStore(STORES.TRASH).put({ ...entry, records });
+        };
+        move().catch(() => transaction.abort());
+
+        transaction.oncomplete = () => resolve(entry);
+        transaction.onerror = () => reject(new Error("Failed to move pages to the trash"));
+        transaction.onabort = () => reject(new Error("Failed to move pages to the trash"));
+      });
+    });
+  }
+
+  /**
+   * Trash entries, most recently deleted first
+   */
+  async getTrash(): Promise<TrashEntry[]> {
     await this.ready();
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([STORES.PAGES, STORES.EMBEDDINGS], "readwrite");
-      const pageStore = transaction.objectStore(STORES.PAGES);
-      const embeddingStore = transaction.objectStore(STORES.EMBEDDINGS);
-      const index = pageStore.index("timestamp");
-      const request = index.openCursor(IDBKeyRange.bound(startDate, endDate));
-      
-      let count = 0;
-      request.onsuccess = (event) => {
-        const cursor = (event.target as IDBRequest).result;
-        if (cursor) {
-          const id = cursor.value.id;
-          pageStore.delete(id);
-          embeddingStore.delete(id);
-          this.annIndex.remove(id);
-          count++;
-          cursor.continue();
-        } else {
-          resolve(count);
-        }
+      const transaction = this.db!.transaction([STORES.TRASH], "readonly");
+      const request = transaction.objectStore(STORES.TRASH).getAll();
+
+      request.onsuccess = () =>
+        resolve(
+          (request.result as TrashRecord[])
+            .map(({ records: _records, ...entry }) => entry)
+            .sort((a, b) => b.deletedAt - a.deletedAt)
+        );
+      request.onerror = () => reject(new Error("Failed to get trash"));
+    });
+  }
+
+  /**
+   * Put a trash entry back. Pages captured again since the delete keep their newer copy;
+   * their history (revisions, visits) is still restored. Resolves with the pages restored.
+   */
+  async restoreFromTrash(trashId: string): Promise<number> {
+    await this.ready();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([...CASCADE_STORES, STORES.TRASH], "readwrite");
+        const store = (name: string) => transaction.objectStore(name);
+        let restoredCount = 0;
+
+        const restore = async () => {
+          const entry = (await promisifyRequest(store(STORES.TRASH).get(trashId))) as TrashRecord | undefined;
+          if (!entry) throw new Error(`No trash entry ${trashId}`);
+          const { records } = entry;
+
+          const pageExists = async (id: string) => (await promisifyRequest(store(STORES.PAGES).getKey(id))) !== undefined;
+          const recaptured = await Promise.all(records.pages.map((page) => pageExists(page.id)));
+          const restored = new Set(records.pages.filter((_, i) => !recaptured[i]).map((page) => page.id));
+
+          records.pages.filter((page) => restored.has(page.id)).forEach((page) => store(STORES.PAGES).put(page));
+          const changedBuckets: Array<number | undefined> = [];
+          records.embeddings
+            .filter((embedding) => restored.has(embedding.nodeId))
+            .forEach((embedding) => {
+              store(STORES.EMBEDDINGS).put(embedding);
+              changedBuckets.push(
+                ...this.annIndex.assign(
+                  embedding.nodeId,
+                  storedVector(embedding),
+                  embeddingModelKey(embedding),
+                  indexedPassages(embedding.passages)
+                )
+              );
+            });
+          this.persistBuckets(transaction, changedBuckets);
+
+          let stats = await this.readSearchStats(transaction);
+          records.searchDocs
+            .filter((document) => restored.has(document.nodeId))
+            .forEach((document) => {
+              store(STORES.SEARCH_DOCS).put(document);
+              stats = applyToStats(stats, document.lengths, 1);
+            });
+          records.postings
+            .filter((posting) => restored.has(posting.nodeId))
+            .forEach((posting) => store(STORES.SEARCH_POSTINGS).put(posting));
+          store(STORES.SETTINGS).put({ key: SEARCH_STATS_KEY, ...stats });
+
+          records.revisions.forEach((revision) => store(STORES.PAGE_REVISIONS).put(revision));
+          records.visits.forEach((visit) => store(STORES.ACTIVITY).put(visit));
+
+          // Edges come back only when the page at the other end is still there
+          for (const edge of records.edges) {
+            const ends = [edge.fromNode, edge.toNode];
+            const present = await Promise.all(ends.map((id) => restored.has(id) || pageExists(id)));
+            if (present.every(Boolean)) store(STORES.GRAPH_EDGES).put(edge);
+          }
+
+          const emptied = new Map(records.clusters.map((cluster) => [cluster.id, cluster]));
+          const clusters = new Map<string, MemoryCluster>();
+          for (const { clusterId, node } of records.memberships) {
+            if (!restored.has(node.id)) continue;
+            const cluster =
+              clusters.get(clusterId) ??
+              ((await promisifyRequest(store(STORES.CLUSTERS).get(clusterId))) as MemoryCluster | undefined) ??
+              emptied.get(clusterId);
+            if (!cluster) continue;
+            const nodes = cluster.nodes.some((member) => member.id === node.id) ? cluster.nodes : [...cluster.nodes, node];
+            clusters.set(clusterId, { ...cluster, nodes });
+          }
+          clusters.forEach((cluster) => store(STORES.CLUSTERS).put(cluster));
+
+          store(STORES.TRASH).delete(trashId);
+          restoredCount = restored.size;
+        };
+        restore().catch(() => transaction.abort());
+
+        transaction.oncomplete = () => resolve(restoredCount);
+        transaction.onerror = () => reject(new Error("Failed to restore from trash"));
+        transaction.onabort = () => reject(new Error("Failed to restore from trash"));
+      });
+    });
+  }
+
+  /**
+   * Permanently drop one trash entry, or all of them. Resolves with the entries removed.
+   */
+  async emptyTrash(trashId?: string): Promise<number> {
+    await this.ready();
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([STORES.TRASH], "readwrite");
+        const store = transaction.objectStore(STORES.TRASH);
+        const request = trashId ? store.getAllKeys(trashId) : store.getAllKeys();
+
+        let removed = 0;
+        request.onsuccess = () => {
+          removed = request.result.length;
+          request.result.forEach((key) => store.delete(key));
+        };
+        transaction.oncomplete = () => resolve(removed);
+        transaction.onerror = () => reject(new Error("Failed to empty trash"));
+      });
+    });
+  }
+
+  /**
+   * Drop trash entries whose restore window has passed
+   */
+  async purgeExpiredTrash(now: number = Date.now()): Promise<number> {
+    await this.ready();
+    return this.withContentWrite(async () => {
+      return new Promise((resolve, reject) => {
+        const transaction = this.db!.transaction([STORES.TRASH], "readwrite");
+        const store = transaction.objectStore(STORES.TRASH);
+        const request = store.index("expiresAt").getAllKeys(this.keyRange.upperBound(now));
+
+        let removed = 0;
+        request.onsuccess = () => {
+          removed = request.result.length;
+          request.result.forEach((key) => store.delete(key));
+        };
+        transaction.oncomplete = () => resolve(removed);
+        transaction.onerror = () => reject(new Error("Failed to purge expired trash"));
+      });
+    });
+  }
+
+  /**
+   * Every record as stored (sealed content stays sealed), for moving to another engine
+   */
+  async exportSnapshot(): Promise<StorageSnapshot> {
+    await this.ready();
+    const storeNames = [
+      STORES.PAGES,
+      STORES.EMBEDDINGS,
+      STORES.PAGE_REVISIONS,
+      STORES.ACTIVITY,
+      STORES.GRAPH_EDGES,
+      STORES.CLUSTERS,
+      STORES.SESSIONS,
+      STORES.RULES,
+      STORES.SETTINGS,
+      STORES.TRASH,
+    ];
+    const transaction = this.db!.transaction(storeNames, "readonly");
+    const [pages, embeddings, revisions, visits, edges, clusters, sessions, rules, settings, trash] = await Promise.all(
+      storeNames.map((name) => promisifyRequest(transaction.objectStore(name).getAll()))
+    );
+
+    // The search stats and ANN config describe indexes the importer rebuilds
+    const engineKeys = new Set([CAPTURE_SETTINGS_KEY, SEARCH_STATS_KEY, ANN_CONFIG_KEY]);
+    return {
+      pages,
+      embeddings: embeddings.map(toEmbeddingRecord),
+      revisions,
+      visits,
+      edges,
+      clusters,
+      sessions,
+      rules,
+      settings: withSettingDefaults(settings.find((record: any) => record.key === CAPTURE_SETTINGS_KEY)),
+      values: settings
+        .filter((record: any) => !engineKeys.has(record.key))
+        .map((record: any) => ({ key: record.key, value: record.value })),
+      trash: (trash as TrashRecord[]).map(({ records: { searchDocs: _docs, postings: _postings, ...records }, ...entry }) => ({
+        ...entry,
+        records: { ...records, embeddings: records.embeddings.map(toEmbeddingRecord) },
+      })),
+    };
+  }
+
+  /**
+   * Replace everything stored with a snapshot, rebuilding the search and ANN indexes
+   */
+  async importSnapshot(snapshot: StorageSnapshot): Promise<void> {
+    await this.ready();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+
+      // The search index is built from the plaintext, so sealed pages need the key
+      const open = async (page: MemoryNode) => {
+        const plain = await openContent(page, this.contentKey);
+        if (plain.locked) throw new Error("Cortex is locked: unlock it to import sealed pages");
+        return plain;
       };
-      request.onerror = () => reject(new Error("Failed to delete by date range"));
+      const pages = await Promise.all(snapshot.pages.map(open));
+      const trash = await Promise.all(
+        snapshot.trash.map(async (entry): Promise<TrashRecord> => {
+          const analyzed = (await Promise.all(entry.records.pages.map(open))).map((page) => analyzeDocument(page));
+          return {
+            ...entry,
+            records: {
+              ...entry.records,
+              searchDocs: analyzed.map(({ document }) => document),
+              postings: analyzed.flatMap(({ postings }) => postings),
+            },
+          };
+        })
+      );
+
+      this.annIndex.clear();
+      return new Promise((resolve, reject) => {
+        const storeNames = Object.values(STORES);
+        const transaction = this.db!.transaction(storeNames, "readwrite");
+        const store = (name: string) => transaction.objectStore(name);
+
+        const write = async () => {
+          storeNames.forEach((name) => store(name).clear());
+          snapshot.pages.forEach((page) => store(STORES.PAGES).put(page));
+          await this.indexDocuments(transaction, pages);
+
+          snapshot.embeddings.forEach((embedding) => {
+            store(STORES.EMBEDDINGS).put(embedding);
+            this.annIndex.assign(embedding.nodeId, embedding.packed, embeddingModelKey(embedding), indexedPassages(embedding.passages));
+          });
+          this.annIndex.getBuckets().forEach((bucket) => store(STORES.ANN_BUCKETS).put(bucket));
+          store(STORES.SETTINGS).put(this.annStateRecord());
+
+          snapshot.revisions.forEach((revision) => store(STORES.PAGE_REVISIONS).put(revision));
+          snapshot.visits.forEach((visit) => store(STORES.ACTIVITY).put(visit));
+          snapshot.edges.forEach((edge) => store(STORES.GRAPH_EDGES).put(edge));
+          snapshot.clusters.forEach((cluster) => store(STORES.CLUSTERS).put(cluster));
+          snapshot.sessions.forEach((session) => store(STORES.SESSIONS).put(session));
+          snapshot.rules.forEach((rule) => store(STORES.RULES).put(rule));
+          store(STORES.SETTINGS).put({ key: CAPTURE_SETTINGS_KEY, ...snapshot.settings });
+          snapshot.values.forEach(({ key, value }) => store(STORES.SETTINGS).put({ key, value }));
+          trash.forEach((entry) => store(STORES.TRASH).put(entry));
+        };
+        write().catch(() => transaction.abort());
+
+        transaction.oncomplete = () => {
+          this.annConfigMatches = true;
+          this.encryptionEnabled = snapshot.values.some(({ key }) => key === ENCRYPTION_CONFIG_KEY);
+          console.log(`CortexStorage: Imported ${snapshot.pages.length} pages`);
+          resolve();
+        };
+        transaction.onerror = () => reject(new Error("Failed to import snapshot"));
+        transaction.onabort = () => reject(new Error("Failed to import snapshot"));
+      });
     });
   }
 
   async clearAllData(): Promise<void> {
     await this.ready();
-    // Clear ANN index
-    this.annIndex.clear();
+    await this.annReady;
+    return this.withContentWrite(async () => {
+      // Clear ANN index
+      this.annIndex.clear();
     
-    return new Promise((resolve, reject) => {
-      const storeNames = Object.values(STORES);
-      const transaction = this.db!.transaction(storeNames, "readwrite");
-      for (const storeName of storeNames) {
-        transaction.objectStore(storeName as any).clear();
-      }
-      transaction.oncomplete = () => resolve();
-      transaction.onerror = () => reject(new Error("Failed to clear all data"));
+      return new Promise((resolve, reject) => {
+        const storeNames = Object.values(STORES);
+        const transaction = this.db!.transaction(storeNames, "readwrite");
+        for (const storeName of storeNames) {
+          transaction.objectStore(storeName as any).clear();
+        }
+        // Keep the projection config so the (now empty) persisted buckets stay valid
+        transaction.objectStore(STORES.SETTINGS).put(this.annStateRecord());
+        transaction.oncomplete = () => {
+          // The encryption config went with the settings, so nothing is sealed any more
+          this.encryptionEnabled = false;
+          this.contentKey = null;
+          resolve();
+        };
+        transaction.onerror = () => reject(new Error("Failed to clear all data"));
+      });
     });
   }
 
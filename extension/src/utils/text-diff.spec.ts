@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { diffText } from "./text-diff";
+
+function sides(segments: Array<{ op: string; text: string }>) {
+  return {
+    before: segments.filter((s) => s.op !== "insert").map((s) => s.text).join(""),
+    after: segments.filter((s) => s.op !== "delete").map((s) => s.text).join(""),
+  };
+}
+
+describe("diffText", () => {
+  it("reports changed words between two captures", () => {
+    const before = "Pro plan costs $10 per month. Team plan $20.";
+    const after = "Pro plan costs $12 per month. Team plan $20. Enterprise: contact us.";
+    const diff = diffText(before, after);
+
+    expect(diff.segments).toEqual([
+      { op: "equal", text: "Pro plan costs " },
+      { op: "delete", text: "$10 " },
+      { op: "insert", text: "$12 " },
+      { op: "equal", text: "per month. Team plan " },
+      { op: "delete", text: "$20." },
+      { op: "insert", text: "$20. Enterprise: contact us." },
+    ]);
+    expect(diff.added).toBe(5);
+    expect(diff.removed).toBe(2);
+  });
+
+  it("reconstructs both texts from the segments", () => {
+    const before = "alpha beta gamma delta epsilon zeta";
+    const after = "alpha gamma delta theta epsilon zeta eta";
+    expect(sides(diffText(before, after).segments)).toEqual({ before, after });
+  });
+
+  it("handles empty and identical inputs", () => {
+    expect(diffText("", "hello world").segments).toEqual([{ op: "insert", text: "hello world" }]);
+    expect(diffText("same text", "same text")).toEqual({
+      segments: [{ op: "equal", text: "same text" }],
+      added: 0,
+      removed: 0,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Text Diff
+ * Word-level diff between two captures of the same page
+ *
+ * Myers' O(ND) algorithm over word tokens (each token keeps its trailing
+ * whitespace, so joining a run of tokens reproduces the original text).
+ * Pages that changed almost entirely fall back to a single delete + insert
+ * instead of spending time and memory on a huge edit script.
+ */
+
+import type { TextDiffSegment } from "@shared/extension-types";
+
+export interface TextDiff {
+  segments: TextDiffSegment[];
+  added: number;
+  removed: number;
+}
+
+// Upper bound on edit distance (in words) before giving up on a fine-grained diff
+const MAX_EDITS = 2000;
+
+type Op = TextDiffSegment["op"];
+
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s*\S+\s*/g) || [];
+}
+
+/**
+ * Shortest edit script between `a` and `b`, or null when it needs more than `maxEdits` edits
+ */
+function myers(a: string[], b: string[], maxEdits: number): Array<[Op, string]> | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v[-d..d] as it was after round d
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      const down = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]);
+      let x = down ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(a, b, trace);
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Array<[Op, string]> {
+  const script: Array<[Op, string]> = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1));
+    const prevK = down ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      script.push(["equal", a[--x]]);
+      y--;
+    }
+    if (x === prevX) {
+      script.push(["insert", b[--y]]);
+    } else {
+      script.push(["delete", a[--x]]);
+    }
+  }
+  while (x > 0 && y > 0) {
+    script.push(["equal", a[--x]]);
+    y--;
+  }
+
+  return script.reverse();
+}
+
+/**
+ * Diff two texts word by word
+ */
+export function diffText(before: string, after: string): TextDiff {
+  const a = tokenizeWords(before || "");
+  const b = tokenizeWords(after || "");
+
+  // Pages usually change in one place, so trim the common head and tail first
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myers(middleA, middleB, MAX_EDITS) || [
+    ...middleA.map((token): [Op, string] => ["delete", token]),
+    ...middleB.map((token): [Op, string] => ["insert", token]),
+  ];
+
+  const script: Array<[Op, string]> = [
+    ...a.slice(0, start).map((token): [Op, string] => ["equal", token]),
+    ...middle,
+    ...a.slice(endA).map((token): [Op, string] => ["equal", token]),
+  ];
+
+  // Merge runs of the same operation into segments
+  const segments: TextDiffSegment[] = [];
+  let added = 0;
+  let removed = 0;
+  for (const [op, token] of script) {
+    if (op === "insert") added++;
+    if (op === "delete") removed++;
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      last.text += token;
+    } else {
+      segments.push({ op, text: token });
+    }
+  }
+
+  return { segments, added, removed };
+}
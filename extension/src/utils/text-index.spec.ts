@@ -0,0 +1,162 @@
+import { describe, it, expect } from "vitest";
+import type { MemoryNode } from "@shared/extension-types";
+import {
+  FIELD_WEIGHTS,
+  MIN_PREFIX_LENGTH,
+  PREFIX_MATCH_WEIGHT,
+  analyzeDocument,
+  applyToStats,
+  emptyStats,
+  matchedQueryTerms,
+  scoreDocuments,
+  tokenize,
+  type SearchDocument,
+  type SearchPosting,
+  type SearchStats,
+} from "./text-index";
+
+type IndexedPage = Pick<MemoryNode, "id" | "title" | "keywords" | "readableText" | "language">;
+
+function doc(id: string, title: string, body: string, keywords: string[] = []): IndexedPage {
+  return { id, title, keywords, readableText: body, language: "en" };
+}
+
+/**
+ * The in-memory equivalent of what the storage engines keep: postings, field lengths, totals
+ */
+function buildIndex(pages: IndexedPage[]) {
+  const postings: SearchPosting[] = [];
+  const documents = new Map<string, SearchDocument>();
+  let stats: SearchStats = emptyStats();
+  for (const page of pages) {
+    const analyzed = analyzeDocument(page);
+    postings.push(...analyzed.postings);
+    documents.set(page.id, analyzed.document);
+    stats = applyToStats(stats, analyzed.document.lengths, 1);
+  }
+
+  // Exact postings for every query term, plus prefix expansions for long enough ones (as storage looks them up)
+  const search = (query: string) => {
+    const byTerm = new Map<string, SearchPosting[]>();
+    for (const queryTerm of tokenize(query, "en")) {
+      byTerm.set(
+        queryTerm,
+        postings.filter(
+          (posting) =>
+            posting.term === queryTerm || (queryTerm.length >= MIN_PREFIX_LENGTH && posting.term.startsWith(queryTerm))
+        )
+      );
+    }
+    return scoreDocuments(byTerm, documents, stats);
+  };
+  return { search, stats };
+}
+
+const ids = (results: Array<{ nodeId: string }>) => results.map((result) => result.nodeId);
+
+describe("BM25F ranking", () => {
+  it("ranks by term frequency, rarity and field length", () => {
+    const { search } = buildIndex([
+      doc("once", "notes", "otters swim near the coast every morning"),
+      doc("twice", "notes", "otters swim near otters on the coast"),
+      doc("long", "notes", "otters swim near the coast every morning while gulls circle the harbour looking for scraps of fish"),
+      doc("none", "notes", "beavers build dams across small rivers"),
+    ]);
+
+    const results = search("otters");
+    expect(ids(results)).toEqual(["twice", "once", "long"]);
+    expect(results.every((result) => result.score > 0)).toBe(true);
+    expect(results[0].matchedTerms).toEqual(tokenize("otters", "en"));
+  });
+
+  it("weighs a rare term above a common one and adds up the terms a page matches", () => {
+    const { search } = buildIndex([
+      doc("common", "notes", "river water flows downstream"),
+      doc("rare", "notes", "kelp water flows downstream"),
+      doc("both", "notes", "river kelp flows downstream"),
+      doc("filler1", "notes", "river banks erode slowly"),
+      doc("filler2", "notes", "river stones are smooth"),
+    ]);
+
+    const results = search("river kelp");
+    expect(results[0]).toMatchObject({ nodeId: "both", matchedTerms: tokenize("river kelp", "en") });
+    const score = (id: string) => results.find((result) => result.nodeId === id)!.score;
+    expect(score("rare")).toBeGreaterThan(score("common"));
+    expect(score("both")).toBeCloseTo(score("rare") + score("common"));
+  });
+
+  it("weighs a title hit above a keyword hit above a body hit", () => {
+    expect(FIELD_WEIGHTS.title).toBeGreaterThan(FIELD_WEIGHTS.keywords);
+    expect(FIELD_WEIGHTS.keywords).toBeGreaterThan(FIELD_WEIGHTS.body);
+
+    // Every page has the same field lengths, so only the field holding the term differs
+    const { search } = buildIndex([
+      doc("body", "harbour notes", "walrus colony sighted", ["coast", "wildlife"]),
+      doc("title", "walrus notes", "harbour colony sighted", ["coast", "wildlife"]),
+      doc("keywords", "harbour notes", "coast colony sighted", ["walrus", "wildlife"]),
+      doc("other", "harbour notes", "seal colony sighted", ["coast", "wildlife"]),
+    ]);
+
+    expect(ids(search("walrus"))).toEqual(["title", "keywords", "body"]);
+  });
+});
+
+describe("prefix matches", () => {
+  it("expands a query term to longer terms at PREFIX_MATCH_WEIGHT of an exact hit", () => {
+    const [queryTerm] = tokenize("compile", "en");
+    const [expansion] = tokenize("compiler", "en");
+    expect(expansion).not.toBe(queryTerm);
+    expect(expansion.startsWith(queryTerm)).toBe(true);
+
+    // Mirror images: one page has the exact term, the other its expansion, each in one page only
+    const { search } = buildIndex([
+      doc("exact", "notes", "compile the graph"),
+      doc("prefix", "notes", "compiler the graph"),
+      doc("other", "notes", "render the graph"),
+    ]);
+
+    const results = search("compile");
+    expect(ids(results)).toEqual(["exact", "prefix"]);
+    expect(results[1].score).toBeCloseTo(results[0].score * PREFIX_MATCH_WEIGHT);
+    expect(results[1].matchedTerms).toEqual([queryTerm]);
+  });
+
+  it("counts only the best expansion per page", () => {
+    const lengths = { title: 1, keywords: 0, body: 4 };
+    const documents = new Map<string, SearchDocument>([["page", { nodeId: "page", lengths }]]);
+    const stats = applyToStats(applyToStats(emptyStats(), lengths, 1), lengths, 1);
+    const compiler: SearchPosting = { term: "compiler", nodeId: "page", tf: { body: 1 } };
+    const compilation: SearchPosting = { term: "compilation", nodeId: "page", tf: { body: 2 } };
+    const score = (postings: SearchPosting[]) =>
+      scoreDocuments(new Map([["compil", postings]]), documents, stats)[0].score;
+
+    expect(score([compiler, compilation])).toBeCloseTo(Math.max(score([compiler]), score([compilation])));
+    expect(score([compiler, compilation])).toBeCloseTo(score([compilation]));
+  });
+
+  it("leaves short query terms to exact matches", () => {
+    const page = doc("p", "Cats and catalogs", "A catalog of cat breeds");
+    const short = "ca";
+    expect(short.length).toBeLessThan(MIN_PREFIX_LENGTH);
+    expect(matchedQueryTerms([short], page)).toEqual([]);
+
+    const [catalog] = tokenize("catalog", "en");
+    expect(matchedQueryTerms(["cat", "catal", "dog"], page)).toEqual(["cat", "catal"]);
+    expect(matchedQueryTerms([catalog], page)).toEqual([catalog]);
+
+    const { search } = buildIndex([page, doc("q", "Dogs", "A dog")]);
+    expect(search("ca")).toEqual([]);
+  });
+});
+
+describe("corpus statistics", () => {
+  it("adds and removes a page's lengths", () => {
+    const { document } = analyzeDocument(doc("a", "Sea otters", "Otters float on their backs", ["otters"]));
+    const added = applyToStats(emptyStats(), document.lengths, 1);
+    expect(added.docCount).toBe(1);
+    expect(added.totalLengths).toEqual(document.lengths);
+    expect(applyToStats(added, document.lengths, -1)).toEqual(emptyStats());
+    // Never below zero, even when removing something that was never added
+    expect(applyToStats(emptyStats(), document.lengths, -1)).toEqual(emptyStats());
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Full-Text Index
+ * Tokenization and BM25F scoring for the persisted inverted index
+ *
+ * The index itself lives in IndexedDB (see `CortexStorage`): one posting per
+ * (term, page) pair plus per-page field lengths and corpus-wide totals.
+ * The SQLite engine indexes the same `tokenize()` terms with FTS5 instead.
+ * Terms are analyzed in the page's language (see client/lib/language.ts).
+ * Everything in this module is pure so it can be reused by any storage backend.
+ */
+
+import type { MemoryNode } from "@shared/extension-types";
+import { analyzeText, detectLanguage, type LanguageCode } from "@/lib/language";
+
+export type SearchField = "title" | "keywords" | "body";
+
+export type FieldFrequencies = Partial<Record<SearchField, number>>;
+export type FieldLengths = Record<SearchField, number>;
+
+export interface SearchPosting {
+  term: string;
+  nodeId: string;
+  tf: FieldFrequencies;
+}
+
+export interface SearchDocument {
+  nodeId: string;
+  lengths: FieldLengths;
+}
+
+export interface SearchStats {
+  docCount: number;
+  totalLengths: FieldLengths;
+}
+
+export interface ScoredDocument {
+  nodeId: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+// A title hit is worth three body hits, a keyword hit two
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  keywords: 2,
+  body: 1,
+};
+
+const FIELDS: SearchField[] = ["title", "keywords", "body"];
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Prefix expansions ("react" -> "reactive") count for half of an exact hit
+export const PREFIX_MATCH_WEIGHT = 0.5;
+export const MIN_PREFIX_LENGTH = 3;
+
+export function emptyLengths(): FieldLengths {
+  return { title: 0, keywords: 0, body: 0 };
+}
+
+export function emptyStats(): SearchStats {
+  return { docCount: 0, totalLengths: emptyLengths() };
+}
+
+/**
+ * Split text into index terms: segmented, lowercased, stopword-filtered and stemmed for
+ * `language` (detected from the text itself when not given)
+ */
+export function tokenize(text: string, language?: LanguageCode): string[] {
+  if (!text) return [];
+  return analyzeText(text, language ?? detectLanguage(text));
+}
+
+/**
+ * The language a page's text is analyzed in: the one stored on it, else detected
+ */
+export function documentLanguage(node: Pick<MemoryNode, "title" | "readableText" | "language">): LanguageCode {
+  return node.language || detectLanguage(`${node.title || ""} ${node.readableText || ""}`);
+}
+
+/**
+ * Build the index entries for one page
+ */
+export function analyzeDocument(
+  node: Pick<MemoryNode, "id" | "title" | "keywords" | "readableText" | "language">
+): { document: SearchDocument; postings: SearchPosting[] } {
+  // Every field in the page's language, so a title word stems the same as in the body
+  const language = documentLanguage(node);
+  const fieldTokens: Record<SearchField, string[]> = {
+    title: tokenize(node.title || "", language),
+    keywords: tokenize((node.keywords || []).join(" "), language),
+    body: tokenize(node.readableText || "", language),
+  };
+
+  const frequencies = new Map<string, FieldFrequencies>();
+  const lengths = emptyLengths();
+
+  for (const field of FIELDS) {
+    lengths[field] = fieldTokens[field].length;
+    for (const term of fieldTokens[field]) {
+      const tf = frequencies.get(term) || {};
+      tf[field] = (tf[field] || 0) + 1;
+      frequencies.set(term, tf);
+    }
+  }
+
+  return {
+    document: { nodeId: node.id, lengths },
+    postings: Array.from(frequencies.entries()).map(([term, tf]) => ({ term, nodeId: node.id, tf })),
+  };
+}
+
+/**
+ * Add or subtract a document's lengths from the corpus totals
+ */
+export function applyToStats(stats: SearchStats, lengths: FieldLengths, sign: 1 | -1): SearchStats {
+  const totalLengths = { ...stats.totalLengths };
+  for (const field of FIELDS) {
+    totalLengths[field] = Math.max(0, totalLengths[field] + sign * lengths[field]);
+  }
+  return { docCount: Math.max(0, stats.docCount + sign), totalLengths };
+}
+
+function inverseDocumentFrequency(docFreq: number, docCount: number): number {
+  return Math.log(1 + (docCount - docFreq + 0.5) / (docFreq + 0.5));
+}
+
+/**
+ * BM25F: length-normalize each field, combine with field weights, then saturate once
+ */
+export function bm25Score(
+  tf: FieldFrequencies,
+  lengths: FieldLengths,
+  stats: SearchStats,
+  docFreq: number
+): number {
+  let weightedTf = 0;
+  for (const field of FIELDS) {
+    const count = tf[field] || 0;
+    if (count === 0) continue;
+    const avgLength = stats.docCount > 0 ? stats.totalLengths[field] / stats.docCount : 0;
+    const norm = avgLength > 0 ? 1 - BM25_B + BM25_B * (lengths[field] / avgLength) : 1;
+    weightedTf += (FIELD_WEIGHTS[field] * count) / norm;
+  }
+  if (weightedTf === 0) return 0;
+
+  const idf = inverseDocumentFrequency(docFreq, Math.max(stats.docCount, docFreq));
+  return idf * ((weightedTf * (BM25_K1 + 1)) / (weightedTf + BM25_K1));
+}
+
+/**
+ * Score candidate documents for a query.
+ * `postingsByQueryTerm` maps each query term to every posting whose term equals it
+ * or (for long enough query terms) starts with it.
+ */
+export function scoreDocuments(
+  postingsByQueryTerm: Map<string, SearchPosting[]>,
+  documents: Map<string, SearchDocument>,
+  stats: SearchStats
+): ScoredDocument[] {
+  const scores = new Map<string, ScoredDocument>();
+
+  for (const [queryTerm, postings] of postingsByQueryTerm.entries()) {
+    // Document frequency per concrete (possibly expanded) term
+    const docFreq = new Map<string, number>();
+    postings.forEach((p) => docFreq.set(p.term, (docFreq.get(p.term) || 0) + 1));
+
+    // Best-matching expansion per document, so "react" doesn't score once per "react*" term
+    const best = new Map<string, number>();
+    for (const posting of postings) {
+      const document = documents.get(posting.nodeId);
+      if (!document) continue;
+      const weight = posting.term === queryTerm ? 1 : PREFIX_MATCH_WEIGHT;
+      const score = weight * bm25Score(posting.tf, document.lengths, stats, docFreq.get(posting.term)!);
+      if (score > (best.get(posting.nodeId) || 0)) {
+        best.set(posting.nodeId, score);
+      }
+    }
+
+    for (const [nodeId, score] of best.entries()) {
+      const entry = scores.get(nodeId) || { nodeId, score: 0, matchedTerms: [] };
+      entry.score += score;
+      entry.matchedTerms.push(queryTerm);
+      scores.set(nodeId, entry);
+    }
+  }
+
+  return Array.from(scores.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The query terms a page contains, exactly or (for MIN_PREFIX_LENGTH or more characters) as a prefix.
+ * For engines whose index ranks matches without reporting which terms hit.
+ */
+export function matchedQueryTerms(
+  queryTerms: string[],
+  node: Pick<MemoryNode, "id" | "title" | "keywords" | "readableText" | "language">
+): string[] {
+  const terms = analyzeDocument(node).postings.map((posting) => posting.term);
+  return queryTerms.filter((queryTerm) =>
+    terms.some((term) => term === queryTerm || (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)))
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { canonicalizeUrl } from "./url-canonical";
+import { pageIdForUrl } from "./page-id";
+import { sha256Hex } from "./sha256";
+
+describe("url canonicalization", () => {
+  it("drops tracking parameters and sorts the rest", () => {
+    expect(canonicalizeUrl("https://example.com/a?utm_source=x&b=2&fbclid=abc&a=1&gclid=z")).toBe(
+      "https://example.com/a?a=1&b=2"
+    );
+    expect(canonicalizeUrl("https://example.com/a?utm_medium=mail")).toBe("https://example.com/a");
+  });
+
+  it("normalizes scheme, host, trailing slash and fragments", () => {
+    expect(canonicalizeUrl("http://WWW.Example.com/docs/#install")).toBe("https://example.com/docs");
+    expect(canonicalizeUrl("https://user:pw@example.com/")).toBe("https://example.com/");
+    // Hash-based app routes identify different pages
+    expect(canonicalizeUrl("https://mail.example.com/#/inbox")).toBe("https://mail.example.com/#/inbox");
+    expect(canonicalizeUrl("chrome://settings")).toBe("chrome://settings");
+  });
+
+  it("honours a same-host canonical link only", () => {
+    expect(canonicalizeUrl("https://example.com/a?page=2", "/articles/a")).toBe("https://example.com/articles/a");
+    expect(canonicalizeUrl("https://example.com/a", "https://www.example.com/b")).toBe("https://example.com/b");
+    expect(canonicalizeUrl("https://example.com/a", "https://evil.test/a")).toBe("https://example.com/a");
+  });
+});
+
+describe("page ids", () => {
+  it("hashes the canonical URL with SHA-256", () => {
+    expect(sha256Hex("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(sha256Hex("")).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855");
+    expect(sha256Hex("a".repeat(1000))).toBe("41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3");
+  });
+
+  it("gives every spelling of a page the same id", () => {
+    const id = pageIdForUrl("https://example.com/post");
+    expect(id).toMatch(/^page_[0-9a-f]{32}$/);
+    expect(pageIdForUrl("http://www.example.com/post/?utm_campaign=x#top")).toBe(id);
+    expect(pageIdForUrl("https://example.com/other")).not.toBe(id);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * URL Canonicalization
+ * Reduce the many spellings of a page's URL to one canonical form
+ *
+ * Two URLs that differ only by tracking parameters, fragment, `www.`, a
+ * trailing slash, query parameter order or http vs https are the same page.
+ */
+
+// Click ids and analytics parameters that never change what a page shows
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "twclid",
+  "ttclid",
+  "li_fat_id",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "_hsenc",
+  "_hsmi",
+  "__hstc",
+  "__hssc",
+  "__hsfp",
+  "mkt_tok",
+  "oly_anon_id",
+  "oly_enc_id",
+  "vero_id",
+  "rb_clickid",
+  "s_cid",
+  "ref_src",
+]);
+const TRACKING_PREFIXES = ["utm_", "pk_", "mtm_", "hsa_"];
+
+export function isTrackingParam(name: string): boolean {
+  const key = name.toLowerCase();
+  return TRACKING_PARAMS.has(key) || TRACKING_PREFIXES.some((prefix) => key.startsWith(prefix));
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/\.$/, "").replace(/^www\./, "");
+}
+
+/**
+ * A `<link rel=canonical>` target, if it is safe to use for `page`.
+ * Only same-host targets are honoured so a page cannot claim another site's memory.
+ */
+function canonicalTarget(hint: string, page: URL): URL | null {
+  try {
+    const target = new URL(hint, page);
+    if (target.protocol !== "http:" && target.protocol !== "https:") return null;
+    return normalizeHost(target.hostname) === normalizeHost(page.hostname) ? target : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Canonical form of a page URL, optionally preferring the page's declared canonical URL
+ */
+export function canonicalizeUrl(rawUrl: string, canonicalHint?: string): string {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return rawUrl.trim();
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return url.href;
+
+  const target = canonicalHint ? canonicalTarget(canonicalHint, url) : null;
+  if (target) url = target;
+
+  url.protocol = "https:";
+  url.hostname = normalizeHost(url.hostname);
+  url.username = "";
+  url.password = "";
+
+  // Drop trackers and sort the rest by name (a stable sort keeps repeated keys in order)
+  const params = Array.from(url.searchParams.entries())
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = params.length > 0 ? new URLSearchParams(params).toString() : "";
+
+  // Fragments are in-page anchors, except hash-based app routes like #/inbox or #!/inbox
+  if (!/^#!?\//.test(url.hash)) url.hash = "";
+
+  if (url.pathname.length > 1) {
+    url.pathname = url.pathname.replace(/\/+$/, "") || "/";
+  }
+
+  return url.href;
+}
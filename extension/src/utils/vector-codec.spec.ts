@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { packVector, unpackVector, isPackedVector } from "./vector-codec";
+import { cosineSimilarity, ANNIndex } from "./vector-search";
+
+const vector = Array.from({ length: 384 }, (_, i) => Math.sin(i * 0.37) * 0.2);
+const other = Array.from({ length: 384 }, (_, i) => Math.cos(i * 0.11) * 0.3);
+
+describe("vector codec", () => {
+  it("round-trips float32 vectors", () => {
+    const packed = packVector(vector);
+    expect(packed.data).toBeInstanceOf(Float32Array);
+    expect(packed.data.byteLength).toBe(384 * 4);
+    unpackVector(packed).forEach((value, i) => expect(value).toBeCloseTo(vector[i], 6));
+  });
+
+  it("quantizes to int8 with a per-vector scale", () => {
+    const packed = packVector(vector, "int8");
+    expect(packed.data).toBeInstanceOf(Int8Array);
+    expect(packed.data.byteLength).toBe(384);
+    const maxError = Math.max(...unpackVector(packed).map((value, i) => Math.abs(value - vector[i])));
+    expect(maxError).toBeLessThanOrEqual(packed.scale / 2 + 1e-9);
+  });
+
+  it("scores packed vectors without decoding them", () => {
+    const exact = cosineSimilarity(vector, other);
+    const index = new ANNIndex();
+    index.add("quantized", packVector(other, "int8"));
+    const [match] = index.search(vector, 1, -1);
+    expect(match.nodeId).toBe("quantized");
+    expect(match.similarity).toBeCloseTo(exact, 2);
+    expect(isPackedVector(packVector(other))).toBe(true);
+    expect(isPackedVector(other)).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Vector Codec
+ * Compact binary storage format for embeddings
+ *
+ * Vectors are stored as a `Float32Array` (4 bytes per component) or, when
+ * quantization is enabled, as an `Int8Array` with one float scale per vector
+ * (1 byte per component). IndexedDB stores typed arrays natively, so neither
+ * format goes through a `number[]` of doubles.
+ */
+
+export type VectorFormat = "float32" | "int8";
+
+export interface PackedVector {
+  format: VectorFormat;
+  dim: number;
+  // Multiply a component by `scale` to get the original value back (1 for float32)
+  scale: number;
+  data: Float32Array | Int8Array;
+}
+
+/**
+ * Encode a vector for storage
+ */
+export function packVector(vector: ArrayLike<number>, format: VectorFormat = "float32"): PackedVector {
+  if (format === "float32") {
+    return { format, dim: vector.length, scale: 1, data: Float32Array.from(vector) };
+  }
+
+  // Symmetric scalar quantization: the largest magnitude maps to ±127
+  let maxAbs = 0;
+  for (let i = 0; i < vector.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+  }
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const data = new Int8Array(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    data[i] = Math.round(vector[i] / scale);
+  }
+  return { format, dim: vector.length, scale, data };
+}
+
+/**
+ * Decode a stored vector back into plain numbers
+ */
+export function unpackVector(packed: PackedVector): number[] {
+  const vector = new Array<number>(packed.dim);
+  for (let i = 0; i < packed.dim; i++) {
+    vector[i] = packed.data[i] * packed.scale;
+  }
+  return vector;
+}
+
+/**
+ * Components proportional to the original vector, without decoding.
+ * Good enough for anything scale-invariant (cosine similarity, projection signs).
+ */
+export function vectorView(packed: PackedVector): ArrayLike<number> {
+  return packed.data;
+}
+
+export function isPackedVector(value: unknown): value is PackedVector {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as PackedVector).data !== undefined &&
+    ArrayBuffer.isView((value as PackedVector).data)
+  );
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import { ANNIndex, BruteForceIndex, createSeededRandom, passageKey } from "./vector-search";
+import { packVector } from "./vector-codec";
+
+const DIM = 24;
+
+function vectors(count: number, seed = 3): Array<[string, number[]]> {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: count }, (_, i) => [`p${i}`, Array.from({ length: DIM }, () => random() * 2 - 1)]);
+}
+
+function build(entries: Array<[string, number[]]>, seed = 11): ANNIndex {
+  const index = new ANNIndex({ dim: DIM, seed });
+  entries.forEach(([id, vector]) => index.assign(id, vector, "m@1"));
+  return index;
+}
+
+describe("ANNIndex", () => {
+  const pages = vectors(60);
+
+  it("hashes the same vector to the same bucket for the same seed", () => {
+    const first = build(pages);
+    const second = build([...pages].reverse());
+    const sortBuckets = (index: ANNIndex) =>
+      index
+        .getBuckets()
+        .map(({ hash, nodeIds }) => ({ hash, nodeIds: [...nodeIds].sort() }))
+        .sort((a, b) => a.hash - b.hash);
+
+    expect(sortBuckets(second)).toEqual(sortBuckets(first));
+    expect(first.computeHash(pages[0][1])).toBe(new ANNIndex({ dim: DIM, seed: 11 }).computeHash(pages[0][1]));
+    // Another seed draws other projections
+    const hashes = pages.map(([, vector]) => first.computeHash(vector));
+    const reseeded = new ANNIndex({ dim: DIM, seed: 12 });
+    expect(pages.map(([, vector]) => reseeded.computeHash(vector))).not.toEqual(hashes);
+  });
+
+  it("files packed vectors under the same bucket as their decoded values", () => {
+    const index = new ANNIndex({ dim: DIM, seed: 11 });
+    const [id, vector] = pages[4];
+    index.assign(id, packVector(vector, "int8"), "m@1");
+    expect(index.getBucket(index.computeHash(vector))).toEqual([id]);
+    expect(index.isAssigned(id, vector)).toBe(true);
+  });
+
+  it("searches the same after a reload from persisted buckets", () => {
+    const index = build(pages);
+    const reloaded = new ANNIndex({ dim: DIM, seed: 11 });
+    reloaded.loadBuckets(JSON.parse(JSON.stringify(index.getBuckets())));
+    expect(reloaded.size).toBe(pages.length);
+    expect(reloaded.nodeIds().sort()).toEqual(index.nodeIds().sort());
+
+    // Membership comes back without vectors; the caller supplies them for the candidates
+    const query = pages[7][1].map((value) => value + 0.05);
+    const candidates = reloaded.candidates(query, 5);
+    expect(reloaded.missingVectors(candidates).sort()).toEqual([...candidates].sort());
+    expect(reloaded.search(query, 5, 0.4, "m@1")).toEqual([]);
+
+    const byId = new Map(pages);
+    reloaded.missingVectors(candidates).forEach((id) => reloaded.cacheVector(id, byId.get(id)!, "m@1"));
+    expect(reloaded.missingVectors(candidates)).toEqual([]);
+    expect(reloaded.search(query, 5, 0.4, "m@1")).toEqual(index.search(query, 5, 0.4, "m@1"));
+    expect(reloaded.search(query, 1, 0.4, "m@1")[0].nodeId).toBe("p7");
+  });
+
+  it("reports exactly the buckets an update touched", () => {
+    const index = new ANNIndex({ dim: DIM, seed: 11 });
+    const [id, vector] = pages[0];
+    const hash = index.computeHash(vector);
+
+    expect(index.assign(id, vector)).toEqual([hash]);
+    // Unchanged bucket: nothing to persist
+    expect(index.assign(id, vector.map((value) => value * 2))).toEqual([]);
+
+    const moved = vector.map((value) => -value);
+    const movedHash = index.computeHash(moved);
+    expect(movedHash).not.toBe(hash);
+    expect(index.assign(id, moved)).toEqual([movedHash, hash]);
+    expect(index.getBucket(hash)).toEqual([]);
+    expect(index.getBucket(movedHash)).toEqual([id]);
+
+    const passage = { start: 0, end: 40, vector };
+    expect(index.assign(id, moved, undefined, [passage])).toEqual([hash]);
+    expect(index.getBucket(hash)).toEqual([passageKey(id, passage)]);
+    expect(index.size).toBe(1);
+
+    expect(index.unassign(id).sort()).toEqual([hash, movedHash].sort());
+    expect(index.getBuckets()).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+
+  it("tells when a page is filed under the wrong bucket", () => {
+    const index = build(pages.slice(0, 10));
+    const passages = [{ start: 0, end: 30, vector: pages[20][1] }];
+    index.assign("p1", pages[1][1], "m@1", passages);
+    expect(pages.slice(2, 10).every(([id, vector]) => index.isAssigned(id, vector))).toBe(true);
+    expect(index.isAssigned("p1", pages[1][1], passages)).toBe(true);
+
+    // Passages that differ from the indexed ones
+    expect(index.isAssigned("p1", pages[1][1])).toBe(false);
+    expect(index.isAssigned("p1", pages[1][1], [{ ...passages[0], vector: pages[1][1].map((v) => -v) }])).toBe(false);
+    // A vector that changed since it was filed, and a page that was never indexed
+    expect(index.isAssigned("p2", pages[2][1].map((v) => -v))).toBe(false);
+    expect(index.isAssigned("p30", pages[30][1])).toBe(false);
+
+    // Buckets persisted with a page under another page's hash
+    const corrupted = index.getBuckets().map(({ hash, nodeIds }) => ({ hash, nodeIds: nodeIds.filter((id) => id !== "p3") }));
+    const elsewhere = corrupted.find(({ hash }) => hash !== index.computeHash(pages[3][1]))!;
+    elsewhere.nodeIds.push("p3");
+    const reloaded = new ANNIndex({ dim: DIM, seed: 11 });
+    reloaded.loadBuckets(corrupted);
+    expect(reloaded.isAssigned("p3", pages[3][1])).toBe(false);
+    expect(reloaded.isAssigned("p4", pages[4][1])).toBe(true);
+  });
+
+  it("keeps a checksum that only depends on bucket membership", () => {
+    const index = build(pages.slice(0, 10));
+    const passages = [{ start: 0, end: 30, vector: pages[20][1] }];
+    index.assign("p1", pages[1][1], "m@1", passages);
+    const checksum = index.checksum();
+
+    // Same membership in another order, or reloaded from persisted buckets
+    const reordered = build(pages.slice(0, 10).reverse());
+    reordered.assign("p1", pages[1][1], "m@1", passages);
+    expect(reordered.checksum()).toBe(checksum);
+    const reloaded = new ANNIndex({ dim: DIM, seed: 11 });
+    reloaded.loadBuckets(index.getBuckets());
+    expect(reloaded.checksum()).toBe(checksum);
+
+    // Moving a page changes it, moving it back restores it
+    index.assign("p2", pages[2][1].map((v) => -v), "m@1");
+    expect(index.checksum()).not.toBe(checksum);
+    index.assign("p2", pages[2][1], "m@1");
+    expect(index.checksum()).toBe(checksum);
+
+    index.nodeIds().forEach((id) => index.unassign(id));
+    expect(index.checksum()).toBe(0);
+  });
+
+  it("finds what brute force finds among its candidates", () => {
+    const index = build(pages);
+    const exact = new BruteForceIndex();
+    pages.forEach(([id, vector]) => exact.add(id, vector));
+    for (const [, vector] of pages.slice(0, 10)) {
+      const [best] = exact.search(vector, 1, -1);
+      expect(index.search(vector, 1, -1)[0]).toMatchObject({ nodeId: best.nodeId });
+    }
+  });
+});
@@ -4,6 +4,8 @@
  */
 
 import type { Embedding, MemoryNode, SemanticMatch } from "@shared/extension-types";
+import { isPackedVector, vectorView, type PackedVector } from "./vector-codec";
+import { assertSameModel } from "./embedding-models";
 
 export interface VectorIndex {
   add(nodeId: string, vector: number[]): void;
@@ -51,34 +53,129 @@ export class BruteForceIndex implements VectorIndex {
   }
 }
 
+export interface ANNIndexConfig {
+  seed: number;
+  numHashes: number;
+  dim: number;
+}
+
+export interface ANNBucket {
+  hash: number;
+  nodeIds: string[];
+}
+
+/**
+ * A passage vector to index alongside its page
+ */
+export interface IndexedPassage {
+  start: number;
+  end: number;
+  vector: number[] | PackedVector;
+}
+
+export interface ANNMatch {
+  nodeId: string;
+  similarity: number;
+  // Best-scoring passage, for pages indexed with passages
+  passage?: { start: number; end: number };
+}
+
+const PASSAGE_KEY = /^(.*)#(\d+)-(\d+)$/;
+
+/**
+ * Index key of a page passage; pages themselves are keyed by their id
+ */
+export function passageKey(nodeId: string, passage: { start: number; end: number }): string {
+  return `${nodeId}#${passage.start}-${passage.end}`;
+}
+
+export function parseIndexKey(key: string): { nodeId: string; passage?: { start: number; end: number } } {
+  const match = PASSAGE_KEY.exec(key);
+  return match ? { nodeId: match[1], passage: { start: Number(match[2]), end: Number(match[3]) } } : { nodeId: key };
+}
+
+export const DEFAULT_ANN_CONFIG: ANNIndexConfig = {
+  seed: 0x5eed1e55,
+  numHashes: 16,
+  dim: 384,
+};
+
+/**
+ * Deterministic PRNG (mulberry32) so projections are identical across worker restarts
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Approximate Nearest Neighbors Index using Random Projection Hashing
  * Faster than brute force for large datasets
+ *
+ * Projections come from a seeded PRNG, so a node always lands in the same bucket.
+ * Bucket membership can be loaded without vectors (`loadBuckets`); vectors are then
+ * cached lazily as the caller supplies them for candidate scoring. Packed vectors
+ * are kept packed and scored straight from their typed array. Vectors cached with a
+ * model key are only scored against queries for that same model.
+ *
+ * Passages of long pages are indexed under their own keys (`passageKey`), so a query
+ * close to any one passage finds the page. Results are per page, scored by the page
+ * vector or its best passage, whichever is closer.
+ *
+ * `checksum()` sums a hash of every (key, bucket) membership and is kept up to date on each
+ * change, so persisted buckets can be checked against the checksum saved with them without
+ * reading any vectors.
  */
 export class ANNIndex implements VectorIndex {
-  private vectors: Map<string, number[]> = new Map();
+  private vectors: Map<string, ArrayLike<number>> = new Map();
+  private models: Map<string, string> = new Map();
   private hashes: Map<string, number> = new Map();
   private buckets: Map<number, string[]> = new Map();
+  // Passage keys indexed for each page
+  private passageKeys: Map<string, string[]> = new Map();
+  private membershipSum = 0;
   private projectionMatrix: number[][] = [];
-  private numHashes = 16;
-  private dim = 384;
+  private readonly config: ANNIndexConfig;
 
-  constructor() {
-    // Generate fixed random projection matrix
-    for (let i = 0; i < this.numHashes; i++) {
+  constructor(config: Partial<ANNIndexConfig> = {}) {
+    this.config = { ...DEFAULT_ANN_CONFIG, ...config };
+    const random = createSeededRandom(this.config.seed);
+    for (let i = 0; i < this.config.numHashes; i++) {
       const row = [];
-      for (let j = 0; j < this.dim; j++) {
-        row.push(Math.random() * 2 - 1);
+      for (let j = 0; j < this.config.dim; j++) {
+        row.push(random() * 2 - 1);
       }
       this.projectionMatrix.push(row);
     }
   }
 
-  private computeHash(vector: number[]): number {
+  getConfig(): ANNIndexConfig {
+    return { ...this.config };
+  }
+
+  // Indexed pages (not counting their passages)
+  get size(): number {
+    return this.hashes.size - Array.from(this.passageKeys.values()).reduce((sum, keys) => sum + keys.length, 0);
+  }
+
+  /**
+   * Order-independent fingerprint of bucket membership: equal for equal buckets
+   */
+  checksum(): number {
+    return this.membershipSum;
+  }
+
+  computeHash(vector: ArrayLike<number>): number {
     let hash = 0;
-    for (let i = 0; i < this.numHashes; i++) {
+    for (let i = 0; i < this.config.numHashes; i++) {
       let dot = 0;
-      for (let j = 0; j < this.dim; j++) {
+      for (let j = 0; j < this.config.dim; j++) {
         dot += vector[j] * this.projectionMatrix[i][j];
       }
       if (dot > 0) {
@@ -88,28 +185,116 @@ export class ANNIndex implements VectorIndex {
     return hash;
   }
 
-  add(nodeId: string, vector: number[]): void {
-    this.vectors.set(nodeId, vector);
-    const hash = this.computeHash(vector);
+  add(nodeId: string, vector: number[] | PackedVector): void {
+    this.assign(nodeId, vector);
+  }
+
+  /**
+   * Insert or move a node and replace its passages; returns the bucket hashes whose membership changed
+   */
+  assign(nodeId: string, vector: number[] | PackedVector, model?: string, passages: IndexedPassage[] = []): number[] {
+    const changed = this.assignKey(nodeId, vector, model);
+    const keys = passages.map((passage) => passageKey(nodeId, passage));
+    for (const stale of this.passageKeys.get(nodeId) || []) {
+      if (keys.includes(stale)) continue;
+      const hash = this.unassignKey(stale);
+      if (hash !== undefined) changed.push(hash);
+    }
+    passages.forEach((passage, i) => changed.push(...this.assignKey(keys[i], passage.vector, model)));
+    this.setPassageKeys(nodeId, keys);
+    return changed;
+  }
+
+  private assignKey(nodeId: string, vector: number[] | PackedVector, model?: string): number[] {
+    const previous = this.hashes.get(nodeId);
+    const components = scoringView(vector);
+    const hash = this.computeHash(components);
+    this.vectors.set(nodeId, components);
+    this.setModel(nodeId, model);
+    if (previous === hash) return [];
+
+    const changed = [hash];
+    if (previous !== undefined) {
+      this.removeFromBucket(previous, nodeId);
+      changed.push(previous);
+    }
     this.hashes.set(nodeId, hash);
-    
     if (!this.buckets.has(hash)) {
       this.buckets.set(hash, []);
     }
     this.buckets.get(hash)!.push(nodeId);
+    this.track(nodeId, hash, 1);
+    return changed;
   }
 
-  search(
-    queryVector: number[],
-    k: number = 10,
-    threshold: number = 0.4
-  ): Array<{ nodeId: string; similarity: number }> {
+  /**
+   * Whether a page and exactly its passages sit in the buckets their vectors hash to
+   */
+  isAssigned(nodeId: string, vector: number[] | PackedVector, passages: IndexedPassage[] = []): boolean {
+    if ((this.passageKeys.get(nodeId) || []).length !== passages.length) return false;
+    const entries: Array<[string, number[] | PackedVector]> = [
+      [nodeId, vector],
+      ...passages.map((passage): [string, number[] | PackedVector] => [passageKey(nodeId, passage), passage.vector]),
+    ];
+    return entries.every(([key, keyVector]) => this.hashes.get(key) === this.computeHash(scoringView(keyVector)));
+  }
+
+  /**
+   * Restore bucket membership from persisted buckets (vectors are loaded on demand)
+   */
+  loadBuckets(buckets: ANNBucket[]): void {
+    this.clear();
+    for (const { hash, nodeIds } of buckets) {
+      this.buckets.set(hash, [...nodeIds]);
+      nodeIds.forEach((id) => {
+        this.hashes.set(id, hash);
+        this.track(id, hash, 1);
+      });
+    }
+    for (const key of this.hashes.keys()) {
+      const { nodeId, passage } = parseIndexKey(key);
+      if (passage) this.setPassageKeys(nodeId, [...(this.passageKeys.get(nodeId) || []), key]);
+    }
+  }
+
+  getBucket(hash: number): string[] {
+    return this.buckets.get(hash) || [];
+  }
+
+  getBuckets(): ANNBucket[] {
+    return Array.from(this.buckets.entries()).map(([hash, nodeIds]) => ({ hash, nodeIds: [...nodeIds] }));
+  }
+
+  /**
+   * Ids of the indexed pages
+   */
+  nodeIds(): string[] {
+    return Array.from(this.hashes.keys()).filter((key) => !parseIndexKey(key).passage);
+  }
+
+  cacheVector(nodeId: string, vector: number[] | PackedVector, model?: string, passages: IndexedPassage[] = []): void {
+    const entries: Array<[string, number[] | PackedVector]> = [
+      [nodeId, vector],
+      ...passages.map((passage): [string, number[] | PackedVector] => [passageKey(nodeId, passage), passage.vector]),
+    ];
+    for (const [key, keyVector] of entries) {
+      if (this.hashes.has(key)) {
+        this.vectors.set(key, scoringView(keyVector));
+        this.setModel(key, model);
+      }
+    }
+  }
+
+  /**
+   * Candidate node ids for a query: its bucket plus all buckets one bit away
+   */
+  candidates(queryVector: number[], k: number = 10): string[] {
     const queryHash = this.computeHash(queryVector);
     const candidates = new Set<string>();
     
     // Search in the same bucket and similar buckets (1-bit flip)
     const searchHashes = [queryHash];
-    for (let i = 0; i < this.numHashes; i++) {
+    for (let i = 0; i < this.config.numHashes; i++) {
       searchHashes.push(queryHash ^ (1 << i));
     }
 
@@ -122,18 +307,49 @@ export class ANNIndex implements VectorIndex {
 
     // If too few candidates, fall back to brute force over a larger subset or all
     if (candidates.size < k) {
-      for (const nodeId of this.vectors.keys()) {
+      for (const nodeId of this.hashes.keys()) {
         candidates.add(nodeId);
         if (candidates.size > 100) break; // Limit fallback
       }
     }
 
-    const results: Array<{ nodeId: string; similarity: number }> = [];
-    for (const nodeId of candidates) {
-      const vector = this.vectors.get(nodeId)!;
-      const similarity = cosineSimilarity(queryVector, vector);
-      if (similarity >= threshold) {
-        results.push({ nodeId, similarity });
+    return Array.from(candidates);
+  }
+
+  /**
+   * Pages among the given index keys whose page or passage vectors still need supplying before scoring
+   */
+  missingVectors(keys: string[]): string[] {
+    const missing = new Set<string>();
+    for (const key of keys) {
+      const { nodeId } = parseIndexKey(key);
+      const pageKeys = [nodeId, ...(this.passageKeys.get(nodeId) || [])];
+      if (pageKeys.some((pageKey) => this.hashes.has(pageKey) && !this.vectors.has(pageKey))) missing.add(nodeId);
+    }
+    return Array.from(missing);
+  }
+
+  /**
+   * With a `model` key, nodes embedded by any other model are never compared.
+   * A page found through one of its keys is scored on all of them.
+   */
+  search(queryVector: number[], k: number = 10, threshold: number = 0.4, model?: string): ANNMatch[] {
+    const pages = new Set(this.candidates(queryVector, k).map((key) => parseIndexKey(key).nodeId));
+    const results: ANNMatch[] = [];
+    for (const nodeId of pages) {
+      let best: ANNMatch | null = null;
+      let bestPassage: { similarity: number; passage: { start: number; end: number } } | null = null;
+      for (const key of [nodeId, ...(this.passageKeys.get(nodeId) || [])]) {
+        const vector = this.vectors.get(key);
+        if (!vector) continue;
+        if (model !== undefined && this.models.get(key) !== model) continue;
+        const similarity = cosineSimilarity(queryVector, vector);
+        if (!best || similarity > best.similarity) best = { nodeId, similarity };
+        const { passage } = parseIndexKey(key);
+        if (passage && (!bestPassage || similarity > bestPassage.similarity)) bestPassage = { similarity, passage };
+      }
+      if (best && best.similarity >= threshold) {
+        results.push(bestPassage ? { ...best, passage: bestPassage.passage } : best);
       }
     }
 
@@ -143,28 +359,96 @@ export class ANNIndex implements VectorIndex {
   }
 
   remove(nodeId: string): void {
+    this.unassign(nodeId);
+  }
+
+  /**
+   * Remove a node and its passages; returns the bucket hashes they were removed from
+   */
+  unassign(nodeId: string): number[] {
+    const keys = [nodeId, ...(this.passageKeys.get(nodeId) || [])];
+    this.passageKeys.delete(nodeId);
+    return keys.map((key) => this.unassignKey(key)).filter((hash): hash is number => hash !== undefined);
+  }
+
+  private unassignKey(nodeId: string): number | undefined {
     const hash = this.hashes.get(nodeId);
     if (hash !== undefined) {
-      const bucket = this.buckets.get(hash);
-      if (bucket) {
-        this.buckets.set(hash, bucket.filter(id => id !== nodeId));
-      }
+      this.removeFromBucket(hash, nodeId);
     }
     this.hashes.delete(nodeId);
     this.vectors.delete(nodeId);
+    this.models.delete(nodeId);
+    return hash;
+  }
+
+  private removeFromBucket(hash: number, nodeId: string): void {
+    const bucket = this.buckets.get(hash);
+    if (!bucket) return;
+    this.track(nodeId, hash, -1);
+    const remaining = bucket.filter(id => id !== nodeId);
+    if (remaining.length > 0) {
+      this.buckets.set(hash, remaining);
+    } else {
+      this.buckets.delete(hash);
+    }
+  }
+
+  private setPassageKeys(nodeId: string, keys: string[]): void {
+    if (keys.length > 0) {
+      this.passageKeys.set(nodeId, keys);
+    } else {
+      this.passageKeys.delete(nodeId);
+    }
+  }
+
+  private setModel(nodeId: string, model: string | undefined): void {
+    if (model === undefined) {
+      this.models.delete(nodeId);
+    } else {
+      this.models.set(nodeId, model);
+    }
   }
 
   clear(): void {
     this.vectors.clear();
+    this.models.clear();
     this.hashes.clear();
     this.buckets.clear();
+    this.passageKeys.clear();
+    this.membershipSum = 0;
+  }
+
+  private track(key: string, hash: number, sign: 1 | -1): void {
+    this.membershipSum = (this.membershipSum + sign * membershipHash(key, hash)) >>> 0;
+  }
+}
+
+// FNV-1a, 32-bit, over the key and then the bucket hash
+function membershipHash(key: string, bucket: number): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  for (let shift = 0; shift < 32; shift += 8) {
+    hash ^= (bucket >>> shift) & 0xff;
+    hash = Math.imul(hash, 0x01000193);
   }
+  return hash >>> 0;
+}
+
+/**
+ * Cosine is scale-invariant, so a packed vector's raw components score the same as its decoded values
+ */
+function scoringView(vector: number[] | PackedVector): ArrayLike<number> {
+  return isPackedVector(vector) ? vectorView(vector) : vector;
 }
 
 /**
  * Cosine similarity calculation
  */
-export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+export function cosineSimilarity(vecA: ArrayLike<number>, vecB: ArrayLike<number>): number {
   if (vecA.length !== vecB.length) {
     console.warn("Vector length mismatch:", vecA.length, vecB.length);
     return 0;
@@ -184,6 +468,14 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+/**
+ * Cosine similarity of two stored embeddings; refuses (throws) when they come from different models
+ */
+export function embeddingSimilarity(a: Embedding, b: Embedding): number {
+  assertSameModel(a, b);
+  return cosineSimilarity(a.vector, b.vector);
+}
+
 /**
  * Normalize vector to unit length
  */
@@ -264,6 +556,27 @@ function generateContextMatch(queryText: string, node: MemoryNode): string {
   return "Semantic similarity match";
 }
 
+/**
+ * Score added for query terms found in the title or domain
+ */
+export interface HybridBoosts {
+  exactTitle: number;
+  titleContainsQuery: number;
+  allWordsInTitle: number;
+  someWordsInTitle: number;
+  domainContainsQuery: number;
+  domainContainsWord: number;
+}
+
+export const DEFAULT_HYBRID_BOOSTS: HybridBoosts = {
+  exactTitle: 0.4,
+  titleContainsQuery: 0.25,
+  allWordsInTitle: 0.2,
+  someWordsInTitle: 0.1,
+  domainContainsQuery: 0.15,
+  domainContainsWord: 0.08,
+};
+
 /**
  * Calculate hybrid search score with title/domain boosting
  * Boosts semantic similarity based on exact matches in title and domain
@@ -271,7 +584,8 @@ function generateContextMatch(queryText: string, node: MemoryNode): string {
 export function calculateHybridScore(
   semanticSimilarity: number,
   node: MemoryNode,
-  query: string
+  query: string,
+  boosts: HybridBoosts = DEFAULT_HYBRID_BOOSTS
 ): number {
   const queryLower = query.toLowerCase();
   const titleLower = node.title.toLowerCase();
@@ -280,30 +594,30 @@ export function calculateHybridScore(
   
   let score = semanticSimilarity;
   
-  // Exact title match = huge boost (40%)
+  // Exact title match = huge boost
   if (titleLower === queryLower) {
-    score = Math.min(1.0, score + 0.4);
+    score = Math.min(1.0, score + boosts.exactTitle);
   }
-  // Title contains exact query = large boost (25%)
+  // Title contains exact query = large boost
   else if (titleLower.includes(queryLower)) {
-    score = Math.min(1.0, score + 0.25);
+    score = Math.min(1.0, score + boosts.titleContainsQuery);
   }
-  // All query words in title = medium boost (20%)
+  // All query words in title = medium boost
   else if (queryWords.every(word => titleLower.includes(word))) {
-    score = Math.min(1.0, score + 0.2);
+    score = Math.min(1.0, score + boosts.allWordsInTitle);
   }
-  // Some query words in title = small boost (10%)
+  // Some query words in title = small boost
   else if (queryWords.some(word => titleLower.includes(word))) {
-    score = Math.min(1.0, score + 0.1);
+    score = Math.min(1.0, score + boosts.someWordsInTitle);
   }
   
-  // Domain contains query = medium boost (15%)
+  // Domain contains query = medium boost
   if (domainLower.includes(queryLower)) {
-    score = Math.min(1.0, score + 0.15);
+    score = Math.min(1.0, score + boosts.domainContainsQuery);
   }
-  // Domain contains query words = small boost (8%)
+  // Domain contains query words = small boost
   else if (queryWords.some(word => domainLower.includes(word))) {
-    score = Math.min(1.0, score + 0.08);
+    score = Math.min(1.0, score + boosts.domainContainsWord);
   }
   
   return score;
@@ -0,0 +1,47 @@
+/**
+ * SQLite Web Worker
+ * Owns the SQLite database persisted in the Origin Private File System
+ *
+ * Started by the offscreen document; answers `SqliteRequest`s from the service
+ * worker on its BroadcastChannel. The opfs-sahpool VFS needs no
+ * cross-origin isolation headers, which extension pages cannot set.
+ */
+
+import sqlite3InitModule from "@sqlite.org/sqlite-wasm";
+import { SQLITE_CHANNEL, type SqliteRequest, type SqlRow } from "../utils/sqlite-client";
+import { serveChannel } from "../utils/offscreen";
+
+const DB_FILE = "/cortex-memory.sqlite3";
+
+async function openDatabase() {
+  const sqlite3 = await sqlite3InitModule();
+  const pool = await sqlite3.installOpfsSAHPoolVfs({ name: "cortex" });
+  const db = new pool.OpfsSAHPoolDb(DB_FILE);
+  // WAL is unavailable on OPFS, but a larger cache and in-memory temp tables help the aggregates
+  db.exec("PRAGMA foreign_keys = ON; PRAGMA temp_store = MEMORY; PRAGMA cache_size = -16000;");
+  console.log(`CortexSQLite: Opened ${DB_FILE} (SQLite ${sqlite3.version.libVersion})`);
+  return db;
+}
+
+// Opened once; a failure (e.g. no OPFS) is reported to every request
+const database = openDatabase();
+database.catch((error) => console.error("CortexSQLite: Failed to open database", error));
+
+async function handle(request: SqliteRequest): Promise<SqlRow[] | undefined> {
+  const db = await database;
+  switch (request.kind) {
+    case "open":
+      return undefined;
+    case "query":
+      return db.exec({ sql: request.sql, bind: request.params, rowMode: "object", returnValue: "resultRows" }) as SqlRow[];
+    case "run":
+      db.transaction(() => {
+        for (const statement of request.statements) {
+          db.exec({ sql: statement.sql, bind: statement.params });
+        }
+      });
+      return undefined;
+  }
+}
+
+serveChannel<SqliteRequest>(SQLITE_CHANNEL, handle);
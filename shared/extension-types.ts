@@ -11,34 +11,103 @@ export interface PageContext {
   tabId?: number;
   sessionId?: string;
   favicon?: string;
+  // <link rel="canonical"> of the page, if it declares one
+  canonicalUrl?: string;
   metadata?: {
     domain: string;
   };
+  // How the page was reached, from the Navigation Timing API
+  navigation?: {
+    type: "navigate" | "reload" | "back_forward" | "prerender";
+    referrer?: string;
+  };
 }
 
 export interface Embedding {
   vector: number[];
   model: "onnx-sentence" | "ggml" | "wasm" | "fallback";
+  // Registry id and version of the model (see embedding-models.ts); absent on older embeddings
+  modelId?: string;
+  modelVersion?: number;
   timestamp: number;
+  // Overlapping passages of a long page, embedded by the same model; [] when the page vector covers it all
+  passages?: PassageVector[];
+}
+
+/**
+ * Embedding of one passage of `readableText`, `start` to `end` (character offsets)
+ */
+export interface PassageVector {
+  start: number;
+  end: number;
+  vector: number[];
+}
+
+/**
+ * The passage of a page that best matched a search
+ */
+export interface PassageHit {
+  start: number;
+  end: number;
+  text: string;
+  // Page URL with a text fragment (`#:~:text=`) that scrolls to and highlights the passage
+  url: string;
 }
 
 export interface MemoryNode {
   id: string;
+  // Address as last visited
   url: string;
+  // Normalized address the id is derived from (see url-canonical.ts)
+  canonicalUrl?: string;
   title: string;
   readableText: string;
   summary?: string;
   timestamp: number;
-  embedding?: Embedding;
   keywords: string[];
+  // Number of captures of this URL, including the first
+  visitCount?: number;
+  // Visit frequency and recency as of `frecencyAt`, decaying from then (see frecency.ts)
+  frecency?: number;
+  frecencyAt?: number;
+  // Pinned pages are never evicted or compacted by the storage budget
+  pinned?: boolean;
+  // Set when readableText was trimmed down to the summary to save space
+  compactedAt?: number;
+  // Content is encrypted and the key is not loaded: title and readableText are empty
+  locked?: boolean;
+  // Detected language of the page (BCP 47 primary subtag such as "en" or "ja"; "und" when unclear)
+  language?: string;
   metadata: {
     domain: string;
     favicon?: string;
     tabId?: number;
     sessionId?: string;
+    // Dashboard profile that was active when the page was captured
+    userId?: string;
   };
 }
 
+/**
+ * Characters `start` to `end` (exclusive) of a string
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * The sentences of a page that best match a query, with the matched words marked
+ */
+export interface SearchSnippet {
+  // "…" marks where the page text was cut
+  text: string;
+  // Matched words and phrases in `text`
+  highlights: TextRange[];
+  // Matched words and phrases in the page title
+  titleHighlights: TextRange[];
+}
+
 export interface SemanticMatch {
   nodeId: string;
   similarity: number;
@@ -48,6 +117,107 @@ export interface SemanticMatch {
     contextMatch: string;
     semanticSimilarity: number;
   };
+  // For pages split into passages: the one that matched best
+  passage?: PassageHit;
+  // Query-aware excerpt, so results can be shown without the page text
+  snippet?: SearchSnippet;
+}
+
+/**
+ * How many search matches are in one language, for filtering results by language
+ */
+export interface LanguageFacet {
+  language: string;
+  count: number;
+}
+
+/**
+ * Order of search results: best match, newest capture, or most frequently and recently visited
+ */
+export type SearchSort = "relevance" | "recent" | "frecency";
+
+/**
+ * A way to finish what is being typed in the search box, and where it came from
+ */
+export interface QueryCompletion {
+  // The whole query with the completion applied
+  text: string;
+  kind: "query" | "keyword" | "title" | "domain";
+}
+
+/**
+ * A page whose title, keywords or domain match what is being typed
+ */
+export interface PageSuggestion {
+  id: string;
+  url: string;
+  title: string;
+  domain: string;
+  favicon?: string;
+}
+
+export interface QuerySuggestions {
+  input: string;
+  completions: QueryCompletion[];
+  pages: PageSuggestion[];
+}
+
+/**
+ * A page found by a saved search. Only the id is kept, so saved searches hold no page content.
+ */
+export interface SavedSearchHit {
+  nodeId: string;
+  matchedAt: number;
+  // Pages that already matched when the search was saved start out seen
+  seen: boolean;
+}
+
+/**
+ * A named query (operators included) checked against every new capture
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  // Same as the search box's language filter
+  language?: string;
+  // Show a notification for new hits, not just the badge
+  notify: boolean;
+  createdAt: number;
+  // Newest first
+  hits: SavedSearchHit[];
+}
+
+/**
+ * A saved search as the Dashboard lists it, with its hits joined to their pages
+ */
+export interface SavedSearchView extends Omit<SavedSearch, "hits"> {
+  matches: Array<PageSuggestion & Omit<SavedSearchHit, "nodeId">>;
+  unseenCount: number;
+}
+
+/**
+ * One operator of a search query, e.g. `site:github.com` or `-"exact phrase"`
+ */
+export interface SearchFilter {
+  kind: "site" | "before" | "after" | "phrase" | "term" | "cluster" | "tag" | "lang";
+  // As written, without the operator or quotes
+  value: string;
+  // `-site:`, `-"phrase"`, `-word`: pages matching it are left out
+  negated: boolean;
+  // The token in the query, so the UI can remove it
+  raw: string;
+  // before/after: the resolved point in time
+  time?: number;
+}
+
+/**
+ * A search query split into the text to rank by and the filters to apply first
+ */
+export interface ParsedQuery {
+  // Free text for ranking, including the words of quoted phrases
+  text: string;
+  filters: SearchFilter[];
 }
 
 export interface MemoryCluster {
@@ -59,11 +229,210 @@ export interface MemoryCluster {
   keywords: string[];
 }
 
+/**
+ * Earlier capture of a page, kept when a revisit finds different content
+ */
+export interface PageRevision {
+  id: string;
+  nodeId: string;
+  url: string;
+  title: string;
+  readableText: string;
+  // When this version was captured
+  timestamp: number;
+  locked?: boolean;
+}
+
+export interface TextDiffSegment {
+  op: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface PageHistory {
+  nodeId: string;
+  url: string;
+  title: string;
+  timestamp: number;
+  // Newest first
+  revisions: PageRevision[];
+  // Changes from the selected (default: latest) revision to the current capture
+  diff: {
+    fromRevisionId: string;
+    fromTimestamp: number;
+    previousTitle: string;
+    titleChanged: boolean;
+    segments: TextDiffSegment[];
+    added: number;
+    removed: number;
+  } | null;
+}
+
+/**
+ * A stretch of browsing across all tabs, ended by an idle gap
+ */
+export interface SessionRecord {
+  id: string;
+  startTime: number;
+  // Latest activity; the session keeps growing until the idle gap has passed
+  endTime: number;
+  pageIds: string[];
+  domains: string[];
+  // Most common keywords across the session's pages
+  keywords: string[];
+  // Keyword -> number of pages in the session that have it
+  keywordCounts: Record<string, number>;
+  tabIds: number[];
+}
+
+/**
+ * A stored session together with its pages
+ */
+export interface BrowsingSession extends SessionRecord {
+  pages: MemoryNode[];
+}
+
+export type VisitTransition = "link" | "typed" | "reload" | "back_forward" | "other";
+
+/**
+ * One visit to a page, kept in the activity store
+ */
+export interface VisitEvent {
+  id: string;
+  type: "visit";
+  nodeId: string;
+  url: string;
+  // When the visit started
+  timestamp: number;
+  // Set once the tab navigates away, the page is hidden or the tab closes
+  endTimestamp?: number;
+  tabId?: number;
+  transition: VisitTransition;
+  // Page the user came from, when it is in memory
+  referrerNodeId?: string;
+}
+
+export interface EncryptionStatus {
+  enabled: boolean;
+  // Enabled but the key is not loaded: captures are skipped and page content is unreadable
+  locked: boolean;
+  createdAt?: number;
+  rotatedAt?: number;
+}
+
+export type StorageEngineKind = "indexeddb" | "sqlite";
+
+export interface StorageEngineStatus {
+  // Engine serving requests right now
+  active: StorageEngineKind;
+  // Engine the user chose; differs from `active` while falling back
+  preferred: StorageEngineKind;
+  // Why the preferred engine could not be opened (e.g. no OPFS in this browser)
+  fallbackReason?: string;
+  migrating: boolean;
+}
+
+export interface EmbeddingModelInfo {
+  id: string;
+  // Bumped whenever the model's output changes, so old vectors are re-embedded
+  version: number;
+  dimension: number;
+  kind: Embedding["model"];
+  label: string;
+}
+
+export interface ReindexProgress {
+  // Registry key (`id@version`) pages are being re-embedded with
+  model: string;
+  // "paused": stopped early (model unavailable, memory locked); resumes on the next start
+  status: "running" | "paused" | "done";
+  total: number;
+  done: number;
+  startedAt: number;
+  updatedAt: number;
+  error?: string;
+}
+
+export interface EmbeddingStatus {
+  models: EmbeddingModelInfo[];
+  // Model new captures and searches use
+  active: EmbeddingModelInfo;
+  reindex: ReindexProgress | null;
+}
+
+export type EvictionPolicy = "oldest" | "least-visited" | "largest";
+
+/**
+ * Outcome of one storage budget pass
+ */
+export interface StorageBudgetReport {
+  timestamp: number;
+  trigger: "capture" | "scheduled" | "manual";
+  policy: EvictionPolicy;
+  budgetBytes: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  // False when everything evictable is gone and usage is still over budget (e.g. pinned pages)
+  withinBudget: boolean;
+  compacted: number;
+  evicted: Array<{ id: string; title: string; url: string; bytes: number }>;
+  orphans: { embeddings: number; edges: number; revisions: number };
+}
+
+/**
+ * Which saved pages a forget request covers; an empty filter means everything
+ */
+export interface ForgetFilter {
+  nodeIds?: string[];
+  domain?: string;
+  startDate?: number;
+  endDate?: number;
+  userId?: string | null;
+}
+
+/**
+ * What a forget request would remove, shown before the user confirms
+ */
+export interface ForgetPreview {
+  pageCount: number;
+  domains: Array<{ domain: string; count: number }>;
+  oldest?: number;
+  newest?: number;
+  samples: Array<{ id: string; title: string; url: string }>;
+  // Records deleted along with the pages
+  related: { embeddings: number; revisions: number; visits: number; edges: number; clusters: number };
+  // False when everything is cleared: that skips the trash and cannot be undone
+  restorable: boolean;
+  // Trash entries an everything-wipe would also erase
+  trashEntries: number;
+}
+
+/**
+ * One forget request held in the trash until it is restored or expires
+ */
+export interface TrashEntry {
+  id: string;
+  // What was forgotten, e.g. a domain or a date range
+  label: string;
+  deletedAt: number;
+  expiresAt: number;
+  pageCount: number;
+  domains: string[];
+}
+
 export interface CaptureSettings {
   enabled: boolean;
   excludeDomains: string[];
   excludeKeywords: string[];
   maxStorageSize: number;
+  // Store new embeddings as int8 with a per-vector scale instead of float32
+  quantizeEmbeddings?: boolean;
+  // Prior versions kept per page when its content changes (0 turns history off and drops a page's earlier ones on its next change)
+  maxRevisionsPerPage?: number;
+  // Which pages the storage budget removes first once maxStorageSize is exceeded
+  evictionPolicy?: EvictionPolicy;
+  keepPinnedPages?: boolean;
+  // Pages older than this may have their text trimmed to a summary before anything is evicted
+  compactAfterDays?: number;
 }
 
 export interface PrivacyRule {
@@ -109,8 +478,108 @@ export type ExtensionMessage =
       payload: {
         query: string;
         limit?: number;
+        // Only return pages in this language (see LanguageFacet)
+        language?: string;
+        sort?: SearchSort;
+      };
+    }
+  | {
+      type: "SUGGEST_QUERY";
+      payload: {
+        // The search box as typed so far
+        input: string;
+        limit?: number;
+      };
+    }
+  | {
+      type: "GET_SAVED_SEARCHES";
+      payload?: Record<string, never>;
+    }
+  | {
+      type: "SAVE_SEARCH";
+      payload: { name: string; query: string; language?: string; notify?: boolean };
+    }
+  | {
+      type: "DELETE_SAVED_SEARCH";
+      payload: { id: string };
+    }
+  | {
+      type: "MARK_SAVED_SEARCH_SEEN";
+      // Without a nodeId, every hit of the search
+      payload: { id: string; nodeId?: string };
+    }
+  | {
+      type: "GET_PAGE_HISTORY";
+      payload: {
+        nodeId: string;
+        // Revision to diff against the current capture; defaults to the most recent one
+        revisionId?: string;
       };
     }
+  | {
+      type: "GET_STORAGE_REPORT";
+      payload?: Record<string, never>;
+    }
+  | {
+      type: "RUN_STORAGE_BUDGET";
+      payload?: Record<string, never>;
+    }
+  | {
+      // Sent by the content script on pagehide; ends the open visit in the sender's tab
+      type: "VISIT_ENDED";
+      payload?: Record<string, never>;
+    }
+  | {
+      type: "GET_PAGE_VISITS";
+      payload: { nodeId: string; limit?: number };
+    }
+  | {
+      // Newest first
+      type: "GET_SESSIONS";
+      payload?: { limit?: number; since?: number };
+    }
+  | {
+      type: "GET_SESSION";
+      payload: { sessionId: string };
+    }
+  | {
+      type: "PIN_PAGE";
+      payload: { nodeId: string; pinned: boolean };
+    }
+  | {
+      type: "GET_ENCRYPTION_STATUS";
+      payload?: Record<string, never>;
+    }
+  | {
+      // Returns the one-time recovery key
+      type: "ENABLE_ENCRYPTION";
+      payload: { passphrase: string };
+    }
+  | {
+      type: "DISABLE_ENCRYPTION";
+      payload: { passphrase: string };
+    }
+  | {
+      type: "UNLOCK_MEMORY";
+      payload: { passphrase: string };
+    }
+  | {
+      type: "LOCK_MEMORY";
+      payload?: Record<string, never>;
+    }
+  | {
+      type: "CHANGE_PASSPHRASE";
+      payload: { currentPassphrase: string; newPassphrase: string };
+    }
+  | {
+      // Re-encrypts everything with a new data key; returns a new recovery key
+      type: "ROTATE_ENCRYPTION_KEY";
+      payload: { passphrase: string };
+    }
+  | {
+      type: "RECOVER_ENCRYPTION";
+      payload: { recoveryKey: string; newPassphrase: string };
+    }
   | {
       type: "GET_SUGGESTIONS";
       payload: {
@@ -131,14 +600,26 @@ export type ExtensionMessage =
       payload: { id: string };
     }
   | {
+      // Moves the matching pages to the trash; an empty filter clears everything for good
       type: "FORGET_DATA";
-      payload: {
-        ruleId?: string;
-        domain?: string;
-        startDate?: number;
-        endDate?: number;
-        userId?: string | null;
-      };
+      payload: ForgetFilter & { ruleId?: string };
+    }
+  | {
+      type: "PREVIEW_FORGET";
+      payload: ForgetFilter;
+    }
+  | {
+      type: "GET_TRASH";
+      payload?: Record<string, never>;
+    }
+  | {
+      type: "RESTORE_DATA";
+      payload: { trashId: string };
+    }
+  | {
+      // Without a trashId the whole trash is emptied
+      type: "EMPTY_TRASH";
+      payload: { trashId?: string };
     }
   | {
       type: "SET_ACTIVE_USER";
@@ -160,6 +641,29 @@ export type ExtensionMessage =
       type: "GET_ACTIVITY_INSIGHTS";
       payload: Record<string, never>;
     }
+  | {
+      type: "GET_STORAGE_ENGINE";
+      payload?: Record<string, never>;
+    }
+  | {
+      // Copies everything into the chosen engine, then switches to it
+      type: "SET_STORAGE_ENGINE";
+      payload: { engine: StorageEngineKind };
+    }
+  | {
+      type: "GET_EMBEDDING_STATUS";
+      payload?: Record<string, never>;
+    }
+  | {
+      // Makes the model active and re-embeds every page in the background
+      type: "SET_EMBEDDING_MODEL";
+      payload: { modelId: string };
+    }
+  | {
+      // Starts (or resumes) re-embedding pages whose vectors come from another model
+      type: "REINDEX_EMBEDDINGS";
+      payload?: Record<string, never>;
+    }
   | {
       type: "GET_SHORTCUTS";
       payload: Record<string, never>;
@@ -10,6 +10,8 @@ export default defineConfig({
         background: path.resolve(__dirname, "extension/src/background/worker.ts"),
         embedding: path.resolve(__dirname, "extension/src/web-workers/embedding.worker.ts"),
         clustering: path.resolve(__dirname, "extension/src/web-workers/clustering.worker.ts"),
+        offscreen: path.resolve(__dirname, "extension/src/offscreen/offscreen.ts"),
+        sqlite: path.resolve(__dirname, "extension/src/web-workers/sqlite.worker.ts"),
       },
       output: {
         entryFileNames: "[name].js",